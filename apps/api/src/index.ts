@@ -0,0 +1,1060 @@
+import express, { type NextFunction, type Request, type Response } from "express";
+import cors from "cors";
+import { Queue } from "bullmq";
+import { ethers } from "ethers";
+import { query, dbHealthcheck, closePool } from "@w3/shared/db";
+import {
+  CANCELLED_BY_ADMIN,
+  REQUEST_TRANSITIONS,
+  createBundle,
+  currentStatusEvents,
+  findInflight,
+  getBundle,
+  getRequest,
+  listEvents,
+  listSignedTxs,
+  markFailed,
+  requeue,
+  resolveReview,
+  searchRequests,
+  statusEventsSince,
+} from "@w3/shared/requestRepo";
+import { sseFrame, type StatusEvent, type StatusFilter } from "@w3/shared/statusEvents";
+import { createStatusHub } from "@w3/shared/statusStream";
+import { addToAllowlist, listAllowlist, revokeFromAllowlist } from "@w3/shared/allowlistRepo";
+import {
+  createWebhookEndpoint,
+  deleteWebhookEndpoint,
+  emitWebhook,
+  listDeliveries,
+  listWebhookEndpoints,
+  setWebhookEndpointActive,
+} from "@w3/shared/webhookRepo";
+import { parseEventFilter, parseWebhookUrl } from "@w3/shared/webhooks";
+import { issueNonce, consumeNonce } from "@w3/shared/nonceRepo";
+import {
+  createSession,
+  findSession,
+  listSessions,
+  pruneSessions,
+  revokeAllSessions,
+  revokeSession,
+  rotateSession,
+  type Session,
+} from "@w3/shared/sessionRepo";
+import { sessionPolicyFromEnv, type SessionClient } from "@w3/shared/sessionPolicy";
+import { assertSchemaCurrent } from "@w3/shared/migrate";
+import { redis, redisHealthcheck, closeRedis } from "@w3/shared/redis";
+import { retryRpc } from "@w3/shared/retry";
+import { requireEnv, getIntEnv, getListEnv, getBoolEnv } from "@w3/shared/env";
+import { randHex, normalizeAddress, isoFromNow } from "@w3/shared/utils";
+import { eligibilityFromEnv, merkleSourceFromEnv, type EligibilityEngine } from "@w3/shared/eligibility";
+import { abuseScorerFromEnv } from "@w3/shared/abuse";
+import { captchaFromEnv, redisReplayGuard } from "@w3/shared/captcha";
+import { merkleLeaf, verifyMerkleProof } from "@w3/shared/merkle";
+import { loadChains, findChain, chainInfo, queueNameFor, txUrl, type ChainConfig } from "@w3/shared/chains";
+import { assetBalanceOf, assetDecimals, assetKey, toBaseUnits, type DripAsset } from "@w3/shared/assets";
+import { dailyBudgetLeftPct, decideAmount, needsRecipientBalance, type AmountRecord } from "@w3/shared/amountPolicy";
+import { budgetUsage, fitsBudget, type BudgetSpend, type BudgetUsage } from "@w3/shared/budgetRepo";
+import { getBreaker, type BreakerState } from "@w3/shared/breaker";
+import {
+  addRateLimitOverride,
+  checkRateLimit,
+  listRateLimitOverrides,
+  nextAllowedAt,
+  pruneRateLimitHits,
+  removeRateLimitOverride,
+} from "@w3/shared/rateLimit";
+import { RATE_DIMENSIONS, type RateDimension } from "@w3/shared/rateLimitPolicy";
+import { buildSiweMessage, getNonceFromMessage, verifySiwe, type Strategy } from "@w3/shared/siweAdapter";
+import { correlationIdFrom, logger, type Logger } from "@w3/shared/logger";
+import type {
+  AdminMetrics,
+  AdminRequestResponse,
+  AdminRequestsResponse,
+  AllowlistRequest,
+  AllowlistResponse,
+  AuthNonceRequest,
+  AuthNonceResponse,
+  AuthVerifyRequest,
+  AuthVerifyResponse,
+  ChainsResponse,
+  DripJob,
+  DripRequest,
+  DripResponse,
+  EligibilityResponse,
+  FaucetConfigResponse,
+  MerkleProofResponse,
+  MerkleVerifyRequest,
+  MerkleVerifyResponse,
+  RateLimitOverrideRequest,
+  RateLimitOverridesResponse,
+  RequestStatus,
+  RequestStatusResponse,
+  SessionsResponse,
+  WebhookDeliveriesResponse,
+  WebhookEndpointRequest,
+  WebhookEndpointsResponse,
+} from "@w3/shared/types";
+
+/* ── Env ───────────────────────────────────────────────────────────── */
+const REDIS_URL       = requireEnv("REDIS_URL");
+const CHAINS          = loadChains();
+const CHAIN_ID        = getIntEnv("CHAIN_ID", CHAINS[0].chainId); // chain bound into SIWE messages
+const PORT            = getIntEnv("PORT", 8080);
+
+const SIWE_DOMAIN     = requireEnv("SIWE_DOMAIN");
+const SIWE_URI        = process.env.SIWE_URI || `https://${SIWE_DOMAIN}`;
+const SIWE_STATEMENT  = process.env.SIWE_STATEMENT || "Sign in to the W3 Sepolia faucet";
+const SIWE_STRATEGY   = (process.env.SIWE_STRATEGY || "prefer-manual") as Strategy;
+const NONCE_TTL_SEC   = getIntEnv("NONCE_TTL_SEC", 300);
+const SESSION_POLICY  = sessionPolicyFromEnv();
+
+const FAUCET_ADDRESS  = normalizeAddress(process.env.FAUCET_ADDRESS);
+const ADMIN_ADDRESSES = new Set(getListEnv("ADMIN_ADDRESSES").map(a => a.toLowerCase()));
+const CORS_ORIGIN     = getListEnv("CORS_ORIGIN");
+const CAPTCHA_SITE_KEY = process.env.CAPTCHA_SITE_KEY || null;
+const STREAM_MAX_CLIENTS = getIntEnv("STREAM_MAX_CLIENTS", 1_000);
+const STREAM_HEARTBEAT_MS = getIntEnv("STREAM_HEARTBEAT_MS", 25_000);
+const WEBHOOK_ALLOW_HTTP = getBoolEnv("WEBHOOK_ALLOW_HTTP", false); // local receivers in development
+const DRIP_BALANCE_TIMEOUT_MS = getIntEnv("DRIP_BALANCE_TIMEOUT_MS", 3_000); // recipient balance read for sizing
+
+/* ── Chains + queues ───────────────────────────────────────────────── */
+const providers = new Map<number, ethers.JsonRpcProvider>(
+  CHAINS.map(c => [c.chainId, new ethers.JsonRpcProvider(c.rpcUrl, c.chainId, { staticNetwork: true })])
+);
+const queues = new Map<number, Queue<DripJob>>(
+  CHAINS.map(c => [c.chainId, new Queue<DripJob>(queueNameFor(c.chainId), { connection: { url: REDIS_URL } })])
+);
+const provider = providers.get(CHAIN_ID) ?? providers.get(CHAINS[0].chainId)!;
+// One engine per chain, so a token-erc20 gate reads the balance on the chain being dripped.
+const eligibility = new Map<number, EligibilityEngine>(
+  CHAINS.map(c => [c.chainId, eligibilityFromEnv(providers.get(c.chainId)!)])
+);
+const merkleSource = merkleSourceFromEnv();
+const captcha = captchaFromEnv(redisReplayGuard(redis));
+const abuse = abuseScorerFromEnv(providers);
+const statusHub = createStatusHub();
+
+/* ── Sessions ──────────────────────────────────────────────────────── */
+function bearerToken(req: Request): string | null {
+  const h = req.header("authorization") || "";
+  const m = /^Bearer\s+(.+)$/i.exec(h);
+  return m ? m[1].trim() : null;
+}
+
+const log = logger.child({ component: "api" });
+
+function sessionClient(req: Request): SessionClient {
+  return { ip: clientIp(req), userAgent: req.header("user-agent") ?? null };
+}
+
+/** Resolve the bearer token to res.locals.session (sliding its expiry), or 401. */
+async function requireSession(req: Request, res: Response, next: NextFunction) {
+  try {
+    const token = bearerToken(req);
+    const resolved = token ? await findSession(token, sessionClient(req), SESSION_POLICY) : null;
+    if (!resolved?.ok) return res.status(401).json({ ok: false, error: resolved?.reason ?? "unauthorized" });
+    res.locals.session = resolved.session;
+    next();
+  } catch (e) {
+    next(e);
+  }
+}
+
+function requireAdmin(_req: Request, res: Response, next: NextFunction) {
+  const session = res.locals.session as Session | undefined;
+  if (!session || !ADMIN_ADDRESSES.has(session.address)) {
+    return res.status(403).json({ ok: false, error: "forbidden" });
+  }
+  next();
+}
+
+/* ── Helpers ───────────────────────────────────────────────────────── */
+const route =
+  (fn: (req: Request, res: Response) => Promise<unknown>) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    fn(req, res).catch(next);
+  };
+
+function clientIp(req: Request): string {
+  return req.ip || req.socket.remoteAddress || "0.0.0.0";
+}
+
+/** The request's logger (carries its correlation id). */
+function reqLog(res: Response): Logger {
+  return (res.locals.log as Logger | undefined) ?? log;
+}
+
+/** Hand a request to its chain's queue. `replace` drops a finished job kept under the same id. */
+async function enqueueDrip(job: DripJob, replace = false) {
+  const queue = queues.get(job.chainId)!;
+  const jobId = `drip-${job.requestId}`;
+  if (replace) await (await queue.getJob(jobId))?.remove();
+  await queue.add("drip", job, {
+    jobId,
+    attempts: 3,
+    backoff: { type: "exponential", delay: 5_000 },
+    removeOnComplete: 1_000,
+    removeOnFail: 5_000,
+  });
+}
+
+/**
+ * Enqueue a bundle's jobs in order. If one can't be queued, it and every row after it are
+ * failed: a row left 'queued' without a job would block the address with a 409 for good.
+ * Rows still 'queued' carry no budget charge (that happens at broadcast), so there's nothing to refund.
+ */
+async function enqueueBundle(jobs: DripJob[]) {
+  for (const [i, job] of jobs.entries()) {
+    try {
+      await enqueueDrip(job);
+    } catch (e: any) {
+      for (const rest of jobs.slice(i)) await markFailed(rest.requestId, "enqueue failed");
+      throw e;
+    }
+  }
+}
+
+function setRetryAfter(res: Response, retryAt: string) {
+  res.set("Retry-After", String(Math.max(1, Math.ceil((Date.parse(retryAt) - Date.now()) / 1000))));
+}
+
+/* ── App ───────────────────────────────────────────────────────────── */
+export const app = express();
+app.set("trust proxy", getIntEnv("TRUST_PROXY", 1));
+
+// Correlation id per request: taken from X-Request-Id when sane, echoed back, stored
+// on the rows and jobs it creates so worker and reconciler lines share it.
+app.use((req, res, next) => {
+  const correlationId = correlationIdFrom(req.header("x-request-id"));
+  const started = Date.now();
+  res.set("X-Request-Id", correlationId);
+  res.locals.correlationId = correlationId;
+  res.locals.log = log.child({ correlationId });
+  res.on("finish", () => {
+    const level = res.statusCode >= 500 ? "error" : "debug";
+    reqLog(res)[level]("request", {
+      method: req.method, path: req.path, status: res.statusCode, ms: Date.now() - started, ip: clientIp(req),
+    });
+  });
+  next();
+});
+app.use(cors(CORS_ORIGIN.length ? { origin: CORS_ORIGIN } : undefined));
+app.use(express.json({ limit: "16kb" }));
+
+app.get("/health", route(async (_req, res) => {
+  const [db, cache] = await Promise.all([dbHealthcheck(), redisHealthcheck()]);
+  res.status(db && cache ? 200 : 503).json({ ok: db && cache, db, redis: cache });
+}));
+
+/** Issue a single-use SIWE nonce and the exact message the wallet should sign. */
+app.post("/auth/nonce", route(async (req, res) => {
+  const body = (req.body ?? {}) as Partial<AuthNonceRequest>;
+  const address = normalizeAddress(body.address);
+  if (!address) {
+    return res.status(400).json({ ok: false, error: "invalid address" } satisfies AuthNonceResponse);
+  }
+
+  const nonce = randHex(16);
+  const expiresAt = isoFromNow(NONCE_TTL_SEC * 1000);
+  await issueNonce({ address, nonce, ip: clientIp(req), expiresAt });
+
+  const message = await buildSiweMessage({
+    domain: SIWE_DOMAIN,
+    address: ethers.getAddress(address),
+    uri: SIWE_URI,
+    chainId: CHAIN_ID,
+    statement: SIWE_STATEMENT,
+    nonce,
+    issuedAt: new Date().toISOString(),
+    expirationTime: expiresAt, // the nonce is dead after this anyway
+  });
+
+  res.json({ ok: true, nonce, message, expiresAt } satisfies AuthNonceResponse);
+}));
+
+/** Verify the signed SIWE message, burn its nonce and issue a bearer session. */
+app.post("/auth/verify", route(async (req, res) => {
+  const body = (req.body ?? {}) as Partial<AuthVerifyRequest>;
+  const address = normalizeAddress(body.address);
+  if (!address || typeof body.message !== "string" || typeof body.signature !== "string") {
+    return res.status(400).json({ ok: false, error: "address, message and signature are required" } satisfies AuthVerifyResponse);
+  }
+
+  const nonce = getNonceFromMessage(body.message);
+  if (!nonce) {
+    return res.status(400).json({ ok: false, error: "message has no nonce" } satisfies AuthVerifyResponse);
+  }
+
+  // Consume first (atomic) so a nonce can never be verified twice, even concurrently.
+  if (!(await consumeNonce(address, nonce))) {
+    return res.status(401).json({ ok: false, error: "nonce invalid, expired or already used" } satisfies AuthVerifyResponse);
+  }
+
+  const result = await verifySiwe(provider, address, body.message, body.signature, {
+    domain: SIWE_DOMAIN,
+    chainId: CHAIN_ID,
+    address: ethers.getAddress(address), // message carries the checksummed form
+    exactNonce: nonce,
+    uri: SIWE_URI,
+    maxAgeSec: NONCE_TTL_SEC,
+  }, SIWE_STRATEGY);
+  if (!result.ok) {
+    reqLog(res).warn("auth/verify rejected", { address, reason: result.error, trace: result.trace });
+    return res.status(401).json({ ok: false, error: result.error || "signature verification failed" } satisfies AuthVerifyResponse);
+  }
+
+  const { token, expiresAt } = await createSession(address, sessionClient(req), SESSION_POLICY);
+  res.json({ ok: true, token, address, expiresAt } satisfies AuthVerifyResponse);
+}));
+
+/** Swap the current token for a fresh one; the old token stops working immediately. */
+app.post("/auth/rotate", requireSession, route(async (req, res) => {
+  const session = res.locals.session as Session;
+  const next = await rotateSession(session.id, sessionClient(req), SESSION_POLICY);
+  if (!next) return res.status(401).json({ ok: false, error: "unauthorized" } satisfies AuthVerifyResponse);
+  res.json({ ok: true, token: next.token, address: session.address, expiresAt: next.expiresAt } satisfies AuthVerifyResponse);
+}));
+
+/** End the current session. */
+app.post("/auth/logout", requireSession, route(async (_req, res) => {
+  const session = res.locals.session as Session;
+  const revoked = await revokeSession(session.id, "logout");
+  res.json({ ok: true, revoked: revoked ? 1 : 0 } satisfies SessionsResponse);
+}));
+
+/** End every session of the caller's address, including this one. */
+app.post("/auth/logout-all", requireSession, route(async (_req, res) => {
+  const session = res.locals.session as Session;
+  res.json({ ok: true, revoked: await revokeAllSessions(session.address, "logout-all") } satisfies SessionsResponse);
+}));
+
+/** The caller's live sessions. */
+app.get("/auth/sessions", requireSession, route(async (_req, res) => {
+  const session = res.locals.session as Session;
+  const rows = await listSessions(session.address);
+  res.json({
+    ok: true,
+    sessions: rows.map(r => ({
+      id: r.id,
+      ip: r.ip,
+      userAgent: r.user_agent,
+      createdAt: new Date(r.created_at).toISOString(),
+      lastSeenAt: new Date(r.last_seen_at).toISOString(),
+      expiresAt: new Date(r.expires_at).toISOString(),
+      current: r.id === session.id,
+    })),
+  } satisfies SessionsResponse);
+}));
+
+/** Revoke one of the caller's own sessions, e.g. a forgotten device. */
+app.delete("/auth/sessions/:id", requireSession, route(async (req, res) => {
+  const session = res.locals.session as Session;
+  const revoked = await revokeSession(Number(req.params.id), "logout", session.address);
+  if (!revoked) return res.status(404).json({ ok: false, error: "session not found" } satisfies SessionsResponse);
+  res.json({ ok: true, revoked: 1 } satisfies SessionsResponse);
+}));
+
+/** Eligibility gate, as configured via ELIGIBILITY_MODE, on `chainId` (default: the first chain). */
+app.get("/eligibility", route(async (req, res) => {
+  const chain = req.query.chainId === undefined ? CHAINS[0] : findChain(Number(req.query.chainId));
+  const engine = chain && eligibility.get(chain.chainId);
+  const mode = eligibility.get(CHAINS[0].chainId)!.modes[0]; // every chain runs the same ELIGIBILITY_MODE
+  const address = normalizeAddress(req.query.address);
+  if (!address || !engine) {
+    const error = engine ? "invalid address" : `unsupported chainId ${req.query.chainId}`;
+    return res.status(400).json({ ok: false, mode, eligible: false, error } satisfies EligibilityResponse);
+  }
+  const r = await engine.check(address);
+  res.json({ ok: true, mode: r.source ?? mode, eligible: r.eligible, source: r.source, reason: r.reason } satisfies EligibilityResponse);
+}));
+
+/** Serve the proof for an address from the newest active allowlist root. */
+app.get("/merkle/proof", route(async (req, res) => {
+  const address = normalizeAddress(req.query.address);
+  if (!address) {
+    return res.status(400).json({ ok: false, error: "invalid address" } satisfies MerkleProofResponse);
+  }
+  const entry = await merkleSource.lookup(address);
+  if (!entry) {
+    return res.status(404).json({ ok: false, error: "address not in any active allowlist" } satisfies MerkleProofResponse);
+  }
+  res.json({
+    ok: true,
+    root: entry.root,
+    name: entry.name,
+    amount: entry.amount.toString(),
+    proof: entry.proof,
+    expiresAt: entry.expiresAt ?? null,
+  } satisfies MerkleProofResponse);
+}));
+
+/** Stateless check of a client-supplied proof against a root. */
+app.post("/merkle/verify", route(async (req, res) => {
+  const body = (req.body ?? {}) as Partial<MerkleVerifyRequest>;
+  const address = normalizeAddress(body.address);
+  const amount = body.amount ?? "0";
+  if (
+    !address ||
+    typeof body.root !== "string" || !/^0x[0-9a-fA-F]{64}$/.test(body.root) ||
+    !Array.isArray(body.proof) || !body.proof.every(p => typeof p === "string" && /^0x[0-9a-fA-F]{64}$/.test(p)) ||
+    !/^\d+$/.test(amount)
+  ) {
+    return res.status(400).json({ ok: false, error: "address, root, proof[] and integer amount are required" } satisfies MerkleVerifyResponse);
+  }
+  const valid = verifyMerkleProof(body.root, merkleLeaf(address, BigInt(amount)), body.proof);
+  res.json({ ok: true, valid } satisfies MerkleVerifyResponse);
+}));
+
+/** Public chain list so the frontend can offer a picker. */
+app.get("/chains", (_req, res) => {
+  res.json({ ok: true, chains: CHAINS.map(chainInfo) } satisfies ChainsResponse);
+});
+
+/** What the faucet page needs to render its captcha and sign-in. */
+app.get("/config", (_req, res) => {
+  const action = process.env.CAPTCHA_ACTION ?? "drip";
+  res.json({
+    ok: true,
+    siweChainId: CHAIN_ID,
+    captcha: { provider: captcha.provider, siteKey: CAPTCHA_SITE_KEY, action: action === "" ? null : action },
+  } satisfies FaucetConfigResponse);
+});
+
+/** EventSource can't set headers, so the stream also takes the token as ?access_token=. */
+function tokenFromQuery(req: Request, _res: Response, next: NextFunction) {
+  const token = req.query.access_token;
+  if (!req.header("authorization") && typeof token === "string") req.headers.authorization = `Bearer ${token}`;
+  next();
+}
+
+/**
+ * Server-Sent Events of status changes for ?requestId= (its whole bundle) or ?address=
+ * (default: the session's). Users see their own; admins any. Each event is named after
+ * the new status and carries a StatusEvent. A fresh request stream starts with the
+ * current status of each row; a reconnect (Last-Event-ID) replays what it missed.
+ */
+app.get("/requests/stream", tokenFromQuery, requireSession, route(async (req, res) => {
+  const session = res.locals.session as Session;
+  const isAdmin = ADMIN_ADDRESSES.has(session.address);
+  const q = req.query as Record<string, string | undefined>;
+
+  let filter: StatusFilter;
+  if (q.requestId !== undefined) {
+    const id = Number(q.requestId);
+    const row = Number.isSafeInteger(id) ? await getRequest(id) : null;
+    if (!row || (row.address !== session.address && !isAdmin)) {
+      return res.status(404).json({ ok: false, error: "request not found" });
+    }
+    filter = { requestId: row.bundle_id ?? row.id };
+  } else {
+    const address = normalizeAddress(q.address ?? session.address);
+    if (!address) return res.status(400).json({ ok: false, error: "invalid address" });
+    if (address !== session.address && !isAdmin) return res.status(403).json({ ok: false, error: "forbidden" });
+    filter = { address };
+  }
+  if (statusHub.size() >= STREAM_MAX_CLIENTS) {
+    res.set("Retry-After", "30");
+    return res.status(503).json({ ok: false, error: "too many open streams; poll GET /requests/:id instead" });
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream; charset=utf-8",
+    "Cache-Control": "no-cache, no-transform",
+    "Connection": "keep-alive",
+    "X-Accel-Buffering": "no", // nginx: don't hold events back
+  });
+  res.write(sseFrame({ event: "ready", data: JSON.stringify(filter), retryMs: 5_000 }));
+
+  // Subscribe before reading Postgres so nothing falls between backlog and live events;
+  // live ones are held until the backlog is out, and an event seen twice is sent once.
+  const sent = new Set<number>();
+  const held: StatusEvent[] = [];
+  let live = false;
+  const send = (e: StatusEvent) => {
+    if (sent.has(e.eventId)) return;
+    sent.add(e.eventId);
+    res.write(sseFrame({ id: e.eventId, event: e.status, data: JSON.stringify(e) }));
+  };
+  const unsubscribe = statusHub.subscribe(filter, (e) => (live ? send(e) : held.push(e)));
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), STREAM_HEARTBEAT_MS);
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+
+  const lastEventId = Number(req.header("last-event-id"));
+  try {
+    const backlog = Number.isSafeInteger(lastEventId) && lastEventId > 0
+      ? await statusEventsSince(filter, lastEventId)
+      : "requestId" in filter ? await currentStatusEvents(filter.requestId) : [];
+    backlog.forEach(send);
+    held.sort((a, b) => a.eventId - b.eventId).forEach(send);
+    live = true;
+  } catch (err) {
+    reqLog(res).error("status stream backlog failed", { err });
+    res.end();
+  }
+}));
+
+/** The caller's own request (any row of its bundle) and when they may drip again. */
+app.get("/requests/:id", requireSession, route(async (req, res) => {
+  const session = res.locals.session as Session;
+  const id = Number(req.params.id);
+  const rows = Number.isSafeInteger(id) ? await getBundle(id) : [];
+  // Someone else's request reads as missing, so ids can't be probed for addresses.
+  if (rows.length === 0 || rows[0].address !== session.address) {
+    return res.status(404).json({ ok: false, error: "request not found" } satisfies RequestStatusResponse);
+  }
+  const chain = findChain(rows[0].chain_id);
+  const nextDripAt = chain
+    ? await nextAllowedAt(chain.chainId, chain.rateLimits, { address: session.address, ip: clientIp(req), session: bearerToken(req) ?? undefined })
+    : null;
+  res.json({
+    ok: true,
+    chainId: rows[0].chain_id,
+    requests: rows.map(r => ({
+      id: r.id,
+      asset: r.asset,
+      amount: r.amount,
+      status: r.status,
+      txHash: r.tx_hash,
+      txUrl: chain && r.tx_hash ? txUrl(chain, r.tx_hash) : null,
+      reason: r.reason,
+      createdAt: r.created_at,
+      confirmedAt: r.confirmed_at,
+    })),
+    nextDripAt,
+  } satisfies RequestStatusResponse);
+}));
+
+type PlannedAsset = { asset: DripAsset; amount: bigint; record: AmountRecord };
+
+/** One read under DRIP_BALANCE_TIMEOUT_MS, like the abuse signals; null (logged) if it fails or times out. */
+async function recipientBalance(chain: ChainConfig, asset: DripAsset, address: string): Promise<bigint | null> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`timed out after ${DRIP_BALANCE_TIMEOUT_MS}ms`)), DRIP_BALANCE_TIMEOUT_MS);
+  });
+  try {
+    return await Promise.race([assetBalanceOf(providers.get(chain.chainId)!, asset, address), timeout]);
+  } catch (err) {
+    log.warn("recipient balance unavailable", { chain: chain.key, asset: assetKey(asset), err });
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Size each asset of the chain's bundle for this recipient (amountPolicy.ts). Assets the
+ * policy refuses are left out, with the reason; an unreadable recipient balance counts
+ * as unknown rather than failing the drip.
+ */
+async function planDrip(
+  chain: ChainConfig,
+  address: string,
+  source: string | null,
+  usage: BudgetUsage[],
+  breaker: BreakerState | null,
+): Promise<{ planned: PlannedAsset[]; refused: string[] }> {
+  const policy = chain.amountPolicy;
+  const faucet = breaker ? { balanceWei: ethers.parseEther(breaker.balance), reserveWei: ethers.parseEther(breaker.reserve) } : null;
+  const budgetLeftPct = dailyBudgetLeftPct(usage);
+  const balances = needsRecipientBalance(policy)
+    ? await Promise.all(chain.bundle.map(asset => recipientBalance(chain, asset, address)))
+    : chain.bundle.map(() => null);
+  const planned: PlannedAsset[] = [];
+  const refused: string[] = [];
+  for (const [i, asset] of chain.bundle.entries()) {
+    const d = decideAmount(
+      { kind: asset.kind, symbol: asset.symbol, decimals: assetDecimals(asset), base: toBaseUnits(asset) },
+      { source, recipientBalance: balances[i], budgetLeftPct, faucet },
+      policy,
+    );
+    if (d.ok) planned.push({ asset, amount: d.amount, record: d.record });
+    else refused.push(d.reason);
+  }
+  return { planned, refused };
+}
+
+/** Record a request row and hand it to the chain's worker queue. */
+app.post("/drip", requireSession, route(async (req, res) => {
+  const session = res.locals.session as Session;
+  const body = (req.body ?? {}) as Partial<DripRequest>;
+  const address = normalizeAddress(body.address);
+  if (!address) {
+    return res.status(400).json({ ok: false, error: "invalid address" } satisfies DripResponse);
+  }
+  if (address !== session.address) {
+    return res.status(403).json({ ok: false, error: "address does not match session" } satisfies DripResponse);
+  }
+  const chain = body.chainId === undefined ? CHAINS[0] : findChain(Number(body.chainId));
+  if (!chain) {
+    return res.status(400).json({ ok: false, error: `unsupported chainId ${body.chainId}` } satisfies DripResponse);
+  }
+
+  const human = await captcha.verify(body.captchaToken, { ip: clientIp(req) });
+  if (!human.ok) {
+    return res.status(403).json({ ok: false, error: human.reason ?? "captcha failed" } satisfies DripResponse);
+  }
+
+  const elig = await eligibility.get(chain.chainId)!.check(address);
+  if (!elig.eligible) {
+    return res.status(403).json({ ok: false, error: `not eligible: ${elig.reason ?? "address rejected"}` } satisfies DripResponse);
+  }
+
+  const breaker = await getBreaker(chain.chainId);
+  if (breaker?.open) {
+    return res.status(503).json({ ok: false, error: `faucet paused on ${chain.name}: balance below reserve` } satisfies DripResponse);
+  }
+  // A window with no room for one more drip refuses before the rate limit; the amount
+  // is checked again once the drip is sized, below.
+  const usage = await budgetUsage(chain);
+  const budgetExhausted = (spend: BudgetSpend) => {
+    const over = usage.find(u => !fitsBudget(u, spend));
+    if (!over) return false;
+    setRetryAfter(res, over.resetsAt);
+    res.status(429).json({ ok: false, error: `${over.period === "day" ? "daily" : "hourly"} budget exhausted on ${chain.name}`, retryAt: over.resetsAt } satisfies DripResponse);
+    return true;
+  };
+  if (budgetExhausted({ drips: 1, wei: 0n })) return;
+
+  const inflight = await findInflight(address, chain.chainId);
+  if (inflight !== null) {
+    return res.status(409).json({ ok: false, error: "a request for this address is already in flight", requestId: inflight } satisfies DripResponse);
+  }
+
+  // Counted once the checks above have passed, so a request they refuse costs no
+  // allowance. Abuse scoring and sizing come after: a blocked or limited client costs
+  // no RPC reads and leaves no velocity sightings, and a request they refuse still
+  // counts, so a flagged client can't hammer /drip for free.
+  const ip = clientIp(req);
+  const limit = await checkRateLimit(chain.chainId, chain.rateLimits, { address, ip, session: bearerToken(req) ?? undefined });
+  if (!limit.ok && limit.reason === "blocked") {
+    return res.status(403).json({ ok: false, error: `${limit.dimension} blocked${limit.note ? `: ${limit.note}` : ""}`, limitedBy: limit.dimension } satisfies DripResponse);
+  }
+  if (!limit.ok) {
+    setRetryAfter(res, limit.retryAt);
+    return res.status(429).json({ ok: false, error: `${limit.dimension} rate limit reached on ${chain.name}`, retryAt: limit.retryAt, limitedBy: limit.dimension } satisfies DripResponse);
+  }
+
+  const assessment = await abuse.assess({ address, chainId: chain.chainId, ip, userAgent: req.header("user-agent") ?? null });
+
+  const { planned, refused } = await planDrip(chain, address, elig.source ?? null, usage, breaker);
+  if (planned.length === 0) {
+    return res.status(403).json({ ok: false, error: refused[0] } satisfies DripResponse);
+  }
+  const spend = {
+    drips: 1,
+    wei: planned.reduce((sum, p) => sum + (p.asset.kind === "native" ? p.amount : 0n), 0n),
+  };
+  if (budgetExhausted(spend)) return;
+
+  // One row per asset in the chain's bundle, all pointing at the first row's id. Held and
+  // refused requests are recorded too, with their score, for the admin dashboard.
+  const correlationId = res.locals.correlationId as string;
+  const { score, reasons, verdict } = assessment;
+  const status = verdict === "reject" ? "failed" : verdict === "review" ? "review" : "queued";
+  const requestIds = await createBundle(planned.map(p => ({
+    address, chainId: chain.chainId, ip, asset: assetKey(p.asset), amount: p.amount.toString(), correlationId,
+    abuse: { score, reasons }, amountPolicy: p.record,
+    status, reason: verdict === "reject" ? `refused by abuse checks (score ${score})` : undefined,
+  })));
+  if (verdict !== "allow") {
+    reqLog(res).warn(verdict === "reject" ? "drip refused by abuse score" : "drip held for review", {
+      requestIds, chain: chain.key, address, score, reasons,
+    });
+  }
+  if (verdict === "reject") {
+    return res.status(403).json({ ok: false, error: "request refused by abuse checks" } satisfies DripResponse);
+  }
+  if (verdict === "review") {
+    return res.status(202).json({ ok: true, requestId: requestIds[0], requestIds, review: true } satisfies DripResponse);
+  }
+
+  await enqueueBundle(requestIds.map((requestId, i) =>
+    ({ requestId, chainId: chain.chainId, address, ip, asset: planned[i].asset, correlationId })));
+
+  reqLog(res).info("drip queued", {
+    requestIds, chain: chain.key, address, score,
+    amounts: planned.map(p => p.amount.toString()), ...(refused.length ? { skipped: refused } : {}),
+  });
+  res.status(202).json({ ok: true, requestId: requestIds[0], requestIds } satisfies DripResponse);
+}));
+
+/** Per-chain slice of AdminMetrics; RPC errors degrade to a null balance. */
+async function chainMetrics(chain: ChainConfig, sentToday: number) {
+  const faucet = chain.faucetAddress ?? FAUCET_ADDRESS;
+  const queue = queues.get(chain.chainId)!;
+  const [counts, paused, balance, budget, breaker] = await Promise.all([
+    queue.getJobCounts("waiting", "active", "delayed", "failed", "completed"),
+    queue.isPaused(),
+    faucet
+      ? retryRpc(() => providers.get(chain.chainId)!.getBalance(faucet)).catch(() => null)
+      : Promise.resolve(null),
+    budgetUsage(chain),
+    getBreaker(chain.chainId),
+  ]);
+  return {
+    chainId: chain.chainId,
+    name: chain.name,
+    faucet,
+    faucetBalance: balance === null ? null : ethers.formatEther(balance),
+    nativeSymbol: chain.nativeSymbol,
+    queue: {
+      waiting: counts.waiting ?? 0,
+      active: counts.active ?? 0,
+      delayed: counts.delayed ?? 0,
+      failed: counts.failed ?? 0,
+      completed: counts.completed ?? 0,
+    },
+    today: { sent: sentToday },
+    paused,
+    budget: budget.map(budgetMetrics),
+    breaker: breaker && { open: breaker.open, since: breaker.since, reserve: breaker.reserve, balance: breaker.balance },
+  };
+}
+
+function budgetMetrics(u: BudgetUsage) {
+  const eth = (wei: bigint | null) => (wei === null ? null : ethers.formatEther(wei));
+  return {
+    period: u.period,
+    resetsAt: u.resetsAt,
+    drips: u.drips,
+    maxDrips: u.limit.drips,
+    amount: eth(u.wei)!,
+    maxAmount: eth(u.limit.wei),
+  };
+}
+
+/** Read-only operator view. Top-level fields describe the default chain. */
+app.get("/admin/metrics", requireSession, requireAdmin, route(async (_req, res) => {
+  const [today, lastHour] = await Promise.all([
+    query<{ chain_id: number; sent: string }>(
+      `SELECT chain_id, COUNT(*) AS sent FROM requests
+        WHERE status='sent' AND created_at >= date_trunc('day', NOW())
+        GROUP BY chain_id`
+    ),
+    query<{ total: string; failed: string }>(
+      `SELECT COUNT(*) AS total, COUNT(*) FILTER (WHERE status='failed') AS failed
+         FROM requests WHERE created_at >= NOW() - INTERVAL '1 hour'`
+    ),
+  ]);
+  const sentByChain = new Map(today.rows.map(r => [Number(r.chain_id), Number(r.sent)]));
+  const chains = await Promise.all(CHAINS.map(c => chainMetrics(c, sentByChain.get(c.chainId) ?? 0)));
+  const primary = chains[0];
+
+  res.json({
+    ok: true,
+    chainId: primary.chainId,
+    faucet: primary.faucet,
+    faucetBalanceEth: primary.faucetBalance,
+    queue: primary.queue,
+    today: { sent: chains.reduce((n, c) => n + c.today.sent, 0) },
+    chains,
+    lastHour: {
+      total: Number(lastHour.rows[0]?.total ?? 0),
+      failed: Number(lastHour.rows[0]?.failed ?? 0),
+    },
+  } satisfies AdminMetrics);
+}));
+
+/** Active rate-limit exemptions and blocks. */
+app.get("/admin/rate-limits/overrides", requireSession, requireAdmin, route(async (_req, res) => {
+  res.json({ ok: true, overrides: await listRateLimitOverrides() } satisfies RateLimitOverridesResponse);
+}));
+
+/** Exempt a value from its dimension's limit, or block it outright. Re-posting replaces. */
+app.post("/admin/rate-limits/overrides", requireSession, requireAdmin, route(async (req, res) => {
+  const session = res.locals.session as Session;
+  const body = (req.body ?? {}) as Partial<RateLimitOverrideRequest>;
+  const chainId = body.chainId ?? null;
+  if (
+    !RATE_DIMENSIONS.includes(body.dimension as RateDimension) ||
+    (body.action !== "exempt" && body.action !== "block") ||
+    typeof body.value !== "string" ||
+    (chainId !== null && !findChain(Number(chainId))) ||
+    (body.expiresAt !== undefined && Number.isNaN(Date.parse(body.expiresAt)))
+  ) {
+    return res.status(400).json({ ok: false, error: "dimension, value, action (exempt|block) required; chainId and expiresAt must be valid" } satisfies RateLimitOverridesResponse);
+  }
+  try {
+    const override = await addRateLimitOverride({
+      dimension: body.dimension as RateDimension,
+      value: body.value,
+      action: body.action,
+      chainId: chainId === null ? null : Number(chainId),
+      reason: body.reason ?? null,
+      expiresAt: body.expiresAt ? new Date(body.expiresAt).toISOString() : null,
+      createdBy: session.address,
+    });
+    res.status(201).json({ ok: true, overrides: [override] } satisfies RateLimitOverridesResponse);
+  } catch (e: any) {
+    if (!/^invalid /.test(e?.message)) throw e;
+    res.status(400).json({ ok: false, error: e.message } satisfies RateLimitOverridesResponse);
+  }
+}));
+
+app.delete("/admin/rate-limits/overrides/:id", requireSession, requireAdmin, route(async (req, res) => {
+  const removed = await removeRateLimitOverride(Number(req.params.id));
+  if (!removed) return res.status(404).json({ ok: false, error: "override not found" } satisfies RateLimitOverridesResponse);
+  res.json({ ok: true } satisfies RateLimitOverridesResponse);
+}));
+
+/** Search requests by address, tx hash (original or replacement), status and chain; newest first. */
+app.get("/admin/requests", requireSession, requireAdmin, route(async (req, res) => {
+  const q = req.query as Record<string, string | undefined>;
+  const address = q.address ? normalizeAddress(q.address) : undefined;
+  const txHash = q.txHash?.toLowerCase();
+  const limit = Math.min(Math.max(Number(q.limit) || 50, 1), 200);
+  if (
+    address === null ||
+    (txHash !== undefined && !/^0x[0-9a-f]{64}$/.test(txHash)) ||
+    (q.status !== undefined && !(q.status in REQUEST_TRANSITIONS)) ||
+    (q.chainId !== undefined && !findChain(Number(q.chainId))) ||
+    (q.before !== undefined && !Number.isInteger(Number(q.before)))
+  ) {
+    return res.status(400).json({ ok: false, error: "invalid address, txHash, status, chainId or before" } satisfies AdminRequestsResponse);
+  }
+  const requests = await searchRequests({
+    address,
+    txHash,
+    status: q.status as RequestStatus | undefined,
+    chainId: q.chainId === undefined ? undefined : Number(q.chainId),
+    beforeId: q.before === undefined ? undefined : Number(q.before),
+    limit,
+  });
+  const nextBefore = requests.length === limit ? requests[requests.length - 1].id : null;
+  res.json({ ok: true, requests, nextBefore } satisfies AdminRequestsResponse);
+}));
+
+async function requestDetail(id: number): Promise<AdminRequestResponse | null> {
+  const request = await getRequest(id);
+  if (!request) return null;
+  const [events, txs] = await Promise.all([listEvents(id), listSignedTxs(id)]);
+  return {
+    ok: true,
+    request,
+    events,
+    txs: txs.map(t => ({
+      txHash: t.tx_hash,
+      nonce: t.nonce,
+      maxFeePerGas: t.max_fee_per_gas,
+      maxPriorityFeePerGas: t.max_priority_fee_per_gas,
+    })),
+  };
+}
+
+/** One request with its status history and every tx signed for it. */
+app.get("/admin/requests/:id", requireSession, requireAdmin, route(async (req, res) => {
+  const detail = await requestDetail(Number(req.params.id));
+  if (!detail) return res.status(404).json({ ok: false, error: "request not found" } satisfies AdminRequestResponse);
+  res.json(detail satisfies AdminRequestResponse);
+}));
+
+/**
+ * Send a failed request again: back to 'queued' and onto its chain's queue. Requests
+ * with a tx out are left to the reconciler, which replaces or rebroadcasts stuck ones.
+ */
+app.post("/admin/requests/:id/retry", requireSession, requireAdmin, route(async (req, res) => {
+  const session = res.locals.session as Session;
+  const id = Number(req.params.id);
+  const row = await getRequest(id);
+  if (!row) return res.status(404).json({ ok: false, error: "request not found" } satisfies AdminRequestResponse);
+  if (row.status !== "failed") {
+    return res.status(409).json({ ok: false, error: `only failed requests can be retried (this one is ${row.status})` } satisfies AdminRequestResponse);
+  }
+  const chain = findChain(row.chain_id);
+  const asset = chain?.bundle.find(a => assetKey(a) === row.asset);
+  if (!chain || !asset) {
+    return res.status(409).json({ ok: false, error: "the request's chain or asset is no longer configured" } satisfies AdminRequestResponse);
+  }
+  if (!(await requeue(id, `retried by admin ${session.address}`))) {
+    return res.status(409).json({ ok: false, error: "request changed meanwhile; reload" } satisfies AdminRequestResponse);
+  }
+  const correlationId = row.correlation_id ?? (res.locals.correlationId as string);
+  await enqueueDrip({ requestId: id, chainId: chain.chainId, address: row.address, ip: row.ip, asset, correlationId }, true);
+  reqLog(res).warn("admin retried request", { requestId: id, admin: session.address, chain: chain.key });
+  res.json((await requestDetail(id))! satisfies AdminRequestResponse);
+}));
+
+/** Cancel a request that has not been signed yet. Once a tx is out it may still mine. */
+app.post("/admin/requests/:id/cancel", requireSession, requireAdmin, route(async (req, res) => {
+  const session = res.locals.session as Session;
+  const id = Number(req.params.id);
+  const row = await getRequest(id);
+  if (!row) return res.status(404).json({ ok: false, error: "request not found" } satisfies AdminRequestResponse);
+  if (row.status !== "queued" || !(await markFailed(id, `${CANCELLED_BY_ADMIN} ${session.address}`))) {
+    return res.status(409).json({ ok: false, error: `only queued requests can be cancelled (this one is ${row.status})` } satisfies AdminRequestResponse);
+  }
+  // A job already picked up stops at its write-ahead CAS; a waiting one is dropped here.
+  await (await queues.get(row.chain_id)?.getJob(`drip-${id}`))?.remove().catch(() => {});
+  reqLog(res).warn("admin cancelled request", { requestId: id, admin: session.address });
+  res.json((await requestDetail(id))! satisfies AdminRequestResponse);
+}));
+
+/** Release a bundle held by the abuse score: every held row goes to 'queued' and onto its chain's queue. */
+app.post("/admin/requests/:id/release", requireSession, requireAdmin, route(async (req, res) => {
+  const session = res.locals.session as Session;
+  const id = Number(req.params.id);
+  const rows = await getBundle(id);
+  if (rows.length === 0) return res.status(404).json({ ok: false, error: "request not found" } satisfies AdminRequestResponse);
+  const chain = findChain(rows[0].chain_id);
+  if (!chain || rows.some(r => r.status === "review" && !chain.bundle.some(a => assetKey(a) === r.asset))) {
+    return res.status(409).json({ ok: false, error: "the request's chain or asset is no longer configured" } satisfies AdminRequestResponse);
+  }
+  const released = await resolveReview(id, { release: true, note: `released by admin ${session.address}` });
+  if (released.length === 0) {
+    return res.status(409).json({ ok: false, error: "this request is not held for review" } satisfies AdminRequestResponse);
+  }
+  await enqueueBundle(rows.filter(r => released.includes(r.id)).map(row => ({
+    requestId: row.id, chainId: chain.chainId, address: row.address, ip: row.ip,
+    asset: chain.bundle.find(a => assetKey(a) === row.asset)!,
+    correlationId: row.correlation_id ?? (res.locals.correlationId as string),
+  })));
+  reqLog(res).warn("admin released held request", { requestIds: released, admin: session.address, chain: chain.key });
+  res.json((await requestDetail(id))! satisfies AdminRequestResponse);
+}));
+
+/** Reject a bundle held by the abuse score. */
+app.post("/admin/requests/:id/reject", requireSession, requireAdmin, route(async (req, res) => {
+  const session = res.locals.session as Session;
+  const id = Number(req.params.id);
+  const note = typeof req.body?.reason === "string" && req.body.reason.trim() ? `: ${req.body.reason.trim().slice(0, 200)}` : "";
+  const rejected = await resolveReview(id, { release: false, reason: `rejected in review by ${session.address}${note}` });
+  if (rejected.length === 0) {
+    const exists = await getRequest(id);
+    return res.status(exists ? 409 : 404).json({
+      ok: false, error: exists ? "this request is not held for review" : "request not found",
+    } satisfies AdminRequestResponse);
+  }
+  reqLog(res).warn("admin rejected held request", { requestIds: rejected, admin: session.address });
+  res.json((await requestDetail(id))! satisfies AdminRequestResponse);
+}));
+
+/** Live entries of the eligibility allowlist ("table" mode). */
+app.get("/admin/allowlist", requireSession, requireAdmin, route(async (_req, res) => {
+  res.json({ ok: true, entries: await listAllowlist() } satisfies AllowlistResponse);
+}));
+
+/** Add (or reactivate) an address. Re-posting replaces note and expiry. */
+app.post("/admin/allowlist", requireSession, requireAdmin, route(async (req, res) => {
+  const body = (req.body ?? {}) as Partial<AllowlistRequest>;
+  const address = normalizeAddress(body.address);
+  if (!address || (body.expiresAt !== undefined && Number.isNaN(Date.parse(body.expiresAt)))) {
+    return res.status(400).json({ ok: false, error: "valid address required; expiresAt must be a date" } satisfies AllowlistResponse);
+  }
+  const entry = await addToAllowlist({
+    address,
+    note: body.note ?? null,
+    expiresAt: body.expiresAt ? new Date(body.expiresAt).toISOString() : null,
+  });
+  res.status(201).json({ ok: true, entries: [entry] } satisfies AllowlistResponse);
+}));
+
+app.delete("/admin/allowlist/:address", requireSession, requireAdmin, route(async (req, res) => {
+  const address = normalizeAddress(req.params.address);
+  if (!address || !(await revokeFromAllowlist(address))) {
+    return res.status(404).json({ ok: false, error: "address not on allowlist" } satisfies AllowlistResponse);
+  }
+  res.json({ ok: true } satisfies AllowlistResponse);
+}));
+
+/** Registered webhook endpoints (secrets are never listed). */
+app.get("/admin/webhooks", requireSession, requireAdmin, route(async (_req, res) => {
+  res.json({ ok: true, endpoints: await listWebhookEndpoints() } satisfies WebhookEndpointsResponse);
+}));
+
+/** Register an endpoint. The signing secret is in this response only. */
+app.post("/admin/webhooks", requireSession, requireAdmin, route(async (req, res) => {
+  const session = res.locals.session as Session;
+  const body = (req.body ?? {}) as Partial<WebhookEndpointRequest>;
+  const chainId = body.chainId ?? null;
+  let url: string, events: string[];
+  try {
+    url = parseWebhookUrl(body.url, WEBHOOK_ALLOW_HTTP);
+    events = parseEventFilter(body.events);
+    if (chainId !== null && !findChain(Number(chainId))) throw new Error(`unsupported chainId ${chainId}`);
+  } catch (e: any) {
+    return res.status(400).json({ ok: false, error: e.message } satisfies WebhookEndpointsResponse);
+  }
+  const { endpoint, secret } = await createWebhookEndpoint({
+    url, events, chainId: chainId === null ? null : Number(chainId), description: body.description ?? null, createdBy: session.address,
+  });
+  reqLog(res).warn("webhook endpoint added", { endpointId: endpoint.id, url, events, admin: session.address });
+  res.status(201).json({ ok: true, endpoints: [endpoint], secret } satisfies WebhookEndpointsResponse);
+}));
+
+/** Pause or resume deliveries to an endpoint; pending ones fail while it is inactive. */
+app.patch("/admin/webhooks/:id", requireSession, requireAdmin, route(async (req, res) => {
+  if (typeof req.body?.active !== "boolean") {
+    return res.status(400).json({ ok: false, error: "active (boolean) required" } satisfies WebhookEndpointsResponse);
+  }
+  if (!(await setWebhookEndpointActive(Number(req.params.id), req.body.active))) {
+    return res.status(404).json({ ok: false, error: "endpoint not found" } satisfies WebhookEndpointsResponse);
+  }
+  res.json({ ok: true } satisfies WebhookEndpointsResponse);
+}));
+
+app.delete("/admin/webhooks/:id", requireSession, requireAdmin, route(async (req, res) => {
+  if (!(await deleteWebhookEndpoint(Number(req.params.id)))) {
+    return res.status(404).json({ ok: false, error: "endpoint not found" } satisfies WebhookEndpointsResponse);
+  }
+  res.json({ ok: true } satisfies WebhookEndpointsResponse);
+}));
+
+/** Newest deliveries to an endpoint, each with its attempt log. */
+app.get("/admin/webhooks/:id/deliveries", requireSession, requireAdmin, route(async (req, res) => {
+  const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+  res.json({ ok: true, deliveries: await listDeliveries(Number(req.params.id), limit) } satisfies WebhookDeliveriesResponse);
+}));
+
+/** Queue a webhook.test event to this endpoint, whatever its event filter. */
+app.post("/admin/webhooks/:id/test", requireSession, requireAdmin, route(async (req, res) => {
+  const session = res.locals.session as Session;
+  const created = await emitWebhook({
+    key: `webhook.test:${req.params.id}:${randHex(8)}`,
+    type: "webhook.test",
+    chainId: null,
+    endpointId: Number(req.params.id),
+    data: { requestedBy: session.address },
+  });
+  if (!created) return res.status(404).json({ ok: false, error: "endpoint not found or inactive" } satisfies WebhookEndpointsResponse);
+  res.status(202).json({ ok: true } satisfies WebhookEndpointsResponse);
+}));
+
+app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
+  reqLog(res).error("api error", { err });
+  if (res.headersSent) return;
+  res.status(500).json({ ok: false, error: "internal error" });
+});
+
+/* ── Boot ──────────────────────────────────────────────────────────── */
+// Refuse to serve against a schema older (or newer) than this build expects.
+await assertSchemaCurrent();
+
+// Persisted rate-limit hits are only needed for as long as the longest configured window;
+// ended sessions are kept 30 days for audits.
+const HIT_RETENTION_SEC = Math.max(86_400, ...CHAINS.flatMap(c => Object.values(c.rateLimits).map(r => r!.windowSec)));
+const pruneTimer = setInterval(() => {
+  pruneRateLimitHits(HIT_RETENTION_SEC).catch(err => log.error("rate limit prune failed", { err }));
+  pruneSessions(30 * 86_400).catch(err => log.error("session prune failed", { err }));
+}, 3_600_000);
+pruneTimer.unref();
+
+const server = app.listen(PORT, () =>
+  log.info("listening", { port: PORT, chains: CHAINS.map(c => c.chainId), siweChainId: CHAIN_ID, captcha: captcha.provider })
+);
+
+async function shutdown() {
+  clearInterval(pruneTimer);
+  server.close();
+  await statusHub.close();
+  await Promise.allSettled([...queues.values()].map(q => q.close()));
+  await Promise.allSettled([closePool(), closeRedis()]);
+  process.exit(0);
+}
+process.on("SIGTERM", shutdown);
+process.on("SIGINT", shutdown);
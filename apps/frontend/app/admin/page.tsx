@@ -0,0 +1,461 @@
+// apps/frontend/app/admin/page.tsx
+// Operator dashboard. Sign in with SIWE as an ADMIN_ADDRESSES wallet; every call below
+// goes to an /admin endpoint, which answers 403 for anyone else.
+// - metrics: balance, queue, today's drips and last-hour failure rate per chain
+// - requests: search by address / tx hash / status, history, retry (failed) or cancel (queued);
+//   the "review" status is the abuse-score queue: release or reject the held bundle
+// - rate-limit overrides (block/exempt) and the eligibility allowlist
+"use client";
+
+import { useCallback, useEffect, useState, type FormEvent } from "react";
+import type {
+  AdminMetrics,
+  AdminRequestResponse,
+  AdminRequestsResponse,
+  AllowlistResponse,
+  RateLimitOverrideRequest,
+  RateLimitOverridesResponse,
+  RequestRow,
+  RequestStatus,
+} from "@w3/shared/types";
+import { api, qs, type ApiResult } from "../../lib/api";
+import { connectWallet, loadSession, shortAddress, signIn, signOut, type StoredSession } from "../../lib/wallet";
+
+const STATUSES: RequestStatus[] = ["review", "queued", "broadcast", "confirming", "sent", "failed"];
+const STATUS_CLASS: Record<RequestStatus, string> = {
+  review: "warn",
+  queued: "muted",
+  broadcast: "warn",
+  confirming: "warn",
+  sent: "ok",
+  failed: "bad",
+};
+
+type RequestAction = "retry" | "cancel" | "release" | "reject";
+const ACTION_LABEL: Record<RequestAction, string> = { retry: "Retry", cancel: "Cancel", release: "Release", reject: "Reject" };
+
+const fmtTime = (iso: string | null | undefined) => (iso ? new Date(iso).toLocaleString() : "—");
+
+export default function AdminPage() {
+  const [session, setSession] = useState<StoredSession | null>(null);
+  const [forbidden, setForbidden] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => setSession(loadSession()), []);
+
+  /** Admin call with the session token; a 401 drops the session, a 403 shows the gate. */
+  const call = useCallback(
+    async <T,>(path: string, opts: { method?: string; body?: unknown } = {}) => {
+      const res = await api<T>(path, { ...opts, token: session?.token });
+      if (res.status === 401) setSession(null);
+      if (res.status === 403) setForbidden(true);
+      return res;
+    },
+    [session],
+  );
+
+  async function onSignIn() {
+    setBusy(true);
+    setError(null);
+    setForbidden(false);
+    try {
+      setSession(await signIn(await connectWallet()));
+    } catch (e: any) {
+      setError(e?.message ?? String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function onSignOut() {
+    await signOut(session);
+    setSession(null);
+    setForbidden(false);
+  }
+
+  return (
+    <>
+      <div className="row spread">
+        <h1>Faucet admin</h1>
+        {session && (
+          <div className="row">
+            <span className="mono">{shortAddress(session.address)}</span>
+            <button onClick={onSignOut}>Sign out</button>
+          </div>
+        )}
+      </div>
+      {error && <div className="error">{error}</div>}
+
+      {!session ? (
+        <div className="panel">
+          <p>Sign in with an admin wallet to continue.</p>
+          <button className="primary" disabled={busy} onClick={onSignIn}>
+            {busy ? "Waiting for wallet…" : "Connect wallet & sign in"}
+          </button>
+        </div>
+      ) : forbidden ? (
+        <div className="panel">
+          <p className="bad">{session.address} is not an admin address.</p>
+          <button onClick={onSignOut}>Use another wallet</button>
+        </div>
+      ) : (
+        <>
+          <MetricsPanel call={call} />
+          <RequestsPanel call={call} />
+          <OverridesPanel call={call} />
+          <AllowlistPanel call={call} />
+        </>
+      )}
+    </>
+  );
+}
+
+type Call = <T>(path: string, opts?: { method?: string; body?: unknown }) => Promise<ApiResult<T>>;
+
+function MetricsPanel({ call }: { call: Call }) {
+  const [m, setM] = useState<AdminMetrics | null>(null);
+
+  const load = useCallback(async () => setM(await call<AdminMetrics>("/admin/metrics")), [call]);
+  useEffect(() => {
+    load();
+    const t = setInterval(load, 15_000);
+    return () => clearInterval(t);
+  }, [load]);
+
+  if (!m) return <div className="panel muted">Loading metrics…</div>;
+  if (!m.ok) return <div className="error">{m.error}</div>;
+
+  const total = m.lastHour?.total ?? 0;
+  const failed = m.lastHour?.failed ?? 0;
+  const rate = total ? (failed / total) * 100 : 0;
+
+  return (
+    <div className="panel">
+      <div className="row spread">
+        <h2>Overview</h2>
+        <button onClick={load}>Refresh</button>
+      </div>
+      <p>
+        Sent today: <b>{m.today?.sent ?? 0}</b> · Last hour: <b>{total}</b> requests,{" "}
+        <b className={rate >= 10 ? "bad" : rate > 0 ? "warn" : "ok"}>
+          {failed} failed ({rate.toFixed(1)}%)
+        </b>
+      </p>
+      <div className="grid">
+        {(m.chains ?? []).map(c => (
+          <div key={c.chainId} className="panel">
+            <div className="row spread">
+              <b>{c.name}</b>
+              {c.paused && <span className="badge bad">paused</span>}
+            </div>
+            <div className="mono muted">{c.faucet ? shortAddress(c.faucet) : "no signer"}</div>
+            <p>
+              Balance: <b>{c.faucetBalance ?? "?"}</b> {c.nativeSymbol}
+              {c.breaker?.open && <span className="bad"> · breaker open (reserve {c.breaker.reserve})</span>}
+            </p>
+            <div className="muted">
+              waiting {c.queue.waiting} · active {c.queue.active} · delayed {c.queue.delayed} · failed {c.queue.failed}
+            </div>
+            <div className="muted">sent today {c.today.sent}</div>
+            {c.budget.map(b => (
+              <div key={b.period} className="muted">
+                {b.period} budget: {b.drips}/{b.maxDrips ?? "∞"} drips, {b.amount}/{b.maxAmount ?? "∞"} {c.nativeSymbol}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function RequestsPanel({ call }: { call: Call }) {
+  const [filters, setFilters] = useState({ address: "", txHash: "", status: "", chainId: "" });
+  const [rows, setRows] = useState<RequestRow[]>([]);
+  const [nextBefore, setNextBefore] = useState<number | null>(null);
+  const [detail, setDetail] = useState<AdminRequestResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function search(before?: number) {
+    setError(null);
+    const res = await call<AdminRequestsResponse>(`/admin/requests${qs({ ...filters, before })}`);
+    if (!res.ok) return setError(res.error ?? "search failed");
+    setRows(before ? [...rows, ...(res.requests ?? [])] : res.requests ?? []);
+    setNextBefore(res.nextBefore ?? null);
+  }
+
+  async function open(id: number) {
+    const res = await call<AdminRequestResponse>(`/admin/requests/${id}`);
+    if (!res.ok) return setError(res.error ?? "could not load request");
+    setDetail(res);
+  }
+
+  async function act(id: number, action: RequestAction) {
+    let body: { reason: string } | undefined;
+    if (action === "reject") {
+      const reason = prompt(`Reject request #${id} and the rest of its bundle? Reason (optional):`);
+      if (reason === null) return;
+      body = { reason };
+    } else if (!confirm(`${ACTION_LABEL[action]} request #${id}${action === "release" ? " and the rest of its bundle" : ""}?`)) {
+      return;
+    }
+    const res = await call<AdminRequestResponse>(`/admin/requests/${id}/${action}`, { method: "POST", body });
+    if (!res.ok) return setError(res.error ?? `${action} failed`);
+    setDetail(res);
+    if (res.request) setRows(rows.map(r => (r.id === id ? res.request! : r)));
+  }
+
+  function onSubmit(e: FormEvent) {
+    e.preventDefault();
+    setDetail(null);
+    search();
+  }
+
+  const set = (k: keyof typeof filters) => (e: { target: { value: string } }) =>
+    setFilters({ ...filters, [k]: e.target.value.trim() });
+
+  return (
+    <div className="panel">
+      <h2>Requests</h2>
+      <form className="row" onSubmit={onSubmit}>
+        <input placeholder="address 0x…" value={filters.address} onChange={set("address")} size={44} />
+        <input placeholder="tx hash 0x…" value={filters.txHash} onChange={set("txHash")} size={44} />
+        <select value={filters.status} onChange={set("status")}>
+          <option value="">any status</option>
+          {STATUSES.map(s => <option key={s}>{s}</option>)}
+        </select>
+        <input placeholder="chain id" value={filters.chainId} onChange={set("chainId")} size={8} />
+        <button className="primary" type="submit">Search</button>
+      </form>
+      {error && <div className="error">{error}</div>}
+
+      {rows.length > 0 && (
+        <table>
+          <thead>
+            <tr><th>#</th><th>Created</th><th>Chain</th><th>Address</th><th>Asset</th><th>Status</th><th>Score</th><th>Tx</th></tr>
+          </thead>
+          <tbody>
+            {rows.map(r => (
+              <tr key={r.id} className={detail?.request?.id === r.id ? "selected" : ""} onClick={() => open(r.id)}>
+                <td>{r.id}</td>
+                <td>{fmtTime(r.created_at)}</td>
+                <td>{r.chain_id}</td>
+                <td className="mono">{shortAddress(r.address)}</td>
+                <td className="mono">{r.asset === "native" ? "native" : shortAddress(r.asset)}</td>
+                <td><span className={`badge ${STATUS_CLASS[r.status]}`}>{r.status}</span></td>
+                <td>{r.abuse_score ?? "—"}</td>
+                <td className="mono">{r.tx_hash ? shortAddress(r.tx_hash) : "—"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {nextBefore !== null && <button onClick={() => search(nextBefore)}>Load more</button>}
+
+      {detail?.request && <RequestDetail detail={detail} onAction={act} />}
+    </div>
+  );
+}
+
+function RequestDetail({ detail, onAction }: { detail: AdminRequestResponse; onAction: (id: number, a: RequestAction) => void }) {
+  const r = detail.request!;
+  return (
+    <div className="panel">
+      <div className="row spread">
+        <h2>Request #{r.id}</h2>
+        <div className="row">
+          {r.status === "failed" && <button onClick={() => onAction(r.id, "retry")}>Retry</button>}
+          {r.status === "queued" && <button onClick={() => onAction(r.id, "cancel")}>Cancel</button>}
+          {r.status === "review" && <button className="primary" onClick={() => onAction(r.id, "release")}>Release</button>}
+          {r.status === "review" && <button onClick={() => onAction(r.id, "reject")}>Reject</button>}
+        </div>
+      </div>
+      <div className="mono">{r.address} · chain {r.chain_id} · {r.asset} · {r.amount ?? "?"} base units</div>
+      <div className="muted">
+        sender {r.sender ?? "—"} · nonce {r.nonce ?? "—"} · replacements {r.replacements}
+        {r.block_number !== null && ` · block ${r.block_number}`}
+        {r.correlation_id && ` · correlation ${r.correlation_id}`}
+      </div>
+      {r.reason && <p className="bad">{r.reason}</p>}
+      {r.amount_policy && (
+        <div className="muted">
+          amount: {r.amount_policy.mode}, base {r.amount_policy.base}
+          {r.amount_policy.notes.length > 0 && ` · ${r.amount_policy.notes.join(" · ")}`}
+        </div>
+      )}
+      {r.abuse_score !== null && (
+        <div>
+          Abuse score <b>{r.abuse_score}</b>
+          {(r.abuse_reasons ?? []).length > 0 && (
+            <ul className="muted">{r.abuse_reasons!.map(reason => <li key={reason}>{reason}</li>)}</ul>
+          )}
+        </div>
+      )}
+
+      <h2>History</h2>
+      <table>
+        <tbody>
+          {(detail.events ?? []).map(e => (
+            <tr key={e.id}>
+              <td>{fmtTime(e.created_at)}</td>
+              <td>{e.from_status ?? "∅"} → <span className={STATUS_CLASS[e.to_status]}>{e.to_status}</span></td>
+              <td className="muted">{e.reason ?? ""}</td>
+              <td className="mono">{e.tx_hash ?? ""}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {(detail.txs ?? []).length > 0 && (
+        <>
+          <h2>Signed transactions</h2>
+          <table>
+            <thead><tr><th>Hash</th><th>Nonce</th><th>Max fee (wei)</th><th>Tip (wei)</th></tr></thead>
+            <tbody>
+              {detail.txs!.map(t => (
+                <tr key={t.txHash}>
+                  <td className="mono">{t.txHash}</td>
+                  <td>{t.nonce}</td>
+                  <td>{t.maxFeePerGas}</td>
+                  <td>{t.maxPriorityFeePerGas}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
+
+function OverridesPanel({ call }: { call: Call }) {
+  const [overrides, setOverrides] = useState<RateLimitOverridesResponse["overrides"]>([]);
+  const [form, setForm] = useState<RateLimitOverrideRequest>({ dimension: "address", value: "", action: "block" });
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const res = await call<RateLimitOverridesResponse>("/admin/rate-limits/overrides");
+    if (res.ok) setOverrides(res.overrides ?? []);
+    else setError(res.error ?? "could not load overrides");
+  }, [call]);
+  useEffect(() => void load(), [load]);
+
+  async function onAdd(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    const body = { ...form, reason: form.reason || undefined, expiresAt: form.expiresAt ? new Date(form.expiresAt).toISOString() : undefined };
+    const res = await call<RateLimitOverridesResponse>("/admin/rate-limits/overrides", { body });
+    if (!res.ok) return setError(res.error ?? "could not save override");
+    setForm({ ...form, value: "", reason: "", expiresAt: "" });
+    load();
+  }
+
+  async function onRemove(id: number) {
+    const res = await call<RateLimitOverridesResponse>(`/admin/rate-limits/overrides/${id}`, { method: "DELETE" });
+    if (!res.ok) return setError(res.error ?? "could not remove override");
+    load();
+  }
+
+  return (
+    <div className="panel">
+      <h2>Block / exempt list</h2>
+      <form className="row" onSubmit={onAdd}>
+        <select value={form.action} onChange={e => setForm({ ...form, action: e.target.value as RateLimitOverrideRequest["action"] })}>
+          <option value="block">block</option>
+          <option value="exempt">exempt</option>
+        </select>
+        <select value={form.dimension} onChange={e => setForm({ ...form, dimension: e.target.value as RateLimitOverrideRequest["dimension"] })}>
+          <option value="address">address</option>
+          <option value="ip">ip</option>
+          <option value="subnet">subnet</option>
+          <option value="session">session</option>
+        </select>
+        <input placeholder="value" value={form.value} onChange={e => setForm({ ...form, value: e.target.value.trim() })} size={44} required />
+        <input placeholder="reason" value={form.reason ?? ""} onChange={e => setForm({ ...form, reason: e.target.value })} />
+        <input type="datetime-local" title="expires (optional)" value={form.expiresAt ?? ""} onChange={e => setForm({ ...form, expiresAt: e.target.value })} />
+        <button className="primary" type="submit">Add</button>
+      </form>
+      {error && <div className="error">{error}</div>}
+      <table>
+        <thead><tr><th>Action</th><th>Dimension</th><th>Value</th><th>Chain</th><th>Reason</th><th>Expires</th><th>By</th><th /></tr></thead>
+        <tbody>
+          {(overrides ?? []).map(o => (
+            <tr key={o.id}>
+              <td className={o.action === "block" ? "bad" : "ok"}>{o.action}</td>
+              <td>{o.dimension}</td>
+              <td className="mono">{o.label}</td>
+              <td>{o.chain_id ?? "all"}</td>
+              <td className="muted">{o.reason ?? ""}</td>
+              <td>{o.expires_at ? fmtTime(o.expires_at) : "never"}</td>
+              <td className="mono">{shortAddress(o.created_by)}</td>
+              <td><button onClick={() => onRemove(o.id)}>Remove</button></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function AllowlistPanel({ call }: { call: Call }) {
+  const [entries, setEntries] = useState<AllowlistResponse["entries"]>([]);
+  const [form, setForm] = useState({ address: "", note: "", expiresAt: "" });
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const res = await call<AllowlistResponse>("/admin/allowlist");
+    if (res.ok) setEntries(res.entries ?? []);
+    else setError(res.error ?? "could not load allowlist");
+  }, [call]);
+  useEffect(() => void load(), [load]);
+
+  async function onAdd(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    const res = await call<AllowlistResponse>("/admin/allowlist", {
+      body: {
+        address: form.address,
+        note: form.note || undefined,
+        expiresAt: form.expiresAt ? new Date(form.expiresAt).toISOString() : undefined,
+      },
+    });
+    if (!res.ok) return setError(res.error ?? "could not add address");
+    setForm({ address: "", note: "", expiresAt: "" });
+    load();
+  }
+
+  async function onRevoke(address: string) {
+    const res = await call<AllowlistResponse>(`/admin/allowlist/${address}`, { method: "DELETE" });
+    if (!res.ok) return setError(res.error ?? "could not revoke");
+    load();
+  }
+
+  return (
+    <div className="panel">
+      <h2>Eligibility allowlist</h2>
+      <p className="muted">Used when ELIGIBILITY_MODE=table.</p>
+      <form className="row" onSubmit={onAdd}>
+        <input placeholder="address 0x…" value={form.address} onChange={e => setForm({ ...form, address: e.target.value.trim() })} size={44} required />
+        <input placeholder="note" value={form.note} onChange={e => setForm({ ...form, note: e.target.value })} />
+        <input type="datetime-local" title="expires (optional)" value={form.expiresAt} onChange={e => setForm({ ...form, expiresAt: e.target.value })} />
+        <button className="primary" type="submit">Allow</button>
+      </form>
+      {error && <div className="error">{error}</div>}
+      <table>
+        <thead><tr><th>Address</th><th>Note</th><th>Added</th><th>Expires</th><th /></tr></thead>
+        <tbody>
+          {(entries ?? []).map(a => (
+            <tr key={a.address}>
+              <td className="mono">{a.address}</td>
+              <td className="muted">{a.note ?? ""}</td>
+              <td>{fmtTime(a.created_at)}</td>
+              <td>{a.expires_at ? fmtTime(a.expires_at) : "never"}</td>
+              <td><button onClick={() => onRevoke(a.address)}>Revoke</button></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
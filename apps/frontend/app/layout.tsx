@@ -0,0 +1,18 @@
+// apps/frontend/app/layout.tsx
+import type { ReactNode } from "react";
+import "./globals.css";
+
+export const metadata = {
+  title: "W3 Faucet",
+  description: "Testnet tokens for builders",
+};
+
+export default function RootLayout({ children }: { children: ReactNode }) {
+  return (
+    <html lang="en">
+      <body>
+        <main>{children}</main>
+      </body>
+    </html>
+  );
+}
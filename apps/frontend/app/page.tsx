@@ -0,0 +1,321 @@
+// apps/frontend/app/page.tsx
+// Public faucet page:
+//   connect wallet → SIWE sign-in → /eligibility → captcha → POST /drip
+//   → follow GET /requests/stream (SSE) and refresh GET /requests/:id on each event
+//     until every asset is sent or failed; plain polling covers a dropped stream
+// The cooldown comes from the API (nextDripAt, or retryAt on a 429), so it matches
+// whichever rate limits the chain is configured with.
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type {
+  ChainsResponse,
+  DripRequest,
+  DripResponse,
+  EligibilityResponse,
+  FaucetConfigResponse,
+  RequestStatus,
+  RequestStatusResponse,
+} from "@w3/shared/types";
+import { API_URL, api, qs } from "../lib/api";
+import { mountCaptcha, type CaptchaWidget } from "../lib/captcha";
+import { dripErrorMessage, formatDuration } from "../lib/errors";
+import { connectWallet, loadSession, shortAddress, signIn, signOut, watchAccounts, type StoredSession } from "../lib/wallet";
+
+type Chain = NonNullable<ChainsResponse["chains"]>[number];
+type Tracked = RequestStatusResponse["requests"];
+
+const POLL_MS = 4_000;       // no live stream
+const SLOW_POLL_MS = 20_000; // stream open: only a safety net
+const TRACK_KEY = "w3-faucet-tracking";
+const STEPS: RequestStatus[] = ["queued", "broadcast", "confirming", "sent"];
+const STEP_LABEL: Record<RequestStatus, string> = {
+  review: "Under review",
+  queued: "Queued",
+  broadcast: "Broadcast",
+  confirming: "Confirming",
+  sent: "Sent",
+  failed: "Failed",
+};
+const done = (s: RequestStatus) => s === "sent" || s === "failed";
+
+/** Base units → decimal string, trailing zeros trimmed. */
+function formatUnits(base: string, decimals: number): string {
+  const s = base.padStart(decimals + 1, "0");
+  const whole = s.slice(0, s.length - decimals);
+  const frac = s.slice(s.length - decimals).replace(/0+$/, "");
+  return frac ? `${whole}.${frac}` : whole;
+}
+
+export default function FaucetPage() {
+  const [config, setConfig] = useState<FaucetConfigResponse | null>(null);
+  const [chains, setChains] = useState<Chain[]>([]);
+  const [chainId, setChainId] = useState<number | null>(null);
+  const [address, setAddress] = useState<string | null>(null);
+  const [session, setSession] = useState<StoredSession | null>(null);
+  const [eligibility, setEligibility] = useState<EligibilityResponse | null>(null);
+  const [captchaSolved, setCaptchaSolved] = useState(false);
+  const [requestId, setRequestId] = useState<number | null>(null);
+  const [tracked, setTracked] = useState<Tracked>(undefined);
+  const [cooldownUntil, setCooldownUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const captchaEl = useRef<HTMLDivElement>(null);
+  const captcha = useRef<CaptchaWidget | null>(null);
+
+  const signedIn = !!session && session.address === address;
+  const chain = chains.find(c => c.chainId === chainId);
+  const coolingDown = cooldownUntil !== null && cooldownUntil > now;
+  const inFlight = !!tracked?.some(r => !done(r.status));
+
+  /* ── bootstrap ── */
+  useEffect(() => {
+    api<FaucetConfigResponse>("/config").then(setConfig);
+    api<ChainsResponse>("/chains").then((r) => {
+      setChains(r.chains ?? []);
+      setChainId(r.chains?.[0]?.chainId ?? null);
+      if (!r.ok) setError(r.error ?? "Could not load the faucet's networks.");
+    });
+    const s = loadSession();
+    if (s) {
+      setSession(s);
+      setAddress(s.address);
+      const saved = Number(sessionStorage.getItem(TRACK_KEY));
+      if (saved) setRequestId(saved);
+    }
+    return watchAccounts(setAddress);
+  }, []);
+
+  useEffect(() => {
+    const t = setInterval(() => setNow(Date.now()), 1_000);
+    return () => clearInterval(t);
+  }, []);
+
+  /* ── eligibility, once per address and chain ── */
+  useEffect(() => {
+    setEligibility(null);
+    if (!address || chainId === null) return;
+    api<EligibilityResponse>(`/eligibility?address=${address}&chainId=${chainId}`).then(setEligibility);
+  }, [address, chainId]);
+
+  /* ── captcha widget, once signed in and eligible ── */
+  useEffect(() => {
+    const cfg = config?.captcha;
+    if (!cfg || !signedIn || !eligibility?.eligible || !captchaEl.current) return;
+    let cancelled = false;
+    setCaptchaSolved(false);
+    mountCaptcha(captchaEl.current, cfg, (ok) => !cancelled && setCaptchaSolved(ok)).then(
+      (w) => { if (!cancelled) captcha.current = w; },
+      (e) => !cancelled && setError(e.message),
+    );
+    return () => {
+      cancelled = true;
+      captcha.current = null;
+    };
+  }, [config, signedIn, eligibility]);
+
+  /* ── request tracking ── */
+  const poll = useCallback(async (id: number, token: string) => {
+    const res = await api<RequestStatusResponse>(`/requests/${id}`, { token });
+    if (res.status === 401) {
+      setSession(null);
+      return true;
+    }
+    if (!res.ok) {
+      sessionStorage.removeItem(TRACK_KEY);
+      setRequestId(null);
+      return true;
+    }
+    setTracked(res.requests);
+    setCooldownUntil(res.nextDripAt ? Date.parse(res.nextDripAt) : null);
+    return (res.requests ?? []).every(r => done(r.status));
+  }, []);
+
+  useEffect(() => {
+    if (requestId === null || !session) return;
+    sessionStorage.setItem(TRACK_KEY, String(requestId));
+    let stop = false;
+    let timer: ReturnType<typeof setTimeout>;
+    let stream: EventSource | null = null;
+    const refresh = async () => {
+      const finished = await poll(requestId, session.token);
+      if (finished) stream?.close();
+      return finished;
+    };
+    const tick = async () => {
+      const finished = await refresh();
+      const streaming = stream !== null && stream.readyState !== EventSource.CLOSED;
+      if (!stop && !finished) timer = setTimeout(tick, streaming ? SLOW_POLL_MS : POLL_MS);
+    };
+    if (typeof EventSource !== "undefined") {
+      stream = new EventSource(`${API_URL}/requests/stream${qs({ requestId, access_token: session.token })}`);
+      for (const s of [...STEPS, "review", "failed"]) stream.addEventListener(s, () => void refresh());
+    }
+    tick();
+    return () => {
+      stop = true;
+      clearTimeout(timer);
+      stream?.close();
+    };
+  }, [requestId, session, poll]);
+
+  /* ── actions ── */
+  async function run(label: string, fn: () => Promise<void>) {
+    setBusy(label);
+    setError(null);
+    try {
+      await fn();
+    } catch (e: any) {
+      setError(e?.message ?? String(e));
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  const onConnect = () => run("connect", async () => setAddress(await connectWallet()));
+
+  const onSignIn = () => run("sign", async () => {
+    setSession(await signIn(address!));
+  });
+
+  const onSignOut = () => run("signout", async () => {
+    await signOut(session);
+    sessionStorage.removeItem(TRACK_KEY);
+    setSession(null);
+    setRequestId(null);
+    setTracked(undefined);
+    setCooldownUntil(null);
+  });
+
+  const onDrip = () => run("drip", async () => {
+    const captchaToken = await captcha.current!.token();
+    const res = await api<DripResponse>("/drip", {
+      token: session!.token,
+      body: { address: address!, chainId: chainId!, captchaToken } satisfies DripRequest,
+    });
+    captcha.current?.reset();
+    if (res.ok && res.requestId) {
+      setTracked(undefined);
+      setRequestId(res.requestId);
+      return;
+    }
+    if (res.status === 401) setSession(null);
+    if (res.requestId) setRequestId(res.requestId); // already in flight: follow that one
+    if (res.retryAt) setCooldownUntil(Date.parse(res.retryAt));
+    throw new Error(dripErrorMessage(res));
+  });
+
+  /* ── render ── */
+  // The amount actually sent can differ from the chain's advertised one (tiers, top-ups).
+  const assetLabel = (r: NonNullable<Tracked>[number]) => {
+    const a = chain?.bundle.find(b => (b.kind === "native" ? "native" : b.token) === r.asset);
+    if (!a) return r.asset;
+    return `${r.amount ? formatUnits(r.amount, a.kind === "native" ? 18 : a.decimals) : a.amount} ${a.symbol}`;
+  };
+
+  return (
+    <>
+      <h1>W3 Faucet</h1>
+      <p className="muted">
+        {chain ? `Get ${chain.bundle.map(a => `${a.amount} ${a.symbol}`).join(" + ")} on ${chain.name}.` : "Testnet tokens for builders."}
+      </p>
+      {error && <div className="error">{error}</div>}
+
+      <div className="panel">
+        <h2>1. Wallet</h2>
+        {!address ? (
+          <button className="primary" disabled={!!busy} onClick={onConnect}>
+            {busy === "connect" ? "Waiting for wallet…" : "Connect wallet"}
+          </button>
+        ) : (
+          <div className="row">
+            <span className="mono">{address}</span>
+            {session && <button disabled={!!busy} onClick={onSignOut}>Sign out</button>}
+          </div>
+        )}
+      </div>
+
+      {address && (
+        <div className="panel">
+          <h2>2. Sign in</h2>
+          {signedIn ? (
+            <p className="ok">Signed in as {shortAddress(address)}.</p>
+          ) : (
+            <>
+              <p className="muted">Sign a message to prove you own this wallet. It costs no gas.</p>
+              <button className="primary" disabled={!!busy} onClick={onSignIn}>
+                {busy === "sign" ? "Check your wallet…" : "Sign in with Ethereum"}
+              </button>
+            </>
+          )}
+          {eligibility && !eligibility.ok && <p className="bad">{eligibility.error}</p>}
+          {eligibility?.ok && !eligibility.eligible && (
+            <p className="bad">This wallet isn't eligible{eligibility.reason ? `: ${eligibility.reason}` : ""}.</p>
+          )}
+        </div>
+      )}
+
+      {signedIn && eligibility?.eligible && (
+        <div className="panel">
+          <h2>3. Request tokens</h2>
+          {chains.length > 1 && (
+            <div className="row">
+              <label htmlFor="chain">Network</label>
+              <select id="chain" value={chainId ?? ""} onChange={e => setChainId(Number(e.target.value))}>
+                {chains.map(c => <option key={c.chainId} value={c.chainId}>{c.name}</option>)}
+              </select>
+            </div>
+          )}
+          <div ref={captchaEl} style={{ margin: "12px 0" }} />
+          <button
+            className="primary"
+            disabled={!!busy || !captchaSolved || coolingDown || inFlight || !chain}
+            onClick={onDrip}
+          >
+            {busy === "drip" ? "Submitting…" : coolingDown ? `Next drip in ${formatDuration(cooldownUntil! - now)}` : "Send me tokens"}
+          </button>
+        </div>
+      )}
+
+      {tracked && tracked.length > 0 && (
+        <div className="panel">
+          <h2>Your request</h2>
+          {tracked.map(r => (
+            <div key={r.id} style={{ marginBottom: 12 }}>
+              <div className="row spread">
+                <b>{assetLabel(r)}</b>
+                <span className="muted">#{r.id}</span>
+              </div>
+              <div className="row">
+                {r.status === "failed" ? (
+                  <span className="badge bad">Failed</span>
+                ) : r.status === "review" ? (
+                  <span className="badge warn">{STEP_LABEL.review}</span>
+                ) : (
+                  STEPS.map((s, i) => {
+                    const reached = STEPS.indexOf(r.status) >= i;
+                    return (
+                      <span key={s} className={`badge ${reached ? (s === "sent" ? "ok" : "warn") : "muted"}`}>
+                        {STEP_LABEL[s]}
+                      </span>
+                    );
+                  })
+                )}
+              </div>
+              {r.status === "failed" && r.reason && <p className="bad">{r.reason}</p>}
+              {r.status === "review" && <p className="muted">This request is waiting for a manual check before it is sent.</p>}
+              {r.txHash && (
+                <div className="mono">
+                  {r.txUrl ? <a href={r.txUrl} target="_blank" rel="noreferrer">{r.txHash}</a> : r.txHash}
+                </div>
+              )}
+            </div>
+          ))}
+          {coolingDown && <p className="muted">You can request again in {formatDuration(cooldownUntil! - now)}.</p>}
+        </div>
+      )}
+    </>
+  );
+}
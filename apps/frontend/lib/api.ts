@@ -0,0 +1,37 @@
+// apps/frontend/lib/api.ts
+// Thin fetch wrapper for the faucet API. Every endpoint answers JSON with an `ok`
+// flag, so non-2xx bodies are returned (not thrown) and pages read `error` from them.
+
+export const API_URL = (process.env.NEXT_PUBLIC_API_URL || "http://localhost:8080").replace(/\/$/, "");
+
+export type ApiResult<T> = T & { ok: boolean; error?: string; status: number };
+
+export async function api<T>(
+  path: string,
+  opts: { method?: string; body?: unknown; token?: string | null } = {},
+): Promise<ApiResult<T>> {
+  const headers: Record<string, string> = {};
+  if (opts.body !== undefined) headers["Content-Type"] = "application/json";
+  if (opts.token) headers.Authorization = `Bearer ${opts.token}`;
+
+  let res: Response;
+  try {
+    res = await fetch(`${API_URL}${path}`, {
+      method: opts.method ?? (opts.body === undefined ? "GET" : "POST"),
+      headers,
+      body: opts.body === undefined ? undefined : JSON.stringify(opts.body),
+    });
+  } catch {
+    return { ok: false, error: "faucet API unreachable", status: 0 } as ApiResult<T>;
+  }
+  const json = await res.json().catch(() => ({ ok: false, error: `unexpected response (${res.status})` }));
+  return { ...json, status: res.status };
+}
+
+/** `?a=1&b=2` from the defined entries, or "". */
+export function qs(params: Record<string, string | number | undefined>): string {
+  const p = new URLSearchParams();
+  for (const [k, v] of Object.entries(params)) if (v !== undefined && v !== "") p.set(k, String(v));
+  const s = p.toString();
+  return s ? `?${s}` : "";
+}
@@ -0,0 +1,111 @@
+// apps/frontend/lib/captcha.ts
+// Client half of packages/shared/src/captcha.ts: loads the provider's widget into an
+// element and hands /drip a fresh token. The provider, site key and action come from
+// GET /config, so the page follows CAPTCHA_PROVIDER without its own setting.
+// - turnstile, hcaptcha, recaptcha-v2: explicit-render widget the user solves
+// - recaptcha-v3: invisible; a token is minted per submit
+// - local: the API's no-network stub ("pass" plus a nonce, since tokens are single-use)
+// - off: no widget, empty token
+
+import type { FaucetConfigResponse } from "@w3/shared/types";
+
+export type CaptchaConfig = NonNullable<FaucetConfigResponse["captcha"]>;
+
+export interface CaptchaWidget {
+  /** A token for one /drip call; throws if the user hasn't solved the challenge. */
+  token(): Promise<string>;
+  /** Clear the solved state so the next submit needs a new challenge. */
+  reset(): void;
+}
+
+type ExplicitApi = {
+  render(el: HTMLElement, opts: Record<string, unknown>): string | number;
+  getResponse(id?: string | number): string | undefined;
+  reset(id?: string | number): void;
+};
+
+const SCRIPTS: Record<"turnstile" | "hcaptcha" | "recaptcha-v2", { src: string; global: string }> = {
+  "turnstile":    { src: "https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit", global: "turnstile" },
+  "hcaptcha":     { src: "https://js.hcaptcha.com/1/api.js?render=explicit", global: "hcaptcha" },
+  "recaptcha-v2": { src: "https://www.google.com/recaptcha/api.js?render=explicit", global: "grecaptcha" },
+};
+
+const loading = new Map<string, Promise<void>>();
+
+function loadScript(src: string): Promise<void> {
+  let p = loading.get(src);
+  if (!p) {
+    p = new Promise((resolve, reject) => {
+      const s = document.createElement("script");
+      s.src = src;
+      s.async = true;
+      s.onload = () => resolve();
+      s.onerror = () => reject(new Error("Could not load the captcha. Check ad blockers and try again."));
+      document.head.appendChild(s);
+    });
+    loading.set(src, p);
+  }
+  return p;
+}
+
+/** The widget global once it exists (grecaptcha also has to be "ready"). */
+async function widgetApi<T>(name: string): Promise<T> {
+  const g = (globalThis as Record<string, any>)[name];
+  if (!g) throw new Error("The captcha failed to initialise.");
+  if (typeof g.ready === "function") await new Promise<void>(r => g.ready(r));
+  return g as T;
+}
+
+const nonce = () => Math.random().toString(36).slice(2);
+
+/**
+ * Render the configured captcha into `el`. `onSolved(true)` fires when a token is
+ * available, `onSolved(false)` when it expires or is reset.
+ */
+export async function mountCaptcha(el: HTMLElement, cfg: CaptchaConfig, onSolved: (solved: boolean) => void): Promise<CaptchaWidget> {
+  switch (cfg.provider) {
+    case "off":
+      onSolved(true);
+      return { token: async () => "", reset() {} };
+
+    case "local":
+      onSolved(true);
+      return { token: async () => `pass;n=${nonce()}`, reset() {} };
+
+    case "recaptcha-v3": {
+      if (!cfg.siteKey) throw new Error("Captcha is not configured (missing site key).");
+      await loadScript(`https://www.google.com/recaptcha/api.js?render=${encodeURIComponent(cfg.siteKey)}`);
+      const api = await widgetApi<{ execute(key: string, o: { action: string }): Promise<string> }>("grecaptcha");
+      onSolved(true);
+      return { token: () => api.execute(cfg.siteKey!, { action: cfg.action ?? "drip" }), reset() {} };
+    }
+
+    case "turnstile":
+    case "hcaptcha":
+    case "recaptcha-v2": {
+      if (!cfg.siteKey) throw new Error("Captcha is not configured (missing site key).");
+      const { src, global } = SCRIPTS[cfg.provider];
+      await loadScript(src);
+      const api = await widgetApi<ExplicitApi>(global);
+      el.innerHTML = "";
+      const id = api.render(el, {
+        sitekey: cfg.siteKey,
+        ...(cfg.provider === "turnstile" && cfg.action ? { action: cfg.action } : {}),
+        callback: () => onSolved(true),
+        "expired-callback": () => onSolved(false),
+        "error-callback": () => onSolved(false),
+      });
+      return {
+        async token() {
+          const t = api.getResponse(id);
+          if (!t) throw new Error("Please complete the captcha first.");
+          return t;
+        },
+        reset() {
+          api.reset(id);
+          onSolved(false);
+        },
+      };
+    }
+  }
+}
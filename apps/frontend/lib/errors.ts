@@ -0,0 +1,45 @@
+// apps/frontend/lib/errors.ts
+// User-facing wording for /drip refusals. The API's `error` strings are written for
+// operators and logs; this maps them (with status and limitedBy) to what a visitor
+// can act on, falling back to the raw message for anything unrecognised.
+
+import type { DripResponse } from "@w3/shared/types";
+import type { ApiResult } from "./api";
+
+const SUBJECT: Record<NonNullable<DripResponse["limitedBy"]>, string> = {
+  address: "This wallet",
+  ip: "Your network",
+  subnet: "Your network range",
+  session: "This session",
+};
+
+/** "2h 05m", "4m 10s", "12s". */
+export function formatDuration(ms: number): string {
+  const s = Math.max(0, Math.ceil(ms / 1000));
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  if (h > 0) return `${h}h ${String(m).padStart(2, "0")}m`;
+  if (m > 0) return `${m}m ${String(s % 60).padStart(2, "0")}s`;
+  return `${s}s`;
+}
+
+export function dripErrorMessage(res: ApiResult<DripResponse>): string {
+  const error = res.error ?? "";
+  const wait = res.retryAt ? ` Try again in ${formatDuration(Date.parse(res.retryAt) - Date.now())}.` : "";
+
+  if (res.status === 0) return "The faucet is unreachable right now. Check your connection and try again.";
+  if (res.status === 401) return "Your sign-in expired. Sign in again to continue.";
+  if (error === "address does not match session") return "The connected wallet changed. Sign in again with it.";
+  if (error.startsWith("not eligible:")) return `This wallet isn't eligible: ${error.slice("not eligible:".length).trim()}.`;
+  if (/captcha/i.test(error)) return "The captcha check failed. Solve it again and resubmit.";
+  if (/already in flight/.test(error)) return "You already have a request in progress; it's tracked below.";
+  if (/blocked/.test(error)) {
+    return `${res.limitedBy ? SUBJECT[res.limitedBy] : "This wallet"} is blocked from the faucet. Contact the operators if this is a mistake.`;
+  }
+  if (res.status === 429 && res.limitedBy) return `${SUBJECT[res.limitedBy]} already received a drip recently.${wait}`;
+  if (/budget exhausted/.test(error)) return `The faucet has given out its ${/daily/.test(error) ? "daily" : "hourly"} budget.${wait}`;
+  if (/faucet paused/.test(error)) return "The faucet is paused while it's refilled. Please try again later.";
+  if (/unsupported chainId/.test(error)) return "That network isn't supported by this faucet.";
+  if (res.status >= 500) return "The faucet hit an internal error. Please try again in a minute.";
+  return error || "Something went wrong. Please try again.";
+}
@@ -0,0 +1,79 @@
+// apps/frontend/lib/wallet.ts
+// Injected wallet (EIP-1193) and the SIWE sign-in the API expects:
+//   POST /auth/nonce → personal_sign(message) → POST /auth/verify → bearer token
+// The token lives in sessionStorage, so it dies with the tab.
+
+import type { AuthNonceResponse, AuthVerifyResponse } from "@w3/shared/types";
+import { api } from "./api";
+
+type Eip1193 = {
+  request(args: { method: string; params?: unknown[] }): Promise<any>;
+  on?(event: string, cb: (...args: any[]) => void): void;
+  removeListener?(event: string, cb: (...args: any[]) => void): void;
+};
+
+export type StoredSession = { token: string; address: string; expiresAt: string };
+
+function injected(): Eip1193 {
+  const eth = (globalThis as { ethereum?: Eip1193 }).ethereum;
+  if (!eth) throw new Error("No wallet found. Install MetaMask or another browser wallet.");
+  return eth;
+}
+
+/** Ask the wallet for an account; returns it lowercased. */
+export async function connectWallet(): Promise<string> {
+  const accounts: string[] = await injected().request({ method: "eth_requestAccounts" });
+  if (!accounts?.length) throw new Error("The wallet returned no account.");
+  return accounts[0].toLowerCase();
+}
+
+/** Follow the wallet's selected account (lowercased, null when locked); returns an unsubscribe. */
+export function watchAccounts(cb: (address: string | null) => void): () => void {
+  const eth = (globalThis as { ethereum?: Eip1193 }).ethereum;
+  if (!eth?.on) return () => {};
+  const handler = (accounts: string[]) => cb(accounts?.[0]?.toLowerCase() ?? null);
+  eth.on("accountsChanged", handler);
+  return () => eth.removeListener?.("accountsChanged", handler);
+}
+
+/** Full SIWE round trip; throws with the API's (or wallet's) message on failure. */
+export async function signIn(address: string): Promise<StoredSession> {
+  const nonce = await api<AuthNonceResponse>("/auth/nonce", { body: { address } });
+  if (!nonce.ok || !nonce.message) throw new Error(nonce.error ?? "could not start sign-in");
+
+  let signature: string;
+  try {
+    signature = await injected().request({ method: "personal_sign", params: [nonce.message, address] });
+  } catch (e: any) {
+    throw new Error(e?.code === 4001 ? "Signature request rejected in the wallet." : e?.message ?? "signing failed");
+  }
+
+  const verified = await api<AuthVerifyResponse>("/auth/verify", { body: { address, message: nonce.message, signature } });
+  if (!verified.ok || !verified.token) throw new Error(verified.error ?? "sign-in failed");
+  const session = { token: verified.token, address: verified.address ?? address, expiresAt: verified.expiresAt ?? "" };
+  saveSession(session);
+  return session;
+}
+
+const KEY = "w3-faucet-session";
+
+export function loadSession(): StoredSession | null {
+  try {
+    const s = JSON.parse(sessionStorage.getItem(KEY) ?? "null") as StoredSession | null;
+    return s && (!s.expiresAt || Date.parse(s.expiresAt) > Date.now()) ? s : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveSession(s: StoredSession | null): void {
+  if (s) sessionStorage.setItem(KEY, JSON.stringify(s));
+  else sessionStorage.removeItem(KEY);
+}
+
+export async function signOut(s: StoredSession | null): Promise<void> {
+  if (s) await api("/auth/logout", { method: "POST", token: s.token });
+  saveSession(null);
+}
+
+export const shortAddress = (a: string) => `${a.slice(0, 6)}…${a.slice(-4)}`;
@@ -0,0 +1,5 @@
+// apps/frontend/next.config.js
+/** @type {import("next").NextConfig} */
+module.exports = {
+  reactStrictMode: true,
+};
@@ -0,0 +1,31 @@
+// apps/worker/src/alerts.ts
+// failure_rate.spike webhook: over the last ALERT_FAILURE_WINDOW_SEC, a chain with at
+// least ALERT_FAILURE_MIN_REQUESTS requests of which ALERT_FAILURE_RATE_PCT or more
+// failed. The event key is the window bucket, so each chain alerts at most once per
+// window however many workers run the check.
+import { getIntEnv, getNumberEnv } from "@w3/shared/env";
+import { failureRates } from "@w3/shared/requestRepo";
+import { emitWebhook } from "@w3/shared/webhookRepo";
+import { logger } from "@w3/shared/logger";
+import { runtimeFor } from "./chains";
+
+const WINDOW_SEC   = getIntEnv("ALERT_FAILURE_WINDOW_SEC", 900);
+const MIN_REQUESTS = getIntEnv("ALERT_FAILURE_MIN_REQUESTS", 20);
+const RATE_PCT     = getNumberEnv("ALERT_FAILURE_RATE_PCT", 25);
+
+const log = logger.child({ component: "alerts" });
+
+export async function checkFailureRates(now = Date.now()): Promise<void> {
+  const bucket = Math.floor(now / 1000 / WINDOW_SEC);
+  for (const r of await failureRates(WINDOW_SEC)) {
+    const pct = r.total ? (r.failed / r.total) * 100 : 0;
+    if (r.total < MIN_REQUESTS || pct < RATE_PCT) continue;
+    const created = await emitWebhook({
+      key: `failure_rate.spike:${r.chainId}:${bucket}`,
+      type: "failure_rate.spike",
+      chainId: r.chainId,
+      data: { chain: runtimeFor(r.chainId)?.chain.key ?? null, windowSec: WINDOW_SEC, total: r.total, failed: r.failed, failureRatePct: Math.round(pct * 10) / 10 },
+    });
+    if (created) log.warn("failure rate spike", { chainId: r.chainId, total: r.total, failed: r.failed });
+  }
+}
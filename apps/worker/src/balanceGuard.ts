@@ -0,0 +1,79 @@
+// apps/worker/src/balanceGuard.ts
+// Circuit breaker on the faucet balance: below chain.balanceReserve the chain's
+// queue is paused (for every worker process — BullMQ pauses are global), and it
+// resumes by itself once the balance is back above reserve + BREAKER_RESUME_PCT.
+// The margin keeps a balance hovering at the reserve from flapping the queue.
+// Webhooks: breaker.tripped / breaker.resumed on each flip, and balance.low once the
+// balance falls under reserve + BALANCE_LOW_PCT (re-armed when it climbs back above).
+import { ethers } from "ethers";
+import type { Queue } from "bullmq";
+import { retryRpc } from "@w3/shared/retry";
+import { getNumberEnv } from "@w3/shared/env";
+import { clearBreaker, getBreaker, setBreaker, type BreakerState } from "@w3/shared/breaker";
+import { emitWebhook } from "@w3/shared/webhookRepo";
+import type { WebhookEventType } from "@w3/shared/webhooks";
+import { logger } from "@w3/shared/logger";
+import type { ChainRuntime } from "./chains";
+import { breakerOpen, faucetBalance } from "./metrics";
+
+const RESUME_PCT = getNumberEnv("BREAKER_RESUME_PCT", 10);
+const LOW_PCT = getNumberEnv("BALANCE_LOW_PCT", 50);
+const log = logger.child({ component: "breaker" });
+
+const abovePct = (reserve: bigint, pct: number) => reserve + (reserve * BigInt(Math.round(pct * 100))) / 10_000n;
+
+export async function checkBalance(rt: ChainRuntime, queue: Queue): Promise<BreakerState | null> {
+  const { chain, provider, sender } = rt;
+  const prev = await getBreaker(chain.chainId);
+
+  if (chain.balanceReserve === null) {
+    // Reserve removed from config: undo our own pause, never an operator's.
+    if (prev?.open) await queue.resume();
+    if (prev) await clearBreaker(chain.chainId);
+    return null;
+  }
+
+  const reserve = ethers.parseEther(chain.balanceReserve);
+  const resumeAt = abovePct(reserve, RESUME_PCT);
+  const balance = await retryRpc(() => provider.getBalance(sender));
+  faucetBalance.set({ chain: chain.key, asset: chain.nativeSymbol }, Number(ethers.formatEther(balance)));
+  const now = new Date().toISOString();
+
+  // Every worker runs this check; keying events on the state they all read means
+  // concurrent processes seeing the same flip emit it once.
+  const alert = (type: WebhookEventType) =>
+    emitWebhook({
+      key: `${type}:${chain.chainId}:${prev?.checkedAt ?? "initial"}`,
+      type,
+      chainId: chain.chainId,
+      data: { chain: chain.key, faucet: sender, balance: ethers.formatEther(balance), reserve: chain.balanceReserve },
+    }).catch((err) => log.error("webhook emit failed", { chain: chain.key, type, err }));
+
+  let open = prev?.open ?? false;
+  if (!open && balance < reserve) {
+    await queue.pause();
+    open = true;
+    log.error("balance below reserve; queue paused", { chain: chain.key, balance: ethers.formatEther(balance), reserve: chain.balanceReserve });
+    await alert("breaker.tripped");
+  } else if (open && balance >= resumeAt) {
+    await queue.resume();
+    open = false;
+    log.info("balance refilled; queue resumed", { chain: chain.key, balance: ethers.formatEther(balance) });
+    await alert("breaker.resumed");
+  }
+
+  const low = balance < abovePct(reserve, LOW_PCT);
+  if (low && !prev?.low) await alert("balance.low");
+
+  const state: BreakerState = {
+    open,
+    since: open === prev?.open ? prev.since : now,
+    balance: ethers.formatEther(balance),
+    reserve: chain.balanceReserve,
+    checkedAt: now,
+    low,
+  };
+  await setBreaker(chain.chainId, state);
+  breakerOpen.set({ chain: chain.key }, open ? 1 : 0);
+  return state;
+}
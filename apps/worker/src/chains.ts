@@ -0,0 +1,26 @@
+// apps/worker/src/chains.ts
+// Per-chain runtime (provider + signer) built once from the shared registry.
+import { ethers } from "ethers";
+import { loadChains, type ChainConfig } from "@w3/shared/chains";
+import { requireEnv } from "@w3/shared/env";
+import { createNonceManager, type NonceManager } from "@w3/shared/nonceManager";
+
+export type ChainRuntime = {
+  chain: ChainConfig;
+  provider: ethers.JsonRpcProvider;
+  wallet: ethers.Wallet;
+  sender: string; // lowercased faucet address on this chain
+  nonces: NonceManager;
+};
+
+export const runtimes: ChainRuntime[] = loadChains().map((chain) => {
+  const provider = new ethers.JsonRpcProvider(chain.rpcUrl, chain.chainId, { staticNetwork: true });
+  const wallet = new ethers.Wallet(requireEnv(chain.privateKeyEnv), provider);
+  const sender = wallet.address.toLowerCase();
+  const nonces = createNonceManager({ chainId: chain.chainId, sender, provider });
+  return { chain, provider, wallet, sender, nonces };
+});
+
+export function runtimeFor(chainId: number): ChainRuntime | undefined {
+  return runtimes.find(r => r.chain.chainId === chainId);
+}
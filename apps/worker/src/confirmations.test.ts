@@ -0,0 +1,84 @@
+import type { ethers } from "ethers";
+import { createRequest, getRequest, markBroadcast, markConfirming, markSent } from "@w3/shared/requestRepo";
+import { resetTestDb } from "../../../packages/shared/src/testDb";
+import type { ChainRuntime } from "./chains";
+import { recordReceipt, verifyRecent } from "./confirmations";
+
+jest.mock("@w3/shared/db", () => require("../../../packages/shared/src/testDb").testDbModule());
+jest.mock("@w3/shared/statusStream", () => ({ publishStatus: jest.fn() }));
+
+const CHAIN = 11155111;
+const SENDER = "0x00000000000000000000000000000000000000f0";
+const hex = (n: number, bytes: number) => `0x${n.toString(16).padStart(bytes * 2, "0")}`;
+let seq = 0;
+
+/** A node at `head`; `receipts` maps a tx hash to the block it is currently mined in. */
+function chainAt(head: number, receipts: Map<string, number>) {
+  const lookedUp: string[] = [];
+  const provider = {
+    getBlockNumber: async () => head,
+    async getTransactionReceipt(hash: string) {
+      lookedUp.push(hash);
+      const blockNumber = receipts.get(hash);
+      return blockNumber === undefined ? null : { hash, blockNumber, blockHash: hex(blockNumber, 32), status: 1 };
+    },
+  };
+  const rt = { chain: { key: "sepolia", chainId: CHAIN, confirmations: 3, finalityDepth: 64 }, provider };
+  return { rt: rt as unknown as ChainRuntime, lookedUp };
+}
+
+/** A request whose tx was broadcast and, unless `status` is 'broadcast', mined in `blockNumber`. */
+async function request(status: "broadcast" | "confirming" | "sent", blockNumber = 0) {
+  const id = await createRequest({ address: hex(++seq, 20), chainId: CHAIN, ip: "203.0.113.7", asset: "native", amount: "1" });
+  const txHash = hex(1_000 + id, 32);
+  await markBroadcast(id, SENDER, { txHash, nonce: id, gasLimit: 21_000n, maxFeePerGas: 2n, maxPriorityFeePerGas: 1n });
+  const m = { txHash, blockNumber, blockHash: hex(blockNumber, 32) };
+  if (status === "confirming") await markConfirming(id, m);
+  if (status === "sent") await markSent(id, m);
+  return { id, txHash };
+}
+
+const statusOf = async (id: number) => (await getRequest(id))!.status;
+
+describe("confirmations", () => {
+  beforeEach(resetTestDb);
+
+  it("holds a receipt in 'confirming' until the chain's confirmation depth", async () => {
+    const { id, txHash } = await request("broadcast");
+    const { rt } = chainAt(101, new Map([[txHash, 100]]));
+    const rcpt = (await rt.provider.getTransactionReceipt(txHash)) as ethers.TransactionReceipt;
+
+    expect(await recordReceipt(rt, id, rcpt, 101)).toBe("confirming"); // 2 of 3 blocks
+    expect(await statusOf(id)).toBe("confirming");
+    expect(await recordReceipt(rt, id, rcpt, 102)).toBe("sent");
+    expect(await statusOf(id)).toBe("sent");
+  });
+
+  it("promotes a 'confirming' row once it reaches depth", async () => {
+    const { id, txHash } = await request("confirming", 100);
+    const { rt } = chainAt(102, new Map([[txHash, 100]]));
+    expect(await verifyRecent(rt)).toEqual({ promoted: 1, reorged: 0 });
+    expect(await statusOf(id)).toBe("sent");
+  });
+
+  it("steps a row back to 'broadcast' when its receipt vanishes, and re-confirms one that moved block", async () => {
+    const gone = await request("sent", 990);
+    const moved = await request("sent", 995);
+    const { rt } = chainAt(1_000, new Map([[moved.txHash, 999]]));
+
+    expect(await verifyRecent(rt)).toEqual({ promoted: 0, reorged: 2 });
+    expect(await getRequest(gone.id)).toMatchObject({ status: "broadcast", block_number: null, block_hash: null });
+    expect(await getRequest(moved.id)).toMatchObject({ status: "confirming", block_hash: hex(999, 32) });
+  });
+
+  it("applies the finality floor to 'sent' rows only", async () => {
+    const deepConfirming = await request("confirming", 100); // e.g. the worker was down past finality
+    const deepSent = await request("sent", 101);
+    const { rt, lookedUp } = chainAt(1_000, new Map([[deepConfirming.txHash, 100]])); // deepSent's receipt is gone
+
+    expect(await verifyRecent(rt)).toEqual({ promoted: 1, reorged: 0 });
+    expect(await statusOf(deepConfirming.id)).toBe("sent");
+    expect(await statusOf(deepSent.id)).toBe("sent");
+    expect(lookedUp).not.toContain(deepSent.txHash);
+  });
+});
@@ -0,0 +1,107 @@
+// apps/worker/src/confirmations.ts
+// A receipt is not delivery: the block holding it can be reorged out.
+// - recordReceipt(): 'confirming' until the chain's confirmation depth, then 'sent'
+// - verifyRecent():  re-check 'confirming' and recently 'sent' rows; if the receipt
+//                    vanished or moved to another block, step the row back
+// 'sent' rows deeper than chain.finalityDepth are never looked at again; a 'confirming'
+// row is picked up at any depth (e.g. after the worker was down) and finalized.
+import type { ethers } from "ethers";
+import {
+  getRequest,
+  listUnfinalized,
+  markConfirming,
+  markReorged,
+  markReverted,
+  markSent,
+} from "@w3/shared/requestRepo";
+import { retryRpc } from "@w3/shared/retry";
+import { getIntEnv } from "@w3/shared/env";
+import { logger } from "@w3/shared/logger";
+import type { ChainRuntime } from "./chains";
+import { secondsSince, timeToConfirm } from "./metrics";
+
+const VERIFY_BATCH = getIntEnv("REORG_VERIFY_BATCH", 500);
+const log = logger.child({ component: "reorg" });
+
+export type ReceiptOutcome = "sent" | "confirming" | "reverted";
+
+/** Blocks on top of (and including) the receipt's block. */
+const depthOf = (head: number, blockNumber: number) => head - blockNumber + 1;
+
+/**
+ * Apply a receipt for one of the request's hashes. The repository guards on the
+ * current status, so a late writer never overrides a row another path moved on.
+ */
+export async function recordReceipt(
+  rt: ChainRuntime,
+  requestId: number,
+  rcpt: ethers.TransactionReceipt,
+  head?: number,
+): Promise<ReceiptOutcome> {
+  const { chain, provider } = rt;
+  const mined = { txHash: rcpt.hash, blockNumber: rcpt.blockNumber, blockHash: rcpt.blockHash };
+  if (rcpt.status === 0) {
+    await markReverted(requestId, mined);
+    return "reverted";
+  }
+
+  const tip = head ?? await retryRpc(() => provider.getBlockNumber());
+  if (depthOf(tip, rcpt.blockNumber) >= chain.confirmations) {
+    if (await markSent(requestId, mined)) {
+      const row = await getRequest(requestId);
+      if (row?.broadcast_at && row.confirmed_at) {
+        timeToConfirm.observe({ chain: chain.key }, secondsSince(row.broadcast_at, row.confirmed_at));
+      }
+    }
+    return "sent";
+  }
+  await markConfirming(requestId, mined);
+  return "confirming";
+}
+
+/**
+ * Reorg pass for one chain. A vanished receipt sends the row back to 'broadcast'
+ * (broadcast_at reset, so the stuck timer restarts) where the broadcast pass looks
+ * at every hash signed for it again; a receipt in a different block re-enters
+ * 'confirming' at its new depth.
+ */
+export async function verifyRecent(rt: ChainRuntime): Promise<{ promoted: number; reorged: number }> {
+  const { chain, provider } = rt;
+  const head = await retryRpc(() => provider.getBlockNumber());
+  const floor = head - chain.finalityDepth;
+  let promoted = 0;
+  let reorged = 0;
+
+  const rows = await listUnfinalized(chain.chainId, floor, VERIFY_BATCH);
+
+  for (const r of rows) {
+    const rlog = log.child({
+      correlationId: r.correlation_id ?? undefined,
+      requestId: r.id,
+      chain: chain.key,
+      txHash: r.tx_hash,
+    });
+    try {
+      const rcpt = await retryRpc(() => provider.getTransactionReceipt(r.tx_hash));
+      if (!rcpt) {
+        await markReorged(r.id, r.status, Number(r.block_number));
+        reorged++;
+        rlog.warn("reorged out; back to broadcast", { blockNumber: Number(r.block_number) });
+        continue;
+      }
+      if (rcpt.blockHash !== r.block_hash) {
+        reorged++;
+        rlog.warn("reorged into another block", { fromBlock: Number(r.block_number), toBlock: rcpt.blockNumber });
+      }
+      // Same block and already 'sent' at depth: nothing to write.
+      if (r.status === "sent" && rcpt.blockHash === r.block_hash) continue;
+
+      const before = r.status;
+      const after = await recordReceipt(rt, r.id, rcpt, head);
+      if (before === "confirming" && after === "sent") promoted++;
+    } catch (e: any) {
+      rlog.error("provider error", { err: e });
+    }
+  }
+  return { promoted, reorged };
+}
@@ -0,0 +1,62 @@
+// apps/worker/src/metrics.ts
+// Worker series on the shared registry, and the /metrics endpoint Prometheus scrapes
+// (METRICS_PORT, 0 disables). RPC latency/errors come from retryRpc itself.
+import { createServer, type Server } from "node:http";
+import { CONTENT_TYPE, metrics } from "@w3/shared/metrics";
+import { getIntEnv } from "@w3/shared/env";
+import { logger } from "@w3/shared/logger";
+
+export type JobOutcome = "sent" | "reverted" | "handed_off" | "failed" | "retry" | "skipped" | "delayed";
+
+const jobs = metrics.counter("faucet_jobs_total", "Drip jobs processed, by chain and outcome");
+export const timeToBroadcast = metrics.histogram(
+  "faucet_time_to_broadcast_seconds",
+  "From request creation to its tx reaching the node",
+);
+export const timeToConfirm = metrics.histogram(
+  "faucet_time_to_confirm_seconds",
+  "From broadcast to the chain's confirmation depth",
+);
+export const faucetBalance = metrics.gauge("faucet_balance", "Faucet signer balance in whole units, by chain and asset");
+export const breakerOpen = metrics.gauge("faucet_breaker_open", "1 while the balance breaker has the chain's queue paused");
+export const nonceGaps = metrics.gauge("faucet_nonce_gaps", "Reserved nonces never broadcast, seen in the last reconciler pass");
+export const nonceGapsFilled = metrics.counter("faucet_nonce_gaps_filled_total", "Nonce gaps burned with a filler tx");
+export const reconcilerDuration = metrics.histogram(
+  "faucet_reconciler_run_duration_seconds",
+  "Wall time of one reconciler pass over every chain",
+);
+export const reconcilerSkips = metrics.counter(
+  "faucet_reconciler_lock_skips_total",
+  "Reconciler ticks skipped because another process held the lock",
+);
+
+export const webhookDeliveries = metrics.counter(
+  "faucet_webhook_deliveries_total",
+  "Webhook delivery attempts, by outcome (delivered, retry, failed)",
+);
+
+export function countJob(chain: string, outcome: JobOutcome): void {
+  jobs.inc({ chain, outcome });
+}
+
+/** Seconds between two ISO timestamps (or an ISO timestamp and now). */
+export function secondsSince(from: string, to: string | number = Date.now()): number {
+  const end = typeof to === "number" ? to : Date.parse(to);
+  return Math.max(0, (end - Date.parse(from)) / 1000);
+}
+
+export function startMetricsServer(port = getIntEnv("METRICS_PORT", 9464)): Server | null {
+  if (port === 0) return null;
+  const server = createServer((req, res) => {
+    if (req.method !== "GET" || req.url?.split("?")[0] !== "/metrics") {
+      res.writeHead(404).end();
+      return;
+    }
+    metrics.render().then(
+      (body) => res.writeHead(200, { "Content-Type": CONTENT_TYPE }).end(body),
+      (e) => res.writeHead(500).end(String(e?.message || e)),
+    );
+  });
+  server.listen(port, () => logger.info("metrics listening", { component: "metrics", port }));
+  return server;
+}
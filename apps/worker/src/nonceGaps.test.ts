@@ -0,0 +1,63 @@
+import type { ethers } from "ethers";
+import { startAirdrop, listAirdropItems, markItemsSigned } from "@w3/shared/airdropRepo";
+import { createRequest, markBroadcast } from "@w3/shared/requestRepo";
+import { resetTestDb } from "../../../packages/shared/src/testDb";
+import type { ChainRuntime } from "./chains";
+import { fillNonceGaps } from "./nonceGaps";
+
+jest.mock("@w3/shared/db", () => require("../../../packages/shared/src/testDb").testDbModule());
+jest.mock("@w3/shared/statusStream", () => ({ publishStatus: jest.fn() }));
+jest.mock("./metrics", () => ({ nonceGaps: { set: jest.fn() }, nonceGapsFilled: { inc: jest.fn() } }));
+
+const CHAIN = 11155111;
+const SENDER = "0x00000000000000000000000000000000000000f0";
+const RECIPIENT = "0x00000000000000000000000000000000000000a1";
+const hash = (n: number) => `0x${n.toString(16).padStart(64, "0")}`;
+
+/** A runtime whose allocator reports `stale` and whose wallet records what it sends. */
+function runtime(stale: number[]) {
+  const sent: ethers.TransactionRequest[] = [];
+  const nonces = { staleReservations: async () => stale, markBroadcast: jest.fn(async (_nonce: number) => {}) };
+  const wallet = {
+    address: SENDER,
+    async sendTransaction(tx: ethers.TransactionRequest) {
+      sent.push(tx);
+      return { hash: hash(1_000 + Number(tx.nonce)) };
+    },
+  };
+  const provider = { getFeeData: async () => ({ gasPrice: 10n, maxFeePerGas: 20n, maxPriorityFeePerGas: 2n }) };
+  const rt = { chain: { key: "sepolia", chainId: CHAIN }, provider, wallet, sender: SENDER, nonces };
+  return { rt: rt as unknown as ChainRuntime, sent, nonces };
+}
+
+describe("nonce gap filler", () => {
+  beforeEach(resetTestDb);
+
+  it("burns only stale nonces that no request or airdrop item has claimed", async () => {
+    // Nonce 3: a request signed it and may be out.
+    const id = await createRequest({ address: RECIPIENT, chainId: CHAIN, ip: "203.0.113.7", asset: "native", amount: "1" });
+    await markBroadcast(id, SENDER, { txHash: hash(3), nonce: 3, gasLimit: 21_000n, maxFeePerGas: 2n, maxPriorityFeePerGas: 1n });
+    // Nonce 4: an airdrop item signed it.
+    const { airdrop } = await startAirdrop({
+      name: "gaps", chainId: CHAIN, sender: SENDER, mode: "direct", csvSha256: "00",
+      items: [{ line: 1, address: RECIPIENT, asset: "native", amount: 1n }],
+    });
+    const [item] = await listAirdropItems(airdrop.id, "pending");
+    await markItemsSigned([item.id], { nonce: 4, txHash: hash(4), raw: "0x" });
+
+    const { rt, sent, nonces } = runtime([3, 4, 5]);
+    expect(await fillNonceGaps(rt)).toBe(1);
+    expect(sent).toEqual([expect.objectContaining({ to: SENDER, value: 0n, nonce: 5 })]);
+    expect(nonces.markBroadcast.mock.calls.map(([n]) => n)).toEqual([3, 4, 5]);
+  });
+
+  it("ignores a claim on the same nonce from another sender", async () => {
+    const other = "0x00000000000000000000000000000000000000f1";
+    const id = await createRequest({ address: RECIPIENT, chainId: CHAIN, ip: "203.0.113.7", asset: "native", amount: "1" });
+    await markBroadcast(id, other, { txHash: hash(3), nonce: 3, gasLimit: 21_000n, maxFeePerGas: 2n, maxPriorityFeePerGas: 1n });
+
+    const { rt, sent } = runtime([3]);
+    expect(await fillNonceGaps(rt)).toBe(1);
+    expect(sent.map(tx => tx.nonce)).toEqual([3]);
+  });
+});
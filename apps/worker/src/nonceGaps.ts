@@ -0,0 +1,49 @@
+// apps/worker/src/nonceGaps.ts
+// A nonce reserved by a worker that crashed before broadcasting blocks every later
+// tx from the same sender. Find such reservations and burn them with a 0-value
+// self-transfer so the queue behind them can mine.
+import { nonceClaimed } from "@w3/shared/requestRepo";
+import { retryRpc } from "@w3/shared/retry";
+import { getIntEnv } from "@w3/shared/env";
+import { getFeeSuggestion } from "@w3/shared/fees";
+import { logger } from "@w3/shared/logger";
+import type { ChainRuntime } from "./chains";
+import { nonceGaps, nonceGapsFilled } from "./metrics";
+
+const GAP_AFTER_MS = getIntEnv("NONCE_GAP_AFTER_MS", 120_000);
+const log = logger.child({ component: "nonce-gaps" });
+
+export async function fillNonceGaps(rt: ChainRuntime): Promise<number> {
+  const { chain, wallet, sender, nonces } = rt;
+  const stale = await nonces.staleReservations(GAP_AFTER_MS);
+  nonceGaps.set({ chain: chain.key }, stale.length);
+  let filled = 0;
+
+  for (const nonce of stale) {
+    // Write-ahead row exists → the tx was signed and may be out; the reconciler owns it.
+    if (await nonceClaimed(chain.chainId, sender, nonce)) {
+      await nonces.markBroadcast(nonce);
+      continue;
+    }
+
+    const { maxFeePerGas, maxPriorityFeePerGas } = await getFeeSuggestion(rt.provider);
+    try {
+      const tx = await retryRpc(() => wallet.sendTransaction({
+        to: wallet.address,
+        value: 0n,
+        nonce,
+        gasLimit: 21_000n,
+        maxFeePerGas,
+        maxPriorityFeePerGas,
+      }));
+      log.warn("filled nonce gap", { chain: chain.key, nonce, txHash: tx.hash });
+      filled++;
+      nonceGapsFilled.inc({ chain: chain.key });
+    } catch (e: any) {
+      // "nonce too low" means something else already used it: the gap is gone either way.
+      if (!/nonce too low|already known|nonce has already been used|replacement transaction underpriced/i.test(String(e?.message ?? e))) throw e;
+    }
+    await nonces.markBroadcast(nonce);
+  }
+  return filled;
+}
@@ -0,0 +1,46 @@
+import { createRequest, getRequest, markBroadcast, markSent, recordReplacement } from "@w3/shared/requestRepo";
+import { resetTestDb } from "../../../packages/shared/src/testDb";
+import { runtimes, type ChainRuntime } from "./chains";
+import { reconcileBroadcastsOnce } from "./reconciler";
+
+jest.mock("@w3/shared/db", () => require("../../../packages/shared/src/testDb").testDbModule());
+jest.mock("@w3/shared/statusStream", () => ({ publishStatus: jest.fn() }));
+jest.mock("@w3/shared/redis", () => ({ redis: {} }));
+jest.mock("./chains", () => ({ runtimes: [] }));
+jest.mock("./nonceGaps", () => ({ fillNonceGaps: jest.fn() }));
+
+const CHAIN = 11155111;
+const SENDER = "0x00000000000000000000000000000000000000f0";
+const RECIPIENT = "0x00000000000000000000000000000000000000a1";
+const hex = (n: number, bytes: number) => `0x${n.toString(16).padStart(bytes * 2, "0")}`;
+const signed = (txHash: string, fee: bigint) => ({ txHash, nonce: 7, gasLimit: 21_000n, maxFeePerGas: fee, maxPriorityFeePerGas: 1n });
+
+describe("reconciler", () => {
+  beforeEach(async () => {
+    await resetTestDb();
+    runtimes.length = 0;
+  });
+
+  it("resolves a row the reorg pass stepped back to 'broadcast' in the same pass", async () => {
+    const [original, replacement] = [hex(1, 32), hex(2, 32)];
+    const id = await createRequest({ address: RECIPIENT, chainId: CHAIN, ip: "203.0.113.7", asset: "native", amount: "1" });
+    await markBroadcast(id, SENDER, signed(original, 2n));
+    await recordReplacement(id, original, signed(replacement, 3n));
+    await markSent(id, { txHash: original, blockNumber: 990, blockHash: hex(990, 32) });
+
+    // A reorg dropped the original; the replacement mined instead.
+    const receipts = new Map([[replacement, 995]]);
+    const provider = {
+      getBlockNumber: async () => 1_000,
+      getTransactionReceipt: async (hash: string) => {
+        const blockNumber = receipts.get(hash);
+        return blockNumber === undefined ? null : { hash, blockNumber, blockHash: hex(blockNumber, 32), status: 1 };
+      },
+    };
+    const chain = { key: "sepolia", chainId: CHAIN, confirmations: 3, finalityDepth: 64 };
+    runtimes.push({ chain, provider, sender: SENDER, nonces: { minedNonce: async () => 7 } } as unknown as ChainRuntime);
+
+    await reconcileBroadcastsOnce();
+    expect(await getRequest(id)).toMatchObject({ status: "sent", tx_hash: replacement, block_number: "995" });
+  });
+});
@@ -1,19 +1,23 @@
-import { query } from "@w3/shared/db";
-import { ethers } from "ethers";
+import { listBroadcast, listSignedTxs, markFailed, type BroadcastRow } from "@w3/shared/requestRepo";
 import { retryRpc } from "@w3/shared/retry";
-import { requireEnv, getIntEnv } from "@w3/shared/env";
+import { getIntEnv } from "@w3/shared/env";
 import { redis } from "@w3/shared/redis";
 import { randHex } from "@w3/shared/utils";
+import { logger, type Logger } from "@w3/shared/logger";
+import { runtimes, type ChainRuntime } from "./chains";
+import { fillNonceGaps } from "./nonceGaps";
+import { recordReceipt, verifyRecent } from "./confirmations";
+import { replaceStuck } from "./replacer";
+import { reconcilerDuration, reconcilerSkips } from "./metrics";
 
-const RPC      = requireEnv("SEPOLIA_RPC_URL");
-const CHAIN_ID = getIntEnv("CHAIN_ID", 11155111);
-const provider = new ethers.JsonRpcProvider(RPC, CHAIN_ID);
+const log = logger.child({ component: "reconciler" });
 
 // Tunables
 const BATCH       = getIntEnv("RECONCILE_BATCH", 200);
 const MAX_LOOPS   = getIntEnv("RECONCILE_MAX_LOOPS", 20);
 const LOCK_TTL_MS = getIntEnv("RECONCILE_LOCK_TTL_MS", 55_000);
 const LOCK_KEY    = "reconciler:lock";
+const STUCK_AFTER_MS = getIntEnv("STUCK_AFTER_MS", 180_000);
 
 // Safe unlock (only owner token releases)
 const UNLOCK_LUA = `
@@ -33,40 +37,67 @@ async function releaseLock(key: string, token: string) {
   try { await redis.eval(UNLOCK_LUA, 1, key, token); } catch {}
 }
 
-export async function reconcileBroadcastsOnce() {
+/** Resolve one 'broadcast' row: finalize, declare dropped, or unstick it. */
+async function reconcileRow(rt: ChainRuntime, r: BroadcastRow, minedNonce: number, head: number, rlog: Logger): Promise<void> {
+  const { provider } = rt;
+
+  // Any of our hashes (original or replacement) may be the one that mined.
+  const txs = await listSignedTxs(r.id);
+  const hashes = txs.length ? txs.map(t => t.tx_hash) : [r.tx_hash!];
+
+  for (const hash of hashes) {
+    const rcpt = await retryRpc(() => provider.getTransactionReceipt(hash));
+    if (!rcpt) continue;
+    const outcome = await recordReceipt(rt, r.id, rcpt, head);
+    if (outcome === "reverted") rlog.warn("reverted", { txHash: hash });
+    else if (outcome === "sent") rlog.info("confirmed", { txHash: hash });
+    return;
+  }
+
+  if (r.nonce === null) return; // legacy row: nothing to replace, keep polling
+
+  // No receipt for any of our hashes, yet the chain has moved past our nonce.
+  if (Number(r.nonce) < minedNonce) {
+    await markFailed(r.id, `dropped: nonce ${r.nonce} consumed by another transaction`, ["broadcast"]);
+    rlog.warn("dropped: nonce consumed by another transaction", { minedNonce });
+    return;
+  }
+
+  if (r.age_ms >= STUCK_AFTER_MS && r.amount !== null && txs.length) {
+    await replaceStuck(rt, { ...r, tx_hash: r.tx_hash!, nonce: r.nonce, amount: r.amount }, txs[0], rlog);
+  }
+}
+
+async function reconcileChain(rt: ChainRuntime) {
+  const { chain } = rt;
+  // Read before receipts: a nonce below this with no receipt of ours was used by someone else.
+  const minedNonce = await rt.nonces.minedNonce();
+  const head = await retryRpc(() => rt.provider.getBlockNumber());
+  let lastId = 0;
   let loops = 0;
   while (loops++ < MAX_LOOPS) {
-    const { rows } = await query<{ id: number; tx_hash: string }>(
-      "SELECT id, tx_hash FROM requests WHERE status='broadcast' ORDER BY created_at ASC LIMIT $1",
-      [BATCH]
-    );
+    const rows = await listBroadcast(chain.chainId, lastId, BATCH);
     if (rows.length === 0) break;
 
     for (const r of rows) {
+      lastId = r.id;
       if (!r.tx_hash) {
-        await query(
-          "UPDATE requests SET status='failed', reason=$1 WHERE id=$2",
-          ["missing tx_hash in broadcast state", r.id]
-        );
+        await markFailed(r.id, "missing tx_hash in broadcast state", ["broadcast"]);
         continue;
       }
 
+      const rlog = log.child({
+        correlationId: r.correlation_id ?? undefined,
+        requestId: r.id,
+        chain: chain.key,
+        address: r.address,
+        txHash: r.tx_hash,
+        nonce: r.nonce === null ? undefined : Number(r.nonce),
+      });
       try {
-        const rcpt = await retryRpc(() => provider.getTransactionReceipt(r.tx_hash));
-        if (!rcpt) continue; // still pending
-
-        if (rcpt.status === 1) {
-          await query("UPDATE requests SET status='sent' WHERE id=$1", [r.id]);
-        } else if (rcpt.status === 0) {
-          await query(
-            "UPDATE requests SET status='failed', reason=$1 WHERE id=$2",
-            ["transaction reverted", r.id]
-          );
-        } else {
-          console.warn(`reconciler: unexpected receipt.status for id=${r.id} tx=${r.tx_hash}`);
-        }
+        await reconcileRow(rt, r, minedNonce, head, rlog);
       } catch (e: any) {
-        console.error(`reconciler: provider error for id=${r.id} tx=${r.tx_hash}:`, e?.message || e);
+        rlog.error("provider error", { err: e });
       }
     }
 
@@ -74,16 +105,38 @@ export async function reconcileBroadcastsOnce() {
   }
 }
 
+/**
+ * One pass over every configured chain; a failing RPC only skips its own chain.
+ * Reorg checks run first so rows they step back to 'broadcast' are resolved in
+ * the same pass. Nonce gaps are filled here too, so only the lock holder ever
+ * sends fillers.
+ */
+export async function reconcileBroadcastsOnce() {
+  for (const rt of runtimes) {
+    try {
+      const { promoted, reorged } = await verifyRecent(rt);
+      if (promoted || reorged) log.info("reorg check", { chain: rt.chain.key, promoted, reorged });
+      await reconcileChain(rt);
+      await fillNonceGaps(rt);
+    } catch (e: any) {
+      log.error("chain pass failed", { chain: rt.chain.key, err: e });
+    }
+  }
+}
+
 export async function reconcileBroadcastsWithLock() {
   const token = await tryAcquireLock(LOCK_KEY, LOCK_TTL_MS);
   if (!token) {
-    console.log("reconciler: skipped (lock held)");
+    log.debug("skipped (lock held)");
     try { await redis.incrby("reconciler:skips", 1); } catch {}
+    reconcilerSkips.inc();
     return;
   }
+  const done = reconcilerDuration.startTimer();
   try {
     await reconcileBroadcastsOnce();
   } finally {
+    done();
     await releaseLock(LOCK_KEY, token);
   }
 }
@@ -0,0 +1,76 @@
+import { ethers } from "ethers";
+import type { Logger } from "@w3/shared/logger";
+import { createRequest, getRequest, listSignedTxs, markBroadcast } from "@w3/shared/requestRepo";
+import { resetTestDb } from "../../../packages/shared/src/testDb";
+import type { ChainRuntime } from "./chains";
+import { replaceStuck } from "./replacer";
+
+jest.mock("@w3/shared/db", () => require("../../../packages/shared/src/testDb").testDbModule());
+jest.mock("@w3/shared/statusStream", () => ({ publishStatus: jest.fn() }));
+
+const CHAIN = 11155111;
+const RECIPIENT = "0x00000000000000000000000000000000000000a1";
+const NONCE = 42;
+const gwei = (n: string) => ethers.parseUnits(n, "gwei");
+const log = { warn: jest.fn() } as unknown as Logger;
+
+/**
+ * A request broadcast at 100 gwei / 2 gwei tip, on a runtime whose node suggests less than
+ * that and either still holds the tx (`pending`) or has dropped it.
+ */
+async function stuck(opts: { ceilingGwei: string; pending: boolean }) {
+  const wallet = ethers.Wallet.createRandom();
+  const sender = wallet.address.toLowerCase();
+  const original = {
+    to: RECIPIENT, value: 1_000n, type: 2, chainId: CHAIN, nonce: NONCE, gasLimit: 21_000n,
+    maxFeePerGas: gwei("100"), maxPriorityFeePerGas: gwei("2"),
+  };
+  const txHash = ethers.keccak256(await wallet.signTransaction(original));
+
+  const id = await createRequest({ address: RECIPIENT, chainId: CHAIN, ip: "203.0.113.7", asset: "native", amount: "1000" });
+  await markBroadcast(id, sender, { txHash, nonce: NONCE, gasLimit: 21_000n, maxFeePerGas: gwei("100"), maxPriorityFeePerGas: gwei("2") });
+
+  const broadcast: ethers.Transaction[] = [];
+  const provider = {
+    getFeeData: async () => ({ gasPrice: gwei("40"), maxFeePerGas: gwei("50"), maxPriorityFeePerGas: gwei("1") }),
+    getTransaction: async () => (opts.pending ? { hash: txHash } : null),
+    broadcastTransaction: async (raw: string) => { broadcast.push(ethers.Transaction.from(raw)); },
+  };
+  const rt = { chain: { key: "sepolia", chainId: CHAIN, maxFeeCeilingGwei: opts.ceilingGwei }, provider, wallet, sender };
+  const row = { id, tx_hash: txHash, nonce: String(NONCE), address: RECIPIENT, asset: "native", amount: "1000", replacements: 0 };
+  const [last] = await listSignedTxs(id);
+  return { replace: () => replaceStuck(rt as unknown as ChainRuntime, row, last, log), id, txHash, broadcast };
+}
+
+describe("stuck tx replacement", () => {
+  beforeEach(resetTestDb);
+
+  it("outbids both maxFeePerGas and the tip by at least 10%, keeping the nonce and recipient", async () => {
+    const { replace, id, txHash, broadcast } = await stuck({ ceilingGwei: "200", pending: true });
+    expect(await replace()).toBe("replaced");
+
+    expect(broadcast).toHaveLength(1);
+    const [tx] = broadcast;
+    expect(tx.maxFeePerGas! * 100n).toBeGreaterThanOrEqual(gwei("100") * 110n);
+    expect(tx.maxPriorityFeePerGas! * 100n).toBeGreaterThanOrEqual(gwei("2") * 110n);
+    expect({ nonce: tx.nonce, to: tx.to?.toLowerCase(), value: tx.value, gasLimit: tx.gasLimit })
+      .toEqual({ nonce: NONCE, to: RECIPIENT, value: 1_000n, gasLimit: 21_000n });
+
+    const row = (await getRequest(id))!;
+    expect(row.tx_hash).toBe(tx.hash);
+    expect((await listSignedTxs(id)).map(t => t.tx_hash)).toEqual([tx.hash, txHash]);
+  });
+
+  it("stops replacing at the fee ceiling and waits while the node holds the tx", async () => {
+    const { replace, id, txHash, broadcast } = await stuck({ ceilingGwei: "105", pending: true });
+    expect(await replace()).toBe("capped");
+    expect(broadcast).toEqual([]);
+    expect((await getRequest(id))!.tx_hash).toBe(txHash);
+  });
+
+  it("rebroadcasts the identical tx at the ceiling once the node has dropped it", async () => {
+    const { replace, txHash, broadcast } = await stuck({ ceilingGwei: "105", pending: false });
+    expect(await replace()).toBe("rebroadcast");
+    expect(broadcast.map(tx => tx.hash)).toEqual([txHash]);
+  });
+});
@@ -0,0 +1,93 @@
+// apps/worker/src/replacer.ts
+// Unstick a broadcast tx that has sat unmined for too long:
+// - replace it (same nonce, fees bumped by >= RBF_BUMP_PCT on both maxFee and tip,
+//   as EIP-1559 mempools require) while under the chain's fee ceiling, or
+// - if capped and the node no longer has it, rebroadcast the identical tx.
+import { ethers } from "ethers";
+import { recordReplacement, touchBroadcast, type SignedTxRow } from "@w3/shared/requestRepo";
+import { retryRpc } from "@w3/shared/retry";
+import { getIntEnv, getNumberEnv } from "@w3/shared/env";
+import { getFeeSuggestion } from "@w3/shared/fees";
+import { transferRequest } from "@w3/shared/transfers";
+import type { Logger } from "@w3/shared/logger";
+import type { ChainRuntime } from "./chains";
+
+const RBF_BUMP_PCT         = getNumberEnv("RBF_BUMP_PCT", 12.5);
+const RBF_MAX_REPLACEMENTS = getIntEnv("RBF_MAX_REPLACEMENTS", 5);
+
+export type StuckRow = {
+  id: number;
+  tx_hash: string;
+  nonce: string;          // BIGINT comes back as string
+  address: string;
+  asset: string;
+  amount: string;
+  replacements: number;
+};
+
+export type ReplaceOutcome = "replaced" | "rebroadcast" | "capped";
+
+/** x * (1 + pct/100), rounded up — the minimum a replacement must bid. */
+function bumpPct(x: bigint, pct: number): bigint {
+  const num = BigInt(Math.round((100 + pct) * 100));
+  return (x * num + 9_999n) / 10_000n;
+}
+const max = (a: bigint, b: bigint) => (a > b ? a : b);
+
+async function broadcast(rt: ChainRuntime, raw: string) {
+  try {
+    await retryRpc(() => rt.provider.broadcastTransaction(raw));
+  } catch (e: any) {
+    if (!/already known|known transaction|already imported/i.test(String(e?.message ?? e))) throw e;
+  }
+}
+
+/** `log` carries the row's correlation fields (requestId, chain, txHash, …). */
+export async function replaceStuck(rt: ChainRuntime, row: StuckRow, last: SignedTxRow, log: Logger): Promise<ReplaceOutcome> {
+  const { chain, provider, wallet } = rt;
+  const base = {
+    ...transferRequest(row.asset, row.address, BigInt(row.amount)),
+    type: 2,
+    chainId: chain.chainId,
+    nonce: Number(row.nonce),
+    gasLimit: BigInt(last.gas_limit),
+  };
+  const lastFee = BigInt(last.max_fee_per_gas);
+  const lastTip = BigInt(last.max_priority_fee_per_gas);
+
+  const minFee = bumpPct(lastFee, RBF_BUMP_PCT);
+  const minTip = bumpPct(lastTip, RBF_BUMP_PCT);
+  const ceiling = ethers.parseUnits(chain.maxFeeCeilingGwei, "gwei");
+  const suggested = await getFeeSuggestion(provider);
+
+  let fee = max(minFee, suggested.maxFeePerGas);
+  let tip = max(minTip, suggested.maxPriorityFeePerGas);
+  if (fee > ceiling) fee = ceiling;
+  if (tip > fee) tip = fee;
+
+  if (fee >= minFee && tip >= minTip && row.replacements < RBF_MAX_REPLACEMENTS) {
+    const raw = await wallet.signTransaction({ ...base, maxFeePerGas: fee, maxPriorityFeePerGas: tip });
+    const hash = ethers.keccak256(raw);
+    const recorded = await recordReplacement(row.id, row.tx_hash, {
+      txHash: hash, nonce: base.nonce, gasLimit: base.gasLimit, maxFeePerGas: fee, maxPriorityFeePerGas: tip,
+    });
+    if (!recorded) return "capped"; // row moved on (mined or failed) since it was read
+    await broadcast(rt, raw);
+    log.warn("replaced stuck tx", { replacementTxHash: hash, maxFeeGwei: ethers.formatUnits(fee, "gwei") });
+    return "replaced";
+  }
+
+  // Can't outbid legally (ceiling or replacement budget). If the node dropped it, resend as-is:
+  // same fields → same deterministic signature → same hash.
+  const pending = await retryRpc(() => provider.getTransaction(row.tx_hash));
+  if (!pending) {
+    const raw = await wallet.signTransaction({ ...base, maxFeePerGas: lastFee, maxPriorityFeePerGas: lastTip });
+    await broadcast(rt, raw);
+    await touchBroadcast(row.id);
+    log.warn("rebroadcast dropped tx");
+    return "rebroadcast";
+  }
+
+  log.warn("stuck tx at fee ceiling or replacement limit; waiting");
+  return "capped";
+}
@@ -0,0 +1,128 @@
+// apps/worker/src/webhooks.ts
+// Delivers the webhook outbox (see packages/shared/src/webhookRepo.ts):
+// - a dispatcher tick claims pending deliveries and queues one BullMQ job each; the
+//   job id is webhook-<deliveryId>, so handing a row out again never doubles a live job
+// - the processor POSTs the signed envelope. 2xx delivers; a status retryRpc would
+//   retry (429, 5xx) or no response at all retries with its backoff (backoffDelay),
+//   up to WEBHOOK_MAX_ATTEMPTS; any other status fails at once
+// - every attempt lands in webhook_attempts; settled deliveries are pruned after
+//   WEBHOOK_RETENTION_DAYS
+import { Queue, UnrecoverableError, Worker, type Job } from "bullmq";
+import { backoffDelay, isRetryableError } from "@w3/shared/retry";
+import { getIntEnv } from "@w3/shared/env";
+import { claimDeliveries, failDelivery, getDelivery, pruneDeliveries, recordAttempt } from "@w3/shared/webhookRepo";
+import { SIGNATURE_HEADER, signWebhook } from "@w3/shared/webhooks";
+import type { WebhookJob } from "@w3/shared/types";
+import { logger } from "@w3/shared/logger";
+import { webhookDeliveries } from "./metrics";
+
+const QUEUE_NAME     = process.env.WEBHOOK_QUEUE_NAME || "webhooks";
+const MAX_ATTEMPTS   = getIntEnv("WEBHOOK_MAX_ATTEMPTS", 8);
+const RETRY_BASE_MS  = getIntEnv("WEBHOOK_RETRY_BASE_MS", 10_000);
+const RETRY_MAX_MS   = getIntEnv("WEBHOOK_RETRY_MAX_MS", 3_600_000);
+const TIMEOUT_MS     = getIntEnv("WEBHOOK_TIMEOUT_MS", 10_000);
+const DISPATCH_MS    = getIntEnv("WEBHOOK_DISPATCH_MS", 2_000);
+const REQUEUE_AFTER_SEC = getIntEnv("WEBHOOK_REQUEUE_AFTER_SEC", 3_600);
+const RETENTION_DAYS = getIntEnv("WEBHOOK_RETENTION_DAYS", 14);
+const CONCURRENCY    = getIntEnv("WEBHOOK_CONCURRENCY", 4);
+
+const log = logger.child({ component: "webhooks" });
+
+async function deliver(job: Job<WebhookJob>): Promise<void> {
+  const d = await getDelivery(job.data.deliveryId);
+  if (!d || d.status !== "pending") return;
+  if (!d.active) return failDelivery(d.id, "endpoint disabled");
+
+  const dlog = log.child({ deliveryId: d.id, endpointId: d.endpoint_id, event: d.event_type, attempt: job.attemptsMade + 1 });
+  const body = JSON.stringify(d.payload);
+  const started = performance.now();
+  let statusCode: number | null = null;
+  let error: string | null = null;
+  try {
+    const res = await fetch(d.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "w3-faucet-webhooks/1",
+        "X-Faucet-Event": d.event_type,
+        "X-Faucet-Delivery": String(d.id),
+        [SIGNATURE_HEADER]: signWebhook(d.secret, body),
+      },
+      body,
+      redirect: "manual", // a redirect is a misconfigured endpoint, not somewhere to follow
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+    statusCode = res.status;
+    await res.body?.cancel().catch(() => {});
+    if (!res.ok) error = `HTTP ${res.status}`;
+  } catch (e: any) {
+    error = String(e?.cause?.message ?? e?.message ?? e).slice(0, 400);
+  }
+  const durationMs = Math.round(performance.now() - started);
+
+  if (error === null) {
+    await recordAttempt(d.id, { statusCode, error, durationMs, done: "delivered" });
+    webhookDeliveries.inc({ outcome: "delivered" });
+    dlog.debug("webhook delivered", { status: statusCode, durationMs });
+    return;
+  }
+
+  const retryable = statusCode === null || isRetryableError({ status: statusCode });
+  const last = !retryable || job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+  await recordAttempt(d.id, { statusCode, error, durationMs, done: last ? "failed" : undefined });
+  webhookDeliveries.inc({ outcome: last ? "failed" : "retry" });
+  dlog[last ? "error" : "warn"](last ? "webhook delivery failed" : "webhook attempt failed; will retry", { status: statusCode, error, durationMs });
+  throw retryable ? new Error(error) : new UnrecoverableError(error);
+}
+
+/** Start the dispatcher, the delivery worker and the pruner; returns a stopper. */
+export function startWebhooks(redisUrl: string) {
+  const connection = { url: redisUrl };
+  const queue = new Queue<WebhookJob>(QUEUE_NAME, { connection });
+  const worker = new Worker<WebhookJob>(QUEUE_NAME, deliver, {
+    connection,
+    concurrency: CONCURRENCY,
+    settings: { backoffStrategy: (attemptsMade: number) => backoffDelay(attemptsMade - 1, RETRY_BASE_MS, RETRY_MAX_MS) },
+  });
+  worker.on("error", (err) => log.error("webhook worker error", { err }));
+
+  let dispatching = false;
+  const dispatch = async () => {
+    if (dispatching) return;
+    dispatching = true;
+    try {
+      for (let ids = await claimDeliveries(100, REQUEUE_AFTER_SEC); ids.length; ids = await claimDeliveries(100, REQUEUE_AFTER_SEC)) {
+        await queue.addBulk(ids.map((deliveryId) => ({
+          name: "webhook",
+          data: { deliveryId },
+          opts: {
+            jobId: `webhook-${deliveryId}`,
+            attempts: MAX_ATTEMPTS,
+            backoff: { type: "custom" },
+            removeOnComplete: 1_000,
+            removeOnFail: 5_000,
+          },
+        })));
+      }
+    } catch (err) {
+      log.error("webhook dispatch failed", { err });
+    } finally {
+      dispatching = false;
+    }
+  };
+  const prune = () =>
+    pruneDeliveries(RETENTION_DAYS * 86_400)
+      .then((n) => n && log.info("pruned webhook deliveries", { count: n }))
+      .catch((err) => log.error("webhook prune failed", { err }));
+
+  const dispatchTimer = setInterval(dispatch, DISPATCH_MS);
+  const pruneTimer = setInterval(prune, 3_600_000);
+  return {
+    async close() {
+      clearInterval(dispatchTimer);
+      clearInterval(pruneTimer);
+      await worker.close();
+      await queue.close();
+    },
+  };
+}
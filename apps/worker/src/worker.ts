@@ -1,66 +1,55 @@
-import { Worker } from "bullmq";
+import { DelayedError, Queue, Worker, type Job } from "bullmq";
 import { ethers } from "ethers";
 import { retryRpc, isRetryableError } from "@w3/shared/retry";
-import { query } from "@w3/shared/db";
+import {
+  CANCELLED_BY_ADMIN,
+  abortBroadcast,
+  getRequest,
+  markBroadcast,
+  markFailed,
+  requeue,
+} from "@w3/shared/requestRepo";
+import { assertSchemaCurrent } from "@w3/shared/migrate";
+import { budgetUsage } from "@w3/shared/budgetRepo";
 import type { DripJob } from "@w3/shared/types";
-import { requireEnv, getIntEnv, getNumberEnv } from "@w3/shared/env";
-import { redis } from "@w3/shared/redis";
+import { requireEnv, getIntEnv } from "@w3/shared/env";
+import { eligibilityFromEnv } from "@w3/shared/eligibility";
+import { legacyQueueName, queueNameFor } from "@w3/shared/chains";
+import { ERC20_TRANSFER_ABI, assetKey, formatAsset, toBaseUnits, type DripAsset, type Erc20Asset } from "@w3/shared/assets";
+import { getFeeSuggestion } from "@w3/shared/fees";
+import { transferRequest } from "@w3/shared/transfers";
+import { logger } from "@w3/shared/logger";
+import { runtimes, type ChainRuntime } from "./chains";
+import { recordReceipt } from "./confirmations";
+import { checkBalance } from "./balanceGuard";
 import { reconcileBroadcastsWithLock } from "./reconciler";
+import { countJob, faucetBalance, secondsSince, startMetricsServer, timeToBroadcast } from "./metrics";
+import { startWebhooks } from "./webhooks";
+import { checkFailureRates } from "./alerts";
 
 /* ── Env ───────────────────────────────────────────────────────────── */
-const RPC                 = requireEnv("SEPOLIA_RPC_URL");
-const KEY                 = requireEnv("FAUCET_PRIVATE_KEY");
-const CHAIN_ID            = getIntEnv("CHAIN_ID", 11155111);
-const DRIP_AMOUNT         = process.env.DRIP_AMOUNT_ETH || "0.02";
-const QUEUE_NAME          = process.env.QUEUE_NAME || "drips";
-requireEnv("REDIS_URL");
+const REDIS_URL           = requireEnv("REDIS_URL");
 
 const TX_WAIT_TIMEOUT_MS  = getIntEnv("TX_WAIT_TIMEOUT_MS", 120_000);
 const FALLBACK_GAS_LIMIT  = BigInt(process.env.FALLBACK_GAS_LIMIT ?? "21000");
-const MAX_FEE_BUMP_MULT   = getNumberEnv("MAX_FEE_BUMP_MULT", 1.25);
-
-/* ── Chain ─────────────────────────────────────────────────────────── */
-const provider = new ethers.JsonRpcProvider(RPC, CHAIN_ID);
-const wallet   = new ethers.Wallet(KEY, provider);
-const sender   = wallet.address.toLowerCase();
-
-/* ── Nonce lock (Redis) ─────────────────────────────────────────────── */
-const lockKey = (s: string) => `nonce-lock:${s}`;
-async function acquireLock(key: string, ttlSec = 15): Promise<boolean> {
-  const res = await redis.set(key, "1", "NX", "EX", ttlSec);
-  return res === "OK";
-}
-async function acquireLockWithBackoff(key: string, ttlSec = 15): Promise<boolean> {
-  const maxAttempts = 4;
-  let delay = 150;
-  for (let i = 0; i < maxAttempts; i++) {
-    if (await acquireLock(key, ttlSec)) return true;
-    await new Promise(r => setTimeout(r, delay + Math.random() * 80));
-    delay = Math.floor(delay * 1.5);
-  }
-  return false;
-}
-async function releaseLock(key: string) { try { await redis.del(key); } catch {} }
+const ERC20_FALLBACK_GAS_LIMIT = BigInt(process.env.ERC20_FALLBACK_GAS_LIMIT ?? "65000");
+const CONCURRENCY         = getIntEnv("WORKER_CONCURRENCY", 8);
+
+const log = logger.child({ component: "worker" });
+
+/* ── Eligibility (one engine per chain: token gates read the drip's chain) ── */
+const eligibility = new Map(runtimes.map(rt => [rt.chain.chainId, eligibilityFromEnv(rt.provider)]));
 
 /* ── Helpers ────────────────────────────────────────────────────────── */
-function bumpBig(x: bigint, mult: number): bigint {
-  const m = Math.round(mult * 100);
-  return (x * BigInt(m)) / 100n;
-}
-async function getFeeSuggestion() {
-  const fee = await retryRpc(() => provider.getFeeData());
-  const gasPrice = fee.gasPrice ?? 1n * 10n ** 9n; // 1 gwei floor
-  const maxPrio  = fee.maxPriorityFeePerGas ?? gasPrice / 2n;
-  const maxFee   = fee.maxFeePerGas ?? (gasPrice + maxPrio);
-  return {
-    maxPriorityFeePerGas: bumpBig(maxPrio, MAX_FEE_BUMP_MULT),
-    maxFeePerGas:         bumpBig(maxFee,  MAX_FEE_BUMP_MULT),
-    gasPrice:             bumpBig(gasPrice, MAX_FEE_BUMP_MULT),
-  };
+async function ensureBalanceCovers(rt: ChainRuntime, amountWei: bigint, feeWei: bigint) {
+  const bal = await retryRpc(() => rt.provider.getBalance(rt.sender));
+  if (bal < amountWei + feeWei) throw new Error(`insufficient funds in faucet wallet for amount+fees on ${rt.chain.name}`);
 }
-async function ensureBalanceCovers(amountWei: bigint, feeWei: bigint) {
-  const bal = await retryRpc(() => provider.getBalance(sender));
-  if (bal < amountWei + feeWei) throw new Error("insufficient funds in faucet wallet for amount+fees");
+async function ensureTokenBalanceCovers(rt: ChainRuntime, asset: Erc20Asset, amount: bigint) {
+  const token = new ethers.Contract(asset.token, ERC20_TRANSFER_ABI, rt.provider);
+  const bal = await retryRpc(() => token.balanceOf(rt.sender) as Promise<bigint>);
+  faucetBalance.set({ chain: rt.chain.key, asset: asset.symbol }, Number(ethers.formatUnits(bal, asset.decimals)));
+  if (bal < amount) throw new Error(`insufficient funds: faucet holds less than ${ethers.formatUnits(amount, asset.decimals)} ${asset.symbol} on ${rt.chain.name}`);
 }
 function isPermanentError(err: any): boolean {
   const code = String(err?.code ?? "").toUpperCase();
@@ -72,87 +61,263 @@ function isPermanentError(err: any): boolean {
     /revert|execution reverted|invalid argument|invalid address|insufficient funds/i.test(msg)
   );
 }
+/** Our nonce is already taken on-chain or in the mempool: resync and retry with a fresh one. */
+const NONCE_CONFLICT = /nonce too low|nonce has already been used|replacement transaction underpriced/i;
+/** markBroadcast refused to spend past a budget cap; nothing was recorded. */
+const BUDGET_EXHAUSTED = /(daily|hourly) budget exhausted/;
+/** When the exhausted window (by markBroadcast's message) resets. */
+async function budgetResetsAt(chain: ChainRuntime["chain"], reason: string): Promise<number> {
+  const period = /daily/.test(reason) ? "day" : "hour";
+  const usage = (await budgetUsage(chain)).find(u => u.period === period)!;
+  return Date.parse(usage.resetsAt);
+}
+/** Node already has this exact tx (e.g. our own earlier broadcast attempt). */
+function isAlreadyKnown(err: any): boolean {
+  return /already known|known transaction|already imported/i.test(String(err?.message ?? err ?? ""));
+}
 function formatReason(err: any): string {
   const msg = String(err?.message ?? err ?? "");
   return msg.slice(0, 400);
 }
 
-/* ── Worker ─────────────────────────────────────────────────────────── */
-export const worker = new Worker<DripJob>(
-  QUEUE_NAME,
-  async (job) => {
+/* ── Worker (one per chain) ─────────────────────────────────────────── */
+function processDrip(rt: ChainRuntime) {
+  const { chain, provider, wallet, sender, nonces } = rt;
+  const gate = eligibility.get(chain.chainId)!;
+
+  return async (job: Job<DripJob>, token?: string) => {
     const { requestId, address } = job.data;
+    // Jobs enqueued before bundles existed carry no asset: they were native drips.
+    const asset: DripAsset = job.data.asset ?? { kind: "native", symbol: chain.nativeSymbol, amount: chain.dripAmount };
+    let jlog = log.child({
+      correlationId: job.data.correlationId,
+      requestId,
+      chain: chain.key,
+      address,
+      asset: formatAsset(asset),
+    });
 
-    if (!ethers.isAddress(address)) {
-      await query("UPDATE requests SET status='failed', reason=$1 WHERE id=$2", ["invalid recipient address", requestId]);
+    if (job.data.chainId !== undefined && job.data.chainId !== chain.chainId) {
+      await markFailed(requestId, `job chain ${job.data.chainId} on ${chain.key} queue`);
+      countJob(chain.key, "failed");
       return;
     }
 
-    const lk = lockKey(sender);
-    const got = await acquireLockWithBackoff(lk, 15);
-    if (!got) throw new Error("nonce lock not acquired (backoff exhausted)");
-
+    let nonce: number | null = null;
+    let txHash: string | null = null;
     try {
-      const amountWei = ethers.parseEther(DRIP_AMOUNT);
+      // A retried/stalled job whose tx was already signed belongs to the reconciler now.
+      const row = await getRequest(requestId);
+      const current = row?.status;
+      if (current === "failed") {
+        if (row!.reason?.startsWith(CANCELLED_BY_ADMIN) || !(await requeue(requestId))) {
+          countJob(chain.key, "skipped");
+          return;
+        }
+      } else if (current && current !== "queued") {
+        jlog.warn("request already past queued; skipping", { status: current });
+        countJob(chain.key, "skipped");
+        return;
+      }
+
+      if (!ethers.isAddress(address)) {
+        await markFailed(requestId, "invalid recipient address");
+        countJob(chain.key, "failed");
+        return;
+      }
+
+      // Re-check: the address may have been revoked since it was queued. Inside the try
+      // (like the read above) so an RPC/DB error fails or retries the row instead of
+      // leaving it queued once the job runs out of attempts.
+      const elig = await gate.check(address);
+      if (!elig.eligible) {
+        await markFailed(requestId, `not eligible: ${elig.reason ?? "address rejected"}`);
+        jlog.warn("not eligible at send time", { reason: elig.reason });
+        countJob(chain.key, "failed");
+        return;
+      }
+
+      // Sized by the API (amountPolicy.ts); legacy rows without an amount get the bundle amount.
+      const amount = row?.amount ? BigInt(row.amount) : toBaseUnits(asset);
+      const transfer = transferRequest(assetKey(asset), address, amount);
 
       let gasLimit: bigint;
       try {
-        gasLimit = await retryRpc(() => wallet.estimateGas({ to: address, value: amountWei }));
-      } catch { gasLimit = FALLBACK_GAS_LIMIT; }
+        gasLimit = await retryRpc(() => wallet.estimateGas(transfer));
+      } catch (e: any) {
+        // A token transfer that fails estimation would revert on-chain too; don't burn gas on it.
+        if (asset.kind === "erc20" && isPermanentError(e)) {
+          throw new Error(`token transfer would revert: ${e?.shortMessage || e?.message || e}`);
+        }
+        gasLimit = asset.kind === "erc20" ? ERC20_FALLBACK_GAS_LIMIT : FALLBACK_GAS_LIMIT;
+      }
 
-      const { maxFeePerGas } = await getFeeSuggestion();
-      const effectiveFeePerGas = maxFeePerGas; // we use EIP-1559; Sepolia supports it
-      const feeCost = effectiveFeePerGas * gasLimit;
-      await ensureBalanceCovers(amountWei, feeCost);
+      const { maxFeePerGas, maxPriorityFeePerGas } = await getFeeSuggestion(provider);
+      const feeCost = maxFeePerGas * gasLimit;
+      await ensureBalanceCovers(rt, transfer.value, feeCost);
+      if (asset.kind === "erc20") await ensureTokenBalanceCovers(rt, asset, amount);
 
-      const tx = await retryRpc(() => wallet.sendTransaction({
-        to: address,
-        value: amountWei,
+      // Reserve → sign → record (write-ahead) → broadcast. No lock is held, so many
+      // sends pipeline; the row knows its nonce and hash even if we crash mid-way.
+      nonce = await nonces.reserve();
+      const raw = await wallet.signTransaction({
+        ...transfer,
+        type: 2,
+        chainId: chain.chainId,
+        nonce,
         gasLimit,
         maxFeePerGas,
-        maxPriorityFeePerGas: undefined, // optional: set if you also compute it above
-      }));
+        maxPriorityFeePerGas,
+      });
+      txHash = ethers.keccak256(raw);
+      const signedHash = txHash;
+      jlog = jlog.child({ txHash: signedHash, nonce });
 
-      await query("UPDATE requests SET status='broadcast', tx_hash=$1 WHERE id=$2", [tx.hash, requestId]);
+      // Budget is spent with the write-ahead: one drip per bundle, wei for native coin only.
+      const spend = {
+        drips: row?.bundle_id === null || row?.bundle_id === requestId ? 1 : 0,
+        wei: asset.kind === "native" ? amount : 0n,
+      };
+      const signed = { txHash: signedHash, nonce, gasLimit, maxFeePerGas, maxPriorityFeePerGas };
+      if (!(await markBroadcast(requestId, sender, signed, { chain, spend }))) {
+        // Another attempt got here first; this signature is never sent.
+        txHash = null;
+        throw new Error(`request ${requestId} is no longer queued`);
+      }
 
       try {
-        await retryRpc(() => provider.waitForTransaction(tx.hash, 1, TX_WAIT_TIMEOUT_MS));
-        await query("UPDATE requests SET status='sent' WHERE id=$1 AND tx_hash=$2", [requestId, tx.hash]);
-        console.log(`✅ Dripped ${DRIP_AMOUNT} ETH → ${address} (tx=${tx.hash})`);
-        return;
+        await retryRpc(() => provider.broadcastTransaction(raw));
       } catch (e: any) {
-        const msg = String(e?.message ?? "").toLowerCase();
-        if (msg.includes("timeout")) {
-          console.warn(`⏱️ wait timeout; leaving as 'broadcast' (tx=${tx.hash})`);
-          return; // reconciler will resolve later
+        if (!isAlreadyKnown(e)) {
+          if (isPermanentError(e) || NONCE_CONFLICT.test(String(e?.message ?? e))) throw e;
+          // Unknown outcome (timeout etc.): the node may have it. Keep the nonce
+          // and the 'broadcast' row; the reconciler rebroadcasts or resolves it.
+          await nonces.markBroadcast(nonce);
+          jlog.warn("broadcast outcome unknown; reconciler takes over", { err: e });
+          countJob(chain.key, "handed_off");
+          return;
+        }
+      }
+      await nonces.markBroadcast(nonce);
+      if (row) timeToBroadcast.observe({ chain: chain.key }, secondsSince(row.created_at));
+      jlog.info("broadcast");
+
+      try {
+        // Mined → 'confirming'; at depth → 'sent'. Re-read the receipt at depth so a
+        // reorg in between is recorded against the block the tx is in now.
+        const mined = await retryRpc(() => provider.waitForTransaction(signedHash, 1, TX_WAIT_TIMEOUT_MS));
+        if (!mined) throw new Error("no receipt");
+        let outcome = await recordReceipt(rt, requestId, mined);
+        if (outcome === "confirming") {
+          await retryRpc(() => provider.waitForTransaction(signedHash, chain.confirmations, TX_WAIT_TIMEOUT_MS));
+          const rcpt = await retryRpc(() => provider.getTransactionReceipt(signedHash));
+          if (!rcpt) throw new Error("receipt disappeared (reorg)");
+          outcome = await recordReceipt(rt, requestId, rcpt);
         }
-        throw e;
+        if (outcome === "reverted") jlog.error("reverted");
+        else if (outcome === "sent") jlog.info("dripped");
+        countJob(chain.key, outcome === "confirming" ? "handed_off" : outcome);
+        return;
+      } catch (e: any) {
+        // The tx is out: never re-send from here, the reconciler resolves it.
+        jlog.warn("not confirmed in time; reconciler takes over", { err: e });
+        countJob(chain.key, "handed_off");
+        return;
       }
     } catch (err: any) {
       const reason = formatReason(err);
-      await query("UPDATE requests SET status='failed', reason=$1 WHERE id=$2", [reason, requestId]);
+      // Over the chain's budget: markBroadcast rolled back, so the row is still queued.
+      // Hand the nonce back and run the job again once the window resets.
+      if (BUDGET_EXHAUSTED.test(reason) && token) {
+        if (nonce !== null) await nonces.release(nonce).catch(() => {});
+        const until = await budgetResetsAt(chain, reason);
+        jlog.warn("budget exhausted; delayed until the window resets", { until: new Date(until).toISOString() });
+        countJob(chain.key, "delayed");
+        await job.moveToDelayed(until, token);
+        throw new DelayedError();
+      }
+      const conflict = nonce !== null && NONCE_CONFLICT.test(reason);
+      const permanent = isPermanentError(err) || !isRetryableError(err);
+      // Rethrown below unless permanent; BullMQ runs it again unless this was the last attempt.
+      const retrying = (conflict || !permanent) && job.attemptsMade + 1 < (job.opts.attempts ?? 1);
+      // Signed and recorded but refused by the node → undo the write-ahead; otherwise still queued.
+      const undone = txHash !== null && await abortBroadcast(requestId, txHash, reason, retrying);
+      if (!undone) await markFailed(requestId, reason, ["queued"], retrying);
+
+      if (conflict) {
+        await nonces.sync().catch(() => {});
+        jlog.warn("nonce conflict; resynced, retrying", { nonce, reason });
+        countJob(chain.key, "retry");
+        throw err;
+      }
+      // Nonce reserved but the tx never reached the node: hand it back (or leave it for the gap filler).
+      if (nonce !== null) await nonces.release(nonce).catch(() => {});
 
-      if (isPermanentError(err)) { console.error(`⛔ Permanent: ${reason}`); return; }
-      if (!isRetryableError(err)) { console.error(`⛔ Non-retryable: ${reason}`); return; }
-      console.error(`🔁 Retryable: ${reason}`);
+      if (permanent) {
+        jlog.error(isPermanentError(err) ? "permanent failure" : "non-retryable failure", { reason });
+        countJob(chain.key, "failed");
+        return;
+      }
+      jlog.warn("retryable failure", { reason });
+      countJob(chain.key, "retry");
       throw err;
-    } finally {
-      await releaseLock(lk);
     }
-  },
-  {
-    connection: { url: requireEnv("REDIS_URL") },
-    concurrency: 2
+  };
+}
+
+/* ── Boot: schema check, then resync nonces from chain before taking jobs ── */
+await assertSchemaCurrent();
+for (const rt of runtimes) {
+  const next = await rt.nonces.sync();
+  log.info("chain ready", { chain: rt.chain.key, chainId: rt.chain.chainId, sender: rt.sender, nextNonce: next });
+}
+
+startMetricsServer();
+
+/* ── Balance circuit breaker (see balanceGuard.ts) ─────────────────── */
+const BREAKER_INTERVAL_MS = getIntEnv("BREAKER_INTERVAL_MS", 30_000);
+const queues = new Map(runtimes.map(rt => [rt.chain.chainId, new Queue(queueNameFor(rt.chain.chainId), { connection: { url: REDIS_URL } })]));
+async function checkBalances() {
+  for (const rt of runtimes) {
+    await checkBalance(rt, queues.get(rt.chain.chainId)!).catch((e) =>
+      log.error("breaker check failed", { chain: rt.chain.key, err: e })
+    );
   }
-);
+}
+await checkBalances();
+setInterval(checkBalances, BREAKER_INTERVAL_MS);
+
+export const workers = runtimes.map((rt) => {
+  const w = new Worker<DripJob>(queueNameFor(rt.chain.chainId), processDrip(rt), {
+    connection: { url: REDIS_URL },
+    concurrency: CONCURRENCY,
+  });
+  const jobFields = (job?: { id?: string; data: DripJob }) =>
+    ({ chain: rt.chain.key, jobId: job?.id, correlationId: job?.data.correlationId, requestId: job?.data.requestId });
+  w.on("completed", (job) => log.debug("job completed", jobFields(job)));
+  w.on("failed",    (job, err) => log.warn("job failed", { ...jobFields(job), err }));
+  return w;
+});
+
+// Drains jobs queued to the pre-multichain queue (see legacyQueueName) on the default
+// chain; idle once it is empty.
+export const legacyWorker = new Worker<DripJob>(legacyQueueName(), processDrip(runtimes[0]), {
+  connection: { url: REDIS_URL },
+  concurrency: 1,
+});
+legacyWorker.on("failed", (job, err) => log.warn("legacy job failed", { jobId: job?.id, requestId: job?.data.requestId, err }));
 
 /* ── Reconciler ticker (no overlap; see reconciler.ts) ─────────────── */
 const RECONCILE_INTERVAL_MS = getIntEnv("RECONCILE_INTERVAL_MS", 60_000);
 setInterval(() => {
   reconcileBroadcastsWithLock().catch((e) =>
-    console.error("reconciler run error:", e?.message || e)
+    log.error("reconciler run error", { err: e })
   );
 }, RECONCILE_INTERVAL_MS);
 
-worker.on("completed", (job) => console.log(`Job ${job.id} completed ✅`));
-worker.on("failed",    (job, err) => console.error(`Job ${job?.id} failed ❌ ${err?.message || err}`));
+/* ── Webhooks: outbox delivery and failure-rate alerts (see webhooks.ts, alerts.ts) ── */
+export const webhooks = startWebhooks(REDIS_URL);
+const ALERT_INTERVAL_MS = getIntEnv("ALERT_INTERVAL_MS", 60_000);
+setInterval(() => {
+  checkFailureRates().catch((e) => log.error("failure-rate check error", { err: e }));
+}, ALERT_INTERVAL_MS);
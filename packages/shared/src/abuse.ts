@@ -0,0 +1,101 @@
+// packages/shared/src/abuse.ts
+// Gathers the signals abusePolicy.ts scores a drip on:
+// - recipient balance and nonce on the drip's chain
+// - recipient tx count on mainnet, when ABUSE_MAINNET_RPC_URL is set
+// - distinct addresses per client subnet and per user agent within the window: one
+//   Redis ZSET each (address → first seen), keyed by salted hash like the rate limiter
+// RPC reads are single attempts under ABUSE_RPC_TIMEOUT_MS; one that fails or times out
+// is left null (scores nothing) rather than holding up or failing the drip.
+
+import { ethers } from "ethers";
+import { redis } from "./redis";
+import { sha256Hex } from "./utils";
+import { getIntEnv } from "./env";
+import { logger } from "./logger";
+import { subnetOf } from "./rateLimitPolicy";
+import { abusePolicyFromEnv, scoreAbuse, type AbusePolicy, type AbuseScore, type AbuseSignals } from "./abusePolicy";
+
+const log = logger.child({ component: "abuse" });
+
+export type AbuseInput = { address: string; chainId: number; ip: string; userAgent: string | null };
+export type AbuseAssessment = AbuseScore & { signals: AbuseSignals };
+
+export interface AbuseScorer {
+  readonly policy: AbusePolicy;
+  assess(input: AbuseInput): Promise<AbuseAssessment>;
+}
+
+const velocityKey = (kind: "subnet" | "ua", value: string) =>
+  `abuse:${kind}:${sha256Hex(`${process.env.RATE_LIMIT_SALT ?? ""}:${kind}:${value.toLowerCase()}`)}`;
+
+/** Record `address` under `key` (first sighting wins) and count the addresses seen within the window. */
+async function sightings(key: string, address: string, windowSec: number): Promise<number | null> {
+  const now = Date.now();
+  const res = await redis.multi()
+    .zadd(key, "NX", now, address)
+    .zremrangebyscore(key, "-inf", now - windowSec * 1000)
+    .zcard(key)
+    .pexpire(key, windowSec * 1000)
+    .exec();
+  const [err, count] = res?.[2] ?? [new Error("transaction aborted"), null];
+  if (err) throw err;
+  return Number(count);
+}
+
+export function createAbuseScorer(opts: {
+  providers: Map<number, ethers.Provider>;
+  mainnet: ethers.Provider | null;
+  policy: AbusePolicy;
+  rpcTimeoutMs: number;
+}): AbuseScorer {
+  const { policy } = opts;
+
+  /** The value, or null (logged) if it fails or outlasts the timeout. */
+  async function read<T>(signal: string, fn: () => Promise<T>): Promise<T | null> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`timed out after ${opts.rpcTimeoutMs}ms`)), opts.rpcTimeoutMs);
+    });
+    try {
+      return await Promise.race([fn(), timeout]);
+    } catch (err) {
+      log.warn("abuse signal unavailable", { signal, err });
+      return null;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  return {
+    policy,
+    async assess({ address, chainId, ip, userAgent }) {
+      const provider = opts.providers.get(chainId);
+      const subnet = subnetOf(ip);
+      const ua = userAgent?.trim() || null;
+      const [testnetBalanceWei, testnetTxCount, mainnetTxCount, subnetAddresses, userAgentAddresses] = await Promise.all([
+        provider ? read("testnet-balance", () => provider.getBalance(address)) : null,
+        provider ? read("testnet-nonce", () => provider.getTransactionCount(address)) : null,
+        opts.mainnet ? read("mainnet-nonce", () => opts.mainnet!.getTransactionCount(address)) : null,
+        subnet ? read("subnet-velocity", () => sightings(velocityKey("subnet", subnet), address, policy.windowSec)) : null,
+        ua ? read("user-agent-velocity", () => sightings(velocityKey("ua", ua), address, policy.windowSec)) : null,
+      ]);
+      const signals: AbuseSignals = { testnetBalanceWei, testnetTxCount, mainnetTxCount, subnetAddresses, userAgentAddresses, userAgent: ua };
+      return { ...scoreAbuse(signals, policy), signals };
+    },
+  };
+}
+
+/**
+ *   ABUSE_MAINNET_RPC_URL    mainnet JSON-RPC for the activity signal (empty = skipped)
+ *   ABUSE_RPC_TIMEOUT_MS     per signal (default 3000)
+ * plus the thresholds read by abusePolicyFromEnv().
+ */
+export function abuseScorerFromEnv(providers: Map<number, ethers.Provider>): AbuseScorer {
+  const mainnetUrl = process.env.ABUSE_MAINNET_RPC_URL?.trim();
+  return createAbuseScorer({
+    providers,
+    mainnet: mainnetUrl ? new ethers.JsonRpcProvider(mainnetUrl, 1, { staticNetwork: true }) : null,
+    policy: abusePolicyFromEnv(),
+    rpcTimeoutMs: getIntEnv("ABUSE_RPC_TIMEOUT_MS", 3_000),
+  });
+}
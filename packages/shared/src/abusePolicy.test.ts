@@ -0,0 +1,76 @@
+import { abusePolicyFromEnv, scoreAbuse, type AbusePolicy, type AbuseSignals } from "./abusePolicy";
+
+const policy: AbusePolicy = {
+  reviewAt: 60,
+  rejectAt: 90,
+  richBalanceWei: 10n ** 18n,
+  trustedMainnetTxs: 10,
+  windowSec: 3_600,
+  subnetAddresses: 3,
+  userAgentAddresses: 5,
+};
+
+const BROWSER = "Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 Chrome/126.0 Safari/537.36";
+
+const quiet: AbuseSignals = {
+  testnetBalanceWei: 0n,
+  testnetTxCount: 4,
+  mainnetTxCount: 3,
+  subnetAddresses: 1,
+  userAgentAddresses: 1,
+  userAgent: BROWSER,
+};
+
+describe("abuse score", () => {
+  it("allows an ordinary request with no reasons", () => {
+    expect(scoreAbuse(quiet, policy)).toEqual({ score: 0, reasons: [], verdict: "allow" });
+  });
+
+  it("holds a fresh wallet with no mainnet history from a busy subnet", () => {
+    const s = scoreAbuse({ ...quiet, testnetTxCount: 0, mainnetTxCount: 0, subnetAddresses: 4 }, policy);
+    expect(s.score).toBe(65);
+    expect(s.verdict).toBe("review");
+    expect(s.reasons).toEqual([
+      "recipient has never sent a transaction on this chain (+20)",
+      "no mainnet activity (+25)",
+      "4 addresses from this network in 1h (+20)",
+    ]);
+  });
+
+  it("refuses scripted farming and caps at 100", () => {
+    const s = scoreAbuse({
+      testnetBalanceWei: 5n * 10n ** 18n, testnetTxCount: 0, mainnetTxCount: 0,
+      subnetAddresses: 40, userAgentAddresses: 40, userAgent: "python-requests/2.31",
+    }, policy);
+    expect(s.score).toBe(100);
+    expect(s.verdict).toBe("reject");
+    expect(s.reasons).toContain("recipient already holds 5.0 (+30)");
+    expect(s.reasons).toContain("automated client (+25)");
+  });
+
+  it("credits established mainnet accounts and never goes below 0", () => {
+    const s = scoreAbuse({ ...quiet, mainnetTxCount: 250, userAgent: null, userAgentAddresses: null }, policy);
+    expect(s.score).toBe(0);
+    expect(s.reasons).toEqual(["established mainnet account (250 txs) (-30)", "no user agent (+15)"]);
+  });
+
+  it("ignores signals it could not read and thresholds set to 0", () => {
+    const unknown: AbuseSignals = { ...quiet, testnetBalanceWei: null, testnetTxCount: null, mainnetTxCount: null, subnetAddresses: null };
+    expect(scoreAbuse(unknown, policy).score).toBe(0);
+    const off = { ...policy, reviewAt: 0, rejectAt: 0 };
+    expect(scoreAbuse({ ...quiet, testnetTxCount: 0, mainnetTxCount: 0, subnetAddresses: 40 }, off).verdict).toBe("allow");
+  });
+
+  it("reads thresholds from env", () => {
+    process.env.ABUSE_RICH_BALANCE = "0.5";
+    process.env.ABUSE_REVIEW_SCORE = "95";
+    try {
+      expect(() => abusePolicyFromEnv()).toThrow(/must not exceed/);
+      process.env.ABUSE_REVIEW_SCORE = "40";
+      expect(abusePolicyFromEnv()).toMatchObject({ reviewAt: 40, rejectAt: 90, richBalanceWei: 5n * 10n ** 17n });
+    } finally {
+      delete process.env.ABUSE_RICH_BALANCE;
+      delete process.env.ABUSE_REVIEW_SCORE;
+    }
+  });
+});
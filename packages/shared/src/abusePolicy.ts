@@ -0,0 +1,110 @@
+// packages/shared/src/abusePolicy.ts
+// Sybil/abuse score for a drip, from signals gathered by abuse.ts. Pure.
+// Each signal adds (or, for an established mainnet account, removes) points; the total
+// is clamped to 0..100 and compared against two thresholds:
+//   score >= rejectAt → refused          score >= reviewAt → held for an admin
+// Every contribution comes with a human-readable reason, stored on the request.
+// A signal that could not be read (RPC down, no mainnet RPC) is null and scores nothing.
+
+import { ethers } from "ethers";
+import { getIntEnv } from "./env";
+
+export type AbuseVerdict = "allow" | "review" | "reject";
+
+export type AbusePolicy = {
+  reviewAt: number;            // 0 = never hold
+  rejectAt: number;            // 0 = never refuse
+  richBalanceWei: bigint | null; // recipient holding this much already is suspect (null = off)
+  trustedMainnetTxs: number;   // mainnet tx count that earns credit (0 = off)
+  windowSec: number;           // velocity window for subnets and user agents
+  subnetAddresses: number;     // distinct addresses per subnet per window before it scores
+  userAgentAddresses: number;  // distinct addresses per user agent per window before it scores
+};
+
+export type AbuseSignals = {
+  testnetBalanceWei: bigint | null;
+  testnetTxCount: number | null;     // recipient's nonce on the drip's chain
+  mainnetTxCount: number | null;
+  subnetAddresses: number | null;    // distinct addresses seen from the client's subnet, this one included
+  userAgentAddresses: number | null; // distinct addresses seen with the same user agent
+  userAgent: string | null;
+};
+
+export type AbuseScore = { score: number; reasons: string[]; verdict: AbuseVerdict };
+
+/** Clients that are scripts, not browsers. */
+const AUTOMATED_UA = /\b(curl|wget|python-requests|python-urllib|aiohttp|httpx|go-http-client|okhttp|axios|node-fetch|undici|headlesschrome|phantomjs|puppeteer|playwright|selenium)\b/i;
+
+/**
+ *   ABUSE_REVIEW_SCORE           hold for review at/above (default 60, 0 = off)
+ *   ABUSE_REJECT_SCORE           refuse at/above (default 90, 0 = off)
+ *   ABUSE_RICH_BALANCE           native units; recipients above it score (empty = off)
+ *   ABUSE_TRUSTED_MAINNET_TXS    mainnet txs that earn credit (default 10, 0 = off)
+ *   ABUSE_WINDOW_SEC             velocity window (default 3600)
+ *   ABUSE_SUBNET_ADDRESSES       addresses per subnet per window tolerated (default 3)
+ *   ABUSE_USER_AGENT_ADDRESSES   addresses per user agent per window tolerated (default 5)
+ */
+export function abusePolicyFromEnv(): AbusePolicy {
+  const rich = process.env.ABUSE_RICH_BALANCE?.trim();
+  const policy: AbusePolicy = {
+    reviewAt: getIntEnv("ABUSE_REVIEW_SCORE", 60),
+    rejectAt: getIntEnv("ABUSE_REJECT_SCORE", 90),
+    richBalanceWei: rich ? ethers.parseEther(rich) : null,
+    trustedMainnetTxs: getIntEnv("ABUSE_TRUSTED_MAINNET_TXS", 10),
+    windowSec: getIntEnv("ABUSE_WINDOW_SEC", 3_600),
+    subnetAddresses: getIntEnv("ABUSE_SUBNET_ADDRESSES", 3),
+    userAgentAddresses: getIntEnv("ABUSE_USER_AGENT_ADDRESSES", 5),
+  };
+  if (policy.windowSec < 1) throw new Error("ABUSE_WINDOW_SEC must be positive");
+  if (policy.reviewAt > 0 && policy.rejectAt > 0 && policy.reviewAt > policy.rejectAt) {
+    throw new Error("ABUSE_REVIEW_SCORE must not exceed ABUSE_REJECT_SCORE");
+  }
+  return policy;
+}
+
+function windowLabel(sec: number): string {
+  if (sec % 86_400 === 0) return `${sec / 86_400}d`;
+  if (sec % 3_600 === 0) return `${sec / 3_600}h`;
+  if (sec % 60 === 0) return `${sec / 60}m`;
+  return `${sec}s`;
+}
+
+/** Points for `n` sightings over a tolerated `limit`: `base`, plus `step` per extra one, capped. */
+function overLimit(n: number, limit: number, base: number, step: number, cap: number): number {
+  return n > limit ? Math.min(cap, base + step * (n - limit - 1)) : 0;
+}
+
+export function scoreAbuse(s: AbuseSignals, p: AbusePolicy): AbuseScore {
+  let score = 0;
+  const reasons: string[] = [];
+  const add = (points: number, reason: string) => {
+    if (points === 0) return;
+    score += points;
+    reasons.push(`${reason} (${points > 0 ? "+" : ""}${points})`);
+  };
+  const window = windowLabel(p.windowSec);
+
+  if (s.testnetTxCount === 0) add(20, "recipient has never sent a transaction on this chain");
+  if (p.richBalanceWei !== null && s.testnetBalanceWei !== null && s.testnetBalanceWei >= p.richBalanceWei) {
+    add(30, `recipient already holds ${ethers.formatEther(s.testnetBalanceWei)}`);
+  }
+  if (s.mainnetTxCount === 0) add(25, "no mainnet activity");
+  else if (p.trustedMainnetTxs > 0 && s.mainnetTxCount !== null && s.mainnetTxCount >= p.trustedMainnetTxs) {
+    add(-30, `established mainnet account (${s.mainnetTxCount} txs)`);
+  }
+  if (s.subnetAddresses !== null) {
+    add(overLimit(s.subnetAddresses, p.subnetAddresses, 20, 10, 50), `${s.subnetAddresses} addresses from this network in ${window}`);
+  }
+
+  const ua = s.userAgent?.trim() ?? "";
+  if (!ua) add(15, "no user agent");
+  else if (AUTOMATED_UA.test(ua)) add(25, "automated client");
+  if (ua && s.userAgentAddresses !== null) {
+    add(overLimit(s.userAgentAddresses, p.userAgentAddresses, 15, 5, 35), `user agent shared by ${s.userAgentAddresses} addresses in ${window}`);
+  }
+
+  score = Math.max(0, Math.min(100, score));
+  const verdict: AbuseVerdict =
+    p.rejectAt > 0 && score >= p.rejectAt ? "reject" : p.reviewAt > 0 && score >= p.reviewAt ? "review" : "allow";
+  return { score, reasons, verdict };
+}
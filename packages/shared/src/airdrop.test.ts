@@ -0,0 +1,66 @@
+import { airdropBaseUnits, airdropTotals, chunk, parseAirdropCsv } from "./airdrop";
+
+const A = "0x1111111111111111111111111111111111111111";
+const B = "0x2222222222222222222222222222222222222222";
+const TOKEN = "0x3333333333333333333333333333333333333333";
+
+describe("airdrop CSV", () => {
+  it("skips header, comments and blanks; collapses exact duplicates", () => {
+    const csv = ["address,amount,token", "# speakers", A + ",0.5", "", B + ",10," + TOKEN, A.toUpperCase().replace("0X", "0x") + ",0.5"].join("\n");
+    const { entries, duplicates } = parseAirdropCsv(csv);
+    expect(duplicates).toBe(1);
+    expect(entries).toEqual([
+      { line: 3, address: A, asset: "native", amount: "0.5" },
+      { line: 5, address: B, asset: TOKEN, amount: "10" },
+    ]);
+  });
+
+  it("keeps the same recipient for different assets", () => {
+    const { entries } = parseAirdropCsv(`${A},1\n${A},1,${TOKEN}`);
+    expect(entries.map(e => e.asset)).toEqual(["native", TOKEN]);
+  });
+
+  it("reports every bad line at once", () => {
+    const csv = [
+      `${A},1`,
+      "0xnope,1",
+      `${B},0`,
+      `${A},2`,
+      `0x0000000000000000000000000000000000000000,1`,
+      `${B},1,notatoken`,
+    ].join("\n");
+    let message = "";
+    try {
+      parseAirdropCsv(csv);
+    } catch (e: any) {
+      message = e.message;
+    }
+    expect(message).toMatch(/line 2: invalid address/);
+    expect(message).toMatch(/line 3: amount must be a positive decimal/);
+    expect(message).toMatch(/line 4: .* already gets 1 .* line 1/);
+    expect(message).toMatch(/line 5: refusing to send/);
+    expect(message).toMatch(/line 6: invalid token/);
+  });
+
+  it("refuses excluded addresses such as the faucet itself", () => {
+    expect(() => parseAirdropCsv(`${A},1`, { exclude: [A.toUpperCase().replace("0X", "0x")] })).toThrow(/refusing/);
+  });
+});
+
+describe("airdrop amounts", () => {
+  it("converts to base units and rejects excess precision", () => {
+    expect(airdropBaseUnits({ line: 1, address: A, asset: "native", amount: "0.5" }, 18)).toBe(5n * 10n ** 17n);
+    expect(() => airdropBaseUnits({ line: 7, address: A, asset: TOKEN, amount: "1.234" }, 2)).toThrow(/line 7/);
+  });
+
+  it("totals per asset and chunks", () => {
+    const totals = airdropTotals([
+      { asset: "native", amount: 1n },
+      { asset: TOKEN, amount: 5n },
+      { asset: "native", amount: 2n },
+    ]);
+    expect([...totals]).toEqual([["native", 3n], [TOKEN, 5n]]);
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(() => chunk([1], 0)).toThrow();
+  });
+});
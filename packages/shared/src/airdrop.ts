@@ -0,0 +1,102 @@
+// packages/shared/src/airdrop.ts
+// Input side of scripts/airdrop.ts: parse and validate the CSV, collapse duplicates,
+// total the cost. Pure — progress tracking lives in airdropRepo.ts.
+//
+// CSV: `address,amount[,token]` per line, amount in human units ("0.5"), token an
+// ERC-20 address (omitted = native coin). A header row, blank lines and `#` comments
+// are skipped. Exact duplicates collapse; the same recipient and asset with two
+// different amounts is an error, like the Merkle allowlist builder.
+
+import { ethers } from "ethers";
+
+export type AirdropEntry = {
+  line: number;             // 1-based CSV line
+  address: string;          // lowercased hex
+  asset: string;            // "native" or lowercased token address (see assetKey)
+  amount: string;           // human units
+};
+
+export type ParsedAirdrop = {
+  entries: AirdropEntry[];
+  duplicates: number;       // exact repeats dropped
+};
+
+/** Disperse (disperse.app) batch sender: one tx pays many recipients. */
+export const DISPERSE_ABI = [
+  "function disperseEther(address[] recipients, uint256[] values) payable",
+  "function disperseToken(address token, address[] recipients, uint256[] values)",
+];
+
+const AMOUNT_RE = /^\d+(\.\d+)?$/;
+const MAX_REPORTED_ERRORS = 20;
+
+/** Parse and validate every line; throws one error listing the bad lines. */
+export function parseAirdropCsv(text: string, opts: { exclude?: string[] } = {}): ParsedAirdrop {
+  const exclude = new Set((opts.exclude ?? []).map(a => a.toLowerCase()));
+  const errors: string[] = [];
+  const seen = new Map<string, AirdropEntry>();
+  let duplicates = 0;
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = i + 1;
+    const trimmed = raw.trim();
+    if (!trimmed || trimmed.startsWith("#")) return;
+    const [address, amount, token] = trimmed.split(",").map(c => c.trim());
+    if (i === 0 && !address.startsWith("0x")) return; // header
+
+    if (!ethers.isAddress(address)) return void errors.push(`line ${line}: invalid address "${address}"`);
+    if (address.toLowerCase() === ethers.ZeroAddress || exclude.has(address.toLowerCase())) {
+      return void errors.push(`line ${line}: refusing to send to ${address}`);
+    }
+    if (!amount || !AMOUNT_RE.test(amount) || /^0+(\.0+)?$/.test(amount)) {
+      return void errors.push(`line ${line}: amount must be a positive decimal (got "${amount ?? ""}")`);
+    }
+    if (token && !ethers.isAddress(token)) return void errors.push(`line ${line}: invalid token "${token}"`);
+
+    const entry: AirdropEntry = {
+      line,
+      address: address.toLowerCase(),
+      asset: token ? token.toLowerCase() : "native",
+      amount,
+    };
+    const key = `${entry.address}:${entry.asset}`;
+    const prev = seen.get(key);
+    if (!prev) {
+      seen.set(key, entry);
+    } else if (prev.amount === amount) {
+      duplicates++;
+    } else {
+      errors.push(`line ${line}: ${address} already gets ${prev.amount} of this asset on line ${prev.line}`);
+    }
+  });
+
+  if (errors.length) {
+    const more = errors.length > MAX_REPORTED_ERRORS ? `\n… and ${errors.length - MAX_REPORTED_ERRORS} more` : "";
+    throw new Error(`invalid airdrop CSV:\n${errors.slice(0, MAX_REPORTED_ERRORS).join("\n")}${more}`);
+  }
+  return { entries: [...seen.values()], duplicates };
+}
+
+/** Amount in base units; throws if it has more fractional digits than the asset allows. */
+export function airdropBaseUnits(e: AirdropEntry, decimals: number): bigint {
+  try {
+    return ethers.parseUnits(e.amount, decimals);
+  } catch {
+    throw new Error(`line ${e.line}: ${e.amount} has more than ${decimals} decimals`);
+  }
+}
+
+/** Sum of base-unit amounts per asset. */
+export function airdropTotals(items: { asset: string; amount: bigint }[]): Map<string, bigint> {
+  const totals = new Map<string, bigint>();
+  for (const it of items) totals.set(it.asset, (totals.get(it.asset) ?? 0n) + it.amount);
+  return totals;
+}
+
+/** Split into consecutive chunks of at most `size`. */
+export function chunk<T>(items: T[], size: number): T[][] {
+  if (size < 1) throw new Error("chunk size must be positive");
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+  return out;
+}
@@ -0,0 +1,158 @@
+// packages/shared/src/airdropRepo.ts
+// Progress of scripts/airdrop.ts runs (airdrops, airdrop_items).
+//
+//   pending ──► signed ──► sent
+//      ▲           │
+//      └───────────┴──► failed      (signed → pending only when the tx provably never mined)
+//
+// Items go 'signed' with nonce, hash and raw tx *before* broadcast, so a crashed run
+// resumes by resolving those hashes instead of paying again.
+
+import { getClient, query } from "./db";
+import { chunk } from "./airdrop";
+import type { AirdropItemRow, AirdropItemStatus, AirdropRow } from "./types";
+
+export type NewAirdropItem = { line: number; address: string; asset: string; amount: bigint };
+
+const INSERT_CHUNK = 500;
+
+/**
+ * Create the run, or return it if `name` was started before with the same chain,
+ * signer, mode and CSV. Items are only inserted on creation.
+ */
+export async function startAirdrop(a: {
+  name: string;
+  chainId: number;
+  sender: string;
+  mode: AirdropRow["mode"];
+  csvSha256: string;
+  items: NewAirdropItem[];
+}): Promise<{ airdrop: AirdropRow; resumed: boolean }> {
+  const { transaction } = await getClient();
+  return transaction(async (c) => {
+    const { rows: existing } = await c.query<AirdropRow>("SELECT * FROM airdrops WHERE name=$1 FOR UPDATE", [a.name]);
+    if (existing.length) {
+      const e = existing[0];
+      if (e.chain_id !== a.chainId || e.sender !== a.sender || e.mode !== a.mode || e.csv_sha256 !== a.csvSha256) {
+        throw new Error(`airdrop "${a.name}" was started with a different chain, signer, mode or CSV; pick a new --name`);
+      }
+      return { airdrop: e, resumed: true };
+    }
+
+    const { rows } = await c.query<AirdropRow>(
+      `INSERT INTO airdrops (name, chain_id, sender, mode, csv_sha256) VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+      [a.name, a.chainId, a.sender, a.mode, a.csvSha256]
+    );
+    const airdrop = rows[0];
+    for (const part of chunk(a.items, INSERT_CHUNK)) {
+      const params: unknown[] = [airdrop.id];
+      const values = part.map((it) => {
+        params.push(it.line, it.address, it.asset, it.amount.toString());
+        const n = params.length;
+        return `($1, $${n - 3}, $${n - 2}, $${n - 1}, $${n})`;
+      });
+      await c.query(`INSERT INTO airdrop_items (airdrop_id, line, address, asset, amount) VALUES ${values.join(", ")}`, params);
+    }
+    return { airdrop, resumed: false };
+  });
+}
+
+/**
+ * Run `fn` holding a session advisory lock on the airdrop, so two terminals can't
+ * work the same run at once.
+ */
+export async function withAirdropLock<T>(id: number, fn: () => Promise<T>): Promise<T> {
+  const { client, release } = await getClient();
+  try {
+    const { rows } = await client.query("SELECT pg_try_advisory_lock(hashtext('airdrop'), $1) AS ok", [id]);
+    if (!rows[0].ok) throw new Error(`airdrop ${id} is being worked by another process`);
+    try {
+      return await fn();
+    } finally {
+      try { await client.query("SELECT pg_advisory_unlock(hashtext('airdrop'), $1)", [id]); } catch {}
+    }
+  } finally {
+    release();
+  }
+}
+
+export async function airdropProgress(id: number): Promise<Record<AirdropItemStatus, number>> {
+  const { rows } = await query<{ status: AirdropItemStatus; n: string }>(
+    "SELECT status, COUNT(*) AS n FROM airdrop_items WHERE airdrop_id=$1 GROUP BY status",
+    [id]
+  );
+  const out: Record<AirdropItemStatus, number> = { pending: 0, signed: 0, sent: 0, failed: 0 };
+  for (const r of rows) out[r.status] = Number(r.n);
+  return out;
+}
+
+export async function listAirdropItems(id: number, status: AirdropItemStatus): Promise<AirdropItemRow[]> {
+  const { rows } = await query<AirdropItemRow>(
+    "SELECT * FROM airdrop_items WHERE airdrop_id=$1 AND status=$2 ORDER BY asset, line",
+    [id, status]
+  );
+  return rows;
+}
+
+/** Write-ahead: pending → signed for every item the tx pays. False if any had moved on. */
+export async function markItemsSigned(ids: number[], tx: { nonce: number; txHash: string; raw: string }): Promise<boolean> {
+  const { rows } = await query(
+    `WITH target AS (SELECT id FROM airdrop_items WHERE id = ANY($1) AND status='pending' FOR UPDATE)
+     UPDATE airdrop_items SET status='signed', nonce=$2, tx_hash=$3, raw_tx=$4, error=NULL, updated_at=NOW()
+      WHERE id IN (SELECT id FROM target) AND (SELECT COUNT(*) FROM target) = cardinality($1::int[])
+      RETURNING id`,
+    [ids, tx.nonce, tx.txHash, tx.raw]
+  );
+  return rows.length === ids.length;
+}
+
+/** Pending items that can't be sent (e.g. the token transfer would revert). */
+export async function failPendingItems(ids: number[], reason: string): Promise<number> {
+  const { rows } = await query(
+    `UPDATE airdrop_items SET status='failed', error=$2, updated_at=NOW()
+      WHERE id = ANY($1) AND status='pending'
+      RETURNING id`,
+    [ids, reason]
+  );
+  return rows.length;
+}
+
+/** The signed tx mined: success → sent, reverted → failed. */
+export async function resolveSignedTx(txHash: string, ok: boolean, error?: string): Promise<number> {
+  const { rows } = await query(
+    `UPDATE airdrop_items SET status=$2, error=$3, updated_at=NOW()
+      WHERE tx_hash=$1 AND status='signed'
+      RETURNING id`,
+    [txHash, ok ? "sent" : "failed", ok ? null : (error ?? "reverted")]
+  );
+  return rows.length;
+}
+
+/**
+ * Undo the write-ahead for a tx that can no longer mine (refused by the node, or its
+ * nonce consumed by another tx), so the items are paid by a fresh tx.
+ */
+export async function releaseSignedTx(txHash: string, reason: string): Promise<number> {
+  const { rows } = await query(
+    `UPDATE airdrop_items SET status='pending', nonce=NULL, tx_hash=NULL, raw_tx=NULL, error=$2, updated_at=NOW()
+      WHERE tx_hash=$1 AND status='signed'
+      RETURNING id`,
+    [txHash, reason]
+  );
+  return rows.length;
+}
+
+/** Failed items back to pending (--retry-failed). */
+export async function retryFailedItems(id: number): Promise<number> {
+  const { rows } = await query(
+    `UPDATE airdrop_items SET status='pending', nonce=NULL, tx_hash=NULL, raw_tx=NULL, updated_at=NOW()
+      WHERE airdrop_id=$1 AND status='failed'
+      RETURNING id`,
+    [id]
+  );
+  return rows.length;
+}
+
+export async function finishAirdrop(id: number): Promise<void> {
+  await query("UPDATE airdrops SET finished_at=NOW() WHERE id=$1 AND finished_at IS NULL", [id]);
+}
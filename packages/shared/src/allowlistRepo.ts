@@ -0,0 +1,37 @@
+// packages/shared/src/allowlistRepo.ts
+// Admin side of the "table" eligibility allowlist (eligibility.ts reads it).
+// Entries are revoked rather than deleted, so the table keeps its history;
+// re-adding a revoked address reactivates the same row.
+
+import { query } from "./db";
+import type { AllowlistRow } from "./types";
+
+/** Live entries (not revoked, not expired), newest first. */
+export async function listAllowlist(limit = 500): Promise<AllowlistRow[]> {
+  const { rows } = await query<AllowlistRow>(
+    `SELECT * FROM allowlist
+      WHERE revoked_at IS NULL AND (expires_at IS NULL OR expires_at > NOW())
+      ORDER BY created_at DESC LIMIT $1`,
+    [limit]
+  );
+  return rows;
+}
+
+export async function addToAllowlist(e: { address: string; note: string | null; expiresAt: string | null }): Promise<AllowlistRow> {
+  const { rows } = await query<AllowlistRow>(
+    `INSERT INTO allowlist (address, note, expires_at) VALUES ($1, $2, $3)
+     ON CONFLICT (address) DO UPDATE
+       SET note=EXCLUDED.note, expires_at=EXCLUDED.expires_at, revoked_at=NULL, created_at=NOW()
+     RETURNING *`,
+    [e.address, e.note, e.expiresAt]
+  );
+  return rows[0];
+}
+
+export async function revokeFromAllowlist(address: string): Promise<boolean> {
+  const { rows } = await query(
+    "UPDATE allowlist SET revoked_at=NOW() WHERE address=$1 AND revoked_at IS NULL RETURNING address",
+    [address]
+  );
+  return rows.length > 0;
+}
@@ -0,0 +1,82 @@
+import { ethers } from "ethers";
+import { dailyBudgetLeftPct, decideAmount, parseAmountPolicy, type AmountContext, type AmountPolicy } from "./amountPolicy";
+
+const eth = (v: string) => ethers.parseEther(v);
+const native = { kind: "native" as const, symbol: "ETH", decimals: 18, base: eth("0.02") };
+const token = { kind: "erc20" as const, symbol: "USDC-test", decimals: 6, base: 100_000_000n };
+
+const fixed: AmountPolicy = parseAmountPolicy({}, "test");
+const ctx: AmountContext = { source: null, recipientBalance: null, budgetLeftPct: null, faucet: null };
+
+const ok = (d: ReturnType<typeof decideAmount>) => {
+  if (!d.ok) throw new Error(d.reason);
+  return d;
+};
+
+describe("amount policy", () => {
+  it("defaults to the plain configured amount", () => {
+    expect(fixed).toEqual({ mode: "fixed", tiers: {}, recipientCap: null, scaleBudgetBelowPct: 0, lowBalance: null, minScalePct: 25 });
+    const d = ok(decideAmount(native, ctx, fixed));
+    expect(d.amount).toBe(eth("0.02"));
+    expect(d.record).toEqual({ base: eth("0.02").toString(), tier: null, multiplier: 1, mode: "fixed", recipientBalance: null, scalePct: 100, notes: [] });
+  });
+
+  it("multiplies by the eligibility source's tier", () => {
+    const p = { ...fixed, tiers: { merkle: 2, table: 1.5 } };
+    expect(ok(decideAmount(native, { ...ctx, source: "merkle" }, p)).amount).toBe(eth("0.04"));
+    expect(ok(decideAmount(token, { ...ctx, source: "table" }, p)).amount).toBe(150_000_000n);
+    expect(ok(decideAmount(native, { ...ctx, source: "token-erc20" }, p)).record.tier).toBeNull();
+  });
+
+  it("tops up to the target and refuses recipients already there", () => {
+    const p = { ...fixed, mode: "top-up" as const };
+    const d = ok(decideAmount(native, { ...ctx, recipientBalance: eth("0.015") }, p));
+    expect(d.amount).toBe(eth("0.005"));
+    expect(d.record.notes).toEqual(["top-up from 0.015 ETH to 0.02 ETH"]);
+    expect(decideAmount(native, { ...ctx, recipientBalance: eth("0.02") }, p)).toEqual({
+      ok: false, reason: "recipient already holds 0.02 ETH (target 0.02 ETH)",
+    });
+    expect(ok(decideAmount(native, ctx, p)).amount).toBe(eth("0.02")); // balance unknown
+  });
+
+  it("refuses recipients over the cap", () => {
+    const p = { ...fixed, recipientCap: 5 };
+    expect(decideAmount(token, { ...ctx, recipientBalance: 500_000_001n }, p)).toEqual({
+      ok: false, reason: "recipient already holds 500.000001 USDC-test (cap 500.0 USDC-test)",
+    });
+    expect(decideAmount(token, { ...ctx, recipientBalance: 500_000_000n }, p).ok).toBe(true);
+  });
+
+  it("scales native drips when the budget or faucet balance runs low, with a floor", () => {
+    const p = { ...fixed, scaleBudgetBelowPct: 20, lowBalance: "5", minScalePct: 25 };
+    expect(ok(decideAmount(native, { ...ctx, budgetLeftPct: 10 }, p)).amount).toBe(eth("0.01"));
+    const faucet = { balanceWei: eth("3"), reserveWei: eth("1") };
+    const d = ok(decideAmount(native, { ...ctx, faucet }, p));
+    expect(d.record.scalePct).toBe(50);
+    expect(d.amount).toBe(eth("0.01"));
+    expect(ok(decideAmount(native, { ...ctx, budgetLeftPct: 1 }, p)).record.scalePct).toBe(25);
+    expect(ok(decideAmount(token, { ...ctx, budgetLeftPct: 1, faucet }, p)).amount).toBe(token.base);
+  });
+
+  it("reads today's native budget headroom", () => {
+    const limit = { drips: null, wei: eth("40") };
+    expect(dailyBudgetLeftPct([{ period: "day", wei: eth("30"), limit }])).toBe(25);
+    expect(dailyBudgetLeftPct([{ period: "day", wei: eth("50"), limit }])).toBe(0);
+    expect(dailyBudgetLeftPct([{ period: "day", wei: 0n, limit: { drips: 10, wei: null } }])).toBeNull();
+  });
+
+  it("validates chain config and env", () => {
+    expect(() => parseAmountPolicy({ mode: "double" }, "chains[0].amountPolicy")).toThrow(/mode/);
+    expect(() => parseAmountPolicy({ tiers: { vip: 2 } }, "chains[0].amountPolicy")).toThrow(/unknown eligibility source/);
+    expect(() => parseAmountPolicy({ recipientCap: 0 }, "x")).toThrow(/recipientCap/);
+    process.env.DRIP_TIERS = "merkle=3";
+    process.env.DRIP_AMOUNT_MODE = "top-up";
+    try {
+      expect(parseAmountPolicy(undefined, "x")).toMatchObject({ mode: "top-up", tiers: { merkle: 3 } });
+      expect(parseAmountPolicy({ tiers: {} }, "x").tiers).toEqual({});
+    } finally {
+      delete process.env.DRIP_TIERS;
+      delete process.env.DRIP_AMOUNT_MODE;
+    }
+  });
+});
@@ -0,0 +1,183 @@
+// packages/shared/src/amountPolicy.ts
+// How much one asset of a drip sends. Pure — the API gathers the inputs and records
+// the outcome on the request row (requests.amount, requests.amount_policy).
+//   1. tier:    the asset's configured amount × the multiplier for the eligibility
+//               source that admitted the recipient (e.g. merkle=2)
+//   2. cap:     refuse if the recipient already holds more than recipientCap × that amount
+//   3. mode:    "fixed" sends it; "top-up" sends only what lifts the recipient's
+//               balance to it, and refuses if they are already there
+//   4. scaling: native coin only — shrink the amount when the daily budget or the
+//               faucet's headroom above its reserve runs low, never below minScalePct
+// Chain config "amountPolicy" overrides the DRIP_* env defaults, which keep the plain
+// fixed amount.
+
+import { ethers } from "ethers";
+import { getListEnv } from "./env";
+import type { BudgetUsage } from "./budgetRepo";
+
+export type AmountMode = "fixed" | "top-up";
+export const TIER_SOURCES = ["token-erc20", "table", "merkle"] as const;
+export type TierSource = (typeof TIER_SOURCES)[number];
+
+export type AmountPolicy = {
+  mode: AmountMode;
+  tiers: Partial<Record<TierSource, number>>; // multiplier per eligibility source; missing = 1
+  recipientCap: number | null;   // × the tiered amount; null = no cap
+  scaleBudgetBelowPct: number;   // daily native budget left under this % scales down; 0 = off
+  lowBalance: string | null;     // native units; faucet balance under this scales down
+  minScalePct: number;           // floor for both scalings
+};
+
+/** What the API knows when sizing one asset. */
+export type AmountContext = {
+  source: string | null;             // eligibility gate that admitted the recipient
+  recipientBalance: bigint | null;   // of this asset, base units; null = not read / unknown
+  budgetLeftPct: number | null;      // see dailyBudgetLeftPct(); null = uncapped
+  faucet: { balanceWei: bigint; reserveWei: bigint } | null; // last breaker check
+};
+
+/** Stored in requests.amount_policy next to the amount it produced. */
+export type AmountRecord = {
+  base: string;                  // configured amount, base units
+  tier: string | null;           // eligibility source whose multiplier applied
+  multiplier: number;
+  mode: AmountMode;
+  recipientBalance: string | null;
+  scalePct: number;              // 100 = unscaled
+  notes: string[];
+};
+
+export type AmountDecision =
+  | { ok: true; amount: bigint; record: AmountRecord }
+  | { ok: false; reason: string };
+
+const DECIMAL = /^\d+(\.\d+)?$/;
+
+function pctOption(raw: unknown, env: string, fallback: number, where: string): number {
+  const v = raw ?? process.env[env];
+  if (v === undefined || v === null || v === "") return fallback;
+  const n = Number(v);
+  if (!Number.isFinite(n) || n < 0 || n > 100) throw new Error(`${where} must be a percentage (0..100)`);
+  return n;
+}
+
+/** "merkle=2,table=1.5" or { merkle: 2, table: 1.5 }. */
+function parseTiers(raw: unknown, where: string): AmountPolicy["tiers"] {
+  const entries: Array<[string, unknown]> = raw && typeof raw === "object"
+    ? Object.entries(raw)
+    : getListEnv("DRIP_TIERS").map(t => t.split("=").map(s => s.trim()) as [string, string]);
+  const tiers: AmountPolicy["tiers"] = {};
+  for (const [source, mult] of entries) {
+    if (!(TIER_SOURCES as readonly string[]).includes(source)) {
+      throw new Error(`${where}: unknown eligibility source "${source}" (${TIER_SOURCES.join(", ")})`);
+    }
+    const n = Number(mult);
+    if (!Number.isFinite(n) || n <= 0) throw new Error(`${where}.${source} must be a positive multiplier`);
+    tiers[source as TierSource] = n;
+  }
+  return tiers;
+}
+
+/** Chain-level settings override DRIP_AMOUNT_MODE, DRIP_TIERS, DRIP_RECIPIENT_CAP, DRIP_SCALE_BUDGET_BELOW_PCT, DRIP_LOW_BALANCE, DRIP_MIN_SCALE_PCT. */
+export function parseAmountPolicy(raw: unknown, where: string): AmountPolicy {
+  const p = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const mode = String(p.mode ?? process.env.DRIP_AMOUNT_MODE ?? "fixed");
+  if (mode !== "fixed" && mode !== "top-up") throw new Error(`${where}.mode must be "fixed" or "top-up"`);
+
+  const capRaw = p.recipientCap ?? process.env.DRIP_RECIPIENT_CAP;
+  const recipientCap = capRaw === undefined || capRaw === null || capRaw === "" ? null : Number(capRaw);
+  if (recipientCap !== null && !(Number.isFinite(recipientCap) && recipientCap > 0)) {
+    throw new Error(`${where}.recipientCap must be a positive multiple of the drip amount`);
+  }
+  const low = p.lowBalance ?? process.env.DRIP_LOW_BALANCE;
+  if (low !== undefined && low !== null && low !== "" && !DECIMAL.test(String(low))) {
+    throw new Error(`${where}.lowBalance must be a decimal string`);
+  }
+  return {
+    mode,
+    tiers: parseTiers(p.tiers, `${where}.tiers`),
+    recipientCap,
+    scaleBudgetBelowPct: pctOption(p.scaleBudgetBelowPct, "DRIP_SCALE_BUDGET_BELOW_PCT", 0, `${where}.scaleBudgetBelowPct`),
+    lowBalance: low === undefined || low === null || low === "" ? null : String(low),
+    minScalePct: pctOption(p.minScalePct, "DRIP_MIN_SCALE_PCT", 25, `${where}.minScalePct`),
+  };
+}
+
+/** Does sizing need the recipient's balance? (Skip the RPC read when not.) */
+export function needsRecipientBalance(p: AmountPolicy): boolean {
+  return p.mode === "top-up" || p.recipientCap !== null;
+}
+
+/** Share of today's native-amount budget still unspent, in %; null when uncapped. */
+export function dailyBudgetLeftPct(usage: Array<Pick<BudgetUsage, "period" | "wei" | "limit">>): number | null {
+  const day = usage.find(u => u.period === "day");
+  if (!day || day.limit.wei === null || day.limit.wei === 0n) return null;
+  const left = day.limit.wei > day.wei ? day.limit.wei - day.wei : 0n;
+  return Number((left * 10_000n) / day.limit.wei) / 100;
+}
+
+/** x × pct% in base units (to 0.01%). */
+const scaleBy = (x: bigint, pct: number) => (x * BigInt(Math.round(pct * 100))) / 10_000n;
+
+export function decideAmount(
+  asset: { kind: "native" | "erc20"; symbol: string; decimals: number; base: bigint },
+  ctx: AmountContext,
+  p: AmountPolicy,
+): AmountDecision {
+  const fmt = (v: bigint) => `${ethers.formatUnits(v, asset.decimals)} ${asset.symbol}`;
+  const notes: string[] = [];
+  const tier = ctx.source && (p.tiers as Record<string, number>)[ctx.source] !== undefined ? ctx.source : null;
+  const multiplier = tier ? p.tiers[tier as TierSource]! : 1;
+  const target = scaleBy(asset.base, multiplier * 100);
+  if (tier) notes.push(`${tier} tier ×${multiplier}`);
+
+  const held = ctx.recipientBalance;
+  if (p.recipientCap !== null && held !== null) {
+    const cap = scaleBy(target, p.recipientCap * 100);
+    if (held > cap) return { ok: false, reason: `recipient already holds ${fmt(held)} (cap ${fmt(cap)})` };
+  }
+
+  let amount = target;
+  if (p.mode === "top-up") {
+    if (held === null) {
+      notes.push("recipient balance unknown: full amount");
+    } else if (held >= target) {
+      return { ok: false, reason: `recipient already holds ${fmt(held)} (target ${fmt(target)})` };
+    } else {
+      amount = target - held;
+      notes.push(`top-up from ${fmt(held)} to ${fmt(target)}`);
+    }
+  }
+
+  let scalePct = 100;
+  if (asset.kind === "native") {
+    if (p.scaleBudgetBelowPct > 0 && ctx.budgetLeftPct !== null && ctx.budgetLeftPct < p.scaleBudgetBelowPct) {
+      scalePct = Math.min(scalePct, (ctx.budgetLeftPct / p.scaleBudgetBelowPct) * 100);
+      notes.push(`daily budget ${ctx.budgetLeftPct}% left`);
+    }
+    if (p.lowBalance !== null && ctx.faucet) {
+      const low = ethers.parseEther(p.lowBalance);
+      const { balanceWei, reserveWei } = ctx.faucet;
+      if (balanceWei < low && low > reserveWei) {
+        const headroom = balanceWei > reserveWei ? balanceWei - reserveWei : 0n;
+        scalePct = Math.min(scalePct, Number((headroom * 10_000n) / (low - reserveWei)) / 100);
+        notes.push(`faucet balance ${ethers.formatEther(balanceWei)} under ${p.lowBalance}`);
+      }
+    }
+    if (scalePct < 100) {
+      scalePct = Math.max(p.minScalePct, Math.round(scalePct * 100) / 100);
+      amount = scaleBy(amount, scalePct);
+      notes.push(`scaled to ${scalePct}%`);
+    }
+  }
+  if (amount <= 0n) return { ok: false, reason: `nothing to send for ${asset.symbol}` };
+
+  return {
+    ok: true,
+    amount,
+    record: {
+      base: asset.base.toString(), tier, multiplier, mode: p.mode,
+      recipientBalance: held === null ? null : held.toString(), scalePct, notes,
+    },
+  };
+}
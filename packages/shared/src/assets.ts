@@ -0,0 +1,71 @@
+// packages/shared/src/assets.ts
+// What a drip sends: native coin or an ERC-20 test token.
+// A chain's bundle is a list of these; each asset becomes its own request row and tx.
+
+import { ethers } from "ethers";
+
+export type NativeAsset = {
+  kind: "native";
+  symbol: string;
+  amount: string;     // human units, e.g. "0.02"
+};
+
+export type Erc20Asset = {
+  kind: "erc20";
+  token: string;      // lowercased contract address
+  symbol: string;
+  decimals: number;
+  amount: string;     // human units, e.g. "100"
+};
+
+export type DripAsset = NativeAsset | Erc20Asset;
+
+export const ERC20_TRANSFER_ABI = [
+  "function transfer(address to, uint256 amount) returns (bool)",
+  "function balanceOf(address) view returns (uint256)",
+];
+
+/** Stored in requests.asset: "native" or the token address. */
+export function assetKey(a: DripAsset): string {
+  return a.kind === "native" ? "native" : a.token;
+}
+
+export function assetDecimals(a: DripAsset): number {
+  return a.kind === "native" ? 18 : a.decimals;
+}
+
+/** `holder`'s balance of the asset, base units. */
+export async function assetBalanceOf(provider: ethers.Provider, a: DripAsset, holder: string): Promise<bigint> {
+  if (a.kind === "native") return provider.getBalance(holder);
+  return new ethers.Contract(a.token, ERC20_TRANSFER_ABI, provider).balanceOf(holder) as Promise<bigint>;
+}
+
+/** Amount in base units (wei / token smallest unit). */
+export function toBaseUnits(a: DripAsset): bigint {
+  return ethers.parseUnits(a.amount, assetDecimals(a));
+}
+
+export function formatAsset(a: DripAsset): string {
+  return `${a.amount} ${a.symbol}`;
+}
+
+/** "0.02 ETH + 100 USDC-test" */
+export function formatBundle(bundle: DripAsset[]): string {
+  return bundle.map(formatAsset).join(" + ");
+}
+
+/** Validate an ERC-20 entry from the chain registry. */
+export function parseErc20Asset(raw: any, where: string): Erc20Asset {
+  if (typeof raw?.token !== "string" || !ethers.isAddress(raw.token)) throw new Error(`${where}.token must be an address`);
+  const decimals = Number(raw?.decimals);
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 36) throw new Error(`${where}.decimals must be 0..36`);
+  if (typeof raw?.amount !== "string" || !/^\d+(\.\d+)?$/.test(raw.amount)) throw new Error(`${where}.amount must be a decimal string`);
+  ethers.parseUnits(raw.amount, decimals); // throws on too many fractional digits
+  return {
+    kind: "erc20",
+    token: raw.token.toLowerCase(),
+    symbol: String(raw.symbol ?? "TOKEN"),
+    decimals,
+    amount: raw.amount,
+  };
+}
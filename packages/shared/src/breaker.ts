@@ -0,0 +1,31 @@
+// packages/shared/src/breaker.ts
+// Balance circuit breaker state, one Redis key per chain. The worker trips it
+// (pausing the chain's queue) when the faucet balance drops below the chain's
+// balanceReserve and resets it once refilled; the API reads it to refuse new
+// drips early instead of letting them pile up in a paused queue.
+
+import { redis } from "./redis";
+
+export type BreakerState = {
+  open: boolean;            // true = tripped, queue paused
+  since: string;            // ISO, last change of `open`
+  balance: string;          // native units, as last seen
+  reserve: string;          // native units
+  checkedAt: string;        // ISO
+  low?: boolean;            // under the BALANCE_LOW_PCT warning line (balance.low sent)
+};
+
+const key = (chainId: number) => `breaker:${chainId}`;
+
+export async function getBreaker(chainId: number): Promise<BreakerState | null> {
+  const raw = await redis.get(key(chainId));
+  return raw ? (JSON.parse(raw) as BreakerState) : null;
+}
+
+export async function setBreaker(chainId: number, state: BreakerState): Promise<void> {
+  await redis.set(key(chainId), JSON.stringify(state));
+}
+
+export async function clearBreaker(chainId: number): Promise<void> {
+  await redis.del(key(chainId));
+}
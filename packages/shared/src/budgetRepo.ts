@@ -0,0 +1,107 @@
+// packages/shared/src/budgetRepo.ts
+// Per-chain spend budgets over UTC day and hour windows (budgets table).
+// - budgetUsage():   what the current windows have used, for the API pre-check and metrics
+// - consumeBudget(): atomic conditional upsert at send time; the row lock taken by
+//                    ON CONFLICT serializes concurrent senders, so the cap can't be overshot
+// - refundBudget():  give a charge back to the windows it was made in, for a tx that
+//                    never went out
+// Drips count user requests (one per bundle); wei counts native coin only.
+
+import { ethers } from "ethers";
+import { query, type Queryable } from "./db";
+import type { ChainConfig } from "./chains";
+
+export type BudgetPeriod = "day" | "hour";
+export const BUDGET_PERIODS: readonly BudgetPeriod[] = ["day", "hour"];
+
+export type BudgetLimit = { drips: number | null; wei: bigint | null }; // null = uncapped
+export type BudgetSpend = { drips: number; wei: bigint };
+
+export type BudgetUsage = {
+  period: BudgetPeriod;
+  start: string;            // window start, ISO
+  resetsAt: string;         // next window, ISO
+  drips: number;
+  wei: bigint;
+  limit: BudgetLimit;
+};
+
+const windowStart = (p: BudgetPeriod, at = "NOW()") => `date_trunc('${p}', ${at} AT TIME ZONE 'UTC')`;
+
+export function budgetLimits(chain: Pick<ChainConfig, "budget">): Record<BudgetPeriod, BudgetLimit> {
+  const wei = (v: string | null) => (v === null ? null : ethers.parseEther(v));
+  return {
+    day:  { drips: chain.budget.dailyDrips,  wei: wei(chain.budget.dailyAmount) },
+    hour: { drips: chain.budget.hourlyDrips, wei: wei(chain.budget.hourlyAmount) },
+  };
+}
+
+/** True if spending `spend` now stays within `u`'s limit. */
+export function fitsBudget(u: Pick<BudgetUsage, "drips" | "wei" | "limit">, spend: BudgetSpend): boolean {
+  return (u.limit.drips === null || u.drips + spend.drips <= u.limit.drips)
+      && (u.limit.wei === null || u.wei + spend.wei <= u.limit.wei);
+}
+
+export async function budgetUsage(chain: Pick<ChainConfig, "chainId" | "budget">): Promise<BudgetUsage[]> {
+  const limits = budgetLimits(chain);
+  return Promise.all(BUDGET_PERIODS.map(async (period) => {
+    const { rows } = await query<{ start: string; drips: number | null; wei: string | null }>(
+      `SELECT to_char(w.start, 'YYYY-MM-DD"T"HH24:MI:SS"Z"') AS start, b.drips, b.wei
+         FROM (SELECT ${windowStart(period)} AS start) w
+         LEFT JOIN budgets b ON b.chain_id=$1 AND b.period=$2 AND b.d=w.start`,
+      [chain.chainId, period]
+    );
+    const start = new Date(rows[0].start);
+    const resetsAt = new Date(start.getTime() + (period === "day" ? 86_400_000 : 3_600_000));
+    return {
+      period,
+      start: start.toISOString(),
+      resetsAt: resetsAt.toISOString(),
+      drips: rows[0].drips ?? 0,
+      wei: BigInt(rows[0].wei ?? 0),
+      limit: limits[period],
+    };
+  }));
+}
+
+/**
+ * Spend from every window, inside the caller's transaction. Returns the first
+ * window that would go over its cap (the caller must roll back), or null.
+ */
+export async function consumeBudget(
+  c: Queryable,
+  chain: Pick<ChainConfig, "chainId" | "budget">,
+  spend: BudgetSpend,
+): Promise<BudgetPeriod | null> {
+  const limits = budgetLimits(chain);
+  for (const period of BUDGET_PERIODS) {
+    const limit = limits[period];
+    if (!fitsBudget({ drips: 0, wei: 0n, limit }, spend)) return period;
+    const { rows } = await c.query(
+      `INSERT INTO budgets (chain_id, period, d, drips, wei)
+       VALUES ($1, $2, ${windowStart(period)}, $3, $4)
+       ON CONFLICT (chain_id, period, d) DO UPDATE
+          SET drips = budgets.drips + EXCLUDED.drips, wei = budgets.wei + EXCLUDED.wei
+        WHERE ($5::int IS NULL OR budgets.drips + EXCLUDED.drips <= $5)
+          AND ($6::numeric IS NULL OR budgets.wei + EXCLUDED.wei <= $6)
+       RETURNING drips`,
+      [chain.chainId, period, spend.drips, spend.wei.toString(), limit.drips, limit.wei?.toString() ?? null]
+    );
+    if (rows.length === 0) return period;
+  }
+  return null;
+}
+
+/**
+ * Undo `spend` charged at `chargedAt` (ISO), inside the caller's transaction. Windows
+ * that have since closed are refunded too, so their totals stay true; never below 0.
+ */
+export async function refundBudget(c: Queryable, chainId: number, spend: BudgetSpend, chargedAt: string): Promise<void> {
+  for (const period of BUDGET_PERIODS) {
+    await c.query(
+      `UPDATE budgets SET drips = GREATEST(drips - $3, 0), wei = GREATEST(wei - $4::numeric, 0)
+        WHERE chain_id=$1 AND period=$2 AND d=${windowStart(period, "$5::timestamptz")}`,
+      [chainId, period, spend.drips, spend.wei.toString(), chargedAt]
+    );
+  }
+}
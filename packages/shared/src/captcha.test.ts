@@ -0,0 +1,31 @@
+import { captchaVerifier, checkSiteverify, localSiteverify, memoryReplayGuard, type CaptchaPolicy } from "./captcha";
+
+const policy: CaptchaPolicy = { hostnames: ["faucet.example"], action: "drip", minScore: 0.5, maxAgeSec: 300 };
+const local = () => captchaVerifier({ provider: "local", siteverify: localSiteverify(policy), policy, replay: memoryReplayGuard() });
+
+describe("captcha verification", () => {
+  it("accepts a passing local token once and rejects its replay", async () => {
+    const v = local();
+    await expect(v.verify("pass")).resolves.toEqual({ ok: true, score: undefined });
+    await expect(v.verify("pass")).resolves.toMatchObject({ ok: false, reason: "captcha token already used" });
+    await expect(v.verify(undefined)).resolves.toMatchObject({ ok: false, reason: "captcha token required" });
+  });
+
+  it("binds hostname and action and enforces the token age", async () => {
+    const v = local();
+    await expect(v.verify("fail")).resolves.toMatchObject({ ok: false, reason: expect.stringMatching(/rejected/) });
+    await expect(v.verify("pass;hostname=evil.test")).resolves.toMatchObject({ ok: false, reason: expect.stringMatching(/hostname/) });
+    await expect(v.verify("pass;action=login")).resolves.toMatchObject({ ok: false, reason: expect.stringMatching(/action/) });
+    await expect(v.verify("pass;age=900")).resolves.toMatchObject({ ok: false, reason: "captcha expired" });
+  });
+
+  it("applies reCAPTCHA v3 score thresholds", () => {
+    const base = { success: true, errors: [], hostname: "faucet.example", action: "drip" };
+    expect(checkSiteverify("recaptcha-v3", { ...base, score: 0.9 }, policy)).toEqual({ ok: true, score: 0.9 });
+    expect(checkSiteverify("recaptcha-v3", { ...base, score: 0.3 }, policy)).toMatchObject({ ok: false, score: 0.3 });
+    expect(checkSiteverify("recaptcha-v3", base, policy)).toMatchObject({ ok: false, reason: expect.stringMatching(/no score/) });
+    // v2 and hCaptcha report no action; that is not a mismatch for them.
+    expect(checkSiteverify("hcaptcha", { success: true, errors: [], hostname: "faucet.example" }, policy)).toMatchObject({ ok: true });
+    expect(checkSiteverify("turnstile", { success: true, errors: [], hostname: "faucet.example" }, policy)).toMatchObject({ ok: false });
+  });
+});
@@ -0,0 +1,213 @@
+// packages/shared/src/captcha.ts
+// Pluggable captcha verification for /drip:
+// - "turnstile":    Cloudflare Turnstile
+// - "recaptcha-v2": Google reCAPTCHA checkbox / invisible
+// - "recaptcha-v3": Google reCAPTCHA score, rejected below CAPTCHA_MIN_SCORE
+// - "hcaptcha":     hCaptcha
+// - "local":        deterministic stub for development and tests, no network
+// Every provider's answer is normalized to one shape, then the same checks run:
+// hostname allowlist, expected action, score threshold and token age. Tokens are
+// single-use: a replay guard claims each one before it is sent to the provider.
+
+import type IORedis from "ioredis";
+import { sha256Hex } from "./utils";
+import { getIntEnv, getListEnv, getNumberEnv } from "./env";
+
+export type CaptchaProvider = "turnstile" | "recaptcha-v2" | "recaptcha-v3" | "hcaptcha" | "local";
+
+export type CaptchaResult = {
+  ok: boolean;
+  reason?: string;          // why not, when ok=false
+  score?: number;           // reCAPTCHA v3 (and hCaptcha Enterprise)
+};
+
+export interface CaptchaVerifier {
+  readonly provider: CaptchaProvider | "off";
+  verify(token: string | undefined, ctx?: { ip?: string }): Promise<CaptchaResult>;
+}
+
+/** What every provider's siteverify answer is reduced to before the shared checks. */
+export type SiteverifyResult = {
+  success: boolean;
+  errors: string[];
+  hostname?: string;
+  action?: string;
+  score?: number;
+  challengeTs?: string;     // ISO, when the challenge was solved
+};
+
+export type CaptchaPolicy = {
+  hostnames: string[];      // accepted hostnames; empty = any
+  action: string | null;    // required action (Turnstile, reCAPTCHA v3); null = not checked
+  minScore: number;         // reCAPTCHA v3 / scored responses
+  maxAgeSec: number;        // reject challenges solved longer ago than this
+};
+
+/** Claims a token once; false means it was already used. */
+export interface ReplayGuard {
+  claim(key: string, ttlSec: number): Promise<boolean>;
+}
+
+/* ── Replay guards ─────────────────────────────────────────────────── */
+export function redisReplayGuard(redis: Pick<IORedis, "set">): ReplayGuard {
+  return {
+    async claim(key, ttlSec) {
+      return (await redis.set(`captcha:used:${key}`, "1", "EX", ttlSec, "NX")) === "OK";
+    },
+  };
+}
+
+/** In-process guard for single-instance dev and tests. */
+export function memoryReplayGuard(): ReplayGuard {
+  const seen = new Map<string, number>();
+  return {
+    async claim(key, ttlSec) {
+      const now = Date.now();
+      for (const [k, exp] of seen) if (exp <= now) seen.delete(k);
+      if (seen.has(key)) return false;
+      seen.set(key, now + ttlSec * 1000);
+      return true;
+    },
+  };
+}
+
+/* ── Remote providers ──────────────────────────────────────────────── */
+const SITEVERIFY_URL: Record<Exclude<CaptchaProvider, "local">, string> = {
+  "turnstile":    "https://challenges.cloudflare.com/turnstile/v0/siteverify",
+  "recaptcha-v2": "https://www.google.com/recaptcha/api/siteverify",
+  "recaptcha-v3": "https://www.google.com/recaptcha/api/siteverify",
+  "hcaptcha":     "https://api.hcaptcha.com/siteverify",
+};
+
+export type Siteverify = (token: string, ip?: string) => Promise<SiteverifyResult>;
+
+/** POST the token to the provider's siteverify endpoint (all three share the form API). */
+export function remoteSiteverify(opts: {
+  provider: Exclude<CaptchaProvider, "local">;
+  secret: string;
+  timeoutMs?: number;
+  url?: string;             // override, e.g. a proxy
+}): Siteverify {
+  const url = opts.url ?? SITEVERIFY_URL[opts.provider];
+  return async (token, ip) => {
+    const form = new URLSearchParams({ secret: opts.secret, response: token });
+    if (ip) form.set("remoteip", ip);
+    const res = await fetch(url, { method: "POST", body: form, signal: AbortSignal.timeout(opts.timeoutMs ?? 5_000) });
+    if (!res.ok) throw new Error(`${opts.provider} siteverify HTTP ${res.status}`);
+    const body = (await res.json()) as Record<string, any>;
+    return {
+      success: body.success === true,
+      errors: Array.isArray(body["error-codes"]) ? body["error-codes"].map(String) : [],
+      hostname: typeof body.hostname === "string" ? body.hostname : undefined,
+      action: typeof body.action === "string" ? body.action : undefined,
+      score: typeof body.score === "number" ? body.score : undefined,
+      challengeTs: typeof body.challenge_ts === "string" ? body.challenge_ts : undefined,
+    };
+  };
+}
+
+/* ── Local stub ────────────────────────────────────────────────────── */
+/**
+ * The token *is* the answer, as `pass` or `fail` plus optional `;key=value` fields:
+ *   "pass"                          → success on the first allowed hostname and the expected action
+ *   "fail"                          → rejected (error "invalid-input-response")
+ *   "pass;score=0.2"                → success with a low score
+ *   "pass;hostname=evil.test;action=login;age=900"
+ */
+export function localSiteverify(policy: Pick<CaptchaPolicy, "hostnames" | "action">): Siteverify {
+  return async (token) => {
+    const [verdict, ...fields] = token.split(";");
+    const f = Object.fromEntries(fields.map(kv => kv.split("=", 2) as [string, string]));
+    return {
+      success: verdict === "pass",
+      errors: verdict === "pass" ? [] : ["invalid-input-response"],
+      hostname: f.hostname ?? policy.hostnames[0],
+      action: f.action ?? policy.action ?? undefined,
+      score: f.score === undefined ? undefined : Number(f.score),
+      challengeTs: new Date(Date.now() - Number(f.age ?? 0) * 1000).toISOString(),
+    };
+  };
+}
+
+/* ── Verifier ──────────────────────────────────────────────────────── */
+// Turnstile and reCAPTCHA v3 always report the widget's action, so a missing one is a
+// mismatch; v2 and hCaptcha have no actions. Only v3 is guaranteed to carry a score.
+const BINDS_ACTION = new Set<CaptchaProvider>(["turnstile", "recaptcha-v3", "local"]);
+const SCORED = new Set<CaptchaProvider>(["recaptcha-v3"]);
+
+/** Apply the provider-independent checks to one normalized answer. */
+export function checkSiteverify(provider: CaptchaProvider, r: SiteverifyResult, policy: CaptchaPolicy): CaptchaResult {
+  if (!r.success) return { ok: false, reason: `captcha rejected${r.errors.length ? ` (${r.errors.join(", ")})` : ""}` };
+  if (policy.hostnames.length && !(r.hostname && policy.hostnames.includes(r.hostname.toLowerCase()))) {
+    return { ok: false, reason: `captcha solved on unexpected hostname ${r.hostname ?? "(none)"}` };
+  }
+  if (policy.action !== null && (r.action !== undefined || BINDS_ACTION.has(provider)) && r.action !== policy.action) {
+    return { ok: false, reason: `captcha action "${r.action ?? ""}" does not match "${policy.action}"` };
+  }
+  if (SCORED.has(provider) && r.score === undefined) return { ok: false, reason: "captcha response has no score" };
+  if (r.score !== undefined && r.score < policy.minScore) {
+    return { ok: false, reason: `captcha score ${r.score} below ${policy.minScore}`, score: r.score };
+  }
+  if (r.challengeTs && Date.now() - Date.parse(r.challengeTs) > policy.maxAgeSec * 1000) {
+    return { ok: false, reason: "captcha expired" };
+  }
+  return { ok: true, score: r.score };
+}
+
+export function captchaVerifier(opts: {
+  provider: CaptchaProvider;
+  siteverify: Siteverify;
+  policy: CaptchaPolicy;
+  replay: ReplayGuard;
+}): CaptchaVerifier {
+  return {
+    provider: opts.provider,
+    async verify(token, ctx) {
+      if (!token || typeof token !== "string") return { ok: false, reason: "captcha token required" };
+      if (token.length > 4096) return { ok: false, reason: "captcha token too long" };
+      if (!(await opts.replay.claim(sha256Hex(`${opts.provider}:${token}`), opts.policy.maxAgeSec))) {
+        return { ok: false, reason: "captcha token already used" };
+      }
+      return checkSiteverify(opts.provider, await opts.siteverify(token, ctx?.ip), opts.policy);
+    },
+  };
+}
+
+/**
+ * Build the verifier from env:
+ *   CAPTCHA_PROVIDER=off | turnstile | recaptcha-v2 | recaptcha-v3 | hcaptcha | local
+ *   CAPTCHA_SECRET           (remote providers)
+ *   CAPTCHA_HOSTNAMES        comma-separated; empty accepts any hostname
+ *   CAPTCHA_ACTION           expected action (default "drip"; "" disables the check)
+ *   CAPTCHA_MIN_SCORE        recaptcha-v3 / scored responses (default 0.5)
+ *   CAPTCHA_MAX_AGE_SEC      token lifetime, also how long a used token is remembered (default 300)
+ *   CAPTCHA_TIMEOUT_MS       siteverify timeout (default 5000)
+ */
+export function captchaFromEnv(replay: ReplayGuard): CaptchaVerifier {
+  const provider = (process.env.CAPTCHA_PROVIDER || "off") as CaptchaProvider | "off";
+  if (provider === "off") return { provider: "off", verify: async () => ({ ok: true }) };
+
+  const action = process.env.CAPTCHA_ACTION ?? "drip";
+  const policy: CaptchaPolicy = {
+    hostnames: getListEnv("CAPTCHA_HOSTNAMES").map(h => h.toLowerCase()),
+    action: action === "" ? null : action,
+    minScore: getNumberEnv("CAPTCHA_MIN_SCORE", 0.5),
+    maxAgeSec: getIntEnv("CAPTCHA_MAX_AGE_SEC", 300),
+  };
+
+  switch (provider) {
+    case "local":
+      return captchaVerifier({ provider, siteverify: localSiteverify(policy), policy, replay });
+    case "turnstile":
+    case "recaptcha-v2":
+    case "recaptcha-v3":
+    case "hcaptcha": {
+      const secret = process.env.CAPTCHA_SECRET;
+      if (!secret) throw new Error(`CAPTCHA_SECRET is required for CAPTCHA_PROVIDER=${provider}`);
+      const siteverify = remoteSiteverify({ provider, secret, timeoutMs: getIntEnv("CAPTCHA_TIMEOUT_MS", 5_000) });
+      return captchaVerifier({ provider, siteverify, policy, replay });
+    }
+    default:
+      throw new Error(`unknown CAPTCHA_PROVIDER "${provider}"`);
+  }
+}
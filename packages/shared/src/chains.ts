@@ -0,0 +1,182 @@
+// packages/shared/src/chains.ts
+// Chain registry: one deployment can drip on several testnets.
+// - CHAINS_FILE=path/to/chains.json  or  CHAINS='[{...}]' (inline JSON)
+// - Neither set → legacy single-chain env (SEPOLIA_RPC_URL, CHAIN_ID, DRIP_AMOUNT_ETH)
+// String values may reference env vars as ${NAME} so RPC keys stay out of the file.
+// Each chain drips a bundle: its native dripAmount (unless "0") plus any "tokens".
+// Optional "budget" caps and "balanceReserve" fall back to BUDGET_* / BALANCE_RESERVE env.
+// Optional "rateLimits" ({ address: "1/24h", subnet: "20/1h", ... }) fall back to RATE_LIMIT_*.
+// Optional "amountPolicy" (tiers, top-up, caps, scaling; see amountPolicy.ts) falls back to DRIP_*.
+
+import { readFileSync } from "node:fs";
+import { getIntEnv } from "./env";
+import { parseErc20Asset, type DripAsset } from "./assets";
+import { parseRatePolicy, type RatePolicy } from "./rateLimitPolicy";
+import { parseAmountPolicy, type AmountPolicy } from "./amountPolicy";
+
+export type ChainConfig = {
+  key: string;              // short slug, e.g. "sepolia"
+  chainId: number;
+  name: string;             // display name
+  rpcUrl: string;
+  nativeSymbol: string;     // e.g. "ETH"
+  dripAmount: string;       // native units, e.g. "0.02"
+  confirmations: number;    // blocks before a drip counts as delivered
+  finalityDepth: number;    // delivered drips are re-checked for reorgs until this deep
+  explorerUrl: string;      // no trailing slash, e.g. https://sepolia.etherscan.io
+  privateKeyEnv: string;    // env var holding this chain's signer key
+  faucetAddress?: string;   // public address for read-only consumers (API metrics)
+  bundle: DripAsset[];      // what one request receives on this chain
+  maxFeeCeilingGwei: string; // replace-by-fee never bids above this maxFeePerGas
+  budget: ChainBudget;      // spend caps per UTC day / hour
+  balanceReserve: string | null; // native units; below this the chain's queue pauses
+  rateLimits: RatePolicy;   // per-dimension /drip limits; a missing dimension is unlimited
+  amountPolicy: AmountPolicy; // sizes each asset of a drip from its bundle amount
+};
+
+/** null = no cap. Amounts are native units (decimal strings). */
+export type ChainBudget = {
+  dailyDrips: number | null;
+  hourlyDrips: number | null;
+  dailyAmount: string | null;
+  hourlyAmount: string | null;
+};
+
+/** Public subset safe to hand to browsers (no RPC URL, no key env). */
+export type ChainInfo = Pick<ChainConfig, "key" | "chainId" | "name" | "nativeSymbol" | "dripAmount" | "confirmations" | "explorerUrl" | "bundle">;
+
+const DECIMAL = /^\d+(\.\d+)?$/;
+
+/** Chain field, else env default, else null; "0"/"" also mean unset. */
+function optDecimal(raw: unknown, env: string, where: string): string | null {
+  const v = raw ?? process.env[env];
+  if (v === undefined || v === null || v === "" || /^0+(\.0+)?$/.test(String(v))) return null;
+  if (!DECIMAL.test(String(v))) throw new Error(`${where} must be a decimal string`);
+  return String(v);
+}
+function optCount(raw: unknown, env: string, where: string): number | null {
+  const v = raw ?? process.env[env];
+  if (v === undefined || v === null || v === "") return null;
+  const n = Number(v);
+  if (!Number.isInteger(n) || n < 0) throw new Error(`${where} must be a non-negative integer`);
+  return n === 0 ? null : n;
+}
+
+const interpolate = (v: string) =>
+  v.replace(/\$\{([A-Z0-9_]+)\}/g, (_m, name) => {
+    const val = process.env[name];
+    if (val === undefined) throw new Error(`chain config references unset env ${name}`);
+    return val;
+  });
+
+function normalize(raw: any, i: number): ChainConfig {
+  const where = `chains[${i}]`;
+  const chainId = Number(raw?.chainId);
+  if (!Number.isInteger(chainId) || chainId <= 0) throw new Error(`${where}.chainId must be a positive integer`);
+  if (typeof raw?.rpcUrl !== "string" || !raw.rpcUrl) throw new Error(`${where}.rpcUrl is required`);
+  if (typeof raw?.dripAmount !== "string" || !DECIMAL.test(raw.dripAmount)) {
+    throw new Error(`${where}.dripAmount must be a decimal string`);
+  }
+  const nativeSymbol = String(raw.nativeSymbol ?? "ETH");
+  const tokens = Array.isArray(raw.tokens) ? raw.tokens : [];
+  const bundle: DripAsset[] = [
+    ...(/^0+(\.0+)?$/.test(raw.dripAmount) ? [] : [{ kind: "native" as const, symbol: nativeSymbol, amount: raw.dripAmount }]),
+    ...tokens.map((t: unknown, j: number) => parseErc20Asset(t, `${where}.tokens[${j}]`)),
+  ];
+  if (bundle.length === 0) throw new Error(`${where} drips nothing (dripAmount is 0 and no tokens)`);
+  const confirmations = Number.isInteger(raw.confirmations) && raw.confirmations > 0 ? raw.confirmations : 1;
+  const finalityDepth = Number.isInteger(raw.finalityDepth) && raw.finalityDepth > 0
+    ? raw.finalityDepth
+    : getIntEnv("FINALITY_DEPTH", 64);
+
+  return {
+    key: String(raw.key ?? chainId),
+    chainId,
+    name: String(raw.name ?? raw.key ?? `chain ${chainId}`),
+    rpcUrl: interpolate(raw.rpcUrl),
+    nativeSymbol,
+    dripAmount: raw.dripAmount,
+    confirmations,
+    finalityDepth: Math.max(finalityDepth, confirmations),
+    explorerUrl: String(raw.explorerUrl ?? "").replace(/\/+$/, ""),
+    privateKeyEnv: String(raw.privateKeyEnv ?? "FAUCET_PRIVATE_KEY"),
+    faucetAddress: raw.faucetAddress ? interpolate(String(raw.faucetAddress)).toLowerCase() : undefined,
+    bundle,
+    maxFeeCeilingGwei: String(raw.maxFeeCeilingGwei ?? process.env.MAX_FEE_CEILING_GWEI ?? "200"),
+    budget: {
+      dailyDrips:   optCount(raw.budget?.dailyDrips, "BUDGET_DAILY_DRIPS", `${where}.budget.dailyDrips`),
+      hourlyDrips:  optCount(raw.budget?.hourlyDrips, "BUDGET_HOURLY_DRIPS", `${where}.budget.hourlyDrips`),
+      dailyAmount:  optDecimal(raw.budget?.dailyAmount, "BUDGET_DAILY_AMOUNT", `${where}.budget.dailyAmount`),
+      hourlyAmount: optDecimal(raw.budget?.hourlyAmount, "BUDGET_HOURLY_AMOUNT", `${where}.budget.hourlyAmount`),
+    },
+    balanceReserve: optDecimal(raw.balanceReserve, "BALANCE_RESERVE", `${where}.balanceReserve`),
+    rateLimits: parseRatePolicy(raw.rateLimits, `${where}.rateLimits`),
+    amountPolicy: parseAmountPolicy(raw.amountPolicy, `${where}.amountPolicy`),
+  };
+}
+
+function legacyChain(): ChainConfig {
+  const rpcUrl = process.env.SEPOLIA_RPC_URL;
+  if (!rpcUrl) throw new Error("no chains configured: set CHAINS_FILE, CHAINS or SEPOLIA_RPC_URL");
+  return normalize({
+    key: "sepolia",
+    chainId: getIntEnv("CHAIN_ID", 11155111),
+    name: "Sepolia",
+    rpcUrl,
+    nativeSymbol: "ETH",
+    dripAmount: process.env.DRIP_AMOUNT_ETH || "0.02",
+    confirmations: getIntEnv("CONFIRMATIONS", 1),
+    explorerUrl: process.env.EXPLORER_URL || "https://sepolia.etherscan.io",
+    faucetAddress: process.env.FAUCET_ADDRESS,
+  }, 0);
+}
+
+let cached: ChainConfig[] | null = null;
+
+/** Load (once) and validate the registry. First entry is the default chain. */
+export function loadChains(): ChainConfig[] {
+  if (cached) return cached;
+  const file = process.env.CHAINS_FILE;
+  const inline = process.env.CHAINS;
+  const raw = file ? JSON.parse(readFileSync(file, "utf8")) : inline ? JSON.parse(inline) : null;
+
+  const chains = raw === null ? [legacyChain()] : (Array.isArray(raw) ? raw : [raw]).map(normalize);
+  if (chains.length === 0) throw new Error("chain registry is empty");
+  const ids = new Set<number>();
+  for (const c of chains) {
+    if (ids.has(c.chainId)) throw new Error(`duplicate chainId ${c.chainId} in chain registry`);
+    ids.add(c.chainId);
+  }
+  cached = chains;
+  return chains;
+}
+
+export function defaultChain(): ChainConfig {
+  return loadChains()[0];
+}
+
+export function findChain(chainId: number): ChainConfig | undefined {
+  return loadChains().find(c => c.chainId === chainId);
+}
+
+export function chainInfo(c: ChainConfig): ChainInfo {
+  const { key, chainId, name, nativeSymbol, dripAmount, confirmations, explorerUrl, bundle } = c;
+  return { key, chainId, name, nativeSymbol, dripAmount, confirmations, explorerUrl, bundle };
+}
+
+/** BullMQ queue per chain (BullMQ forbids ':' in names). */
+export function queueNameFor(chainId: number): string {
+  return `${process.env.QUEUE_NAME || "drips"}-${chainId}`;
+}
+
+/**
+ * The single queue used before per-chain queues. Nothing enqueues to it any more, but
+ * jobs left in it by an older API are still the default chain's to send.
+ */
+export function legacyQueueName(): string {
+  return process.env.QUEUE_NAME || "drips";
+}
+
+export function txUrl(c: Pick<ChainConfig, "explorerUrl">, hash: string): string | null {
+  return c.explorerUrl ? `${c.explorerUrl}/tx/${hash}` : null;
+}
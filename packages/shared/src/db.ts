@@ -22,6 +22,9 @@ export const pool = new Pool({
   connectionTimeoutMillis: 10_000,
 });
 
+/** Pool client or transaction client — anything a repository can run SQL on. */
+export type Queryable = Pick<pg.PoolClient, "query">;
+
 /**
  * Basic typed query helper.
  * Example:
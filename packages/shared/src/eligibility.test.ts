@@ -0,0 +1,108 @@
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ethers } from "ethers";
+import { composeEligibility, fileMerkleSource, merkleGate, tableGate, tokenErc20Gate, type EligibilityGate } from "./eligibility";
+import { buildAllowlistFile } from "./merkle";
+import { addToAllowlist, revokeFromAllowlist } from "./allowlistRepo";
+import { resetTestDb } from "./testDb";
+
+jest.mock("./db", () => require("./testDb").testDbModule());
+
+const [alice, bob, carol] = Array.from({ length: 3 }, () => ethers.Wallet.createRandom().address);
+const TOKEN = ethers.Wallet.createRandom().address;
+
+/** Just enough of a provider for ethers.Contract: answers decimals() and balanceOf(). */
+function erc20Provider(balances: Record<string, bigint>, decimals = 6) {
+  const iface = new ethers.Interface([
+    "function balanceOf(address) view returns (uint256)",
+    "function decimals() view returns (uint8)",
+  ]);
+  const calls: string[] = [];
+  const provider = {
+    provider: null,
+    async call(tx: { to: string; data: string }) {
+      const fn = iface.parseTransaction({ data: tx.data })!;
+      calls.push(fn.name);
+      return fn.name === "decimals"
+        ? iface.encodeFunctionResult("decimals", [decimals])
+        : iface.encodeFunctionResult("balanceOf", [balances[String(fn.args[0]).toLowerCase()] ?? 0n]);
+    },
+  };
+  return { provider: provider as unknown as ethers.Provider, calls };
+}
+
+const fixed = (mode: EligibilityGate["mode"], eligible: boolean): EligibilityGate => ({
+  mode,
+  check: async () => (eligible ? { eligible, source: mode } : { eligible, reason: "no" }),
+});
+
+describe("eligibility gates", () => {
+  beforeEach(resetTestDb);
+
+  it("token-erc20 compares the balance in the token's decimals and reads decimals once", async () => {
+    const { provider, calls } = erc20Provider({ [alice.toLowerCase()]: 1_500_000n, [bob.toLowerCase()]: 1_499_999n });
+    const gate = tokenErc20Gate({ provider, token: TOKEN, minBalance: "1.5" });
+    expect(await gate.check(alice)).toEqual({ eligible: true, source: "token-erc20" });
+    expect(await gate.check(bob)).toEqual({ eligible: false, reason: "token balance below 1.5" });
+    expect(calls).toEqual(["decimals", "balanceOf", "balanceOf"]);
+  });
+
+  it("table admits live allowlist entries only", async () => {
+    const gate = tableGate();
+    await addToAllowlist({ address: alice.toLowerCase(), note: null, expiresAt: null });
+    await addToAllowlist({ address: bob.toLowerCase(), note: null, expiresAt: "2000-01-01T00:00:00Z" });
+    await addToAllowlist({ address: carol.toLowerCase(), note: null, expiresAt: null });
+    await revokeFromAllowlist(carol.toLowerCase());
+
+    expect(await gate.check(alice)).toEqual({ eligible: true, source: "table" });
+    expect(await gate.check(bob)).toEqual({ eligible: false, reason: "address not on allowlist" });
+    expect(await gate.check(carol)).toEqual({ eligible: false, reason: "address not on allowlist" });
+  });
+
+  it("table honours the offset in an entry's expiry", async () => {
+    // Expires in an hour, written at -03:00; read without its offset it would look 2h past.
+    const inAnHour = new Date(Date.now() + 3_600_000 - 3 * 3_600_000).toISOString().replace("Z", "-03:00");
+    await addToAllowlist({ address: alice.toLowerCase(), note: null, expiresAt: inAnHour });
+    expect(await tableGate().check(alice)).toEqual({ eligible: true, source: "table" });
+  });
+
+  it("merkle verifies the proof and honours the file's activation window", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "eligibility-"));
+    const write = (name: string, meta: { activatesAt?: string | null; expiresAt?: string | null }) => {
+      const path = join(dir, `${name}.json`);
+      const file = buildAllowlistFile([{ address: alice, amount: 2n }, { address: bob, amount: 0n }], { name, ...meta });
+      writeFileSync(path, JSON.stringify(file));
+      return path;
+    };
+
+    const live = merkleGate(fileMerkleSource(write("live", {})));
+    expect(await live.check(alice)).toEqual({ eligible: true, source: "merkle" });
+    expect(await live.check(carol)).toEqual({ eligible: false, reason: "no merkle proof for address" });
+
+    const future = merkleGate(fileMerkleSource(write("future", { activatesAt: "2999-01-01T00:00:00Z" })));
+    expect((await future.check(alice)).eligible).toBe(false);
+
+    const tampered = merkleGate({
+      lookup: async () => ({ root: ethers.ZeroHash, amount: 2n, proof: [] }),
+    });
+    expect(await tampered.check(alice)).toEqual({ eligible: false, reason: "merkle proof invalid" });
+  });
+
+  it('"any" admits through the first passing gate and otherwise joins every reason', async () => {
+    const any = composeEligibility([fixed("table", false), fixed("merkle", true), fixed("token-erc20", true)], "any");
+    expect(any.modes).toEqual(["table", "merkle", "token-erc20"]);
+    expect(await any.check(alice)).toEqual({ eligible: true, source: "merkle" });
+
+    const none = composeEligibility([fixed("table", false), fixed("merkle", false)], "any");
+    expect(await none.check(alice)).toEqual({ eligible: false, reason: "table: no; merkle: no" });
+  });
+
+  it('"all" needs every gate and reports the first that refused', async () => {
+    const all = composeEligibility([fixed("merkle", true), fixed("table", true)], "all");
+    expect(await all.check(alice)).toEqual({ eligible: true, source: "merkle" });
+    expect(await composeEligibility([fixed("merkle", true), fixed("table", false)], "all").check(alice))
+      .toEqual({ eligible: false, reason: "no" });
+    expect(await composeEligibility([]).check(alice)).toEqual({ eligible: true });
+  });
+});
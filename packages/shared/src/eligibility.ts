@@ -0,0 +1,198 @@
+// packages/shared/src/eligibility.ts
+// Pluggable eligibility gates for drips:
+// - "token-erc20": recipient holds >= a threshold of some ERC-20
+// - "table":       recipient is on the Postgres allowlist
+// - "merkle":      recipient has a valid proof against a published root
+// Gates compose with "any" (OR) or "all" (AND). Used by the API before
+// enqueueing and re-checked by the worker right before sending.
+
+import { readFileSync } from "node:fs";
+import { ethers } from "ethers";
+import { query } from "./db";
+import { retryRpc } from "./retry";
+import { getListEnv } from "./env";
+import { ALLOWLIST_FILE_VERSION, merkleLeaf, verifyMerkleProof, type AllowlistFile } from "./merkle";
+import { dbMerkleSource } from "./merkleStore";
+import type { EligibilityResponse } from "./types";
+
+export type EligibilityMode = EligibilityResponse["mode"];
+export type GateMode = Exclude<EligibilityMode, "off">;
+
+export type EligibilityResult = {
+  eligible: boolean;
+  source?: GateMode;   // gate that admitted the address
+  reason?: string;     // why not, when eligible=false
+};
+
+export interface EligibilityGate {
+  readonly mode: GateMode;
+  check(address: string): Promise<EligibilityResult>;
+}
+
+export interface EligibilityEngine {
+  readonly modes: EligibilityMode[];
+  check(address: string): Promise<EligibilityResult>;
+}
+
+/* ── token-erc20 ───────────────────────────────────────────────────── */
+const ERC20_BALANCE_ABI = [
+  "function balanceOf(address) view returns (uint256)",
+  "function decimals() view returns (uint8)",
+];
+
+export function tokenErc20Gate(opts: {
+  provider: ethers.Provider;
+  token: string;       // ERC-20 contract address
+  minBalance: string;  // human units, e.g. "1.5"
+}): EligibilityGate {
+  const contract = new ethers.Contract(opts.token, ERC20_BALANCE_ABI, opts.provider);
+  let minWei: bigint | null = null;
+
+  return {
+    mode: "token-erc20",
+    async check(address) {
+      if (minWei === null) {
+        const decimals = await retryRpc(() => contract.decimals() as Promise<bigint>);
+        minWei = ethers.parseUnits(opts.minBalance, Number(decimals));
+      }
+      const bal = await retryRpc(() => contract.balanceOf(address) as Promise<bigint>);
+      return bal >= minWei
+        ? { eligible: true, source: "token-erc20" }
+        : { eligible: false, reason: `token balance below ${opts.minBalance}` };
+    },
+  };
+}
+
+/* ── table ─────────────────────────────────────────────────────────── */
+export function tableGate(): EligibilityGate {
+  return {
+    mode: "table",
+    async check(address) {
+      const { rows } = await query(
+        `SELECT 1 FROM allowlist
+          WHERE address=$1 AND revoked_at IS NULL
+            AND (expires_at IS NULL OR expires_at > NOW())`,
+        [address.toLowerCase()]
+      );
+      return rows.length > 0
+        ? { eligible: true, source: "table" }
+        : { eligible: false, reason: "address not on allowlist" };
+    },
+  };
+}
+
+/* ── merkle ────────────────────────────────────────────────────────── */
+export type MerkleProofEntry = {
+  root: string;
+  name?: string;
+  amount: bigint;
+  proof: string[];
+  expiresAt?: string | null; // ISO
+};
+
+export interface MerkleProofSource {
+  lookup(address: string): Promise<MerkleProofEntry | null>;
+}
+
+/** Single allowlist file written by scripts/merkle-build.ts; honours its activation window. */
+export function fileMerkleSource(path: string): MerkleProofSource {
+  const file = JSON.parse(readFileSync(path, "utf8")) as AllowlistFile;
+  if (file.version !== ALLOWLIST_FILE_VERSION) {
+    throw new Error(`${path}: unsupported allowlist file version ${file.version}`);
+  }
+  const entries = new Map(Object.entries(file.entries).map(([a, e]) => [a.toLowerCase(), e]));
+  const activatesAt = file.activatesAt ? Date.parse(file.activatesAt) : -Infinity;
+  const expiresAt = file.expiresAt ? Date.parse(file.expiresAt) : Infinity;
+
+  return {
+    async lookup(address) {
+      const now = Date.now();
+      if (now < activatesAt || now >= expiresAt) return null;
+      const e = entries.get(address.toLowerCase());
+      if (!e) return null;
+      return { root: file.root, name: file.name, amount: BigInt(e.amount), proof: e.proof, expiresAt: file.expiresAt };
+    },
+  };
+}
+
+export function merkleGate(source: MerkleProofSource): EligibilityGate {
+  return {
+    mode: "merkle",
+    async check(address) {
+      const entry = await source.lookup(address);
+      if (!entry) return { eligible: false, reason: "no merkle proof for address" };
+      const ok = verifyMerkleProof(entry.root, merkleLeaf(address, entry.amount), entry.proof);
+      return ok
+        ? { eligible: true, source: "merkle" }
+        : { eligible: false, reason: "merkle proof invalid" };
+    },
+  };
+}
+
+/** ELIGIBILITY_MERKLE_FILE pins a single file; otherwise use the roots published to Postgres. */
+export function merkleSourceFromEnv(): MerkleProofSource {
+  const file = process.env.ELIGIBILITY_MERKLE_FILE;
+  return file ? fileMerkleSource(file) : dbMerkleSource();
+}
+
+/* ── Composition ───────────────────────────────────────────────────── */
+export type Combine = "any" | "all";
+
+export function composeEligibility(gates: EligibilityGate[], combine: Combine = "any"): EligibilityEngine {
+  if (gates.length === 0) {
+    return { modes: ["off"], check: async () => ({ eligible: true }) };
+  }
+
+  return {
+    modes: gates.map(g => g.mode),
+    async check(address) {
+      const reasons: string[] = [];
+      let first: GateMode | undefined;
+      for (const gate of gates) {
+        const r = await gate.check(address);
+        if (r.eligible) {
+          if (combine === "any") return r;
+          first ??= r.source;
+        } else {
+          if (combine === "all") return r;
+          if (r.reason) reasons.push(`${gate.mode}: ${r.reason}`);
+        }
+      }
+      return combine === "all"
+        ? { eligible: true, source: first }
+        : { eligible: false, reason: reasons.join("; ") || "not eligible" };
+    },
+  };
+}
+
+/**
+ * Build the engine from env:
+ *   ELIGIBILITY_MODE=off | table | token-erc20 | merkle | comma-separated list
+ *   ELIGIBILITY_COMBINE=any | all
+ *   ELIGIBILITY_TOKEN_ADDRESS, ELIGIBILITY_TOKEN_MIN_BALANCE (token-erc20)
+ *   ELIGIBILITY_MERKLE_FILE (merkle; unset = active roots published to Postgres)
+ * A token-erc20 gate reads through `provider`, so callers build one engine per chain.
+ */
+export function eligibilityFromEnv(provider: ethers.Provider): EligibilityEngine {
+  const modes = getListEnv("ELIGIBILITY_MODE", ["off"]).filter(m => m !== "off");
+  const combine = (process.env.ELIGIBILITY_COMBINE || "any") as Combine;
+  if (combine !== "any" && combine !== "all") throw new Error(`ELIGIBILITY_COMBINE must be any|all (got "${combine}")`);
+
+  const gates = modes.map((mode): EligibilityGate => {
+    switch (mode) {
+      case "table":
+        return tableGate();
+      case "token-erc20": {
+        const token = process.env.ELIGIBILITY_TOKEN_ADDRESS;
+        if (!token || !ethers.isAddress(token)) throw new Error("ELIGIBILITY_TOKEN_ADDRESS is not a valid address");
+        return tokenErc20Gate({ provider, token, minBalance: process.env.ELIGIBILITY_TOKEN_MIN_BALANCE || "1" });
+      }
+      case "merkle":
+        return merkleGate(merkleSourceFromEnv());
+      default:
+        throw new Error(`unknown eligibility mode "${mode}"`);
+    }
+  });
+
+  return composeEligibility(gates, combine);
+}
@@ -0,0 +1,46 @@
+// packages/shared/src/env.ts
+// Small env readers shared by API, Worker and scripts.
+// Fail loudly at boot instead of deep inside a job.
+
+/** Returns the value or throws if the variable is missing/empty. */
+export function requireEnv(name: string): string {
+  const v = process.env[name];
+  if (v === undefined || v.trim() === "") {
+    throw new Error(`${name} is not set`);
+  }
+  return v;
+}
+
+/** Integer env with default; throws on garbage so typos don't silently become NaN. */
+export function getIntEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") return fallback;
+  const n = Number(raw);
+  if (!Number.isInteger(n)) throw new Error(`${name} must be an integer (got "${raw}")`);
+  return n;
+}
+
+/** Float env with default. */
+export function getNumberEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") return fallback;
+  const n = Number(raw);
+  if (!Number.isFinite(n)) throw new Error(`${name} must be a number (got "${raw}")`);
+  return n;
+}
+
+/** Boolean env: accepts true/false/1/0/yes/no. */
+export function getBoolEnv(name: string, fallback: boolean): boolean {
+  const raw = (process.env[name] ?? "").trim().toLowerCase();
+  if (raw === "") return fallback;
+  if (["true", "1", "yes"].includes(raw)) return true;
+  if (["false", "0", "no"].includes(raw)) return false;
+  throw new Error(`${name} must be a boolean (got "${raw}")`);
+}
+
+/** Comma-separated list env; trims and drops empties. */
+export function getListEnv(name: string, fallback: string[] = []): string[] {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") return fallback;
+  return raw.split(",").map(s => s.trim()).filter(Boolean);
+}
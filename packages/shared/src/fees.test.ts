@@ -0,0 +1,22 @@
+import type { ethers } from "ethers";
+import { bumpBig, getFeeSuggestion } from "./fees";
+
+const feeData = (fee: Partial<Record<"gasPrice" | "maxFeePerGas" | "maxPriorityFeePerGas", bigint>>) =>
+  ({ getFeeData: async () => ({ gasPrice: null, maxFeePerGas: null, maxPriorityFeePerGas: null, ...fee }) }) as unknown as ethers.Provider;
+
+describe("fee suggestion", () => {
+  it("pads the node's EIP-1559 fees by MAX_FEE_BUMP_MULT (default 1.25)", async () => {
+    expect(await getFeeSuggestion(feeData({ gasPrice: 40n, maxFeePerGas: 100n, maxPriorityFeePerGas: 8n })))
+      .toEqual({ maxFeePerGas: 125n, maxPriorityFeePerGas: 10n, gasPrice: 50n });
+  });
+
+  it("derives EIP-1559 fees from gasPrice on a node that only reports that", async () => {
+    expect(await getFeeSuggestion(feeData({ gasPrice: 40n })))
+      .toEqual({ maxFeePerGas: 75n, maxPriorityFeePerGas: 25n, gasPrice: 50n });
+  });
+
+  it("bumps by the nearest whole percent and rounds the result down", () => {
+    expect(bumpBig(1_000n, 1.125)).toBe(1_130n);
+    expect(bumpBig(7n, 1.5)).toBe(10n);
+  });
+});
@@ -0,0 +1,24 @@
+// packages/shared/src/fees.ts
+import { ethers } from "ethers";
+import { retryRpc } from "./retry";
+import { getNumberEnv } from "./env";
+
+const MAX_FEE_BUMP_MULT = getNumberEnv("MAX_FEE_BUMP_MULT", 1.25);
+
+export function bumpBig(x: bigint, mult: number): bigint {
+  const m = Math.round(mult * 100);
+  return (x * BigInt(m)) / 100n;
+}
+
+/** EIP-1559 fees from the node, padded by MAX_FEE_BUMP_MULT so we land next block. */
+export async function getFeeSuggestion(provider: ethers.Provider) {
+  const fee = await retryRpc(() => provider.getFeeData());
+  const gasPrice = fee.gasPrice ?? 1n * 10n ** 9n; // 1 gwei floor
+  const maxPrio  = fee.maxPriorityFeePerGas ?? gasPrice / 2n;
+  const maxFee   = fee.maxFeePerGas ?? (gasPrice + maxPrio);
+  return {
+    maxPriorityFeePerGas: bumpBig(maxPrio, MAX_FEE_BUMP_MULT),
+    maxFeePerGas:         bumpBig(maxFee,  MAX_FEE_BUMP_MULT),
+    gasPrice:             bumpBig(gasPrice, MAX_FEE_BUMP_MULT),
+  };
+}
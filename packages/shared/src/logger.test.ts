@@ -0,0 +1,83 @@
+import { correlationIdFrom, createLogger, secretsFromEnv, type LogLevel } from "./logger";
+
+function capture(level: LogLevel = "debug", secrets: string[] = []) {
+  const lines: any[] = [];
+  const log = createLogger({
+    level,
+    secrets,
+    ipSalt: "salt",
+    now: () => new Date("2024-01-01T00:00:00Z"),
+    write: (line) => lines.push(JSON.parse(line)),
+  });
+  return { log, lines };
+}
+
+describe("logger", () => {
+  it("writes one JSON object per line with child bindings", () => {
+    const { log, lines } = capture();
+    log.child({ service: "worker", correlationId: "abc" }).child({ requestId: 7 }).info("dripped", { txHash: "0x01" });
+    expect(lines).toEqual([{
+      time: "2024-01-01T00:00:00.000Z",
+      level: "info",
+      msg: "dripped",
+      service: "worker",
+      correlationId: "abc",
+      requestId: 7,
+      txHash: "0x01",
+    }]);
+  });
+
+  it("drops lines below the threshold", () => {
+    const { log, lines } = capture("warn");
+    log.debug("a");
+    log.info("b");
+    log.warn("c");
+    log.error("d");
+    expect(lines.map(l => l.msg)).toEqual(["c", "d"]);
+  });
+
+  it("redacts credential keys, hashes IPs and scrubs secret values", () => {
+    const key = "0x" + "ab".repeat(32);
+    const { log, lines } = capture("debug", [key]);
+    log.info(`signer ${key}`, {
+      privateKey: key,
+      captchaToken: "tok",
+      headers: { authorization: "Bearer x" },
+      ip: "203.0.113.7",
+      db: "postgres://faucet:hunter22@db:5432/faucet",
+      err: new Error(`bad key ${key}`),
+      amount: 10n,
+    });
+    const [l] = lines;
+    expect(l.msg).toBe("signer [redacted]");
+    expect(l.privateKey).toBe("[redacted]");
+    expect(l.captchaToken).toBe("[redacted]");
+    expect(l.headers.authorization).toBe("[redacted]");
+    expect(l.ip).toMatch(/^sha256:[0-9a-f]{16}$/);
+    expect(l.ip).not.toContain("203.0.113.7");
+    expect(l.db).toBe("postgres://***@db:5432/faucet");
+    expect(l.err.message).toBe("bad key [redacted]");
+    expect(l.err.stack).not.toContain(key);
+    expect(l.amount).toBe("10");
+  });
+
+  it("hashes the same IP the same way within one salt", () => {
+    const { log, lines } = capture();
+    log.info("a", { ip: "198.51.100.1" });
+    log.info("b", { ip: "198.51.100.1" });
+    log.info("c", { ip: "198.51.100.2" });
+    expect(lines[0].ip).toBe(lines[1].ip);
+    expect(lines[0].ip).not.toBe(lines[2].ip);
+  });
+
+  it("collects secret env values", () => {
+    expect(secretsFromEnv({ FAUCET_PRIVATE_KEY: "0x" + "1".repeat(64), CAPTCHA_SECRET: "s3cr3t-value", PORT: "8080", X_PASSWORD: "short" }))
+      .toEqual(["0x" + "1".repeat(64), "s3cr3t-value"]);
+  });
+
+  it("accepts safe caller correlation ids only", () => {
+    expect(correlationIdFrom("req-123_abc")).toBe("req-123_abc");
+    expect(correlationIdFrom("bad id\n")).toMatch(/^[0-9a-f]{16}$/);
+    expect(correlationIdFrom(undefined)).toMatch(/^[0-9a-f]{16}$/);
+  });
+});
@@ -0,0 +1,127 @@
+// packages/shared/src/logger.ts
+// Structured JSON logs, one object per line:
+//   {"time":"…","level":"info","msg":"dripped","service":"worker","correlationId":"…","requestId":42,…}
+// - levels debug < info < warn < error, threshold LOG_LEVEL (default info)
+// - child() binds fields (service, correlationId, requestId, chain, address, txHash)
+//   so every line of a drip carries them
+// - redaction before anything is written:
+//     keys naming credentials (private keys, secrets, passwords, *token, authorization,
+//     cookies) → "[redacted]"
+//     ip fields → salted sha256 (LOG_IP_SALT; random per process when unset), so one
+//     client's lines still correlate without storing the address
+//     values of secret env vars (…PRIVATE_KEY, …SECRET, …PASSWORD) and URL credentials
+//     are scrubbed from every string, including error messages and stacks
+
+import { randHex, sha256Hex } from "./utils";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  /** Logger whose lines all carry `fields`. */
+  child(fields: LogFields): Logger;
+}
+
+export type LoggerOptions = {
+  level?: LogLevel;
+  bindings?: LogFields;
+  secrets?: string[];       // literal values to scrub from strings
+  ipSalt?: string;
+  write?: (line: string, level: LogLevel) => void;
+  now?: () => Date;
+};
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+const REDACTED = "[redacted]";
+const MAX_DEPTH = 6;
+
+const SECRET_KEY_RE = /private.?key|secret|passw(or)?d|authorization|cookie|bearer|token$/i;
+const IP_KEY_RE = /^(ip|ips|clientIp|remoteAddress|x-forwarded-for)$/i;
+const SECRET_ENV_RE = /PRIVATE_KEY|SECRET|PASSWORD/;
+const URL_CREDENTIALS_RE = /(\/\/)[^/\s:@]+:[^/\s@]+@/g;
+
+/** Values of env vars that hold secrets, longest first so overlaps scrub fully. */
+export function secretsFromEnv(env: NodeJS.ProcessEnv = process.env): string[] {
+  return Object.entries(env)
+    .filter(([k, v]) => SECRET_ENV_RE.test(k) && typeof v === "string" && v.length >= 8)
+    .map(([, v]) => v as string)
+    .sort((a, b) => b.length - a.length);
+}
+
+function parseLevel(v: string | undefined): LogLevel {
+  const l = (v ?? "info").toLowerCase();
+  if (!(l in LEVELS)) throw new Error(`LOG_LEVEL must be one of ${Object.keys(LEVELS).join(", ")}`);
+  return l as LogLevel;
+}
+
+/** Redacted, JSON-safe copy of `value`. Exported for tests. */
+export function redact(value: unknown, opts: { secrets: string[]; ipSalt: string }, key = "", depth = 0): unknown {
+  if (key && SECRET_KEY_RE.test(key) && value !== null && value !== undefined) return REDACTED;
+  if (key && IP_KEY_RE.test(key) && typeof value === "string" && value) {
+    return `sha256:${sha256Hex(opts.ipSalt + value).slice(0, 16)}`;
+  }
+  if (typeof value === "string") {
+    let s = value.replace(URL_CREDENTIALS_RE, "$1***@");
+    for (const secret of opts.secrets) if (s.includes(secret)) s = s.split(secret).join(REDACTED);
+    return s;
+  }
+  if (typeof value === "bigint") return value.toString();
+  if (value === null || typeof value !== "object") return value;
+  if (depth >= MAX_DEPTH) return "[…]";
+
+  if (value instanceof Error) {
+    const e = value as Error & { code?: unknown; shortMessage?: unknown };
+    return redact(
+      { name: e.name, message: e.shortMessage ?? e.message, ...(e.code !== undefined && { code: e.code }), stack: e.stack },
+      opts, "", depth + 1,
+    );
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(v => redact(v, opts, key, depth + 1));
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(value)) {
+    if (v !== undefined) out[k] = redact(v, opts, k, depth + 1);
+  }
+  return out;
+}
+
+function defaultWrite(line: string, level: LogLevel) {
+  (level === "warn" || level === "error" ? process.stderr : process.stdout).write(line + "\n");
+}
+
+export function createLogger(opts: LoggerOptions = {}): Logger {
+  const threshold = LEVELS[opts.level ?? parseLevel(process.env.LOG_LEVEL)];
+  const scrub = { secrets: opts.secrets ?? secretsFromEnv(), ipSalt: opts.ipSalt ?? process.env.LOG_IP_SALT ?? randHex(16) };
+  const write = opts.write ?? defaultWrite;
+  const now = opts.now ?? (() => new Date());
+
+  const make = (bindings: LogFields): Logger => {
+    const emit = (level: LogLevel) => (msg: string, fields: LogFields = {}) => {
+      if (LEVELS[level] < threshold) return;
+      const body = redact({ ...bindings, ...fields }, scrub) as LogFields;
+      write(JSON.stringify({ time: now().toISOString(), level, msg: redact(msg, scrub), ...body }), level);
+    };
+    return {
+      debug: emit("debug"),
+      info: emit("info"),
+      warn: emit("warn"),
+      error: emit("error"),
+      child: (fields) => make({ ...bindings, ...fields }),
+    };
+  };
+  return make(opts.bindings ?? {});
+}
+
+/** Process-wide root logger; apps take a child with their `service`. */
+export const logger = createLogger();
+
+const CORRELATION_ID_RE = /^[\w.:-]{1,64}$/;
+
+/** A caller-supplied id (e.g. X-Request-Id) if it is safe to log, else a fresh one. */
+export function correlationIdFrom(header: unknown): string {
+  return typeof header === "string" && CORRELATION_ID_RE.test(header) ? header : randHex(8);
+}
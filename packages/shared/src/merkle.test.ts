@@ -0,0 +1,51 @@
+import { ethers } from "ethers";
+import {
+  buildAllowlistFile,
+  buildMerkleTree,
+  merkleLeaf,
+  parseAllowlistCsv,
+  parseAllowlistJson,
+  verifyMerkleProof,
+} from "./merkle";
+
+const addrs = Array.from({ length: 7 }, () => ethers.Wallet.createRandom().address.toLowerCase());
+
+describe("Merkle allowlist", () => {
+  it("every proof verifies against the root (odd-sized tree)", () => {
+    const entries = addrs.map((address, i) => ({ address, amount: BigInt(i) }));
+    const { root, proofs } = buildMerkleTree(entries);
+    for (const e of entries) {
+      expect(verifyMerkleProof(root, merkleLeaf(e.address, e.amount), proofs.get(e.address)!)).toBe(true);
+    }
+  });
+
+  it("rejects a proof with the wrong amount", () => {
+    const entries = addrs.map(address => ({ address, amount: 5n }));
+    const { root, proofs } = buildMerkleTree(entries);
+    expect(verifyMerkleProof(root, merkleLeaf(addrs[0], 6n), proofs.get(addrs[0])!)).toBe(false);
+  });
+
+  it("single-entry tree has root == leaf and an empty proof", () => {
+    const file = buildAllowlistFile([{ address: addrs[0], amount: 0n }], { name: "solo" });
+    expect(file.root).toBe(merkleLeaf(addrs[0]));
+    expect(file.entries[addrs[0]].proof).toEqual([]);
+  });
+
+  it("parses CSV with header, comments and duplicates", () => {
+    const csv = `address,amount\n# comment\n${addrs[0]},10\n\n${addrs[1]}\n${addrs[0].toUpperCase().replace("0X", "0x")},10\n`;
+    const entries = parseAllowlistCsv(csv);
+    expect(entries).toEqual([
+      { address: addrs[0], amount: 10n },
+      { address: addrs[1], amount: 0n },
+    ]);
+  });
+
+  it("rejects conflicting duplicate amounts and bad addresses", () => {
+    expect(() => parseAllowlistCsv(`${addrs[0]},1\n${addrs[0]},2`)).toThrow(/conflicting/);
+    expect(() => parseAllowlistJson(`["0x1234"]`)).toThrow(/invalid address/);
+  });
+
+  it("parses JSON map form", () => {
+    expect(parseAllowlistJson(JSON.stringify({ [addrs[2]]: "3" }))).toEqual([{ address: addrs[2], amount: 3n }]);
+  });
+});
@@ -0,0 +1,153 @@
+// packages/shared/src/merkle.ts
+// Merkle allowlist primitives (OpenZeppelin-compatible):
+// - leaf = keccak256(keccak256(abi.encode(address, uint256 amount)))
+// - internal nodes hash the sorted pair, so proofs carry no left/right flags
+
+import { ethers } from "ethers";
+
+const coder = ethers.AbiCoder.defaultAbiCoder();
+
+/** Double-hashed leaf; amount defaults to 0 for plain allowlists. */
+export function merkleLeaf(address: string, amount: bigint = 0n): string {
+  const inner = ethers.keccak256(coder.encode(["address", "uint256"], [ethers.getAddress(address), amount]));
+  return ethers.keccak256(inner);
+}
+
+/** Hash two nodes in sorted order (commutative). */
+export function hashPair(a: string, b: string): string {
+  const [x, y] = BigInt(a) < BigInt(b) ? [a, b] : [b, a];
+  return ethers.keccak256(ethers.concat([x, y]));
+}
+
+/** Fold a proof over a leaf and compare with the expected root. */
+export function verifyMerkleProof(root: string, leaf: string, proof: string[]): boolean {
+  let node = leaf;
+  for (const sibling of proof) node = hashPair(node, sibling);
+  return node.toLowerCase() === root.toLowerCase();
+}
+
+/* ── Builder ───────────────────────────────────────────────────────── */
+
+export type AllowlistEntry = { address: string; amount: bigint };
+
+export const ALLOWLIST_FILE_VERSION = 1;
+
+/** Versioned on-disk format consumed by fileMerkleSource and the publish step. */
+export type AllowlistFile = {
+  version: typeof ALLOWLIST_FILE_VERSION;
+  name: string;
+  root: string;
+  createdAt: string;          // ISO
+  activatesAt: string | null; // ISO; null = immediately
+  expiresAt: string | null;   // ISO; null = never
+  entries: Record<string, { amount: string; proof: string[] }>;
+};
+
+/**
+ * Build the tree bottom-up over sorted leaves. An odd node at the end of a
+ * layer is carried up unchanged, so its proof simply skips that level.
+ */
+export function buildMerkleTree(entries: AllowlistEntry[]): { root: string; proofs: Map<string, string[]> } {
+  if (entries.length === 0) throw new Error("allowlist is empty");
+
+  const leaves = entries
+    .map(e => ({ address: e.address.toLowerCase(), leaf: merkleLeaf(e.address, e.amount) }))
+    .sort((a, b) => (BigInt(a.leaf) < BigInt(b.leaf) ? -1 : 1));
+
+  const layers: string[][] = [leaves.map(l => l.leaf)];
+  while (layers[layers.length - 1].length > 1) {
+    const prev = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < prev.length; i += 2) {
+      next.push(i + 1 < prev.length ? hashPair(prev[i], prev[i + 1]) : prev[i]);
+    }
+    layers.push(next);
+  }
+
+  const proofs = new Map<string, string[]>();
+  leaves.forEach((l, index) => {
+    const proof: string[] = [];
+    let i = index;
+    for (let level = 0; level < layers.length - 1; level++) {
+      const sibling = i ^ 1;
+      if (sibling < layers[level].length) proof.push(layers[level][sibling]);
+      i >>= 1;
+    }
+    proofs.set(l.address, proof);
+  });
+
+  return { root: layers[layers.length - 1][0], proofs };
+}
+
+/** Build the versioned allowlist file for a set of entries. */
+export function buildAllowlistFile(
+  entries: AllowlistEntry[],
+  meta: { name: string; activatesAt?: string | null; expiresAt?: string | null }
+): AllowlistFile {
+  const { root, proofs } = buildMerkleTree(entries);
+  const out: AllowlistFile["entries"] = {};
+  for (const e of entries) {
+    const address = e.address.toLowerCase();
+    out[address] = { amount: e.amount.toString(), proof: proofs.get(address)! };
+  }
+  return {
+    version: ALLOWLIST_FILE_VERSION,
+    name: meta.name,
+    root,
+    createdAt: new Date().toISOString(),
+    activatesAt: meta.activatesAt ?? null,
+    expiresAt: meta.expiresAt ?? null,
+    entries: out,
+  };
+}
+
+/* ── Input parsing ─────────────────────────────────────────────────── */
+
+function toEntry(address: unknown, amount: unknown, where: string): AllowlistEntry {
+  if (typeof address !== "string" || !ethers.isAddress(address.trim())) {
+    throw new Error(`${where}: invalid address "${String(address)}"`);
+  }
+  const raw = amount === undefined || amount === null || amount === "" ? "0" : String(amount).trim();
+  if (!/^\d+$/.test(raw)) throw new Error(`${where}: amount must be an integer in base units (got "${raw}")`);
+  return { address: address.trim().toLowerCase(), amount: BigInt(raw) };
+}
+
+function dedupe(entries: AllowlistEntry[]): AllowlistEntry[] {
+  const seen = new Map<string, AllowlistEntry>();
+  for (const e of entries) {
+    const prev = seen.get(e.address);
+    if (prev && prev.amount !== e.amount) {
+      throw new Error(`duplicate address ${e.address} with conflicting amounts (${prev.amount} vs ${e.amount})`);
+    }
+    seen.set(e.address, e);
+  }
+  return [...seen.values()];
+}
+
+/**
+ * CSV: `address[,amount]` per line. A header row, blank lines and `#` comments
+ * are skipped. Exact duplicates collapse; conflicting amounts are an error.
+ */
+export function parseAllowlistCsv(text: string): AllowlistEntry[] {
+  const entries: AllowlistEntry[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) return;
+    const [address, amount] = trimmed.split(",").map(c => c.trim());
+    if (i === 0 && !address.startsWith("0x")) return; // header
+    entries.push(toEntry(address, amount, `line ${i + 1}`));
+  });
+  return dedupe(entries);
+}
+
+/** JSON: `["0x.."]`, `[{ "address": "0x..", "amount": "1" }]` or `{ "0x..": "1" }`. */
+export function parseAllowlistJson(text: string): AllowlistEntry[] {
+  const parsed = JSON.parse(text);
+  const entries: AllowlistEntry[] = Array.isArray(parsed)
+    ? parsed.map((item, i) =>
+        typeof item === "string"
+          ? toEntry(item, undefined, `item ${i}`)
+          : toEntry(item?.address, item?.amount, `item ${i}`))
+    : Object.entries(parsed ?? {}).map(([address, amount]) => toEntry(address, amount, address));
+  return dedupe(entries);
+}
@@ -0,0 +1,36 @@
+import { ethers } from "ethers";
+import { buildAllowlistFile } from "./merkle";
+import { dbMerkleSource, publishAllowlist, revokeAllowlist } from "./merkleStore";
+import { resetTestDb } from "./testDb";
+
+jest.mock("./db", () => require("./testDb").testDbModule());
+
+const address = ethers.Wallet.createRandom().address.toLowerCase();
+const HOUR = 3_600_000;
+
+/** `t` written in a -03:00 offset, as an organiser's local clock might. */
+function isoAtMinus3(t: number): string {
+  return new Date(t - 3 * HOUR).toISOString().replace("Z", "-03:00");
+}
+
+describe("Merkle root windows", () => {
+  beforeEach(resetTestDb);
+
+  it("honours the offset in activation and expiry times", async () => {
+    const source = dbMerkleSource();
+    // Activates in an hour; read without its offset it would look 2h past.
+    await publishAllowlist(buildAllowlistFile([{ address, amount: 1n }], {
+      name: "later", activatesAt: isoAtMinus3(Date.now() + HOUR),
+    }));
+    expect(await source.lookup(address)).toBeNull();
+
+    const expiresAt = isoAtMinus3(Date.now() + 2 * HOUR);
+    const file = buildAllowlistFile([{ address, amount: 2n }], { name: "now", expiresAt });
+    await publishAllowlist(file);
+    const entry = await source.lookup(address);
+    expect(entry).toMatchObject({ root: file.root, amount: 2n, expiresAt: new Date(expiresAt).toISOString() });
+
+    await revokeAllowlist(file.root);
+    expect(await source.lookup(address)).toBeNull();
+  });
+});
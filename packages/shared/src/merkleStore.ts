@@ -0,0 +1,79 @@
+// packages/shared/src/merkleStore.ts
+// Postgres-backed Merkle allowlists. Roots carry activation/expiry windows so
+// a new hackathon list can be published ahead of time and old ones lapse on
+// their own, without redeploying API or worker.
+
+import { getClient, query } from "./db";
+import { ALLOWLIST_FILE_VERSION, type AllowlistFile } from "./merkle";
+import type { MerkleProofEntry, MerkleProofSource } from "./eligibility";
+
+/** Insert a built allowlist file (root + every proof) in one transaction. */
+export async function publishAllowlist(file: AllowlistFile): Promise<number> {
+  if (file.version !== ALLOWLIST_FILE_VERSION) {
+    throw new Error(`unsupported allowlist file version ${file.version}`);
+  }
+  const entries = Object.entries(file.entries);
+  const { transaction } = await getClient();
+  return transaction(async (c) => {
+    const { rows } = await c.query<{ id: number }>(
+      `INSERT INTO merkle_roots (name, root, file_version, entry_count, activates_at, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6) RETURNING id`,
+      [file.name, file.root.toLowerCase(), file.version, entries.length, file.activatesAt, file.expiresAt]
+    );
+    const rootId = rows[0].id;
+
+    const CHUNK = 500;
+    for (let i = 0; i < entries.length; i += CHUNK) {
+      const slice = entries.slice(i, i + CHUNK);
+      const params: unknown[] = [rootId];
+      const values = slice.map(([address, e], j) => {
+        params.push(address.toLowerCase(), e.amount, JSON.stringify(e.proof));
+        const b = 2 + j * 3;
+        return `($1, $${b}, $${b + 1}, $${b + 2})`;
+      });
+      await c.query(
+        `INSERT INTO merkle_entries (root_id, address, amount, proof) VALUES ${values.join(", ")}`,
+        params
+      );
+    }
+    return rootId;
+  });
+}
+
+/** Stop honouring a root immediately (proofs stay for audit). */
+export async function revokeAllowlist(root: string): Promise<boolean> {
+  const { rows } = await query(
+    "UPDATE merkle_roots SET revoked_at=NOW() WHERE root=$1 AND revoked_at IS NULL RETURNING id",
+    [root.toLowerCase()]
+  );
+  return rows.length > 0;
+}
+
+/** Look up a proof across all currently active roots, newest activation first. */
+export function dbMerkleSource(): MerkleProofSource {
+  return {
+    async lookup(address) {
+      const { rows } = await query<{ root: string; name: string; amount: string; proof: string[]; expires_at: Date | null }>(
+        `SELECT r.root, r.name, e.amount, e.proof, r.expires_at
+           FROM merkle_entries e
+           JOIN merkle_roots r ON r.id = e.root_id
+          WHERE e.address=$1
+            AND r.revoked_at IS NULL
+            AND (r.activates_at IS NULL OR r.activates_at <= NOW())
+            AND (r.expires_at IS NULL OR r.expires_at > NOW())
+          ORDER BY r.activates_at DESC NULLS LAST, r.id DESC
+          LIMIT 1`,
+        [address.toLowerCase()]
+      );
+      if (rows.length === 0) return null;
+      const r = rows[0];
+      return {
+        root: r.root,
+        name: r.name,
+        amount: BigInt(r.amount),
+        proof: r.proof,
+        expiresAt: r.expires_at ? new Date(r.expires_at).toISOString() : null,
+      } satisfies MerkleProofEntry;
+    },
+  };
+}
@@ -0,0 +1,61 @@
+import { createRegistry } from "./metrics";
+
+describe("metrics registry", () => {
+  it("renders counters and gauges per label set", async () => {
+    const r = createRegistry();
+    const jobs = r.counter("jobs_total", "Jobs");
+    jobs.inc({ outcome: "sent", chain: "sepolia" });
+    jobs.inc({ chain: "sepolia", outcome: "sent" }, 2);
+    jobs.inc({ chain: "sepolia", outcome: "failed" });
+    r.gauge("balance", "Balance\nin ETH").set({ chain: 'a"b' }, 1.5);
+
+    expect(await r.render()).toBe([
+      "# HELP jobs_total Jobs",
+      "# TYPE jobs_total counter",
+      'jobs_total{chain="sepolia",outcome="sent"} 3',
+      'jobs_total{chain="sepolia",outcome="failed"} 1',
+      "# HELP balance Balance\\nin ETH",
+      "# TYPE balance gauge",
+      'balance{chain="a\\"b"} 1.5',
+      "",
+    ].join("\n"));
+  });
+
+  it("renders cumulative histogram buckets", async () => {
+    const r = createRegistry();
+    const h = r.histogram("wait_seconds", "Wait", [1, 5]);
+    h.observe({}, 0.5);
+    h.observe({}, 3);
+    h.observe({}, 10);
+    h.observe({ chain: "x" }, 1);
+
+    const text = await r.render();
+    expect(text).toContain('wait_seconds_bucket{le="1"} 1\nwait_seconds_bucket{le="5"} 2\nwait_seconds_bucket{le="+Inf"} 3');
+    expect(text).toContain("wait_seconds_sum 13.5\nwait_seconds_count 3");
+    expect(text).toContain('wait_seconds_bucket{chain="x",le="1"} 1');
+  });
+
+  it("runs gauge collectors on scrape and survives their failures", async () => {
+    const r = createRegistry();
+    let n = 0;
+    r.gauge("depth", "Depth", (g) => g.set({}, ++n));
+    r.gauge("broken", "Broken", () => { throw new Error("rpc down"); });
+    const spy = jest.spyOn(process.stderr, "write").mockImplementation(() => true);
+    try {
+      expect(await r.render()).toContain("depth 1");
+      expect(await r.render()).toContain("depth 2");
+      expect(spy).toHaveBeenCalled();
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it("rejects bad names, duplicates and decreasing counters", () => {
+    const r = createRegistry();
+    expect(() => r.counter("bad-name", "x")).toThrow(/invalid metric name/);
+    const c = r.counter("ok_total", "x");
+    expect(() => r.gauge("ok_total", "x")).toThrow(/twice/);
+    expect(() => c.inc({}, -1)).toThrow(/only increase/);
+    expect(() => c.inc({ "bad-label": 1 })).toThrow(/invalid metric label/);
+  });
+});
@@ -0,0 +1,173 @@
+// packages/shared/src/metrics.ts
+// In-process Prometheus metrics: counters, gauges and histograms with labels, rendered
+// in the text exposition format (version 0.0.4). Each process keeps its own values;
+// Prometheus scrapes every worker and sums.
+// - `metrics` is the process-wide registry; modules define their series at load time
+// - gauges may take a collect() callback, run on each scrape, for values read on demand
+
+import { logger } from "./logger";
+
+export type Labels = Record<string, string | number>;
+
+export interface Counter {
+  inc(labels?: Labels, by?: number): void;
+}
+
+export interface Gauge {
+  set(labels: Labels, value: number): void;
+  inc(labels?: Labels, by?: number): void;
+}
+
+export interface Histogram {
+  observe(labels: Labels, value: number): void;
+  /** Start a timer; calling the result observes the elapsed seconds. */
+  startTimer(labels?: Labels): () => number;
+}
+
+export interface Registry {
+  counter(name: string, help: string): Counter;
+  gauge(name: string, help: string, collect?: (g: Gauge) => Promise<void> | void): Gauge;
+  histogram(name: string, help: string, buckets?: number[]): Histogram;
+  /** Text exposition of every series; runs gauge collectors first. */
+  render(): Promise<string>;
+  /** Drop all values (tests). */
+  reset(): void;
+}
+
+export const CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/** Seconds, from a fast RPC call to a slow confirmation. */
+export const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600];
+
+const NAME_RE = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_RE = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+const escapeHelp = (s: string) => s.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+const escapeValue = (s: string) => s.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+/** Canonical series key and its `{a="1",b="2"}` rendering (labels sorted by name). */
+function labelString(labels: Labels = {}): string {
+  const names = Object.keys(labels).sort();
+  if (names.length === 0) return "";
+  for (const n of names) if (!LABEL_RE.test(n) || n === "le") throw new Error(`invalid metric label "${n}"`);
+  return `{${names.map(n => `${n}="${escapeValue(String(labels[n]))}"`).join(",")}}`;
+}
+
+function withLabel(ls: string, name: string, value: string): string {
+  const pair = `${name}="${value}"`;
+  return ls ? `${ls.slice(0, -1)},${pair}}` : `{${pair}}`;
+}
+
+function formatNumber(v: number): string {
+  if (v === Infinity) return "+Inf";
+  if (v === -Infinity) return "-Inf";
+  return Number.isNaN(v) ? "NaN" : String(v);
+}
+
+type Family = {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  lines(): string[];
+  reset(): void;
+  collect?: () => Promise<void> | void;
+};
+
+export function createRegistry(): Registry {
+  const families = new Map<string, Family>();
+
+  function register(f: Family) {
+    if (!NAME_RE.test(f.name)) throw new Error(`invalid metric name "${f.name}"`);
+    if (families.has(f.name)) throw new Error(`metric ${f.name} registered twice`);
+    families.set(f.name, f);
+  }
+
+  function scalar(name: string, help: string, type: "counter" | "gauge") {
+    const values = new Map<string, number>();
+    const inc = (labels?: Labels, by = 1) => {
+      if (type === "counter" && by < 0) throw new Error(`counter ${name} can only increase`);
+      const k = labelString(labels);
+      values.set(k, (values.get(k) ?? 0) + by);
+    };
+    const set = (labels: Labels, value: number) => void values.set(labelString(labels), value);
+    const family: Family = {
+      name, help, type,
+      lines: () => [...values].map(([ls, v]) => `${name}${ls} ${formatNumber(v)}`),
+      reset: () => values.clear(),
+    };
+    return { inc, set, family };
+  }
+
+  return {
+    counter(name, help) {
+      const { inc, family } = scalar(name, help, "counter");
+      register(family);
+      return { inc };
+    },
+
+    gauge(name, help, collect) {
+      const { inc, set, family } = scalar(name, help, "gauge");
+      const gauge: Gauge = { inc, set };
+      if (collect) family.collect = () => collect(gauge);
+      register(family);
+      return gauge;
+    },
+
+    histogram(name, help, buckets = DEFAULT_BUCKETS) {
+      const bounds = [...buckets].sort((a, b) => a - b);
+      const series = new Map<string, { counts: number[]; sum: number; count: number }>();
+      const observe = (labels: Labels, value: number) => {
+        const k = labelString(labels);
+        let s = series.get(k);
+        if (!s) series.set(k, (s = { counts: bounds.map(() => 0), sum: 0, count: 0 }));
+        bounds.forEach((b, i) => { if (value <= b) s!.counts[i]++; });
+        s.sum += value;
+        s.count++;
+      };
+      register({
+        name, help, type: "histogram",
+        lines: () => [...series].flatMap(([ls, s]) => [
+          ...bounds.map((b, i) => `${name}_bucket${withLabel(ls, "le", formatNumber(b))} ${s.counts[i]}`),
+          `${name}_bucket${withLabel(ls, "le", "+Inf")} ${s.count}`,
+          `${name}_sum${ls} ${s.sum}`,
+          `${name}_count${ls} ${s.count}`,
+        ]),
+        reset: () => series.clear(),
+      });
+      return {
+        observe,
+        startTimer(labels = {}) {
+          const start = process.hrtime.bigint();
+          return () => {
+            const sec = Number(process.hrtime.bigint() - start) / 1e9;
+            observe(labels, sec);
+            return sec;
+          };
+        },
+      };
+    },
+
+    async render() {
+      const out: string[] = [];
+      for (const f of families.values()) {
+        if (f.collect) {
+          try {
+            await f.collect();
+          } catch (e: any) {
+            // A failing collector keeps its last values; the scrape itself still succeeds.
+            logger.error("metrics: collector failed", { metric: f.name, err: e });
+          }
+        }
+        out.push(`# HELP ${f.name} ${escapeHelp(f.help)}`, `# TYPE ${f.name} ${f.type}`, ...f.lines());
+      }
+      return out.join("\n") + "\n";
+    },
+
+    reset() {
+      for (const f of families.values()) f.reset();
+    },
+  };
+}
+
+/** The process-wide registry served on /metrics. */
+export const metrics = createRegistry();
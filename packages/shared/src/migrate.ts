@@ -0,0 +1,119 @@
+// packages/shared/src/migrate.ts
+// Migration runner over sql/ (see migrations.ts for the file format).
+// - migrateUp():          apply pending migrations, each in its own transaction
+// - migrateDown():        roll back the newest N applied migrations
+// - assertSchemaCurrent(): startup guard for API and worker
+// A Postgres advisory lock keeps two deploys from migrating at once.
+
+import type pg from "pg";
+import { getClient, query } from "./db";
+import {
+  compareSchema,
+  describeDrift,
+  loadMigrations,
+  type AppliedMigration,
+  type Migration,
+  type SchemaStatus,
+} from "./migrations";
+
+const LOCK_ID = 7_340_021; // arbitrary, constant across deploys
+
+const CREATE_TABLE = `
+  CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INT PRIMARY KEY,
+    name TEXT NOT NULL,
+    checksum TEXT NOT NULL,
+    applied_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )`;
+
+async function applied(c: pg.PoolClient | null): Promise<AppliedMigration[]> {
+  const sql = "SELECT version, name, checksum FROM schema_migrations ORDER BY version";
+  const { rows } = c ? await c.query<AppliedMigration>(sql) : await query<AppliedMigration>(sql);
+  return rows;
+}
+
+/** Run `fn` holding the migration lock on a dedicated connection. */
+async function withLock<T>(fn: (c: pg.PoolClient) => Promise<T>): Promise<T> {
+  const { client, release } = await getClient();
+  try {
+    await client.query("SELECT pg_advisory_lock($1)", [LOCK_ID]);
+    await client.query(CREATE_TABLE);
+    return await fn(client);
+  } finally {
+    try { await client.query("SELECT pg_advisory_unlock($1)", [LOCK_ID]); } catch {}
+    release();
+  }
+}
+
+async function inTransaction(c: pg.PoolClient, fn: () => Promise<void>) {
+  await c.query("BEGIN");
+  try {
+    await fn();
+    await c.query("COMMIT");
+  } catch (err) {
+    try { await c.query("ROLLBACK"); } catch {}
+    throw err;
+  }
+}
+
+/** Read-only: a database that was never migrated simply has everything pending. */
+export async function schemaStatus(dir?: string): Promise<SchemaStatus> {
+  const { rows } = await query<{ t: string | null }>("SELECT to_regclass('schema_migrations') AS t");
+  return compareSchema(loadMigrations(dir), rows[0]?.t ? await applied(null) : []);
+}
+
+/**
+ * Apply pending migrations in version order, optionally stopping at `to`.
+ * Refuses to run over a changed or unknown applied migration.
+ */
+export async function migrateUp(opts: { dir?: string; to?: number; log?: (msg: string) => void } = {}): Promise<Migration[]> {
+  const log = opts.log ?? console.log;
+  const all = loadMigrations(opts.dir);
+  return withLock(async (c) => {
+    const status = compareSchema(all, await applied(c));
+    if (status.changed.length || status.unknown.length) {
+      throw new Error(`refusing to migrate: ${describeDrift({ ...status, pending: [] })}`);
+    }
+    const todo = status.pending.filter(m => opts.to === undefined || m.version <= opts.to);
+    for (const m of todo) {
+      await inTransaction(c, async () => {
+        await c.query(m.up);
+        await c.query(
+          "INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)",
+          [m.version, m.name, m.checksum]
+        );
+      });
+      log(`↑ ${m.file}`);
+    }
+    return todo;
+  });
+}
+
+/** Roll back the newest `steps` applied migrations (default 1). */
+export async function migrateDown(opts: { dir?: string; steps?: number; log?: (msg: string) => void } = {}): Promise<Migration[]> {
+  const log = opts.log ?? console.log;
+  const byVersion = new Map(loadMigrations(opts.dir).map(m => [m.version, m]));
+  return withLock(async (c) => {
+    const targets = (await applied(c)).reverse().slice(0, opts.steps ?? 1);
+    const done: Migration[] = [];
+    for (const a of targets) {
+      const m = byVersion.get(a.version);
+      if (!m) throw new Error(`cannot roll back ${a.version}_${a.name}: file not found`);
+      if (m.checksum !== a.checksum) throw new Error(`cannot roll back ${m.file}: checksum mismatch`);
+      if (!m.down) throw new Error(`cannot roll back ${m.file}: no -- migrate:down section`);
+      await inTransaction(c, async () => {
+        await c.query(m.down!);
+        await c.query("DELETE FROM schema_migrations WHERE version=$1", [m.version]);
+      });
+      log(`↓ ${m.file}`);
+      done.push(m);
+    }
+    return done;
+  });
+}
+
+/** Throw unless every migration on disk is applied, unchanged. Call before serving. */
+export async function assertSchemaCurrent(dir?: string): Promise<void> {
+  const drift = describeDrift(await schemaStatus(dir));
+  if (drift) throw new Error(`database schema is out of date: ${drift}. Run \`pnpm db:migrate\`.`);
+}
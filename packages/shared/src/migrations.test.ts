@@ -0,0 +1,42 @@
+import { join } from "node:path";
+import { compareSchema, describeDrift, loadMigrations, parseMigration } from "./migrations";
+
+const repoSql = join(__dirname, "../../../sql");
+
+describe("SQL migrations", () => {
+  it("splits up and down sections and keeps header comments out of both", () => {
+    const m = parseMigration("012_things.sql", "-- header\n-- migrate:up\nCREATE TABLE t ();\n\n-- migrate:down\nDROP TABLE t;\n");
+    expect(m).toMatchObject({ version: 12, name: "things", up: "CREATE TABLE t ();", down: "DROP TABLE t;" });
+  });
+
+  it("treats a file without markers as up-only", () => {
+    const m = parseMigration("001_a.sql", "CREATE TABLE a ();");
+    expect(m.up).toBe("CREATE TABLE a ();");
+    expect(m.down).toBeNull();
+  });
+
+  it("rejects bad names and SQL outside a section", () => {
+    expect(() => parseMigration("init.sql", "SELECT 1")).toThrow(/NNN_name/);
+    expect(() => parseMigration("001_a.sql", "SELECT 1;\n-- migrate:up\nSELECT 2;")).toThrow(/before the first/);
+  });
+
+  it("reports pending, changed and unknown migrations", () => {
+    const disk = [parseMigration("001_a.sql", "SELECT 1;"), parseMigration("002_b.sql", "SELECT 2;")];
+    const s = compareSchema(disk, [
+      { version: 1, name: "a", checksum: "stale" },
+      { version: 9, name: "future", checksum: "x" },
+    ]);
+    expect(s.current).toBe(9);
+    expect(s.pending.map(m => m.version)).toEqual([2]);
+    expect(s.changed.map(m => m.version)).toEqual([1]);
+    expect(s.unknown.map(a => a.version)).toEqual([9]);
+    expect(describeDrift(s)).toMatch(/pending.*checksum mismatch.*unknown/);
+    expect(describeDrift(compareSchema(disk, disk))).toBeNull();
+  });
+
+  it("repo migrations load in order and can all be rolled back", () => {
+    const all = loadMigrations(repoSql);
+    expect(all.map(m => m.version)).toEqual([...all.map(m => m.version)].sort((a, b) => a - b));
+    for (const m of all) expect(m.down).not.toBeNull();
+  });
+});
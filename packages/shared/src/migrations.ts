@@ -0,0 +1,110 @@
+// packages/shared/src/migrations.ts
+// Versioned SQL migrations in sql/NNN_name.sql. A file may split itself with
+//   -- migrate:up     (everything until the next marker; default when no marker)
+//   -- migrate:down   (undo; optional, without it the migration can't be rolled back)
+// The checksum covers the whole file (line endings normalized) so an edited,
+// already-applied migration is caught instead of silently diverging.
+// Pure helpers only — the runner that talks to Postgres lives in migrate.ts.
+
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { sha256Hex } from "./utils";
+
+export type Migration = {
+  version: number;
+  name: string;             // file name without the version prefix and extension
+  file: string;
+  up: string;
+  down: string | null;
+  checksum: string;         // sha256 of the file contents
+};
+
+export type AppliedMigration = {
+  version: number;
+  name: string;
+  checksum: string;
+};
+
+export type SchemaStatus = {
+  current: number;                 // highest applied version (0 = none)
+  latest: number;                  // highest version on disk
+  pending: Migration[];            // on disk, not applied
+  changed: Migration[];            // applied, but the file's checksum differs
+  unknown: AppliedMigration[];     // applied, but no longer on disk (newer build?)
+};
+
+const FILE_RE = /^(\d+)_([\w-]+)\.sql$/;
+const MARKER_RE = /^--\s*migrate:(up|down)\s*$/m;
+
+/**
+ * MIGRATIONS_DIR, else the nearest sql/ at or above the working directory, so
+ * `pnpm -C apps/api dev`, root scripts and the /app container layout all find it.
+ */
+export function defaultMigrationsDir(): string {
+  if (process.env.MIGRATIONS_DIR) return process.env.MIGRATIONS_DIR;
+  for (let dir = process.cwd(); ; dir = dirname(dir)) {
+    if (existsSync(join(dir, "sql"))) return join(dir, "sql");
+    if (dirname(dir) === dir) throw new Error("no sql/ directory found; set MIGRATIONS_DIR");
+  }
+}
+
+/** Split one file into up/down sections. */
+export function parseMigration(file: string, text: string): Migration {
+  const m = FILE_RE.exec(file);
+  if (!m) throw new Error(`${file}: migration files must be named NNN_name.sql`);
+
+  let up = text;
+  let down: string | null = null;
+  if (MARKER_RE.test(text)) {
+    const sections: Record<string, string[]> = { up: [], down: [] };
+    let into: "up" | "down" | null = null;
+    for (const line of text.split(/\r?\n/)) {
+      const marker = /^--\s*migrate:(up|down)\s*$/.exec(line);
+      if (marker) { into = marker[1] as "up" | "down"; continue; }
+      if (into) sections[into].push(line);
+      else if (line.trim() && !line.trim().startsWith("--")) {
+        throw new Error(`${file}: SQL before the first -- migrate:up/down marker`);
+      }
+    }
+    up = sections.up.join("\n").trim();
+    down = sections.down.join("\n").trim() || null;
+  }
+  if (!up.trim()) throw new Error(`${file}: empty up migration`);
+
+  return { version: Number(m[1]), name: m[2], file, up, down, checksum: sha256Hex(text.replace(/\r\n/g, "\n")) };
+}
+
+/** Read every migration in `dir`, ordered by version; duplicate versions are an error. */
+export function loadMigrations(dir: string = defaultMigrationsDir()): Migration[] {
+  const files = readdirSync(dir).filter(f => f.endsWith(".sql")).sort();
+  const out = files.map(f => parseMigration(f, readFileSync(join(dir, f), "utf8")));
+  out.sort((a, b) => a.version - b.version);
+  for (let i = 1; i < out.length; i++) {
+    if (out[i].version === out[i - 1].version) {
+      throw new Error(`duplicate migration version ${out[i].version}: ${out[i - 1].file}, ${out[i].file}`);
+    }
+  }
+  return out;
+}
+
+/** Compare what is on disk with what schema_migrations says was applied. */
+export function compareSchema(onDisk: Migration[], applied: AppliedMigration[]): SchemaStatus {
+  const byVersion = new Map(applied.map(a => [a.version, a]));
+  const disk = new Set(onDisk.map(m => m.version));
+  return {
+    current: applied.reduce((max, a) => Math.max(max, a.version), 0),
+    latest: onDisk.reduce((max, m) => Math.max(max, m.version), 0),
+    pending: onDisk.filter(m => !byVersion.has(m.version)),
+    changed: onDisk.filter(m => byVersion.has(m.version) && byVersion.get(m.version)!.checksum !== m.checksum),
+    unknown: applied.filter(a => !disk.has(a.version)),
+  };
+}
+
+/** One-line explanation of why a schema is not safe to run against, or null if it is. */
+export function describeDrift(s: SchemaStatus): string | null {
+  const problems: string[] = [];
+  if (s.pending.length) problems.push(`${s.pending.length} pending (${s.pending.map(m => m.file).join(", ")})`);
+  if (s.changed.length) problems.push(`checksum mismatch in ${s.changed.map(m => m.file).join(", ")}`);
+  if (s.unknown.length) problems.push(`applied but unknown to this build: ${s.unknown.map(a => `${a.version}_${a.name}`).join(", ")}`);
+  return problems.length ? problems.join("; ") : null;
+}
@@ -0,0 +1,61 @@
+import type { ethers } from "ethers";
+import { createNonceManager } from "./nonceManager";
+import { redis } from "./redis";
+
+jest.mock("./redis", () => ({ redis: new (require("ioredis-mock"))() }));
+
+const SENDER = "0x00000000000000000000000000000000000000F0";
+
+/** Just enough of a provider: the sender's "pending" and "latest" transaction counts. */
+function chainAt(counts: { pending: number; latest: number }) {
+  const provider = { getTransactionCount: async (_: string, tag: "pending" | "latest") => counts[tag] };
+  return createNonceManager({ chainId: 11155111, sender: SENDER, provider: provider as unknown as ethers.Provider });
+}
+
+const byValue = (a: number, b: number) => a - b;
+
+describe("nonce allocator", () => {
+  beforeEach(() => redis.flushall());
+
+  it("hands out consecutive nonces from the chain's pending count, once synced", async () => {
+    const nonces = chainAt({ pending: 7, latest: 7 });
+    await expect(nonces.reserve()).rejects.toThrow("not synced");
+
+    expect(await nonces.sync()).toBe(7);
+    const taken = await Promise.all([nonces.reserve(), nonces.reserve(), nonces.reserve()]);
+    expect(taken.sort(byValue)).toEqual([7, 8, 9]);
+    expect(await nonces.reserve()).toBe(10);
+  });
+
+  it("reuses a released nonce when it was the last one taken", async () => {
+    const nonces = chainAt({ pending: 0, latest: 0 });
+    await nonces.sync();
+    const [first, second] = [await nonces.reserve(), await nonces.reserve()];
+
+    expect(await nonces.release(second)).toBe(true);
+    expect(await nonces.reserve()).toBe(second);
+
+    // Not the last one: it can't be rewound, so it stays reserved for the gap filler.
+    expect(await nonces.release(first)).toBe(false);
+    expect(await nonces.reserve()).toBe(second + 1);
+    expect(await nonces.staleReservations(0)).toEqual([first, second, second + 1]);
+  });
+
+  it("resyncs up to the chain's pending count, never down, and forgets what the chain passed", async () => {
+    const counts = { pending: 5, latest: 5 };
+    const nonces = chainAt(counts);
+    await nonces.sync();
+    await nonces.reserve(); // 5
+    await nonces.reserve(); // 6
+
+    counts.pending = 10; // another process sent from the same key
+    expect(await nonces.sync()).toBe(10);
+    expect(await nonces.reserve()).toBe(10);
+
+    counts.pending = 3; // a lagging node must not rewind us onto used nonces
+    expect(await nonces.sync()).toBe(11);
+
+    counts.latest = 7; // 5 and 6 mined
+    expect(await nonces.staleReservations(0)).toEqual([10]);
+  });
+});
@@ -0,0 +1,114 @@
+// packages/shared/src/nonceManager.ts
+// Local nonce allocation per (chain, sender), shared by every worker process via Redis.
+// - reserve():  atomic "take next nonce" (Lua), many sends can be in flight at once
+// - sync():     on startup, move next up to the chain's pending nonce
+// - inflight:   reserved-but-not-yet-broadcast nonces (ZSET, score = reserve time);
+//               entries that outlive GAP_AFTER_MS are gaps left by a crash and must be filled
+
+import type { ethers } from "ethers";
+import { redis } from "./redis";
+import { retryRpc } from "./retry";
+
+const nextKey = (chainId: number, sender: string) => `nonce:next:${chainId}:${sender}`;
+const inflightKey = (chainId: number, sender: string) => `nonce:inflight:${chainId}:${sender}`;
+
+// KEYS: next, inflight   ARGV: now
+// Returns the reserved nonce, or -1 if the allocator was never synced.
+const RESERVE_LUA = `
+  local n = redis.call("get", KEYS[1])
+  if not n then return -1 end
+  redis.call("set", KEYS[1], tonumber(n) + 1)
+  redis.call("zadd", KEYS[2], ARGV[1], n)
+  return tonumber(n)
+`;
+
+// KEYS: next, inflight   ARGV: chainNonce, moveNext (1|0)
+// Forget reservations below chainNonce (the chain has passed them) and, when
+// moveNext=1, raise next to chainNonce. Never lowers next: a higher local value
+// means txs are in flight that this RPC node has not seen yet.
+const SYNC_LUA = `
+  local p = tonumber(ARGV[1])
+  for _, m in ipairs(redis.call("zrange", KEYS[2], 0, -1)) do
+    if tonumber(m) < p then redis.call("zrem", KEYS[2], m) end
+  end
+  local n = tonumber(redis.call("get", KEYS[1]) or "-1")
+  if ARGV[2] == "1" and n < p then redis.call("set", KEYS[1], p); n = p end
+  return n
+`;
+
+// KEYS: next, inflight   ARGV: nonce
+// Give a nonce back. If it is the most recent one, rewind `next` so no gap is left;
+// otherwise it stays in `inflight` and the gap filler will consume it.
+const RELEASE_LUA = `
+  local n = tonumber(redis.call("get", KEYS[1]) or "-1")
+  local x = tonumber(ARGV[1])
+  if n == x + 1 then
+    redis.call("set", KEYS[1], x)
+    redis.call("zrem", KEYS[2], ARGV[1])
+    return 1
+  end
+  return 0
+`;
+
+export interface NonceManager {
+  readonly chainId: number;
+  readonly sender: string;
+  /** Align with the chain's pending nonce. Call on startup, before any reserve(). */
+  sync(): Promise<number>;
+  /** Atomically take the next nonce. */
+  reserve(): Promise<number>;
+  /** The nonce's tx reached the node; it is no longer a potential gap. */
+  markBroadcast(nonce: number): Promise<void>;
+  /** The nonce will not be used (send failed before broadcast). Returns true if rewound. */
+  release(nonce: number): Promise<boolean>;
+  /** Reserved nonces older than `olderThanMs` that never reached the node. */
+  staleReservations(olderThanMs: number): Promise<number[]>;
+  /** Chain's mined ("latest") nonce — everything below it is final for us. */
+  minedNonce(): Promise<number>;
+}
+
+export function createNonceManager(opts: {
+  chainId: number;
+  sender: string;             // lowercased address
+  provider: ethers.Provider;
+}): NonceManager {
+  const { chainId, provider } = opts;
+  const sender = opts.sender.toLowerCase();
+  const keys = [nextKey(chainId, sender), inflightKey(chainId, sender)];
+
+  return {
+    chainId,
+    sender,
+
+    async sync() {
+      const pending = await retryRpc(() => provider.getTransactionCount(sender, "pending"));
+      return Number(await redis.eval(SYNC_LUA, 2, ...keys, pending, "1"));
+    },
+
+    async reserve() {
+      const n = Number(await redis.eval(RESERVE_LUA, 2, ...keys, Date.now()));
+      if (n < 0) throw new Error(`nonce allocator for ${sender} on chain ${chainId} not synced`);
+      return n;
+    },
+
+    async markBroadcast(nonce) {
+      await redis.zrem(keys[1], String(nonce));
+    },
+
+    async release(nonce) {
+      return Number(await redis.eval(RELEASE_LUA, 2, ...keys, nonce)) === 1;
+    },
+
+    async staleReservations(olderThanMs) {
+      const mined = await retryRpc(() => provider.getTransactionCount(sender, "latest"));
+      await redis.eval(SYNC_LUA, 2, ...keys, mined, "0");
+      const cutoff = Date.now() - olderThanMs;
+      const stale = await redis.zrangebyscore(keys[1], "-inf", cutoff);
+      return stale.map(Number).sort((a, b) => a - b);
+    },
+
+    async minedNonce() {
+      return retryRpc(() => provider.getTransactionCount(sender, "latest"));
+    },
+  };
+}
@@ -0,0 +1,24 @@
+// packages/shared/src/nonceRepo.ts
+// SIWE login nonces (not tx nonces — see nonceManager.ts). Only the sha256 of a
+// nonce is stored; each one can be consumed once, by the address it was issued to.
+
+import { query } from "./db";
+import { sha256Hex } from "./utils";
+
+export async function issueNonce(n: { address: string; nonce: string; ip: string; expiresAt: string }): Promise<void> {
+  await query(
+    "INSERT INTO nonces (address, nonce_hash, ip, expires_at) VALUES ($1, $2, $3, $4)",
+    [n.address, sha256Hex(n.nonce), n.ip, n.expiresAt]
+  );
+}
+
+/** Atomically mark the nonce used. False if unknown, expired, already used or issued to someone else. */
+export async function consumeNonce(address: string, nonce: string): Promise<boolean> {
+  const { rows } = await query(
+    `UPDATE nonces SET used=true
+      WHERE address=$1 AND nonce_hash=$2 AND used=false AND expires_at > NOW()
+      RETURNING id`,
+    [address, sha256Hex(nonce)]
+  );
+  return rows.length > 0;
+}
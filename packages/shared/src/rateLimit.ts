@@ -0,0 +1,199 @@
+// packages/shared/src/rateLimit.ts
+// Sliding-window rate limiter for /drip over the dimensions in rateLimitPolicy.ts.
+// - Redis holds one ZSET of hit timestamps per (chain, dimension, key); a Lua script
+//   checks every dimension and records the hit only if all pass, atomically.
+// - Every accepted hit is also written to Postgres (rate_limit_hits). A key Redis has
+//   no marker for (flush, failover, new node) is rehydrated from there first, so a
+//   Redis restart doesn't hand everyone a fresh allowance.
+// - Admin overrides (rate_limit_overrides) exempt a key from its dimension or block it.
+
+import { query } from "./db";
+import { redis } from "./redis";
+import { randHex } from "./utils";
+import { logger } from "./logger";
+import {
+  RATE_DIMENSIONS,
+  overrideLabel,
+  overrideValue,
+  rateKey,
+  rateKeys,
+  type RateDimension,
+  type RatePolicy,
+  type RateSubject,
+} from "./rateLimitPolicy";
+import type { RateLimitOverrideRow } from "./types";
+
+export type RateDecision =
+  | { ok: true }
+  | { ok: false; reason: "blocked"; dimension: RateDimension; note: string | null }
+  | { ok: false; reason: "limited"; dimension: RateDimension; retryAt: string };
+
+const zkey = (chainId: number, dim: RateDimension, key: string) => `rl:${chainId}:${dim}:${key}`;
+const hydratedKey = (z: string) => `${z}:h`;
+
+// KEYS: zsets   ARGV: now, member, then (limit, windowMs) per key
+// Returns {0, 0} if recorded, else {index of the blocking key (1-based), retryAt ms}.
+const SLIDING_LUA = `
+  local now = tonumber(ARGV[1])
+  local blocked, retry = 0, 0
+  for i, key in ipairs(KEYS) do
+    local limit = tonumber(ARGV[1 + i * 2])
+    local window = tonumber(ARGV[2 + i * 2])
+    redis.call("zremrangebyscore", key, "-inf", now - window)
+    local count = redis.call("zcard", key)
+    if count >= limit then
+      local nth = redis.call("zrange", key, count - limit, count - limit, "WITHSCORES")
+      local at = tonumber(nth[2]) + window
+      if at > retry then blocked, retry = i, at end
+    end
+  end
+  if blocked > 0 then return {blocked, retry} end
+  for i, key in ipairs(KEYS) do
+    redis.call("zadd", key, now, ARGV[2])
+    redis.call("pexpire", key, tonumber(ARGV[2 + i * 2]))
+  end
+  return {0, 0}
+`;
+
+/** Load a key's recent hits from Postgres unless this Redis already has them. */
+async function hydrate(chainId: number, dim: RateDimension, key: string, windowSec: number) {
+  const z = zkey(chainId, dim, key);
+  if (await redis.exists(hydratedKey(z))) return;
+  const { rows } = await query<{ member: string; at_ms: string }>(
+    `SELECT member, EXTRACT(EPOCH FROM hit_at) * 1000 AS at_ms FROM rate_limit_hits
+      WHERE chain_id=$1 AND dimension=$2 AND key_hash=$3 AND hit_at > NOW() - make_interval(secs => $4)`,
+    [chainId, dim, key, windowSec]
+  );
+  const tx = redis.multi();
+  for (const r of rows) tx.zadd(z, Math.round(Number(r.at_ms)), r.member); // same member → idempotent
+  if (rows.length) tx.pexpire(z, windowSec * 1000);
+  tx.set(hydratedKey(z), "1", "EX", windowSec);
+  await tx.exec();
+}
+
+async function overridesFor(chainId: number, keys: string[]) {
+  const { rows } = await query<Pick<RateLimitOverrideRow, "dimension" | "key_hash" | "action" | "reason">>(
+    `SELECT dimension, key_hash, action, reason FROM rate_limit_overrides
+      WHERE key_hash = ANY($1) AND (chain_id IS NULL OR chain_id=$2)
+        AND (expires_at IS NULL OR expires_at > NOW())`,
+    [keys, chainId]
+  );
+  return rows;
+}
+
+/** Check every configured dimension and, if all pass, count the hit. */
+export async function checkRateLimit(chainId: number, policy: RatePolicy, subject: RateSubject): Promise<RateDecision> {
+  const keys = rateKeys(subject);
+  const dims = RATE_DIMENSIONS.filter(d => keys[d] !== undefined);
+  if (dims.length === 0) return { ok: true };
+
+  const overrides = await overridesFor(chainId, dims.map(d => keys[d]!));
+  const match = (d: RateDimension, action: "exempt" | "block") =>
+    overrides.find(o => o.dimension === d && o.key_hash === keys[d] && o.action === action);
+  for (const d of dims) {
+    const block = match(d, "block");
+    if (block) return { ok: false, reason: "blocked", dimension: d, note: block.reason };
+  }
+
+  const limited = dims.filter(d => policy[d] && !match(d, "exempt"));
+  if (limited.length === 0) return { ok: true };
+  await Promise.all(limited.map(d => hydrate(chainId, d, keys[d]!, policy[d]!.windowSec)));
+
+  const now = Date.now();
+  const member = `${now}:${randHex(4)}`;
+  const args = limited.flatMap(d => [policy[d]!.limit, policy[d]!.windowSec * 1000]);
+  const [idx, retryAt] = (await redis.eval(
+    SLIDING_LUA, limited.length, ...limited.map(d => zkey(chainId, d, keys[d]!)), now, member, ...args
+  )) as [number, number];
+  if (idx > 0) {
+    return { ok: false, reason: "limited", dimension: limited[idx - 1], retryAt: new Date(retryAt).toISOString() };
+  }
+
+  const params: unknown[] = [chainId, member, new Date(now).toISOString()];
+  const values = limited.map((d) => {
+    params.push(d, keys[d]);
+    return `($1, $${params.length - 1}, $${params.length}, $2, $3)`;
+  });
+  await query(
+    `INSERT INTO rate_limit_hits (chain_id, dimension, key_hash, member, hit_at) VALUES ${values.join(", ")}`,
+    params
+  ).catch((err) => logger.error("rate limit: persisting hit failed", { err }));
+  return { ok: true };
+}
+
+/**
+ * When the subject could next pass every limit, without counting a hit: null if it
+ * could drip now (or is blocked, which no wait fixes). For cooldown displays.
+ */
+export async function nextAllowedAt(chainId: number, policy: RatePolicy, subject: RateSubject): Promise<string | null> {
+  const keys = rateKeys(subject);
+  const dims = RATE_DIMENSIONS.filter(d => keys[d] !== undefined && policy[d]);
+  if (dims.length === 0) return null;
+
+  const overrides = await overridesFor(chainId, dims.map(d => keys[d]!));
+  if (overrides.some(o => o.action === "block")) return null;
+  const limited = dims.filter(d => !overrides.some(o => o.dimension === d && o.key_hash === keys[d]));
+  await Promise.all(limited.map(d => hydrate(chainId, d, keys[d]!, policy[d]!.windowSec)));
+
+  const now = Date.now();
+  let until = 0;
+  for (const d of limited) {
+    const { limit, windowSec } = policy[d]!;
+    const z = zkey(chainId, d, keys[d]!);
+    const from = now - windowSec * 1000;
+    const count = await redis.zcount(z, `(${from}`, "+inf");
+    if (count < limit) continue;
+    const [, score] = await redis.zrangebyscore(z, `(${from}`, "+inf", "WITHSCORES", "LIMIT", count - limit, 1);
+    until = Math.max(until, Number(score) + windowSec * 1000);
+  }
+  return until > now ? new Date(until).toISOString() : null;
+}
+
+/** Drop persisted hits older than the longest window anyone could still need. */
+export async function pruneRateLimitHits(olderThanSec: number): Promise<number> {
+  const { rows } = await query(
+    "DELETE FROM rate_limit_hits WHERE hit_at < NOW() - make_interval(secs => $1) RETURNING 1",
+    [olderThanSec]
+  );
+  return rows.length;
+}
+
+/* ── Admin overrides ───────────────────────────────────────────────── */
+export async function listRateLimitOverrides(): Promise<RateLimitOverrideRow[]> {
+  const { rows } = await query<RateLimitOverrideRow>(
+    `SELECT * FROM rate_limit_overrides
+      WHERE expires_at IS NULL OR expires_at > NOW()
+      ORDER BY id DESC`
+  );
+  return rows;
+}
+
+/** Exempt or block one value (address, IP, IP/CIDR for subnet, or session token). */
+export async function addRateLimitOverride(o: {
+  dimension: RateDimension;
+  value: string;
+  action: "exempt" | "block";
+  chainId?: number | null;
+  reason?: string | null;
+  expiresAt?: string | null;
+  createdBy: string;
+}): Promise<RateLimitOverrideRow> {
+  const value = overrideValue(o.dimension, o.value);
+  if (!value) throw new Error(`invalid ${o.dimension} value`);
+  const label = overrideLabel(o.dimension, value);
+  const { rows } = await query<RateLimitOverrideRow>(
+    `INSERT INTO rate_limit_overrides (dimension, key_hash, label, action, chain_id, reason, expires_at, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     ON CONFLICT (dimension, key_hash, COALESCE(chain_id, 0)) DO UPDATE
+        SET action=EXCLUDED.action, reason=EXCLUDED.reason, expires_at=EXCLUDED.expires_at,
+            created_by=EXCLUDED.created_by, created_at=NOW()
+     RETURNING *`,
+    [o.dimension, rateKey(o.dimension, value), label, o.action, o.chainId ?? null, o.reason ?? null, o.expiresAt ?? null, o.createdBy]
+  );
+  return rows[0];
+}
+
+export async function removeRateLimitOverride(id: number): Promise<boolean> {
+  const { rows } = await query("DELETE FROM rate_limit_overrides WHERE id=$1 RETURNING id", [id]);
+  return rows.length > 0;
+}
@@ -0,0 +1,90 @@
+import { query } from "./db";
+import { loadMigrations } from "./migrations";
+import { overrideLabel, overrideValue, parseRatePolicy, parseRateRule, rateKey, rateKeys, subnetOf } from "./rateLimitPolicy";
+import { resetTestDb } from "./testDb";
+
+jest.mock("./db", () => require("./testDb").testDbModule());
+
+describe("rate limit policy", () => {
+  it("parses <limit>/<window> rules", () => {
+    expect(parseRateRule("3/24h")).toEqual({ limit: 3, windowSec: 86_400 });
+    expect(parseRateRule("10 / m")).toEqual({ limit: 10, windowSec: 60 });
+    expect(() => parseRateRule("3 per day")).toThrow(/expected/);
+    expect(() => parseRateRule("0/1h")).toThrow(/positive/);
+  });
+
+  it("lets chain specs override env and turn dimensions off", () => {
+    process.env.RATE_LIMIT_IP = "5/1h";
+    process.env.RATE_LIMIT_ADDRESS = "1/24h";
+    try {
+      expect(parseRatePolicy({ address: "off", subnet: "20/1d" }, "chains[0].rateLimits")).toEqual({
+        ip: { limit: 5, windowSec: 3_600 },
+        subnet: { limit: 20, windowSec: 86_400 },
+      });
+    } finally {
+      delete process.env.RATE_LIMIT_IP;
+      delete process.env.RATE_LIMIT_ADDRESS;
+    }
+  });
+
+  it("groups IPv4 by /24 and IPv6 by /64", () => {
+    expect(subnetOf("203.0.113.77")).toBe("203.0.113.0/24");
+    expect(subnetOf("::ffff:203.0.113.77")).toBe("203.0.113.0/24");
+    expect(subnetOf("2001:db8:1:2::1")).toBe("2001:0db8:0001:0002::/64");
+    expect(subnetOf("2001:DB8:1:2:ffff::9")).toBe(subnetOf("2001:db8:1:2::1"));
+    expect(subnetOf("not-an-ip")).toBeNull();
+  });
+
+  it("hashes values with a salt and matches admin overrides to live keys", () => {
+    const keys = rateKeys({ address: "0xAbC0000000000000000000000000000000000001", ip: "198.51.100.4" });
+    expect(Object.keys(keys).sort()).toEqual(["address", "ip", "subnet"]);
+    expect(keys.ip).not.toContain("198.51");
+    expect(keys.subnet).toBe(rateKey("subnet", overrideValue("subnet", "198.51.100.0/24")!));
+    expect(keys.address).toBe(rateKey("address", overrideValue("address", "0xabc0000000000000000000000000000000000001")!));
+    expect(rateKey("ip", "198.51.100.4", "a")).not.toBe(rateKey("ip", "198.51.100.4", "b"));
+  });
+
+  it("labels overrides without storing the raw value", () => {
+    expect(overrideLabel("address", "0xabc0000000000000000000000000000000000001")).toBe("0xabc0…0001");
+    expect(overrideLabel("ip", "198.51.100.4")).toBe("198.51.100.*");
+    expect(overrideLabel("ip", "2001:db8:1:2::1")).toBe("2001:db8:1:2::*");
+    expect(overrideLabel("ip", "2001:db8:0:0:5::1")).toBe("2001:db8::*");
+    expect(overrideLabel("subnet", "198.51.100.0/24")).toBe("198.51.100.0/24");
+    expect(overrideLabel("session", "s3cr3t-session-token")).toBe("s3cr3t…");
+  });
+});
+
+describe("override labels in SQL", () => {
+  const IPS = ["198.51.100.4", "2001:db8:1:2::1", "2001:0db8:0:0:aaaa::1", "2001:0:0:1::9", "fe80::1", "::1"];
+
+  /** Re-run a migration's up section (statement by statement) over the current rows. */
+  async function migrate(version: number) {
+    const m = loadMigrations().find(m => m.version === version)!;
+    for (const stmt of m.up.split(/;\s*(?:\n|$)/).filter(s => s.trim())) await query(stmt);
+  }
+
+  async function insertLabels(labels: string[]) {
+    for (const [i, label] of labels.entries()) {
+      await query(
+        "INSERT INTO rate_limit_overrides (dimension, key_hash, label, action, created_by) VALUES ('ip', $1, $2, 'block', 'test')",
+        [`k${i}`, label]
+      );
+    }
+  }
+  const labels = async () => (await query<{ label: string }>("SELECT label FROM rate_limit_overrides ORDER BY id")).rows.map(r => r.label);
+
+  beforeEach(resetTestDb);
+
+  it("023 masks a raw IP exactly as overrideLabel does", async () => {
+    await insertLabels(IPS);
+    await migrate(23);
+    expect(await labels()).toEqual(IPS.map(ip => overrideLabel("ip", ip)));
+  });
+
+  it("025 rewrites the zero-padded IPv6 labels the API used to write", async () => {
+    await insertLabels(["2001:0db8:0001:0002::*", "2001:0db8:0000:0000::*", "0000:0000:0000:0000::*", "198.51.100.*"]);
+    await migrate(25);
+    expect(await labels()).toEqual(["2001:db8:1:2::*", "2001:db8::*", "::*", "198.51.100.*"]);
+    expect(await labels()).toEqual(["2001:db8:1:2::1", "2001:db8::1", "::1", "198.51.100.4"].map(ip => overrideLabel("ip", ip)));
+  });
+});
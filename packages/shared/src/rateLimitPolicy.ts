@@ -0,0 +1,139 @@
+// packages/shared/src/rateLimitPolicy.ts
+// What a drip is rate limited by, and how keys are derived. Pure — the Redis/Postgres
+// limiter lives in rateLimit.ts.
+// - address: the wallet (lowercased)
+// - ip:      the client IP
+// - subnet:  IPv4 /24 or IPv6 /64 of the client IP (one household, one VPS block)
+// - session: the bearer session token
+// Raw IPs and tokens never reach Redis or Postgres: every key is a salted sha256.
+
+import { isIP } from "node:net";
+import { sha256Hex } from "./utils";
+
+export type RateDimension = "address" | "ip" | "subnet" | "session";
+export const RATE_DIMENSIONS: readonly RateDimension[] = ["address", "ip", "subnet", "session"];
+
+export type RateRule = { limit: number; windowSec: number };
+export type RatePolicy = Partial<Record<RateDimension, RateRule>>;
+
+const UNIT_SEC: Record<string, number> = { s: 1, m: 60, h: 3_600, d: 86_400 };
+
+/** "3/24h" → 3 per 24 hours. Units: s, m, h, d. */
+export function parseRateRule(spec: string, where = "rate rule"): RateRule {
+  const m = /^\s*(\d+)\s*\/\s*(\d+)?\s*([smhd])\s*$/.exec(spec);
+  if (!m) throw new Error(`${where}: expected "<limit>/<n><s|m|h|d>", got "${spec}"`);
+  const limit = Number(m[1]);
+  const windowSec = Number(m[2] ?? 1) * UNIT_SEC[m[3]];
+  if (limit < 1 || windowSec < 1) throw new Error(`${where}: limit and window must be positive`);
+  return { limit, windowSec };
+}
+
+/** Chain-level specs override RATE_LIMIT_<DIMENSION> env; "off" disables a dimension. */
+export function parseRatePolicy(raw: unknown, where: string): RatePolicy {
+  const specs = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const policy: RatePolicy = {};
+  for (const dim of RATE_DIMENSIONS) {
+    const spec = specs[dim] ?? process.env[`RATE_LIMIT_${dim.toUpperCase()}`];
+    if (spec === undefined || spec === "" || spec === "off") continue;
+    policy[dim] = parseRateRule(String(spec), `${where}.${dim}`);
+  }
+  return policy;
+}
+
+function expandIPv6(ip: string): string[] {
+  let s = ip.toLowerCase();
+  const v4 = /(\d+\.\d+\.\d+\.\d+)$/.exec(s);
+  if (v4) {
+    const [a, b, c, d] = v4[1].split(".").map(Number);
+    s = s.slice(0, -v4[1].length) + `${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = s.includes("::") ? s.split("::") : [s, null];
+  const h = head ? head.split(":") : [];
+  const t = tail ? tail.split(":") : [];
+  const fill = tail === null ? [] : Array(8 - h.length - t.length).fill("0");
+  return [...h, ...fill, ...t].map(g => g.padStart(4, "0"));
+}
+
+/** IPv4 /24 or IPv6 /64 prefix in CIDR form; IPv4-mapped IPv6 counts as IPv4. */
+export function subnetOf(ip: string): string | null {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(ip);
+  const addr = mapped ? mapped[1] : ip;
+  switch (isIP(addr)) {
+    case 4:
+      return `${addr.split(".").slice(0, 3).join(".")}.0/24`;
+    case 6:
+      return `${expandIPv6(addr).slice(0, 4).join(":")}::/64`;
+    default:
+      return null;
+  }
+}
+
+/** Salted hash of one dimension's value; the same input always maps to the same key. */
+export function rateKey(dim: RateDimension, value: string, salt = process.env.RATE_LIMIT_SALT ?? ""): string {
+  return sha256Hex(`${salt}:${dim}:${value.toLowerCase()}`);
+}
+
+/** Raw dimension values for one request (missing ones are skipped). */
+export type RateSubject = { address?: string; ip?: string; session?: string };
+
+export function rateKeys(subject: RateSubject): Partial<Record<RateDimension, string>> {
+  const subnet = subject.ip ? subnetOf(subject.ip) : null;
+  const values: Partial<Record<RateDimension, string>> = {
+    address: subject.address,
+    ip: subject.ip,
+    subnet: subnet ?? undefined,
+    session: subject.session,
+  };
+  const keys: Partial<Record<RateDimension, string>> = {};
+  for (const dim of RATE_DIMENSIONS) {
+    const v = values[dim];
+    if (v) keys[dim] = rateKey(dim, v);
+  }
+  return keys;
+}
+
+/**
+ * A /64 from subnetOf() as Postgres's host() prints its network ("2001:db8:1::"):
+ * leading zeros dropped and the trailing zero groups folded into "::".
+ */
+function compactPrefix64(subnet: string): string {
+  const groups = subnet.slice(0, -"::/64".length).split(":").map(g => g.replace(/^0+(?=.)/, ""));
+  while (groups.at(-1) === "0") groups.pop();
+  return `${groups.join(":")}::`;
+}
+
+/**
+ * How an override is shown to admins in place of its value: enough to recognise it,
+ * never a full IP, address or token (the key hash is what matches).
+ */
+export function overrideLabel(dim: RateDimension, value: string): string {
+  switch (dim) {
+    case "address":
+      return `${value.slice(0, 6)}…${value.slice(-4)}`;
+    case "ip": {
+      // IPv6 in host()'s form, so labels match the ones 023 masked in SQL.
+      const subnet = subnetOf(value);
+      if (!subnet) return "…";
+      return subnet.endsWith("/64") ? `${compactPrefix64(subnet)}*` : subnet.replace(/0\/24$/, "*");
+    }
+    case "subnet":
+      return value; // a /24 or /64, not one client
+    case "session":
+      return `${value.slice(0, 6)}…`;
+  }
+}
+
+/** Normalize an admin-supplied override value (an IP or CIDR for subnet) before hashing. */
+export function overrideValue(dim: RateDimension, value: string): string | null {
+  const v = value.trim();
+  switch (dim) {
+    case "address":
+      return /^0x[0-9a-fA-F]{40}$/.test(v) ? v.toLowerCase() : null;
+    case "ip":
+      return isIP(v) ? v : null;
+    case "subnet":
+      return subnetOf(v.replace(/\/\d+$/, ""));
+    case "session":
+      return v || null;
+  }
+}
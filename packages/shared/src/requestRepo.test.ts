@@ -0,0 +1,170 @@
+import { budgetUsage } from "./budgetRepo";
+import { query } from "./db";
+import {
+  abortBroadcast,
+  createBundle,
+  createRequest,
+  findInflight,
+  getBundle,
+  getRequest,
+  listUnfinalized,
+  markBroadcast,
+  markConfirming,
+  markFailed,
+  markReorged,
+  markSent,
+  requeue,
+  resolveReview,
+  type NewRequest,
+} from "./requestRepo";
+import { createWebhookEndpoint } from "./webhookRepo";
+import { resetTestDb } from "./testDb";
+
+jest.mock("./db", () => require("./testDb").testDbModule());
+jest.mock("./statusStream", () => ({ publishStatus: jest.fn() }));
+
+const CHAIN = 11155111;
+const SENDER = "0x00000000000000000000000000000000000000f0";
+let seq = 0;
+
+const hex = (n: number, bytes: number) => `0x${n.toString(16).padStart(bytes * 2, "0")}`;
+
+function newRequest(over: Partial<NewRequest> = {}): NewRequest {
+  seq++;
+  return { address: hex(seq, 20), chainId: CHAIN, ip: "203.0.113.7", asset: "native", amount: "1000", ...over };
+}
+
+const signed = (nonce: number) =>
+  ({ txHash: hex(1_000 + nonce, 32), nonce, gasLimit: 21_000n, maxFeePerGas: 2n, maxPriorityFeePerGas: 1n });
+
+/** A request mined in `blockNumber`, left at `status`. */
+async function mined(status: "confirming" | "sent", blockNumber: number) {
+  const id = await createRequest(newRequest());
+  const tx = signed(id);
+  await markBroadcast(id, SENDER, tx);
+  const m = { txHash: tx.txHash, blockNumber, blockHash: hex(blockNumber, 32) };
+  await (status === "sent" ? markSent(id, m) : markConfirming(id, m));
+  return id;
+}
+
+describe("request repository", () => {
+  beforeEach(resetTestDb);
+
+  describe("budget charges", () => {
+    // Room for exactly one drip a day.
+    const chain = { chainId: CHAIN, budget: { dailyDrips: 1, hourlyDrips: null, dailyAmount: "0.5", hourlyAmount: null } };
+    const budget = { chain, spend: { drips: 1, wei: 10n ** 17n } };
+    const day = async () => (await budgetUsage(chain)).find(u => u.period === "day")!;
+
+    it("refunds a refused broadcast so its retry can charge again", async () => {
+      const id = await createRequest(newRequest());
+      const first = signed(1);
+      expect(await markBroadcast(id, SENDER, first, budget)).toBe(true);
+      expect(await day()).toMatchObject({ drips: 1, wei: 10n ** 17n });
+
+      // Nonce conflict: undone, failed, then requeued by the job's next attempt.
+      expect(await abortBroadcast(id, first.txHash, "nonce too low")).toBe(true);
+      expect(await day()).toMatchObject({ drips: 0, wei: 0n });
+      expect((await getRequest(id))!.budget_at).toBeNull();
+
+      expect(await requeue(id)).toBe(true);
+      expect(await markBroadcast(id, SENDER, signed(2), budget)).toBe(true);
+      expect(await day()).toMatchObject({ drips: 1, wei: 10n ** 17n });
+
+      // The one drip is spent: a second request can't sign.
+      const other = await createRequest(newRequest());
+      await expect(markBroadcast(other, SENDER, signed(3), budget)).rejects.toThrow("daily budget exhausted");
+    });
+
+    it("refunds a dropped tx but not one that mined", async () => {
+      const dropped = await createRequest(newRequest());
+      await markBroadcast(dropped, SENDER, signed(1), budget);
+      expect(await markFailed(dropped, "dropped: nonce 1 consumed by another transaction", ["broadcast"])).toBe(true);
+      expect((await day()).drips).toBe(0);
+
+      const sent = await createRequest(newRequest());
+      const tx = signed(2);
+      await markBroadcast(sent, SENDER, tx, budget);
+      await markSent(sent, { txHash: tx.txHash, blockNumber: 5, blockHash: hex(5, 32) });
+      expect((await day()).drips).toBe(1);
+    });
+  });
+
+  describe("finality", () => {
+    it("re-checks every 'confirming' row but only recent 'sent' ones", async () => {
+      const head = 1_000;
+      const floor = head - 64;
+      const deepConfirming = await mined("confirming", 100); // e.g. worker was down past finality
+      const deepSent = await mined("sent", 101);
+      const recentSent = await mined("sent", 990);
+
+      const rows = await listUnfinalized(CHAIN, floor, 100);
+      expect(rows.map(r => r.id)).toEqual([deepConfirming, recentSent]);
+      expect(rows.map(r => r.id)).not.toContain(deepSent);
+
+      // The worker's reorg pass finds the receipt still in place and promotes it.
+      const row = (await getRequest(deepConfirming))!;
+      expect(await findInflight(row.address, CHAIN)).toBe(deepConfirming);
+      await markSent(deepConfirming, { txHash: row.tx_hash!, blockNumber: 100, blockHash: row.block_hash! });
+      expect((await getRequest(deepConfirming))!.status).toBe("sent");
+      expect(await findInflight(row.address, CHAIN)).toBeNull();
+    });
+  });
+
+  describe("request webhooks", () => {
+    const outbox = async () =>
+      (await query<{ event_type: string; event_key: string }>("SELECT event_type, event_key FROM webhook_deliveries ORDER BY id")).rows;
+
+    beforeEach(() =>
+      createWebhookEndpoint({ url: "https://hooks.example/faucet", events: ["request.*"], chainId: null, description: null, createdBy: "test" }));
+
+    it("skips request.failed for a failure the job will retry", async () => {
+      const id = await createRequest(newRequest());
+      const first = signed(1);
+      await markBroadcast(id, SENDER, first);
+      await abortBroadcast(id, first.txHash, "nonce too low", true);
+      await requeue(id);
+      expect(await markFailed(id, "timeout", ["queued"], true)).toBe(true);
+      expect(await outbox()).toEqual([]);
+
+      await requeue(id);
+      await markFailed(id, "timeout"); // out of attempts
+      expect(await outbox()).toEqual([{ event_type: "request.failed", event_key: expect.stringMatching(/^request-event:/) }]);
+    });
+
+    it("emits request.sent once per request, even when a reorg sends it again", async () => {
+      const id = await createRequest(newRequest());
+      const tx = signed(1);
+      await markBroadcast(id, SENDER, tx);
+      await markSent(id, { txHash: tx.txHash, blockNumber: 7, blockHash: hex(7, 32) });
+      await markReorged(id, "sent", 7);
+      await markSent(id, { txHash: tx.txHash, blockNumber: 8, blockHash: hex(8, 32) });
+      expect((await getRequest(id))!.status).toBe("sent");
+      expect(await outbox()).toEqual([{ event_type: "request.sent", event_key: `request.sent:${id}` }]);
+    });
+  });
+
+  describe("abuse review", () => {
+    /** A held two-asset bundle, as /drip records it. */
+    const held = () => {
+      const r = newRequest({ status: "review", abuse: { score: 70, reasons: ["no mainnet activity (+25)"] } });
+      return createBundle([r, { ...r, asset: "0x00000000000000000000000000000000000000aa", amount: "5" }]);
+    };
+    const statuses = async (id: number) => (await getBundle(id)).map(r => [r.status, r.reason]);
+
+    it("releases every row of the bundle to 'queued'", async () => {
+      const ids = await held();
+      expect(ids).toContain(await findInflight((await getRequest(ids[0]))!.address, CHAIN)); // held rows block a new drip
+      expect(await resolveReview(ids[1], { release: true, note: "released by 0xadmin" })).toEqual(ids);
+      expect(await statuses(ids[0])).toEqual([["queued", null], ["queued", null]]);
+      expect(await resolveReview(ids[0], { release: true, note: "again" })).toEqual([]);
+    });
+
+    it("rejects every row of the bundle to 'failed' with the reason", async () => {
+      const ids = await held();
+      expect(await resolveReview(ids[0], { release: false, reason: "rejected by 0xadmin" })).toEqual(ids);
+      expect(await statuses(ids[0])).toEqual([["failed", "rejected by 0xadmin"], ["failed", "rejected by 0xadmin"]]);
+      expect(await findInflight((await getRequest(ids[0]))!.address, CHAIN)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,561 @@
+// packages/shared/src/requestRepo.ts
+// Every write to `requests` goes through here. Status changes follow
+// REQUEST_TRANSITIONS and are compare-and-set: the UPDATE only lands if the row is
+// still in one of the expected states (and, where given, still on the expected
+// tx hash), so a stale job or a slow reconciler pass can't undo newer progress.
+// Each applied transition is appended to request_events in the same transaction and,
+// once that commits, published for live clients (statusStream.ts). Arriving at 'sent'
+// also writes a request.sent webhook into the outbox (once per request, however often
+// a reorg sends it back), and a final 'failed' a request.failed one.
+//
+//   review ──► queued ──► broadcast ──► confirming ──► sent
+//     │          │  ▲         │  ▲          │  ▲        │
+//     │          ▼  │         ▼  └── reorg ─┴──┴────────┘
+//     └──────► failed ◄───────┴─────────────┴───────────┘ (reverted / dropped / rejected)
+//
+// A request the abuse score holds starts in 'review'; one it refuses is created 'failed'.
+
+import { getClient, query, type Queryable } from "./db";
+import { consumeBudget, refundBudget, type BudgetSpend } from "./budgetRepo";
+import type { ChainConfig } from "./chains";
+import { publishStatus } from "./statusStream";
+import { emitWebhook } from "./webhookRepo";
+import type { StatusEvent, StatusFilter } from "./statusEvents";
+import type { AmountRecord } from "./amountPolicy";
+import type { RequestEventRow, RequestRow, RequestStatus } from "./types";
+
+export const REQUEST_TRANSITIONS: Record<RequestStatus, readonly RequestStatus[]> = {
+  review:     ["queued", "failed"],                          // released / rejected by an admin
+  queued:     ["broadcast", "failed"],
+  broadcast:  ["broadcast", "confirming", "sent", "failed"], // self: fee-bumped replacement
+  confirming: ["confirming", "sent", "broadcast", "failed"], // self: receipt moved block
+  sent:       ["confirming", "sent", "broadcast", "failed"], // reorgs after delivery
+  failed:     ["queued"],                                    // job retried
+};
+
+export function canTransition(from: RequestStatus, to: RequestStatus): boolean {
+  return REQUEST_TRANSITIONS[from].includes(to);
+}
+
+type Transition = {
+  to: RequestStatus;
+  from: RequestStatus[];
+  set?: Record<string, unknown>;  // column → value
+  setSql?: string[];              // trusted fragments, e.g. "broadcast_at=NOW()"
+  txHash?: string;                // also require requests.tx_hash = txHash
+  reason?: string | null;         // stored on the event (and the row, for 'failed')
+  eventTxHash?: string | null;
+  retrying?: boolean;             // 'failed' the job will retry: no request.failed webhook
+};
+
+/** Applied changes, collected inside a transaction and published after its commit. */
+type Changes = StatusEvent[];
+
+/** CAS one status change and log it. Returns the status it left, or null if the row had moved on. */
+async function transition(c: Queryable, changes: Changes, id: number, t: Transition): Promise<RequestStatus | null> {
+  for (const f of t.from) {
+    if (!canTransition(f, t.to)) throw new Error(`illegal request transition ${f} → ${t.to}`);
+  }
+
+  const params: unknown[] = [id, t.to, t.from];
+  const sets = ["status=$2"];
+  for (const [col, val] of Object.entries(t.set ?? {})) {
+    params.push(val);
+    sets.push(`${col}=$${params.length}`);
+  }
+  sets.push(...(t.setSql ?? []));
+  let guard = "";
+  if (t.txHash !== undefined) {
+    params.push(t.txHash);
+    guard = ` AND r.tx_hash=$${params.length}`;
+  }
+
+  const { rows } = await c.query<
+    Pick<RequestRow, "tx_hash" | "address" | "chain_id" | "bundle_id" | "asset" | "amount"> & { from_status: RequestStatus }
+  >(
+    `UPDATE requests r SET ${sets.join(", ")}
+       FROM (SELECT id, status AS from_status FROM requests WHERE id=$1 FOR UPDATE) prev
+      WHERE r.id=prev.id AND prev.from_status = ANY($3::text[])${guard}
+      RETURNING prev.from_status, r.tx_hash, r.address, r.chain_id, r.bundle_id, r.asset, r.amount`,
+    params
+  );
+  if (rows.length === 0) return null;
+
+  const row = rows[0];
+  const event = await c.query<{ id: number; created_at: string }>(
+    `INSERT INTO request_events (request_id, from_status, to_status, reason, tx_hash)
+     VALUES ($1, $2, $3, $4, $5) RETURNING id, created_at`,
+    [id, row.from_status, t.to, t.reason ?? null, t.eventTxHash !== undefined ? t.eventTxHash : row.tx_hash]
+  );
+  const change: StatusEvent = {
+    eventId: Number(event.rows[0].id),
+    requestId: id,
+    bundleId: row.bundle_id,
+    chainId: row.chain_id,
+    address: row.address,
+    status: t.to,
+    from: row.from_status,
+    txHash: t.eventTxHash !== undefined ? t.eventTxHash : row.tx_hash,
+    reason: t.reason ?? null,
+    at: new Date(event.rows[0].created_at).toISOString(),
+  };
+  changes.push(change);
+
+  const sent = t.to === "sent" && row.from_status !== "sent";
+  const failed = t.to === "failed" && row.from_status !== "failed" && !t.retrying;
+  if (sent || failed) {
+    await emitWebhook({
+      key: sent ? `request.sent:${id}` : `request-event:${change.eventId}`,
+      type: t.to === "sent" ? "request.sent" : "request.failed",
+      chainId: row.chain_id,
+      data: {
+        requestId: id, bundleId: row.bundle_id, address: row.address, asset: row.asset, amount: row.amount,
+        txHash: change.txHash, reason: change.reason, previousStatus: row.from_status,
+      },
+    }, c);
+  }
+  return row.from_status;
+}
+
+/** Run `fn` in a transaction, then publish the changes it made (never a rolled-back one). */
+async function transact<T>(fn: (c: Queryable, changes: Changes) => Promise<T>): Promise<T> {
+  const { transaction } = await getClient();
+  const changes: Changes = [];
+  const result = await transaction((c) => fn(c, changes));
+  changes.forEach(publishStatus);
+  return result;
+}
+
+/** Run a single transition in its own transaction. */
+async function apply(id: number, t: Transition): Promise<boolean> {
+  return transact(async (c, changes) => (await transition(c, changes, id, t)) !== null);
+}
+
+/* ── Create / read ─────────────────────────────────────────────────── */
+export type NewRequest = {
+  address: string;      // lowercased hex
+  chainId: number;
+  ip: string;
+  asset: string;        // assetKey(): "native" or token address
+  amount: string;       // base units
+  correlationId?: string;
+  abuse?: { score: number; reasons: string[] };
+  amountPolicy?: AmountRecord;
+  status?: "queued" | "review" | "failed"; // default 'queued'; 'failed' needs a reason
+  reason?: string;
+};
+
+async function insertRequest(c: Queryable, changes: Changes, r: NewRequest, bundleId: number | null): Promise<number> {
+  const status = r.status ?? "queued";
+  const reason = r.reason ?? null;
+  const { rows } = await c.query<{ id: number }>(
+    `INSERT INTO requests (address, chain_id, ip, status, asset, amount, bundle_id, correlation_id, reason, abuse_score, abuse_reasons, amount_policy)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12) RETURNING id`,
+    [r.address, r.chainId, r.ip, status, r.asset, r.amount, bundleId, r.correlationId ?? null, reason,
+      r.abuse?.score ?? null, r.abuse ? JSON.stringify(r.abuse.reasons) : null,
+      r.amountPolicy ? JSON.stringify(r.amountPolicy) : null]
+  );
+  const id = rows[0].id;
+  const event = await c.query<{ id: number; created_at: string }>(
+    "INSERT INTO request_events (request_id, from_status, to_status, reason) VALUES ($1, NULL, $2, $3) RETURNING id, created_at",
+    [id, status, reason]
+  );
+  changes.push({
+    eventId: Number(event.rows[0].id), requestId: id, bundleId: bundleId ?? id, chainId: r.chainId, address: r.address,
+    status, from: null, txHash: null, reason, at: new Date(event.rows[0].created_at).toISOString(),
+  });
+  return id;
+}
+
+/** One standalone request (its own bundle). */
+export async function createRequest(r: NewRequest): Promise<number> {
+  return (await createBundle([r]))[0];
+}
+
+/** One row per asset, all pointing at the first row's id, in one transaction. */
+export async function createBundle(items: NewRequest[]): Promise<number[]> {
+  if (items.length === 0) throw new Error("createBundle: empty bundle");
+  return transact(async (c, changes) => {
+    const ids: number[] = [];
+    for (const r of items) ids.push(await insertRequest(c, changes, r, ids[0] ?? null));
+    await c.query("UPDATE requests SET bundle_id=$1 WHERE id=$1", [ids[0]]);
+    return ids;
+  });
+}
+
+export async function getRequest(id: number): Promise<RequestRow | null> {
+  const { rows } = await query<RequestRow>("SELECT * FROM requests WHERE id=$1", [id]);
+  return rows[0] ?? null;
+}
+
+/** Every row of the bundle `id` belongs to, in asset order. */
+export async function getBundle(id: number): Promise<RequestRow[]> {
+  const { rows } = await query<RequestRow>(
+    `SELECT r.* FROM requests r, (SELECT COALESCE(bundle_id, id) AS b FROM requests WHERE id=$1) x
+      WHERE r.id = x.b OR r.bundle_id = x.b ORDER BY r.id`,
+    [id]
+  );
+  return rows;
+}
+
+/** An unfinished request for this address on this chain, if any. */
+export async function findInflight(address: string, chainId: number): Promise<number | null> {
+  const { rows } = await query<{ id: number }>(
+    "SELECT id FROM requests WHERE address=$1 AND chain_id=$2 AND status IN ('review','queued','broadcast','confirming') LIMIT 1",
+    [address, chainId]
+  );
+  return rows[0]?.id ?? null;
+}
+
+export type RequestSearch = {
+  address?: string;     // lowercased hex
+  txHash?: string;      // original or any replacement hash
+  status?: RequestStatus;
+  chainId?: number;
+  beforeId?: number;    // keyset page: rows with a smaller id
+  limit: number;
+};
+
+/** Newest first, for the admin search. */
+export async function searchRequests(s: RequestSearch): Promise<RequestRow[]> {
+  const params: unknown[] = [];
+  const where: string[] = [];
+  const add = (sql: (p: string) => string, v: unknown) => {
+    params.push(v);
+    where.push(sql(`$${params.length}`));
+  };
+  if (s.address) add(p => `address=${p}`, s.address);
+  if (s.txHash) add(p => `(tx_hash=${p} OR id IN (SELECT request_id FROM request_txs WHERE tx_hash=${p}))`, s.txHash);
+  if (s.status) add(p => `status=${p}`, s.status);
+  if (s.chainId !== undefined) add(p => `chain_id=${p}`, s.chainId);
+  if (s.beforeId !== undefined) add(p => `id < ${p}`, s.beforeId);
+  params.push(s.limit);
+  const { rows } = await query<RequestRow>(
+    `SELECT * FROM requests ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+      ORDER BY id DESC LIMIT $${params.length}`,
+    params
+  );
+  return rows;
+}
+
+export async function listEvents(id: number): Promise<RequestEventRow[]> {
+  const { rows } = await query<RequestEventRow>(
+    "SELECT * FROM request_events WHERE request_id=$1 ORDER BY id",
+    [id]
+  );
+  return rows;
+}
+
+/* ── Sending ───────────────────────────────────────────────────────── */
+export type SignedTx = {
+  txHash: string;
+  nonce: number;
+  gasLimit: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+};
+
+/** Stored form of SignedTx (NUMERIC/BIGINT come back as strings). */
+export type SignedTxRow = {
+  tx_hash: string;
+  nonce: string;
+  gas_limit: string;
+  max_fee_per_gas: string;
+  max_priority_fee_per_gas: string;
+};
+
+async function insertSignedTx(c: Queryable, id: number, tx: SignedTx, kind: "original" | "replacement") {
+  await c.query(
+    `INSERT INTO request_txs (request_id, tx_hash, nonce, gas_limit, max_fee_per_gas, max_priority_fee_per_gas, kind)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [id, tx.txHash, tx.nonce, tx.gasLimit.toString(), tx.maxFeePerGas.toString(), tx.maxPriorityFeePerGas.toString(), kind]
+  );
+}
+
+/** A job that failed earlier is being retried. */
+export async function requeue(id: number, note?: string): Promise<boolean> {
+  return apply(id, { from: ["failed"], to: "queued", set: { reason: null }, reason: note ?? null });
+}
+
+/**
+ * Write-ahead: record the signed tx before it is broadcast, spending `budget` in the
+ * same transaction. Throws (nothing recorded) if a budget window would go over its cap.
+ * The charge is kept on the row so a tx that never goes out can be refunded.
+ */
+export async function markBroadcast(
+  id: number,
+  sender: string,
+  tx: SignedTx,
+  budget?: { chain: Pick<ChainConfig, "chainId" | "budget">; spend: BudgetSpend },
+): Promise<boolean> {
+  return transact(async (c, changes) => {
+    const from = await transition(c, changes, id, {
+      from: ["queued"], to: "broadcast",
+      set: {
+        tx_hash: tx.txHash, nonce: tx.nonce, sender,
+        ...(budget && { budget_drips: budget.spend.drips, budget_wei: budget.spend.wei.toString() }),
+      },
+      setSql: ["broadcast_at=NOW()", ...(budget ? ["budget_at=NOW()"] : [])],
+    });
+    if (from === null) return false;
+    await insertSignedTx(c, id, tx, "original");
+    if (budget) {
+      const over = await consumeBudget(c, budget.chain, budget.spend);
+      if (over) throw new Error(`${over === "day" ? "daily" : "hourly"} budget exhausted`);
+    }
+    return true;
+  });
+}
+
+/** Give back what markBroadcast charged for `id`. Call after a transition has locked the row. */
+async function refundCharge(c: Queryable, id: number): Promise<void> {
+  const { rows } = await c.query<Pick<RequestRow, "chain_id" | "budget_drips" | "budget_wei" | "budget_at">>(
+    "SELECT chain_id, budget_drips, budget_wei, budget_at FROM requests WHERE id=$1 AND budget_at IS NOT NULL",
+    [id]
+  );
+  if (rows.length === 0) return;
+  const r = rows[0];
+  const spend = { drips: r.budget_drips ?? 0, wei: BigInt(r.budget_wei ?? 0) };
+  await refundBudget(c, r.chain_id, spend, new Date(r.budget_at!).toISOString());
+  await c.query("UPDATE requests SET budget_drips=NULL, budget_wei=NULL, budget_at=NULL WHERE id=$1", [id]);
+}
+
+/**
+ * The node refused the write-ahead tx: it never went out, so forget its hash and nonce
+ * and refund its budget charge (a retry charges again when it is re-signed).
+ * `retrying`: the job will run again, so this isn't the request's final failure.
+ */
+export async function abortBroadcast(id: number, txHash: string, reason: string, retrying = false): Promise<boolean> {
+  return transact(async (c, changes) => {
+    const from = await transition(c, changes, id, {
+      from: ["broadcast"], to: "failed", txHash, reason, eventTxHash: txHash, retrying,
+      set: { reason, tx_hash: null, nonce: null, broadcast_at: null },
+    });
+    if (from === null) return false;
+    await c.query("DELETE FROM request_txs WHERE tx_hash=$1", [txHash]);
+    await refundCharge(c, id);
+    return true;
+  });
+}
+
+/** Fee-bumped replacement of the current tx (same nonce). Status stays 'broadcast'. */
+export async function recordReplacement(id: number, prevHash: string, tx: SignedTx): Promise<boolean> {
+  return transact(async (c, changes) => {
+    const from = await transition(c, changes, id, {
+      from: ["broadcast"], to: "broadcast", txHash: prevHash, reason: `replaced ${prevHash}`,
+      set: { tx_hash: tx.txHash },
+      setSql: ["broadcast_at=NOW()", "replacements=replacements+1"],
+    });
+    if (from === null) return false;
+    await insertSignedTx(c, id, tx, "replacement");
+    return true;
+  });
+}
+
+/** Same tx sent again (node had dropped it); restarts the stuck timer. */
+export async function touchBroadcast(id: number): Promise<void> {
+  await query("UPDATE requests SET broadcast_at=NOW() WHERE id=$1 AND status='broadcast'", [id]);
+}
+
+type StatusEventRow = Pick<RequestEventRow, "id" | "request_id" | "from_status" | "to_status" | "tx_hash" | "reason" | "created_at">
+  & Pick<RequestRow, "bundle_id" | "chain_id" | "address">;
+
+const STATUS_EVENT_COLUMNS = `e.id, e.request_id, e.from_status, e.to_status, e.tx_hash, e.reason, e.created_at,
+  r.bundle_id, r.chain_id, r.address`;
+
+function toStatusEvent(r: StatusEventRow): StatusEvent {
+  return {
+    eventId: Number(r.id), requestId: r.request_id, bundleId: r.bundle_id, chainId: r.chain_id, address: r.address,
+    status: r.to_status, from: r.from_status, txHash: r.tx_hash, reason: r.reason, at: new Date(r.created_at).toISOString(),
+  };
+}
+
+function filterSql(f: StatusFilter): [string, unknown] {
+  return "requestId" in f ? ["(r.id=$1 OR r.bundle_id=$1)", f.requestId] : ["r.address=$1", f.address];
+}
+
+/** Events after `afterEventId` matching `f`, oldest first: replay for a reconnecting stream. */
+export async function statusEventsSince(f: StatusFilter, afterEventId: number, limit = 100): Promise<StatusEvent[]> {
+  const [where, value] = filterSql(f);
+  const { rows } = await query<StatusEventRow>(
+    `SELECT ${STATUS_EVENT_COLUMNS} FROM request_events e JOIN requests r ON r.id=e.request_id
+      WHERE ${where} AND e.id > $2 ORDER BY e.id LIMIT $3`,
+    [value, afterEventId, limit]
+  );
+  return rows.map(toStatusEvent);
+}
+
+/** The latest event of each row in the request's bundle: where a fresh stream starts. */
+export async function currentStatusEvents(requestId: number): Promise<StatusEvent[]> {
+  const { rows } = await query<StatusEventRow>(
+    `SELECT * FROM (
+       SELECT DISTINCT ON (e.request_id) ${STATUS_EVENT_COLUMNS}
+         FROM request_events e JOIN requests r ON r.id=e.request_id
+        WHERE r.id=$1 OR r.bundle_id=$1
+        ORDER BY e.request_id, e.id DESC
+     ) latest ORDER BY id`,
+    [requestId]
+  );
+  return rows.map(toStatusEvent);
+}
+
+/** Every hash signed for the request, newest first. */
+export async function listSignedTxs(id: number): Promise<SignedTxRow[]> {
+  const { rows } = await query<SignedTxRow>(
+    `SELECT tx_hash, nonce, gas_limit, max_fee_per_gas, max_priority_fee_per_gas
+       FROM request_txs WHERE request_id=$1 ORDER BY id DESC`,
+    [id]
+  );
+  return rows;
+}
+
+/** Has a write-ahead row (a request, or an airdrop item) claimed this nonce? */
+export async function nonceClaimed(chainId: number, sender: string, nonce: number): Promise<boolean> {
+  const { rows } = await query(
+    `SELECT 1 FROM requests WHERE chain_id=$1 AND sender=$2 AND nonce=$3 AND tx_hash IS NOT NULL
+     UNION ALL
+     SELECT 1 FROM airdrop_items i JOIN airdrops a ON a.id=i.airdrop_id
+      WHERE a.chain_id=$1 AND a.sender=$2 AND i.nonce=$3 AND i.tx_hash IS NOT NULL
+     LIMIT 1`,
+    [chainId, sender, nonce]
+  );
+  return rows.length > 0;
+}
+
+/* ── Outcomes ──────────────────────────────────────────────────────── */
+export type Mined = { txHash: string; blockNumber: number; blockHash: string };
+
+const MINED_FROM: RequestStatus[] = ["broadcast", "confirming", "sent"];
+
+/** Mined, not yet at confirmation depth (or moved to a shallower block by a reorg). */
+export async function markConfirming(id: number, m: Mined): Promise<boolean> {
+  return apply(id, {
+    from: MINED_FROM, to: "confirming",
+    set: { tx_hash: m.txHash, block_number: m.blockNumber, block_hash: m.blockHash, confirmed_at: null },
+  });
+}
+
+/** At confirmation depth: delivered. */
+export async function markSent(id: number, m: Mined): Promise<boolean> {
+  return apply(id, {
+    from: MINED_FROM, to: "sent",
+    set: { tx_hash: m.txHash, block_number: m.blockNumber, block_hash: m.blockHash },
+    setSql: ["confirmed_at=COALESCE(confirmed_at, NOW())"],
+  });
+}
+
+export async function markReverted(id: number, m: Mined): Promise<boolean> {
+  const reason = "transaction reverted";
+  return apply(id, {
+    from: MINED_FROM, to: "failed", reason,
+    set: { reason, tx_hash: m.txHash, block_number: m.blockNumber, block_hash: m.blockHash },
+  });
+}
+
+/** The receipt vanished (reorg): back to 'broadcast' for the broadcast pass to resolve. */
+export async function markReorged(id: number, from: "confirming" | "sent", blockNumber: number): Promise<boolean> {
+  return apply(id, {
+    from: [from], to: "broadcast", reason: `reorged out of block ${blockNumber}`,
+    set: { block_number: null, block_hash: null, confirmed_at: null },
+    setSql: ["broadcast_at=NOW()"],
+  });
+}
+
+/** Reason prefix of requests an operator cancelled; the worker never requeues those. */
+export const CANCELLED_BY_ADMIN = "cancelled by admin";
+
+/**
+ * Terminal failure. `from` defaults to 'queued' (rejected before signing); pass
+ * ['broadcast'] for a signed tx whose nonce was consumed by something else (dropped:
+ * it never mined, so its budget charge is given back). `retrying`: the job will run
+ * again and requeue the row, so no request.failed webhook yet.
+ */
+export async function markFailed(id: number, reason: string, from: RequestStatus[] = ["queued"], retrying = false): Promise<boolean> {
+  return transact(async (c, changes) => {
+    const left = await transition(c, changes, id, { from, to: "failed", reason, set: { reason }, retrying });
+    if (left === "broadcast") await refundCharge(c, id);
+    return left !== null;
+  });
+}
+
+/**
+ * Settle a held bundle: release every row still in 'review' to 'queued', or reject it
+ * to 'failed' with `reason`. Returns the ids that moved (empty if the bundle wasn't held).
+ */
+export async function resolveReview(id: number, decision: { release: true; note: string } | { release: false; reason: string }): Promise<number[]> {
+  return transact(async (c, changes) => {
+    const { rows } = await c.query<{ id: number }>(
+      `SELECT r.id FROM requests r, (SELECT COALESCE(bundle_id, id) AS b FROM requests WHERE id=$1) x
+        WHERE (r.id = x.b OR r.bundle_id = x.b) AND r.status='review' ORDER BY r.id`,
+      [id]
+    );
+    const moved: number[] = [];
+    for (const r of rows) {
+      const from = decision.release
+        ? await transition(c, changes, r.id, { from: ["review"], to: "queued", reason: decision.note })
+        : await transition(c, changes, r.id, { from: ["review"], to: "failed", reason: decision.reason, set: { reason: decision.reason } });
+      if (from !== null) moved.push(r.id);
+    }
+    return moved;
+  });
+}
+
+/** Requests created in the last `windowSec`, and how many of them failed, per chain. */
+export async function failureRates(windowSec: number): Promise<Array<{ chainId: number; total: number; failed: number }>> {
+  const { rows } = await query<{ chain_id: number; total: string; failed: string }>(
+    `SELECT chain_id, COUNT(*) AS total, COUNT(*) FILTER (WHERE status='failed') AS failed
+       FROM requests WHERE created_at >= NOW() - make_interval(secs => $1)
+      GROUP BY chain_id`,
+    [windowSec]
+  );
+  return rows.map(r => ({ chainId: Number(r.chain_id), total: Number(r.total), failed: Number(r.failed) }));
+}
+
+/* ── Reconciler reads ──────────────────────────────────────────────── */
+export type BroadcastRow = {
+  id: number;
+  tx_hash: string | null;
+  nonce: string | null;   // NULL on rows broadcast before the nonce allocator
+  address: string;
+  asset: string;
+  amount: string | null;
+  replacements: number;
+  correlation_id: string | null;
+  age_ms: number;         // since last (re)broadcast
+};
+
+/** Keyset page of 'broadcast' rows on a chain, oldest id first. */
+export async function listBroadcast(chainId: number, afterId: number, limit: number): Promise<BroadcastRow[]> {
+  const { rows } = await query<BroadcastRow>(
+    `SELECT id, tx_hash, nonce, address, asset, amount, replacements, correlation_id,
+            EXTRACT(EPOCH FROM (NOW() - COALESCE(broadcast_at, created_at))) * 1000 AS age_ms
+       FROM requests
+      WHERE status='broadcast' AND chain_id=$1 AND id > $2
+      ORDER BY id ASC LIMIT $3`,
+    [chainId, afterId, limit]
+  );
+  return rows.map(r => ({ ...r, age_ms: Number(r.age_ms) }));
+}
+
+export type MinedRow = {
+  id: number;
+  status: "confirming" | "sent";
+  tx_hash: string;
+  block_number: string;   // BIGINT comes back as string
+  block_hash: string;
+  correlation_id: string | null;
+};
+
+/**
+ * Every 'confirming' row, however deep (it still has to reach 'sent'), and 'sent' rows
+ * mined above `afterBlock`; oldest block first.
+ */
+export async function listUnfinalized(chainId: number, afterBlock: number, limit: number): Promise<MinedRow[]> {
+  const { rows } = await query<MinedRow>(
+    `SELECT id, status, tx_hash, block_number, block_hash, correlation_id FROM requests
+      WHERE chain_id=$1 AND (status='confirming' OR (status='sent' AND block_number > $2))
+      ORDER BY block_number ASC LIMIT $3`,
+    [chainId, afterBlock, limit]
+  );
+  return rows;
+}
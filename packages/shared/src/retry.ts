@@ -1,4 +1,12 @@
 // packages/shared/src/retry.ts
+import { metrics } from "./metrics";
+
+const rpcDuration = metrics.histogram(
+  "faucet_rpc_call_duration_seconds",
+  "Latency of single RPC attempts made through retryRpc, by outcome",
+  [0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+);
+const rpcErrors = metrics.counter("faucet_rpc_errors_total", "Failed RPC attempts, by whether retryRpc retried or gave up");
 
 const sleep = (ms: number) => new Promise<void>(r => setTimeout(r, ms));
 
@@ -32,6 +40,16 @@ export function isRetryableError(error: any): boolean {
   return false;
 }
 
+/**
+ * Delay before retry number `attempt` (0-based): baseDelayMs * 2^attempt, plus 10–25%
+ * jitter, capped at maxDelayMs. Shared with the webhook delivery queue.
+ */
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs = 15_000): number {
+  const base = Math.min(baseDelayMs * (2 ** attempt), maxDelayMs);
+  const jitterMult = 1.10 + Math.random() * 0.15; // 1.10–1.25
+  return Math.min(Math.floor(base * jitterMult), maxDelayMs);
+}
+
 /**
  * Retry an RPC call with exponential backoff + jitter.
  * - baseDelayMs * (2 ** attempt), jitter +10–25%, capped at 15s
@@ -42,13 +60,17 @@ export async function retryRpc<T>(
   maxRetries = 3,
   baseDelayMs = 500
 ): Promise<T> {
-  const MAX_DELAY_MS = 15_000;
   let attempt = 0;
 
   while (true) {
+    const started = performance.now();
+    const elapsed = () => (performance.now() - started) / 1000;
     try {
-      return await fn();
+      const result = await fn();
+      rpcDuration.observe({ outcome: "ok" }, elapsed());
+      return result;
     } catch (err: any) {
+      rpcDuration.observe({ outcome: "error" }, elapsed());
       const status = toStatus(err);
       const code = toCode(err);
       const msg  = toMsg(err);
@@ -58,12 +80,13 @@ export async function retryRpc<T>(
         code.includes("CALL_EXCEPTION") || code.includes("UNPREDICTABLE_GAS_LIMIT") ||
         /revert|execution reverted|invalid argument|invalid address|insufficient funds|bad response/i.test(msg);
 
-      if (failFast || attempt >= maxRetries || !isRetryableError(err)) throw err;
+      if (failFast || attempt >= maxRetries || !isRetryableError(err)) {
+        rpcErrors.inc({ action: "gave_up" });
+        throw err;
+      }
+      rpcErrors.inc({ action: "retried" });
 
-      const base = Math.min(baseDelayMs * (2 ** attempt), MAX_DELAY_MS);
-      const jitterMult = 1.10 + Math.random() * 0.15; // 1.10–1.25
-      const delay = Math.min(Math.floor(base * jitterMult), MAX_DELAY_MS);
-      await sleep(delay);
+      await sleep(backoffDelay(attempt, baseDelayMs));
       attempt++;
     }
   }
@@ -0,0 +1,34 @@
+import { bindingMismatch, sessionPolicyFromEnv, slidingExpiry } from "./sessionPolicy";
+
+describe("session policy", () => {
+  it("slides the idle expiry but never past the absolute lifetime", () => {
+    const now = new Date("2026-01-01T00:00:00Z");
+    const max = new Date("2026-01-01T12:00:00Z");
+    expect(slidingExpiry(now, 3_600, max).toISOString()).toBe("2026-01-01T01:00:00.000Z");
+    expect(slidingExpiry(new Date("2026-01-01T11:30:00Z"), 3_600, max)).toEqual(max);
+  });
+
+  it("refuses tokens used from another IP or user agent only when bound", () => {
+    const issued = { ip: "198.51.100.1", userAgent: "Firefox" };
+    const elsewhere = { ip: "203.0.113.9", userAgent: "curl" };
+    expect(bindingMismatch([], issued, elsewhere)).toBeNull();
+    expect(bindingMismatch(["ip"], issued, elsewhere)).toMatch(/IP/);
+    expect(bindingMismatch(["user-agent"], issued, { ...issued, userAgent: "curl" })).toMatch(/user agent/);
+    expect(bindingMismatch(["ip", "user-agent"], issued, { ...issued })).toBeNull();
+  });
+
+  it("reads limits and bindings from env", () => {
+    process.env.SESSION_TTL_SEC = "600";
+    process.env.SESSION_MAX_AGE_SEC = "60";
+    process.env.SESSION_BIND = "ip, User-Agent";
+    try {
+      expect(sessionPolicyFromEnv()).toMatchObject({ ttlSec: 600, maxAgeSec: 600, maxPerAddress: 5, bind: ["ip", "user-agent"] });
+      process.env.SESSION_BIND = "cookie";
+      expect(() => sessionPolicyFromEnv()).toThrow(/unknown binding/);
+    } finally {
+      delete process.env.SESSION_TTL_SEC;
+      delete process.env.SESSION_MAX_AGE_SEC;
+      delete process.env.SESSION_BIND;
+    }
+  });
+});
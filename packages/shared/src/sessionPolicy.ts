@@ -0,0 +1,60 @@
+// packages/shared/src/sessionPolicy.ts
+// How long bearer sessions live and what they are bound to. Pure — the store lives
+// in sessionRepo.ts.
+// - Sliding expiry: each use pushes expires_at to now + ttl, never past the absolute
+//   lifetime fixed at sign-in (rotation keeps it too, so a session can't live forever).
+// - Per-address limit: signing in again past the limit evicts the oldest sessions.
+// - Optional binding: a token presented from another IP / user agent is refused.
+
+import { getIntEnv, getListEnv } from "./env";
+
+export type SessionBinding = "ip" | "user-agent";
+
+export type SessionPolicy = {
+  ttlSec: number;           // idle lifetime, renewed on use
+  maxAgeSec: number;        // absolute lifetime from sign-in
+  touchIntervalSec: number; // renew at most this often (saves a write per request)
+  maxPerAddress: number;    // live sessions one address may hold
+  bind: SessionBinding[];
+};
+
+/** Where a request comes from, as far as binding is concerned. */
+export type SessionClient = { ip: string; userAgent: string | null };
+
+/**
+ *   SESSION_TTL_SEC              idle lifetime (default 86400)
+ *   SESSION_MAX_AGE_SEC          absolute lifetime (default 7 days, at least the TTL)
+ *   SESSION_TOUCH_INTERVAL_SEC   (default 60)
+ *   SESSION_MAX_PER_ADDRESS      (default 5)
+ *   SESSION_BIND                 comma-separated: ip, user-agent (default none)
+ */
+export function sessionPolicyFromEnv(): SessionPolicy {
+  const ttlSec = getIntEnv("SESSION_TTL_SEC", 86_400);
+  const bind = getListEnv("SESSION_BIND").map(b => b.toLowerCase());
+  for (const b of bind) {
+    if (b !== "ip" && b !== "user-agent") throw new Error(`SESSION_BIND: unknown binding "${b}" (ip, user-agent)`);
+  }
+  const maxPerAddress = getIntEnv("SESSION_MAX_PER_ADDRESS", 5);
+  if (ttlSec < 1 || maxPerAddress < 1) throw new Error("SESSION_TTL_SEC and SESSION_MAX_PER_ADDRESS must be positive");
+  return {
+    ttlSec,
+    maxAgeSec: Math.max(getIntEnv("SESSION_MAX_AGE_SEC", 7 * 86_400), ttlSec),
+    touchIntervalSec: getIntEnv("SESSION_TOUCH_INTERVAL_SEC", 60),
+    maxPerAddress,
+    bind: bind as SessionBinding[],
+  };
+}
+
+/** Idle expiry after a use at `now`, clamped to the absolute lifetime. */
+export function slidingExpiry(now: Date, ttlSec: number, maxExpiresAt: Date): Date {
+  return new Date(Math.min(now.getTime() + ttlSec * 1000, maxExpiresAt.getTime()));
+}
+
+/** Why `client` may not use a session issued to `issuedTo`, or null if it may. */
+export function bindingMismatch(bind: SessionBinding[], issuedTo: SessionClient, client: SessionClient): string | null {
+  if (bind.includes("ip") && issuedTo.ip !== client.ip) return "session bound to another IP";
+  if (bind.includes("user-agent") && (issuedTo.userAgent ?? "") !== (client.userAgent ?? "")) {
+    return "session bound to another user agent";
+  }
+  return null;
+}
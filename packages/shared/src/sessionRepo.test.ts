@@ -0,0 +1,36 @@
+import { query } from "./db";
+import { createSession, findSession, rotateSession } from "./sessionRepo";
+import type { SessionPolicy } from "./sessionPolicy";
+import { resetTestDb } from "./testDb";
+
+jest.mock("./db", () => require("./testDb").testDbModule());
+
+const ADDRESS = "0x00000000000000000000000000000000000000a1";
+const client = { ip: "198.51.100.1", userAgent: "Firefox" };
+// The absolute lifetime ends before the idle one, so every expiry is capped by it.
+const policy: SessionPolicy = { ttlSec: 7_200, maxAgeSec: 3_600, touchIntervalSec: 0, maxPerAddress: 5, bind: [] };
+
+describe("session repository", () => {
+  // A database away from UTC: zone-less times would be read in its offset.
+  beforeAll(() => query("SET TIME ZONE 'America/Sao_Paulo'"));
+  afterAll(() => query("RESET TIME ZONE"));
+  beforeEach(resetTestDb);
+
+  it("keeps the absolute lifetime across rotation and sliding", async () => {
+    const issued = await createSession(ADDRESS, client, policy);
+    const rotated = (await rotateSession(issued.id, client, policy))!;
+    expect(rotated.expiresAt).toBe(issued.expiresAt);
+
+    const found = await findSession(rotated.token, client, policy);
+    expect(found).toEqual({ ok: true, session: { id: rotated.id, address: ADDRESS, expiresAt: issued.expiresAt } });
+  });
+
+  it("refuses a session once its expiry has passed", async () => {
+    const issued = await createSession(ADDRESS, client, policy);
+    const anHourAgo = new Date(Date.now() - 3_600_000).toISOString();
+    await query("UPDATE sessions SET expires_at=$2 WHERE id=$1", [issued.id, anHourAgo]);
+
+    expect(await findSession(issued.token, client, policy)).toEqual({ ok: false, reason: "unauthorized" });
+    expect(await rotateSession(issued.id, client, policy)).toBeNull();
+  });
+});
@@ -0,0 +1,150 @@
+// packages/shared/src/sessionRepo.ts
+// Bearer sessions issued after SIWE. The token itself is never stored, only its sha256.
+// Lifecycle rules (sliding expiry, per-address limit, binding) come from sessionPolicy.ts.
+// Ended sessions are revoked, not deleted, until pruneSessions() clears old rows.
+
+import { getClient, query, type Queryable } from "./db";
+import { randHex, sha256Hex } from "./utils";
+import { bindingMismatch, slidingExpiry, type SessionClient, type SessionPolicy } from "./sessionPolicy";
+import type { SessionRow } from "./types";
+
+export type Session = { id: number; address: string; expiresAt: string };
+export type IssuedSession = { id: number; token: string; expiresAt: string };
+
+export type ResolvedSession =
+  | { ok: true; session: Session }
+  | { ok: false; reason: string };
+
+const newToken = () => randHex(32);
+
+/** Revoke the oldest live sessions so that `keep` remain. Caller holds the address lock. */
+async function evictOldest(c: Queryable, address: string, keep: number): Promise<void> {
+  await c.query(
+    `UPDATE sessions SET revoked_at=NOW(), revoke_reason='evicted'
+      WHERE id IN (
+        SELECT id FROM sessions
+         WHERE address=$1 AND revoked_at IS NULL AND expires_at > NOW()
+         ORDER BY created_at DESC, id DESC
+        OFFSET $2)`,
+    [address, keep]
+  );
+}
+
+async function insertSession(
+  c: Queryable,
+  s: { token: string; address: string; client: SessionClient; expiresAt: Date; maxExpiresAt: Date },
+): Promise<number> {
+  const { rows } = await c.query<{ id: number }>(
+    `INSERT INTO sessions (token_hash, address, ip, user_agent, expires_at, max_expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6) RETURNING id`,
+    [sha256Hex(s.token), s.address, s.client.ip, s.client.userAgent, s.expiresAt.toISOString(), s.maxExpiresAt.toISOString()]
+  );
+  return rows[0].id;
+}
+
+/** New session for a freshly verified address, evicting its oldest beyond the limit. */
+export async function createSession(address: string, client: SessionClient, policy: SessionPolicy): Promise<IssuedSession> {
+  const now = new Date();
+  const maxExpiresAt = new Date(now.getTime() + policy.maxAgeSec * 1000);
+  const expiresAt = slidingExpiry(now, policy.ttlSec, maxExpiresAt);
+  const token = newToken();
+  const { transaction } = await getClient();
+  const id = await transaction(async (c) => {
+    // Serialize sign-ins per address so concurrent ones can't both slip under the limit.
+    await c.query("SELECT pg_advisory_xact_lock(hashtext('session:' || $1))", [address]);
+    await evictOldest(c, address, policy.maxPerAddress - 1);
+    return insertSession(c, { token, address, client, expiresAt, maxExpiresAt });
+  });
+  return { id, token, expiresAt: expiresAt.toISOString() };
+}
+
+/**
+ * The live session for a token, checked against the policy's binding. A successful
+ * lookup slides the expiry forward (at most once per touch interval).
+ */
+export async function findSession(token: string, client: SessionClient, policy: SessionPolicy): Promise<ResolvedSession> {
+  const { rows } = await query<SessionRow>(
+    "SELECT * FROM sessions WHERE token_hash=$1 AND revoked_at IS NULL AND expires_at > NOW()",
+    [sha256Hex(token)]
+  );
+  if (rows.length === 0) return { ok: false, reason: "unauthorized" };
+  const row = rows[0];
+  const mismatch = bindingMismatch(policy.bind, { ip: row.ip, userAgent: row.user_agent }, client);
+  if (mismatch) return { ok: false, reason: mismatch };
+
+  let expiresAt = new Date(row.expires_at);
+  if (Date.now() - new Date(row.last_seen_at).getTime() >= policy.touchIntervalSec * 1000) {
+    expiresAt = slidingExpiry(new Date(), policy.ttlSec, new Date(row.max_expires_at));
+    await query(
+      "UPDATE sessions SET last_seen_at=NOW(), expires_at=GREATEST(expires_at, $2) WHERE id=$1",
+      [row.id, expiresAt.toISOString()]
+    );
+  }
+  return { ok: true, session: { id: row.id, address: row.address, expiresAt: expiresAt.toISOString() } };
+}
+
+/**
+ * Swap a live session for a new token with the same absolute lifetime. Null if the
+ * session was revoked or expired meanwhile (e.g. two rotations raced).
+ */
+export async function rotateSession(id: number, client: SessionClient, policy: SessionPolicy): Promise<IssuedSession | null> {
+  const token = newToken();
+  const { transaction } = await getClient();
+  return transaction(async (c) => {
+    const { rows } = await c.query<Pick<SessionRow, "address" | "max_expires_at">>(
+      `UPDATE sessions SET revoked_at=NOW(), revoke_reason='rotated'
+        WHERE id=$1 AND revoked_at IS NULL AND expires_at > NOW()
+        RETURNING address, max_expires_at`,
+      [id]
+    );
+    if (rows.length === 0) return null;
+    const maxExpiresAt = new Date(rows[0].max_expires_at);
+    const expiresAt = slidingExpiry(new Date(), policy.ttlSec, maxExpiresAt);
+    const newId = await insertSession(c, { token, address: rows[0].address, client, expiresAt, maxExpiresAt });
+    return { id: newId, token, expiresAt: expiresAt.toISOString() };
+  });
+}
+
+/** Revoke one session; with `address`, only if it belongs to that address. */
+export async function revokeSession(id: number, reason: string, address?: string): Promise<boolean> {
+  const { rows } = await query(
+    `UPDATE sessions SET revoked_at=NOW(), revoke_reason=$2
+      WHERE id=$1 AND revoked_at IS NULL AND ($3::text IS NULL OR address=$3)
+      RETURNING id`,
+    [id, reason, address ?? null]
+  );
+  return rows.length > 0;
+}
+
+/** Revoke every live session of an address (optionally sparing one). Returns how many. */
+export async function revokeAllSessions(address: string, reason: string, exceptId?: number): Promise<number> {
+  const { rows } = await query(
+    `UPDATE sessions SET revoked_at=NOW(), revoke_reason=$2
+      WHERE address=$1 AND revoked_at IS NULL AND expires_at > NOW() AND ($3::int IS NULL OR id <> $3)
+      RETURNING id`,
+    [address, reason, exceptId ?? null]
+  );
+  return rows.length;
+}
+
+/** Live sessions of an address, newest first. */
+export async function listSessions(address: string): Promise<SessionRow[]> {
+  const { rows } = await query<SessionRow>(
+    `SELECT * FROM sessions
+      WHERE address=$1 AND revoked_at IS NULL AND expires_at > NOW()
+      ORDER BY created_at DESC, id DESC`,
+    [address]
+  );
+  return rows;
+}
+
+/** Delete sessions that ended more than `olderThanSec` ago. */
+export async function pruneSessions(olderThanSec: number): Promise<number> {
+  const { rows } = await query(
+    `DELETE FROM sessions
+      WHERE LEAST(expires_at, COALESCE(revoked_at, expires_at)) < NOW() - make_interval(secs => $1)
+      RETURNING 1`,
+    [olderThanSec]
+  );
+  return rows.length;
+}
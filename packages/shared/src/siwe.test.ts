@@ -0,0 +1,60 @@
+import { buildSiweMessage, parseSiweMessage, validateSiweMessage, type SiweBuildOpts } from "./siwe";
+
+const ADDRESS = "0x52908400098527886E0F7030069857D2E4169EE7";
+const base: SiweBuildOpts = {
+  domain: "faucet.test",
+  address: ADDRESS,
+  statement: "Sign in to the faucet",
+  uri: "https://faucet.test/login",
+  chainId: 11155111,
+  nonce: "n0nce1234",
+  issuedAt: "2026-03-01T12:00:00.000Z",
+};
+const expect_ = { domain: "faucet.test", chainId: 11155111, address: ADDRESS.toLowerCase(), nonce: "n0nce1234", uri: "https://faucet.test" };
+
+describe("EIP-4361 messages", () => {
+  it("round-trips every field through build and parse", () => {
+    const full = {
+      ...base,
+      scheme: "https",
+      expirationTime: "2026-03-01T12:05:00Z",
+      notBefore: "2026-03-01T11:59:00+00:00",
+      requestId: "req-7",
+      resources: ["ipfs://bafybeiemxf5abjwjbikoz4mc3a3dla6ual3jsgpdr4cjr3oz3evfyavhwq", "https://faucet.test/terms"],
+    };
+    expect(parseSiweMessage(buildSiweMessage(full))).toEqual({ ...full, version: "1" });
+    const bare = parseSiweMessage(buildSiweMessage({ ...base, statement: null }));
+    expect(bare.statement).toBeUndefined();
+  });
+
+  it("accepts the two-blank-line form without a statement", () => {
+    const msg = buildSiweMessage({ ...base, statement: null }).replace(`${ADDRESS}\n\n`, `${ADDRESS}\n\n\n`);
+    expect(parseSiweMessage(msg).uri).toBe(base.uri);
+  });
+
+  it("rejects fields smuggled into the statement and anything off-grammar", () => {
+    // The old string-contains check accepted this: the statement mentions the right chain.
+    const smuggled = buildSiweMessage({ ...base, chainId: 1, statement: "Chain ID: 11155111" });
+    expect(validateSiweMessage(parseSiweMessage(smuggled), { ...expect_, now: new Date(base.issuedAt) })).toMatch(/chain ID mismatch/);
+
+    const msg = buildSiweMessage(base);
+    expect(() => parseSiweMessage(msg.replace(ADDRESS, ADDRESS.toLowerCase()))).toThrow(/EIP-55/);
+    expect(() => parseSiweMessage(msg.replace("Version: 1", "Version: 2"))).toThrow(/version/);
+    expect(() => parseSiweMessage(msg.replace("n0nce1234", "short"))).toThrow(/nonce/);
+    expect(() => parseSiweMessage(msg + "\nChain ID: 11155111")).toThrow(/unexpected line/);
+    expect(() => parseSiweMessage(msg.replace(/\n/g, "\r\n"))).toThrow(/LF/);
+    expect(() => parseSiweMessage(msg.replace("Issued At: 2026-03-01T12:00:00.000Z", "Issued At: yesterday"))).toThrow(/RFC 3339/);
+  });
+
+  it("checks bindings and the validity window", () => {
+    const at = (iso: string) => ({ ...expect_, maxAgeSec: 300, now: new Date(iso) });
+    const msg = parseSiweMessage(buildSiweMessage({ ...base, expirationTime: "2026-03-01T12:04:00Z", notBefore: "2026-03-01T12:03:00Z" }));
+    expect(validateSiweMessage(msg, at("2026-03-01T12:03:00Z"))).toBeNull();
+    expect(validateSiweMessage(msg, at("2026-03-01T12:01:00Z"))).toMatch(/not yet valid/);
+    expect(validateSiweMessage(msg, at("2026-03-01T12:05:30Z"))).toMatch(/expired/);
+    expect(validateSiweMessage(msg, at("2026-03-01T11:50:00Z"))).toMatch(/future/);
+    expect(validateSiweMessage(parseSiweMessage(buildSiweMessage(base)), at("2026-03-01T12:30:00Z"))).toMatch(/too old/);
+    expect(validateSiweMessage(msg, { ...at("2026-03-01T12:02:00Z"), uri: "https://evil.test" })).toMatch(/origin/);
+    expect(validateSiweMessage(msg, { ...at("2026-03-01T12:02:00Z"), domain: "evil.test" })).toMatch(/domain/);
+  });
+});
@@ -1,56 +1,198 @@
 // packages/shared/src/siwe.ts
-// Minimal, customizable SIWE (EIP-4361) helpers
-// - Build message string
-// - Extract nonce
-// - Validate bound fields (domain/chain/nonce/address)
+// Sign-In with Ethereum (EIP-4361) messages, by the grammar:
+// - buildSiweMessage():    every field, optional ones only when set
+// - parseSiweMessage():    strict line-by-line parse into a typed SiweMessage; throws on
+//                          anything the ABNF doesn't allow (extra lines, bad values, order)
+// - validateSiweMessage(): bind a parsed message to what this server expects and check
+//                          its issued-at / expiration / not-before window
+// Fields are compared after parsing, so text in the statement can't satisfy a check.
 
-export type SiweBuildOpts = {
-  domain: string;
-  address: string;   // 0x...
-  uri: string;       // your site origin
-  chainId: number;   // e.g., 11155111 (Sepolia)
-  statement: string; // human-readable intent text
-  nonce: string;     // random hex/string
-  issuedAt: string;  // ISO string
+import { ethers } from "ethers";
+
+export type SiweMessage = {
+  scheme?: string;          // e.g. "https"; optional prefix of the domain line
+  domain: string;           // RFC 3986 authority requesting the signature
+  address: string;          // EIP-55 checksummed
+  statement?: string;       // human-readable, single line
+  uri: string;              // RFC 3986 URI the sign-in is for
+  version: "1";
+  chainId: number;
+  nonce: string;            // >= 8 alphanumeric characters
+  issuedAt: string;         // RFC 3339
+  expirationTime?: string;  // RFC 3339
+  notBefore?: string;       // RFC 3339
+  requestId?: string;
+  resources?: string[];     // RFC 3986 URIs
 };
 
-/** Build an EIP-4361 canonical message suitable for personal_sign */
-export function buildSiweMessage(opts: SiweBuildOpts) {
-  const { domain, address, uri, chainId, statement, nonce, issuedAt } = opts;
-  return `${domain} wants you to sign in with your Ethereum account:
-${address}
+export type SiweBuildOpts = Omit<SiweMessage, "version" | "statement"> & { statement?: string | null };
+
+const HEADER_SUFFIX = " wants you to sign in with your Ethereum account:";
+const HEADER_RE = /^(?:([a-zA-Z][a-zA-Z0-9+.-]*):\/\/)?([^\s/?#]+)$/;
+const NONCE_RE = /^[a-zA-Z0-9]{8,}$/;
+const RFC3339_RE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i;
+
+/** Build an EIP-4361 message suitable for personal_sign. */
+export function buildSiweMessage(opts: SiweBuildOpts): string {
+  const lines = [
+    `${opts.scheme ? `${opts.scheme}://` : ""}${opts.domain}${HEADER_SUFFIX}`,
+    opts.address,
+    "",
+  ];
+  if (opts.statement) lines.push(opts.statement, "");
+  lines.push(
+    `URI: ${opts.uri}`,
+    "Version: 1",
+    `Chain ID: ${opts.chainId}`,
+    `Nonce: ${opts.nonce}`,
+    `Issued At: ${opts.issuedAt}`,
+  );
+  if (opts.expirationTime) lines.push(`Expiration Time: ${opts.expirationTime}`);
+  if (opts.notBefore) lines.push(`Not Before: ${opts.notBefore}`);
+  if (opts.requestId !== undefined) lines.push(`Request ID: ${opts.requestId}`);
+  if (opts.resources?.length) lines.push("Resources:", ...opts.resources.map(r => `- ${r}`));
+  const message = lines.join("\n");
+  parseSiweMessage(message); // never hand out something we would refuse to verify
+  return message;
+}
+
+function isUri(v: string): boolean {
+  if (/\s/.test(v)) return false;
+  try {
+    new URL(v);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isTimestamp(v: string): boolean {
+  return RFC3339_RE.test(v) && !Number.isNaN(Date.parse(v));
+}
+
+/** Parse `text` strictly; throws "invalid SIWE message: …" naming the first problem. */
+export function parseSiweMessage(text: string): SiweMessage {
+  const fail = (why: string): never => { throw new Error(`invalid SIWE message: ${why}`); };
+  if (text.includes("\r")) fail("line endings must be LF");
+  const lines = text.split("\n");
+  let i = 0;
+  const next = () => (i < lines.length ? lines[i++] : fail("unexpected end of message"));
+
+  const header = next();
+  if (!header.endsWith(HEADER_SUFFIX)) fail("first line must end with the sign-in phrase");
+  const hm = HEADER_RE.exec(header.slice(0, -HEADER_SUFFIX.length)) ?? fail("invalid domain");
+  const scheme = hm[1];
+  const domain = hm[2];
+
+  const address = next();
+  if (!ethers.isAddress(address) || ethers.getAddress(address) !== address) fail("address must be EIP-55 checksummed");
+  if (next() !== "") fail("expected a blank line after the address");
 
-${statement}
+  // Optional statement. Without one, wallets emit either one or two blank lines.
+  let statement: string | undefined;
+  if (lines[i] === "") {
+    i++;
+  } else if (!lines[i]?.startsWith("URI: ")) {
+    statement = next();
+    if (next() !== "") fail("expected a blank line after the statement");
+  }
+
+  const field = (name: string, optional = false): string | undefined => {
+    const prefix = `${name}: `;
+    if (i < lines.length && lines[i].startsWith(prefix)) return lines[i++].slice(prefix.length);
+    return optional ? undefined : fail(`missing "${name}"`);
+  };
+
+  const uri = field("URI")!;
+  if (!isUri(uri)) fail("URI is not an RFC 3986 URI");
+  if (field("Version") !== "1") fail("unsupported version");
+  const chainIdRaw = field("Chain ID")!;
+  const chainId = Number(chainIdRaw);
+  if (!/^\d+$/.test(chainIdRaw) || !Number.isSafeInteger(chainId)) fail("invalid chain ID");
+  const nonce = field("Nonce")!;
+  if (!NONCE_RE.test(nonce)) fail("nonce must be at least 8 alphanumeric characters");
+  const issuedAt = field("Issued At")!;
+  if (!isTimestamp(issuedAt)) fail("Issued At is not an RFC 3339 timestamp");
+
+  const expirationTime = field("Expiration Time", true);
+  if (expirationTime !== undefined && !isTimestamp(expirationTime)) fail("Expiration Time is not an RFC 3339 timestamp");
+  const notBefore = field("Not Before", true);
+  if (notBefore !== undefined && !isTimestamp(notBefore)) fail("Not Before is not an RFC 3339 timestamp");
+  const requestId = field("Request ID", true);
 
-URI: ${uri}
-Version: 1
-Chain ID: ${chainId}
-Nonce: ${nonce}
-Issued At: ${issuedAt}`;
+  let resources: string[] | undefined;
+  if (lines[i] === "Resources:") {
+    i++;
+    resources = [];
+    while (i < lines.length && lines[i].startsWith("- ")) {
+      const r = lines[i++].slice(2);
+      if (!isUri(r)) fail(`resource "${r}" is not an RFC 3986 URI`);
+      resources.push(r);
+    }
+  }
+  if (i < lines.length) fail(`unexpected line ${i + 1}: "${lines[i].slice(0, 40)}"`);
+
+  return {
+    ...(scheme !== undefined && { scheme }),
+    domain,
+    address,
+    ...(statement !== undefined && { statement }),
+    uri,
+    version: "1",
+    chainId,
+    nonce,
+    issuedAt,
+    ...(expirationTime !== undefined && { expirationTime }),
+    ...(notBefore !== undefined && { notBefore }),
+    ...(requestId !== undefined && { requestId }),
+    ...(resources !== undefined && { resources }),
+  };
 }
 
-/** Extracts the 'Nonce: ...' value from a SIWE message */
-export function extractNonce(message: string) {
-  const line = message.split("\n").find(l => l.startsWith("Nonce: "));
-  return line ? line.slice(7).trim() : null;
+/** The message's nonce, or null if it doesn't parse. */
+export function extractNonce(message: string): string | null {
+  try {
+    return parseSiweMessage(message).nonce;
+  } catch {
+    return null;
+  }
+}
+
+export type SiweExpect = {
+  domain: string;
+  chainId: number;
+  address?: string;         // any case
+  nonce?: string;
+  uri?: string;             // the message URI must share this origin
+  maxAgeSec?: number;       // reject messages issued longer ago than this
+  clockSkewSec?: number;    // tolerance for client clocks (default 60)
+  now?: Date;
+};
+
+/** Why `msg` does not bind to `expect` or is outside its validity window, or null. */
+export function validateSiweMessage(msg: SiweMessage, expect: SiweExpect): string | null {
+  if (msg.domain.toLowerCase() !== expect.domain.toLowerCase()) return `domain mismatch (${msg.domain})`;
+  if (msg.chainId !== expect.chainId) return `chain ID mismatch (${msg.chainId})`;
+  if (expect.address && msg.address.toLowerCase() !== expect.address.toLowerCase()) return "address mismatch";
+  if (expect.nonce !== undefined && msg.nonce !== expect.nonce) return "nonce mismatch";
+  if (expect.uri && new URL(msg.uri).origin !== new URL(expect.uri).origin) return `URI origin mismatch (${msg.uri})`;
+  if (msg.scheme && expect.uri && `${msg.scheme}:` !== new URL(expect.uri).protocol) return `scheme mismatch (${msg.scheme})`;
+
+  const now = (expect.now ?? new Date()).getTime();
+  const skew = (expect.clockSkewSec ?? 60) * 1000;
+  const issuedAt = Date.parse(msg.issuedAt);
+  if (issuedAt > now + skew) return "issued in the future";
+  if (expect.maxAgeSec !== undefined && now - issuedAt > expect.maxAgeSec * 1000 + skew) return "message too old";
+  if (msg.expirationTime && now >= Date.parse(msg.expirationTime) + skew) return "message expired";
+  if (msg.notBefore && now < Date.parse(msg.notBefore) - skew) return "message not yet valid";
+  return null;
 }
 
-/**
- * Validates that the message includes the values we expect to bind
- * (defense-in-depth against replay/cross-domain).
- */
-export function validateSiweBindings(
-  message: string,
-  expect: {
-    domain: string;
-    chainId: number;
-    address?: string; // optional: enforce address too
-    nonce?: string;   // optional: if you already know the exact nonce
+/** Boolean form for callers that only hold the raw message. */
+export function validateSiweBindings(message: string, expect: SiweExpect): boolean {
+  try {
+    return validateSiweMessage(parseSiweMessage(message), expect) === null;
+  } catch {
+    return false;
   }
-) {
-  const okDomain = message.startsWith(`${expect.domain} wants you to sign in`);
-  const okChain = message.includes(`Chain ID: ${expect.chainId}`);
-  const okAddr  = expect.address ? message.includes(`\n${expect.address}\n`) : true;
-  const okNonce = expect.nonce   ? message.includes(`Nonce: ${expect.nonce}`) : true;
-  return okDomain && okChain && okAddr && okNonce;
 }
@@ -14,7 +14,7 @@ describe("SIWE Adapter", () => {
       uri: "https://faucet.test",
       chainId: CHAIN_ID,
       statement: "Unit test",
-      nonce: "abc123",
+      nonce: "abc12345",
       issuedAt: new Date().toISOString()
     });
     const sig = await wallet.signMessage(msg);
@@ -38,7 +38,7 @@ describe("SIWE Adapter", () => {
       uri: "https://evil.com",
       chainId: CHAIN_ID,
       statement: "Unit test",
-      nonce: "123",
+      nonce: "12345678",
       issuedAt: new Date().toISOString()
     });
     const sig = await wallet.signMessage(msg);
@@ -1,17 +1,15 @@
 // packages/shared/src/siweAdapter.ts
 import { ethers } from "ethers";
-import { buildSiweMessage as buildManual, extractNonce, validateSiweBindings } from "./siwe";
+import {
+  buildSiweMessage as buildManual,
+  extractNonce,
+  parseSiweMessage,
+  validateSiweMessage,
+  type SiweBuildOpts,
+} from "./siwe";
 import { verify1271 } from "./verify1271";
 
-export type SiweBuildOpts = {
-  domain: string;
-  address: string;
-  uri: string;
-  chainId: number;
-  statement: string;
-  nonce: string;
-  issuedAt: string;
-};
+export type { SiweBuildOpts };
 
 export type Strategy = "manual" | "library" | "prefer-manual" | "prefer-library" | "both";
 
@@ -20,6 +18,8 @@ export type VerifyExpect = {
   chainId: number;
   address: string;       // expected signer (lowercased OK)
   exactNonce?: string;   // optional: assert this exact nonce is present
+  uri?: string;          // optional: message URI must share this origin
+  maxAgeSec?: number;    // optional: reject messages issued longer ago
 };
 
 export type VerifyResult = {
@@ -46,7 +46,11 @@ export async function buildSiweMessage(opts: SiweBuildOpts): Promise<string> {
       version: "1",
       chainId: opts.chainId,
       nonce: opts.nonce,
-      issuedAt: opts.issuedAt
+      issuedAt: opts.issuedAt,
+      expirationTime: opts.expirationTime,
+      notBefore: opts.notBefore,
+      requestId: opts.requestId,
+      resources: opts.resources
     });
     return msg.prepareMessage();
   } catch (e: any) {
@@ -59,23 +63,21 @@ export function getNonceFromMessage(message: string): string | null {
   return extractNonce(message);
 }
 
+/** Parse strictly, then bind to what we expect. */
 function checkBindings(message: string, expect: VerifyExpect): string | null {
-  const okBasic = validateSiweBindings(message, {
-    domain: expect.domain,
-    chainId: expect.chainId,
-    address: expect.address
-  });
-  if (!okBasic) return "binding check failed (domain/chain/address mismatch)";
-  if (expect.exactNonce) {
-    const okNonce = validateSiweBindings(message, {
+  try {
+    const why = validateSiweMessage(parseSiweMessage(message), {
       domain: expect.domain,
       chainId: expect.chainId,
       address: expect.address,
-      nonce: expect.exactNonce
+      nonce: expect.exactNonce,
+      uri: expect.uri,
+      maxAgeSec: expect.maxAgeSec
     });
-    if (!okNonce) return "binding check failed (nonce mismatch)";
+    return why && `binding check failed (${why})`;
+  } catch (e: any) {
+    return e?.message || String(e);
   }
-  return null;
 }
 
 /** Internal helpers that never throw; they return {ok, ... , trace}. */
@@ -149,7 +151,7 @@ export async function verifySiwe(
   strategy: Strategy = "prefer-manual"
 ): Promise<VerifyResult> {
   const pre = checkBindings(message, expect);
-  if (pre) return { ok: false, error: pre, trace: ["bindings:fail"] };
+  if (pre) return { ok: false, error: pre, trace: [`bindings:fail ${pre}`] };
 
   // Manual-only / Library-only
   if (strategy === "manual") {
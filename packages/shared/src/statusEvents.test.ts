@@ -0,0 +1,31 @@
+import { decodeStatusEvent, matchesFilter, sseFrame, type StatusEvent } from "./statusEvents";
+
+const A = "0x1111111111111111111111111111111111111111";
+
+const event: StatusEvent = {
+  eventId: 7, requestId: 12, bundleId: 11, chainId: 11155111, address: A,
+  status: "broadcast", from: "queued", txHash: "0xabc", reason: null, at: "2024-01-01T00:00:00.000Z",
+};
+
+describe("status events", () => {
+  it("matches a request's whole bundle, or an address", () => {
+    expect(matchesFilter({ requestId: 12 }, event)).toBe(true);
+    expect(matchesFilter({ requestId: 11 }, event)).toBe(true);
+    expect(matchesFilter({ requestId: 13 }, event)).toBe(false);
+    expect(matchesFilter({ address: A }, event)).toBe(true);
+    expect(matchesFilter({ address: A.replace("1", "2") }, event)).toBe(false);
+  });
+
+  it("decodes only well-formed payloads", () => {
+    expect(decodeStatusEvent(JSON.stringify(event))).toEqual(event);
+    expect(decodeStatusEvent(JSON.stringify({ ...event, from: null, bundleId: null }))).not.toBeNull();
+    expect(decodeStatusEvent("{nope")).toBeNull();
+    expect(decodeStatusEvent(JSON.stringify({ ...event, status: "done" }))).toBeNull();
+    expect(decodeStatusEvent(JSON.stringify({ ...event, requestId: "12" }))).toBeNull();
+  });
+
+  it("formats SSE frames, splitting multi-line data", () => {
+    expect(sseFrame({ id: 7, event: "sent", data: "{}" })).toBe("id: 7\nevent: sent\ndata: {}\n\n");
+    expect(sseFrame({ data: "a\nb", retryMs: 5000 })).toBe("retry: 5000\ndata: a\ndata: b\n\n");
+  });
+});
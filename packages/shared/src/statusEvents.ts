@@ -0,0 +1,63 @@
+// packages/shared/src/statusEvents.ts
+// Request status changes as they travel from the DB writers to connected clients.
+// Pure — publishing and the per-process subscriber live in statusStream.ts.
+// - requestRepo publishes one StatusEvent per applied transition, after its commit
+// - every API process holds one Redis subscription on STATUS_CHANNEL and fans events
+//   out to its SSE clients through StatusFilter
+// - eventId is the request_events row id, so a reconnecting client's Last-Event-ID
+//   can be replayed from Postgres
+
+import type { RequestStatus } from "./types";
+
+export const STATUS_CHANNEL = "faucet:request-status";
+
+export type StatusEvent = {
+  eventId: number;          // request_events.id
+  requestId: number;
+  bundleId: number | null;  // first row of the user request; null on pre-bundle rows
+  chainId: number;
+  address: string;          // lowercased hex
+  status: RequestStatus;
+  from: RequestStatus | null; // null when the request was created
+  txHash: string | null;
+  reason: string | null;
+  at: string;               // ISO
+};
+
+/** What one client listens to: a request (and the rest of its bundle), or an address. */
+export type StatusFilter = { requestId: number } | { address: string };
+
+const STATUSES = new Set<RequestStatus>(["review", "queued", "broadcast", "confirming", "sent", "failed"]);
+
+export function matchesFilter(f: StatusFilter, e: StatusEvent): boolean {
+  if ("requestId" in f) return e.requestId === f.requestId || e.bundleId === f.requestId;
+  return e.address === f.address;
+}
+
+/** Parse a pub/sub payload; null for anything that isn't a well-formed event. */
+export function decodeStatusEvent(raw: string): StatusEvent | null {
+  let e: any;
+  try {
+    e = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  const int = (v: unknown) => Number.isSafeInteger(v);
+  const strOrNull = (v: unknown) => v === null || typeof v === "string";
+  const ok =
+    e && typeof e === "object" &&
+    int(e.eventId) && int(e.requestId) && int(e.chainId) && (e.bundleId === null || int(e.bundleId)) &&
+    typeof e.address === "string" && STATUSES.has(e.status) && (e.from === null || STATUSES.has(e.from)) &&
+    strOrNull(e.txHash) && strOrNull(e.reason) && typeof e.at === "string";
+  return ok ? (e as StatusEvent) : null;
+}
+
+/** One Server-Sent Events frame. Multi-line data is split per the spec. */
+export function sseFrame(f: { event?: string; data: string; id?: string | number; retryMs?: number }): string {
+  let out = "";
+  if (f.id !== undefined) out += `id: ${f.id}\n`;
+  if (f.event) out += `event: ${f.event}\n`;
+  if (f.retryMs !== undefined) out += `retry: ${f.retryMs}\n`;
+  for (const line of f.data.split(/\r?\n/)) out += `data: ${line}\n`;
+  return out + "\n";
+}
@@ -0,0 +1,75 @@
+// packages/shared/src/statusStream.ts
+// Redis pub/sub transport for StatusEvent (see statusEvents.ts).
+// - publishStatus: fire-and-forget; the DB row is the source of truth, so a lost
+//   publish only delays a client until its next reconnect replay or poll
+// - createStatusHub: one subscriber connection per process, opened on the first
+//   listener and closed with the last, fanning events out in-process
+
+import type IORedis from "ioredis";
+import { redis } from "./redis";
+import { logger } from "./logger";
+import { STATUS_CHANNEL, decodeStatusEvent, matchesFilter, type StatusEvent, type StatusFilter } from "./statusEvents";
+
+const log = logger.child({ component: "status-stream" });
+
+export function publishStatus(e: StatusEvent): void {
+  redis.publish(STATUS_CHANNEL, JSON.stringify(e)).catch((err) =>
+    log.warn("status publish failed", { requestId: e.requestId, status: e.status, err })
+  );
+}
+
+export interface StatusHub {
+  /** Call `listener` for every event matching `filter`; returns the unsubscribe. */
+  subscribe(filter: StatusFilter, listener: (e: StatusEvent) => void): () => void;
+  /** Listeners currently attached (gauges, connection caps). */
+  size(): number;
+  close(): Promise<void>;
+}
+
+/** `connect` makes the dedicated subscriber connection (a subscribed ioredis client can't run other commands). */
+export function createStatusHub(connect: () => IORedis = () => redis.duplicate()): StatusHub {
+  const listeners = new Set<{ filter: StatusFilter; listener: (e: StatusEvent) => void }>();
+  let sub: IORedis | null = null;
+
+  function open() {
+    const conn = connect();
+    conn.on("message", (channel: string, raw: string) => {
+      if (channel !== STATUS_CHANNEL) return;
+      const e = decodeStatusEvent(raw);
+      if (!e) return log.warn("dropping malformed status event", { raw: raw.slice(0, 200) });
+      for (const l of listeners) {
+        if (!matchesFilter(l.filter, e)) continue;
+        try {
+          l.listener(e);
+        } catch (err) {
+          log.error("status listener threw", { err });
+        }
+      }
+    });
+    conn.subscribe(STATUS_CHANNEL).catch((err) => log.error("status subscribe failed", { err }));
+    return conn;
+  }
+
+  function shut() {
+    const conn = sub;
+    sub = null;
+    return conn ? conn.quit().then(() => {}, () => conn.disconnect()) : Promise.resolve();
+  }
+
+  return {
+    subscribe(filter, listener) {
+      const entry = { filter, listener };
+      listeners.add(entry);
+      if (!sub) sub = open();
+      return () => {
+        listeners.delete(entry);
+        if (listeners.size === 0) void shut();
+      };
+    },
+    size: () => listeners.size,
+    async close() {
+      listeners.clear();
+      await shut();
+    },
+  };
+}
@@ -0,0 +1,65 @@
+// packages/shared/src/testDb.ts
+// In-process Postgres (PGlite) with every migration in sql/ applied, standing in for
+// db.ts in repository tests:
+//   jest.mock("./db", () => require("./testDb").testDbModule());
+// Results are parsed the way node-postgres does (BIGINT/NUMERIC as strings), so the
+// repositories see what they would in production. Test-only; not part of the build.
+// PGlite loads its WASM build with dynamic import(), so under jest run node with
+// --experimental-vm-modules (NODE_OPTIONS).
+
+import { join } from "node:path";
+import { PGlite, types } from "@electric-sql/pglite";
+import { loadMigrations } from "./migrations";
+
+type Result<T> = { rows: T[] };
+
+let db: Promise<PGlite> | null = null;
+
+function open(): Promise<PGlite> {
+  db ??= (async () => {
+    const pg = new PGlite({
+      parsers: {
+        [types.INT8]: (v: string) => v,
+        [types.NUMERIC]: (v: string) => v,
+      },
+    });
+    for (const m of loadMigrations(join(__dirname, "../../../sql"))) await pg.exec(m.up);
+    return pg;
+  })();
+  return db;
+}
+
+async function run<T>(q: Pick<PGlite, "query">, text: string, params?: unknown[]): Promise<Result<T>> {
+  const { rows } = await q.query<T>(text, params as any[]);
+  return { rows };
+}
+
+/** Drop every row (keeps the schema) between tests. */
+export async function resetTestDb(): Promise<void> {
+  const pg = await open();
+  const { rows } = await pg.query<{ tablename: string }>(
+    "SELECT tablename FROM pg_tables WHERE schemaname='public'"
+  );
+  if (rows.length) await pg.exec(`TRUNCATE ${rows.map(r => `"${r.tablename}"`).join(", ")} RESTART IDENTITY CASCADE`);
+}
+
+/** Module shape of db.ts. */
+export function testDbModule() {
+  const pool = { query: async <T>(text: string, params?: unknown[]) => run<T>(await open(), text, params) };
+  return {
+    pool,
+    query: pool.query,
+    async getClient() {
+      const pg = await open();
+      const client = { query: <T>(text: string, params?: unknown[]) => run<T>(pg, text, params) };
+      return {
+        client,
+        release: () => {},
+        transaction: <T>(fn: (c: typeof client) => Promise<T>) =>
+          pg.transaction((tx) => fn({ query: <R>(text: string, params?: unknown[]) => run<R>(tx, text, params) })),
+      };
+    },
+    dbHealthcheck: async () => true,
+    closePool: async () => {},
+  };
+}
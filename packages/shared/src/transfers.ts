@@ -0,0 +1,16 @@
+// packages/shared/src/transfers.ts
+import { ethers } from "ethers";
+import { ERC20_TRANSFER_ABI } from "./assets";
+
+const erc20Iface = new ethers.Interface(ERC20_TRANSFER_ABI);
+
+/**
+ * `to`/`value`/`data` for a drip. `asset` is the requests.asset key: "native"
+ * for a value transfer, otherwise the token address for an ERC-20 transfer() call.
+ * Deterministic, so the reconciler can re-sign the exact same tx later.
+ */
+export function transferRequest(asset: string, recipient: string, amount: bigint) {
+  return asset === "native"
+    ? { to: recipient, value: amount }
+    : { to: asset, value: 0n, data: erc20Iface.encodeFunctionData("transfer", [recipient, amount]) };
+}
@@ -1,15 +1,37 @@
+import type { DripAsset } from "./assets";
+import type { AmountRecord } from "./amountPolicy";
+
 // === Domain enums ===
-export type RequestStatus = "queued" | "sent" | "failed";
+// review: held by the abuse score until an admin releases (→ queued) or rejects (→ failed) it
+export type RequestStatus = "review" | "queued" | "broadcast" | "confirming" | "sent" | "failed";
 
-// === DB row types (match sql/001_init.sql) ===
+// === DB row types (match the migrations in sql/) ===
 export interface RequestRow {
   id: number;
   address: string;          // lowercased hex
+  chain_id: number;
   ip: string;               // plain IP (v4/v6)
   created_at: string;       // ISO timestamp
   status: RequestStatus;
   tx_hash: string | null;
   reason: string | null;
+  asset: string;            // "native" or lowercased token address
+  amount: string | null;    // base units
+  bundle_id: number | null; // id of the first row of the same user request
+  sender: string | null;    // faucet address that signed
+  nonce: number | null;     // assigned at signing time
+  broadcast_at: string | null; // last (re)broadcast, ISO
+  replacements: number;     // fee-bumped replacements sent so far
+  block_number: number | null; // block the receipt was seen in
+  block_hash: string | null;
+  confirmed_at: string | null; // reached confirmation depth, ISO
+  correlation_id: string | null; // API request that created the row (logs)
+  abuse_score: number | null;     // 0..100 at /drip; null before scoring existed
+  abuse_reasons: string[] | null; // what contributed to the score
+  amount_policy: AmountRecord | null; // how `amount` was chosen; null before amount policies
+  budget_drips: number | null;    // charged to the chain budget at broadcast; null = nothing / refunded
+  budget_wei: string | null;
+  budget_at: string | null;       // when it was charged (picks the windows), ISO
 }
 
 export interface NonceRow {
@@ -29,19 +51,129 @@ export interface SessionRow {
   ip: string;
   user_agent: string | null;
   created_at: string;       // ISO
-  expires_at: string;       // ISO
+  last_seen_at: string;     // ISO, last time the session was used (sliding expiry)
+  expires_at: string;       // ISO, idle expiry; moves forward with use
+  max_expires_at: string;   // ISO, absolute lifetime; expires_at never passes it
+  revoked_at: string | null;
+  revoke_reason: string | null; // logout | logout-all | rotated | evicted | admin
+}
+
+export interface RequestEventRow {
+  id: number;
+  request_id: number;
+  from_status: RequestStatus | null; // null for the creation event
+  to_status: RequestStatus;
+  reason: string | null;
+  tx_hash: string | null;
+  created_at: string;       // ISO
 }
 
 export interface BudgetRow {
-  d: string;                // YYYY-MM-DD
-  drips: number;
+  chain_id: number;
+  period: "day" | "hour";
+  d: string;                // window start, ISO (UTC)
+  drips: number;            // user requests sent (one per bundle)
+  wei: string;              // native coin sent, base units
+}
+
+export interface AirdropRow {
+  id: number;
+  name: string;
+  chain_id: number;
+  sender: string;           // lowercased signer address
+  mode: "direct" | "disperse";
+  csv_sha256: string;
+  created_at: string;
+  finished_at: string | null;
+}
+
+export type AirdropItemStatus = "pending" | "signed" | "sent" | "failed";
+
+export interface AirdropItemRow {
+  id: number;
+  airdrop_id: number;
+  line: number;
+  address: string;          // lowercased hex
+  asset: string;            // "native" or token address
+  amount: string;           // base units (NUMERIC comes back as string)
+  status: AirdropItemStatus;
+  nonce: number | null;
+  tx_hash: string | null;
+  raw_tx: string | null;    // signed tx, rebroadcast on resume
+  error: string | null;
+  updated_at: string;
+}
+
+export interface RateLimitOverrideRow {
+  id: number;
+  chain_id: number | null;  // null = every chain
+  dimension: "address" | "ip" | "subnet" | "session";
+  key_hash: string;
+  label: string;            // masked form of what the admin entered (overrideLabel())
+  action: "exempt" | "block";
+  reason: string | null;
+  expires_at: string | null;
+  created_by: string;
+  created_at: string;
+}
+
+export interface AllowlistRow {
+  address: string;          // lowercased hex
+  note: string | null;
+  created_at: string;       // ISO
+  expires_at: string | null; // ISO, null = never
+  revoked_at: string | null;
+}
+
+export interface WebhookEndpointRow {
+  id: number;
+  url: string;
+  secret: string;           // HMAC key; never returned by list endpoints
+  events: string[];         // event types, "<group>.*" or "*"
+  chain_id: number | null;  // null = every chain
+  description: string | null;
+  active: boolean;
+  created_by: string;
+  created_at: string;       // ISO
+}
+
+export interface WebhookDeliveryRow {
+  id: number;
+  endpoint_id: number;
+  event_key: string;
+  event_type: string;
+  payload: Record<string, unknown>; // the envelope as signed
+  status: "pending" | "delivered" | "failed";
+  attempts: number;
+  last_status_code: number | null;
+  last_error: string | null;
+  queued_at: string | null;
+  created_at: string;       // ISO
+  finished_at: string | null;
+}
+
+export interface WebhookAttemptRow {
+  id: number;
+  delivery_id: number;
+  attempt: number;          // 1-based
+  status_code: number | null;
+  error: string | null;
+  duration_ms: number;
+  created_at: string;       // ISO
 }
 
 // === Queue payloads ===
 export type DripJob = {
   requestId: number;
+  chainId: number;          // selects the chain's queue, signer and amount
   address: string;          // lowercased hex
   ip: string;
+  asset: DripAsset;         // native coin or ERC-20 transfer, one per job
+  correlationId?: string;   // from the /drip request; absent on jobs queued before logging
+};
+
+export type WebhookJob = {
+  deliveryId: number;
 };
 
 // === API-layer request/response contracts ===
@@ -49,15 +181,20 @@ export type DripJob = {
 
 export interface DripRequest {
   address: string;          // must match session wallet
-  signature: string;        // (not used on /drip in our flow, but OK to keep for future direct-verify)
-  message: string;          // SIWE message (same note as above)
+  signature?: string;       // optional: /drip authenticates by session; kept for future direct-verify
+  message?: string;         // SIWE message (same note as above)
   captchaToken: string;     // Turnstile/reCAPTCHA token
+  chainId?: number;         // defaults to the first chain in the registry
 }
 
 export interface DripResponse {
   ok: boolean;              // canonical success flag
   error?: string;           // present when ok=false
-  requestId?: number;       // present when ok=true
+  requestId?: number;       // present when ok=true (first row of the bundle)
+  requestIds?: number[];    // one per asset in the chain's bundle
+  retryAt?: string;         // ISO, when a refused request may be retried
+  limitedBy?: "address" | "ip" | "subnet" | "session"; // which rate limit refused it
+  review?: boolean;         // accepted but held for manual review before sending
 }
 
 // SIWE nonce issuance
@@ -88,12 +225,103 @@ export interface AuthVerifyResponse {
   expiresAt?: string;       // ISO
 }
 
+// Session management (the caller's own sessions)
+export interface SessionInfo {
+  id: number;
+  ip: string;
+  userAgent: string | null;
+  createdAt: string;        // ISO
+  lastSeenAt: string;       // ISO
+  expiresAt: string;        // ISO
+  current: boolean;         // the session making this request
+}
+
+export interface SessionsResponse {
+  ok: boolean;
+  error?: string;
+  sessions?: SessionInfo[];
+  revoked?: number;         // how many sessions a revoke call ended
+}
+
 // Eligibility check (token gate)
 export interface EligibilityResponse {
   ok: boolean;
   mode: "token-erc20" | "off" | "table" | "merkle";
   eligible: boolean;
+  source?: "token-erc20" | "table" | "merkle"; // gate that admitted the address
+  reason?: string;          // why not, when eligible=false
+  error?: string;
+}
+
+// Merkle allowlist proofs
+export interface MerkleProofResponse {
+  ok: boolean;
   error?: string;
+  root?: string;
+  name?: string;            // allowlist name given at build time
+  amount?: string;          // base units, "0" for plain allowlists
+  proof?: string[];
+  expiresAt?: string | null; // ISO
+}
+
+export interface MerkleVerifyRequest {
+  address: string;
+  root: string;
+  amount?: string;          // base units; defaults to "0"
+  proof: string[];
+}
+
+export interface MerkleVerifyResponse {
+  ok: boolean;
+  error?: string;
+  valid?: boolean;
+}
+
+// Chain registry (public subset)
+export interface ChainsResponse {
+  ok: boolean;
+  error?: string;
+  chains?: Array<{
+    key: string;
+    chainId: number;
+    name: string;
+    nativeSymbol: string;
+    dripAmount: string;
+    confirmations: number;
+    explorerUrl: string;
+    bundle: DripAsset[];
+  }>;
+}
+
+// Public settings the faucet page needs before it can render
+export interface FaucetConfigResponse {
+  ok: boolean;
+  error?: string;
+  siweChainId?: number;     // chain bound into SIWE messages
+  captcha?: {
+    provider: "off" | "turnstile" | "recaptcha-v2" | "recaptcha-v3" | "hcaptcha" | "local";
+    siteKey: string | null; // public widget key (remote providers)
+    action: string | null;  // widget action the API expects
+  };
+}
+
+// Status of the caller's own request, polled by the faucet page
+export interface RequestStatusResponse {
+  ok: boolean;
+  error?: string;
+  chainId?: number;
+  requests?: Array<{        // the whole bundle, in asset order
+    id: number;
+    asset: string;          // "native" or token address
+    amount: string | null;  // base units
+    status: RequestStatus;
+    txHash: string | null;
+    txUrl: string | null;   // explorer link, when the chain has one
+    reason: string | null;  // why it failed
+    createdAt: string;      // ISO
+    confirmedAt: string | null;
+  }>;
+  nextDripAt?: string | null; // ISO, when this wallet may drip again; null = now
 }
 
 // Admin metrics (read-only)
@@ -114,4 +342,94 @@ export interface AdminMetrics {
   };
   today?: { sent: number };
   lastHour?: { total: number; failed: number };
+  chains?: Array<{          // per-chain breakdown; top-level fields mirror the default chain
+    chainId: number;
+    name: string;
+    faucet: string | null;
+    faucetBalance: string | null; // native units
+    nativeSymbol: string;
+    queue: { waiting: number; active: number; delayed: number; failed: number; completed: number };
+    today: { sent: number };
+    paused: boolean;        // queue paused (circuit breaker or operator)
+    budget: Array<{
+      period: "day" | "hour";
+      resetsAt: string;     // ISO
+      drips: number;
+      maxDrips: number | null;   // null = uncapped
+      amount: string;       // native units sent in this window
+      maxAmount: string | null;
+    }>;
+    breaker: { open: boolean; since: string; reserve: string; balance: string } | null;
+  }>;
+}
+
+// Admin rate-limit overrides
+export interface RateLimitOverrideRequest {
+  dimension: "address" | "ip" | "subnet" | "session";
+  value: string;            // address, IP, IP or CIDR (subnet), or session token
+  action: "exempt" | "block";
+  chainId?: number | null;  // omit for every chain
+  reason?: string;
+  expiresAt?: string;       // ISO; omit for no expiry
+}
+
+export interface RateLimitOverridesResponse {
+  ok: boolean;
+  error?: string;
+  overrides?: RateLimitOverrideRow[];
+}
+
+// Admin request search, history and manual actions
+export interface AdminRequestsResponse {
+  ok: boolean;
+  error?: string;
+  requests?: RequestRow[];  // newest first
+  nextBefore?: number | null; // pass as ?before= for the next page
+}
+
+export interface AdminRequestResponse {
+  ok: boolean;
+  error?: string;
+  request?: RequestRow;
+  events?: RequestEventRow[]; // status history, oldest first
+  txs?: Array<{             // every hash signed for it, newest first
+    txHash: string;
+    nonce: string;
+    maxFeePerGas: string;   // wei
+    maxPriorityFeePerGas: string;
+  }>;
+}
+
+// Admin webhook endpoints
+export interface WebhookEndpointRequest {
+  url: string;
+  events: string[];         // e.g. ["request.*", "breaker.tripped"]
+  chainId?: number | null;  // omit for every chain
+  description?: string;
+}
+
+export interface WebhookEndpointsResponse {
+  ok: boolean;
+  error?: string;
+  endpoints?: Array<Omit<WebhookEndpointRow, "secret">>;
+  secret?: string;          // only in the response that created the endpoint
+}
+
+export interface WebhookDeliveriesResponse {
+  ok: boolean;
+  error?: string;
+  deliveries?: Array<WebhookDeliveryRow & { attemptLog: WebhookAttemptRow[] }>; // newest first
+}
+
+// Admin eligibility allowlist ("table" mode)
+export interface AllowlistRequest {
+  address: string;
+  note?: string;
+  expiresAt?: string;       // ISO; omit for no expiry
+}
+
+export interface AllowlistResponse {
+  ok: boolean;
+  error?: string;
+  entries?: AllowlistRow[];
 }
@@ -0,0 +1,24 @@
+// packages/shared/src/utils.ts
+import { createHash, randomBytes } from "node:crypto";
+
+/** Random hex string of `bytes` bytes (no 0x prefix). */
+export function randHex(bytes = 16): string {
+  return randomBytes(bytes).toString("hex");
+}
+
+/** sha256 hex digest — used for nonce/session/IP hashing before storage. */
+export function sha256Hex(input: string): string {
+  return createHash("sha256").update(input).digest("hex");
+}
+
+/** Lowercased 0x address, or null if it isn't a 20-byte hex address. */
+export function normalizeAddress(address: unknown): string | null {
+  if (typeof address !== "string") return null;
+  const a = address.trim().toLowerCase();
+  return /^0x[0-9a-f]{40}$/.test(a) ? a : null;
+}
+
+/** ISO timestamp `ms` milliseconds from now. */
+export function isoFromNow(ms: number): string {
+  return new Date(Date.now() + ms).toISOString();
+}
@@ -0,0 +1,198 @@
+import { EVM } from "@ethereumjs/evm";
+import { Address, bytesToHex, hexToBytes } from "@ethereumjs/util";
+import { ethers } from "ethers";
+import { ERC1271_MAGIC, ERC6492_VALIDATOR_BYTECODE, parseErc6492, verify1271, wrapErc6492 } from "./verify1271";
+
+/**
+ * Just enough of a chain for verify1271: contract code, eth_call to deployed
+ * contracts, and deployless eth_call (no `to`) running EIP-6492's validator,
+ * whose effect is emulated: deploy via the factory inside the call, then ask. The
+ * validator bytecode itself runs on a real EVM in the last test.
+ */
+class LocalChain {
+  wallets = new Map<string, ethers.BaseWallet>();      // contract address → owner key
+  keys = new Set<ethers.BaseWallet>();                 // owners the factory can deploy wallets for
+  calls = 0;
+  readonly factory = ethers.Wallet.createRandom().address;
+  private factoryIface = new ethers.Interface(["function deploy(address owner, bytes32 salt) returns (address)"]);
+  private walletIface = new ethers.Interface(["function isValidSignature(bytes32, bytes) view returns (bytes4)"]);
+
+  /** Counterfactual address the factory deploys `owner`'s wallet to. */
+  addressOf(owner: ethers.BaseWallet, salt: string) {
+    return ethers.getCreate2Address(this.factory, salt, ethers.keccak256(owner.address));
+  }
+  deployCalldata(owner: ethers.BaseWallet, salt: string) {
+    return this.factoryIface.encodeFunctionData("deploy", [owner.address, salt]);
+  }
+  deploy(owner: ethers.BaseWallet, salt: string, into = this.wallets) {
+    const addr = this.addressOf(owner, salt);
+    into.set(addr.toLowerCase(), owner);
+    return addr;
+  }
+
+  async getCode(address: string) {
+    return this.wallets.has(address.toLowerCase()) ? "0x6080" : "0x";
+  }
+
+  async call(tx: { to?: string; data: string }): Promise<string> {
+    this.calls++;
+    if (tx.to) return this.isValidSignature(this.wallets, tx.to, tx.data);
+
+    // Deployless ValidateSigOffchain(signer, hash, wrappedSig): state changes stay inside the call.
+    const state = new Map(this.wallets);
+    const [signer, hash, wrapped] = ethers.AbiCoder.defaultAbiCoder().decode(
+      ["address", "bytes32", "bytes"], "0x" + tx.data.slice(ERC6492_VALIDATOR_BYTECODE.length)
+    );
+    const parts = parseErc6492(wrapped)!;
+    if (!state.has(signer.toLowerCase())) {
+      const [owner, salt] = this.factoryIface.decodeFunctionData("deploy", parts.factoryCalldata);
+      const key = [...this.keys].find(k => k.address === owner);
+      if (parts.factory === this.factory && key) this.deploy(key, salt, state);
+    }
+    const ret = await this.isValidSignature(state, signer, this.walletIface.encodeFunctionData("isValidSignature", [hash, parts.signature]));
+    return ret.startsWith(ERC1271_MAGIC) ? "0x01" : "0x00";
+  }
+
+  private async isValidSignature(state: Map<string, ethers.BaseWallet>, to: string, data: string) {
+    const owner = state.get(to.toLowerCase());
+    if (!owner) return "0x";
+    const [hash, sig] = this.walletIface.decodeFunctionData("isValidSignature", data);
+    let signer = "";
+    try { signer = ethers.recoverAddress(hash, sig); } catch { /* malformed → invalid */ }
+    const word = (v: string) => ethers.zeroPadBytes(v, 32);
+    return signer === owner.address ? word(ERC1271_MAGIC) : word("0xffffffff");
+  }
+}
+
+/** Hand-assembled EVM code: hex chunks, with `@label` jump targets and `:label` PUSH1 references. */
+function assemble(...parts: string[]): string {
+  const labels = new Map<string, number>();
+  let at = 0;
+  for (const p of parts) {
+    if (p.startsWith("@")) labels.set(p.slice(1), at);
+    else at += p.startsWith(":") ? 2 : p.length / 2;
+  }
+  return "0x" + parts.filter(p => !p.startsWith("@"))
+    .map(p => (p.startsWith(":") ? "60" + labels.get(p.slice(1))!.toString(16).padStart(2, "0") : p))
+    .join("");
+}
+
+/** Init code returning `runtime` (no constructor). */
+const initCode = (runtime: string) => {
+  const len = (runtime.length - 2) / 2;
+  return "0x61" + len.toString(16).padStart(4, "0") + "80600c6000396000f3" + runtime.slice(2);
+};
+
+/** EIP-1271 wallet of one owner: isValidSignature(hash, 65-byte sig) → magic iff ecrecover == owner. */
+const walletRuntime = (owner: string) => assemble(
+  "600435600052",                   // mem[0]  = hash
+  "60a43560f81c602052",             // mem[32] = v (first byte of the sig's third word)
+  "606435604052", "608435606052",   // mem[64] = r, mem[96] = s
+  "60206080608060006001", "5afa50", // staticcall(gas, ecrecover, 0, 128, 128, 32)
+  "608051", "73" + owner.slice(2).toLowerCase(), "14", ":ok", "57",
+  "63ffffffff60e01b60005260206000f3",
+  "@ok", "5b", "63" + ERC1271_MAGIC.slice(2) + "60e01b60005260206000f3",
+);
+
+/** Factory: CREATE2 of `init` with the 32-byte calldata as salt. */
+const factoryRuntime = (init: string) => {
+  const len = ((init.length - 2) / 2).toString(16).padStart(4, "0");
+  return assemble("600035", "61" + len, "610015", "600039", "61" + len, "60006000f5", "00") + init.slice(2);
+};
+
+/** A real EVM (no chain): getCode, eth_call, and deployless eth_call whose effects are thrown away. */
+async function evmChain() {
+  const evm = await EVM.create();
+  const state = evm.stateManager;
+  const provider = {
+    async getCode(address: string) {
+      return bytesToHex(await state.getContractCode(Address.fromString(address)));
+    },
+    async call(tx: { to?: string; data: string }) {
+      await state.checkpoint();
+      try {
+        const { execResult } = await evm.runCall({
+          to: tx.to ? Address.fromString(tx.to) : undefined,
+          data: hexToBytes(tx.data),
+          gasLimit: 10_000_000n,
+        });
+        if (execResult.exceptionError) {
+          throw Object.assign(new Error(`execution reverted (${execResult.exceptionError.error})`), { code: "CALL_EXCEPTION" });
+        }
+        return bytesToHex(execResult.returnValue);
+      } finally {
+        await state.revert();
+      }
+    },
+  };
+  const put = (address: string, code: string) => state.putContractCode(Address.fromString(address), hexToBytes(code));
+  return { provider: provider as unknown as ethers.Provider, put };
+}
+
+const MESSAGE = "faucet.test wants you to sign in with your Ethereum account";
+const signAsOwner = (owner: ethers.BaseWallet) => owner.signingKey.sign(ethers.hashMessage(MESSAGE)).serialized;
+
+describe("verify1271", () => {
+  it("accepts the owner's signature on a deployed 1271 wallet and rejects others", async () => {
+    const chain = new LocalChain();
+    const owner = ethers.Wallet.createRandom();
+    const wallet = chain.deploy(owner, ethers.ZeroHash);
+    const provider = chain as unknown as ethers.Provider;
+
+    await expect(verify1271(provider, wallet, MESSAGE, signAsOwner(owner))).resolves.toBe(true);
+    await expect(verify1271(provider, wallet, MESSAGE, signAsOwner(ethers.Wallet.createRandom()))).resolves.toBe(false);
+    await expect(verify1271(provider, owner.address, MESSAGE, signAsOwner(owner))).resolves.toBe(false); // no code
+  });
+
+  it("verifies EIP-6492 signatures for an undeployed account without deploying it", async () => {
+    const chain = new LocalChain();
+    const owner = ethers.Wallet.createRandom();
+    chain.keys.add(owner);
+    const salt = ethers.id("salt-1");
+    const account = chain.addressOf(owner, salt);
+    const provider = chain as unknown as ethers.Provider;
+    const wrapped = wrapErc6492({ factory: chain.factory, factoryCalldata: chain.deployCalldata(owner, salt), signature: signAsOwner(owner) });
+
+    expect(parseErc6492(wrapped)?.factory).toBe(chain.factory);
+    await expect(verify1271(provider, account, MESSAGE, wrapped)).resolves.toBe(true);
+    expect(await chain.getCode(account)).toBe("0x");
+
+    const forged = wrapErc6492({ factory: chain.factory, factoryCalldata: chain.deployCalldata(owner, salt), signature: signAsOwner(ethers.Wallet.createRandom()) });
+    await expect(verify1271(provider, account, MESSAGE, forged)).resolves.toBe(false);
+
+    // Once deployed, the wrapper is unwrapped and the wallet asked directly.
+    chain.deploy(owner, salt);
+    await expect(verify1271(provider, account, "another message", wrapErc6492({ ...parseErc6492(wrapped)!, signature: owner.signingKey.sign(ethers.hashMessage("another message")).serialized }))).resolves.toBe(true);
+  });
+
+  it("caches answers per provider", async () => {
+    const chain = new LocalChain();
+    const owner = ethers.Wallet.createRandom();
+    const wallet = chain.deploy(owner, ethers.ZeroHash);
+    const provider = chain as unknown as ethers.Provider;
+    const sig = signAsOwner(owner);
+
+    await verify1271(provider, wallet, MESSAGE, sig);
+    await verify1271(provider, wallet, MESSAGE, sig);
+    expect(chain.calls).toBe(1);
+  });
+
+  it("runs ERC6492_VALIDATOR_BYTECODE itself: deploys through the factory inside the call, then asks the account", async () => {
+    const { provider, put } = await evmChain();
+    const owner = ethers.Wallet.createRandom();
+    const init = initCode(walletRuntime(owner.address));
+    const factory = ethers.Wallet.createRandom().address;
+    await put(factory, factoryRuntime(init));
+    const salt = ethers.id("salt-6492");
+    const account = ethers.getCreate2Address(factory, salt, ethers.keccak256(init));
+    const wrap = (signer: ethers.BaseWallet) => wrapErc6492({ factory, factoryCalldata: salt, signature: signAsOwner(signer) });
+
+    await expect(verify1271(provider, account, MESSAGE, wrap(owner))).resolves.toBe(true);
+    expect(await provider.getCode(account)).toBe("0x"); // deployed only inside the eth_call
+    await expect(verify1271(provider, account, MESSAGE, wrap(ethers.Wallet.createRandom()))).resolves.toBe(false);
+
+    // A factory call that doesn't produce the account makes the validator revert: invalid, not an error.
+    const elsewhere = wrapErc6492({ factory, factoryCalldata: ethers.id("other-salt"), signature: signAsOwner(owner) });
+    await expect(verify1271(provider, account, "another message", elsewhere)).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,162 @@
+// packages/shared/src/verify1271.ts
+// Contract-wallet signatures for SIWE (Safe, smart accounts):
+// - EIP-1271: deployed wallets answer isValidSignature(hash, sig) with 0x1626ba7e
+// - EIP-6492: a counterfactual (not yet deployed) account wraps its signature as
+//   abi.encode(factory, factoryCalldata, innerSig) ++ 0x6492…6492. It is checked with
+//   the EIP's ValidateSigOffchain contract in a deployless eth_call, which deploys the
+//   account inside the call and then asks it; nothing is sent on chain.
+// The hash is always the EIP-191 personal_sign hash of the SIWE message.
+// Definitive answers are cached per provider; RPC failures are thrown, never cached.
+
+import { ethers } from "ethers";
+import { retryRpc } from "./retry";
+import { getIntEnv } from "./env";
+
+export const ERC1271_MAGIC = "0x1626ba7e";
+export const ERC6492_SUFFIX = "0x6492649264926492649264926492649264926492649264926492649264926492";
+
+const ERC1271_IFACE = new ethers.Interface([
+  "function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)",
+]);
+const abi = ethers.AbiCoder.defaultAbiCoder();
+
+const CACHE_TTL_MS     = getIntEnv("VERIFY1271_CACHE_TTL_SEC", 300) * 1000;
+const NEG_CACHE_TTL_MS = getIntEnv("VERIFY1271_NEGATIVE_CACHE_TTL_SEC", 30) * 1000; // short: a wallet may deploy or add an owner
+const CACHE_MAX        = 1_000;
+
+// ValidateSigOffchain from EIP-6492 (constructor(address signer, bytes32 hash, bytes sig)),
+// run as deployless init code; it returns one byte, 0x01 if the signature is valid.
+export const ERC6492_VALIDATOR_BYTECODE =
+  "0x" +
+  "608060405234801561001057600080fd5b5060405161069438038061069483398101604081905261002f9161051e565b600061003c848484" +
+  "610048565b9050806000526001601ff35b60007f649264926492649264926492649264926492649264926492649264926492649261007483" +
+  "61040c565b036101e7576000606080848060200190518101906100929190610577565b60405192955090935091506000906001600160a01b" +
+  "038516906100b69085906105dd565b6000604051808303816000865af19150503d80600081146100f3576040519150601f19603f3d011682" +
+  "016040523d82523d6000602084013e6100f8565b606091505b50509050876001600160a01b03163b60000361016057806101605760405162" +
+  "461bcd60e51b815260206004820152601e60248201527f5369676e617475726556616c696461746f723a206465706c6f796d656e74000060" +
+  "448201526064015b60405180910390fd5b604051630b135d3f60e11b808252906001600160a01b038a1690631626ba7e90610190908b9087" +
+  "906004016105f9565b602060405180830381865afa1580156101ad573d6000803e3d6000fd5b505050506040513d601f19601f8201168201" +
+  "80604052508101906101d19190610633565b6001600160e01b03191614945050505050610405565b6001600160a01b0384163b1561027a57" +
+  "604051630b135d3f60e11b808252906001600160a01b03861690631626ba7e9061022790879087906004016105f9565b6020604051808303" +
+  "81865afa158015610244573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190610268919061063356" +
+  "5b6001600160e01b031916149050610405565b81516041146102df5760405162461bcd60e51b815260206004820152603a60248201526000" +
+  "8051602061067483398151915260448201527f3a20696e76616c6964207369676e6174757265206c656e6774680000000000006064820152" +
+  "608401610157565b6102e7610425565b5060208201516040808401518451859392600091859190811061030c5761030c61065d565b016020" +
+  "015160f81c9050601b811480159061032b57508060ff16601c14155b1561038c5760405162461bcd60e51b815260206004820152603b6024" +
+  "82015260008051602061067483398151915260448201527f3a20696e76616c6964207369676e617475726520762076616c75650000000000" +
+  "6064820152608401610157565b60408051600081526020810180835289905260ff8316918101919091526060810184905260808101839052" +
+  "6001600160a01b0389169060019060a0016020604051602081039080840390855afa1580156103ea573d6000803e3d6000fd5b5050506020" +
+  "60405103516001600160a01b0316149450505050505b9392505050565b600060208251101561041d57600080fd5b508051015190565b6040" +
+  "5180606001604052806003906020820280368337509192915050565b6001600160a01b038116811461045857600080fd5b50565b634e487b" +
+  "7160e01b600052604160045260246000fd5b60005b8381101561048c578181015183820152602001610474565b50506000910152565b6000" +
+  "82601f8301126104a657600080fd5b81516001600160401b038111156104bf576104bf61045b565b604051601f8201601f19908116603f01" +
+  "1681016001600160401b03811182821017156104ed576104ed61045b565b60405281815283820160200185101561050557600080fd5b6105" +
+  "16826020830160208701610471565b949350505050565b60008060006060848603121561053357600080fd5b835161053e81610443565b60" +
+  "20850151604086015191945092506001600160401b0381111561056157600080fd5b61056d86828701610495565b9150509250925092565b" +
+  "60008060006060848603121561058c57600080fd5b835161059781610443565b60208501519093506001600160401b038111156105b35760" +
+  "0080fd5b6105bf86828701610495565b604086015190935090506001600160401b0381111561056157600080fd5b600082516105ef818460" +
+  "208701610471565b9190910192915050565b828152604060208201526000825180604084015261061e816060850160208701610471565b60" +
+  "1f01601f1916919091016060019392505050565b60006020828403121561064557600080fd5b81516001600160e01b031981168114610405" +
+  "57600080fd5b634e487b7160e01b600052603260045260246000fdfe5369676e617475726556616c696461746f72237265636f7665725369" +
+  "676e6572";
+
+export type Erc6492Parts = { factory: string; factoryCalldata: string; signature: string };
+
+/** Split an EIP-6492 wrapped signature, or null if `signature` isn't one. */
+export function parseErc6492(signature: string): Erc6492Parts | null {
+  const sig = signature.toLowerCase();
+  if (!sig.endsWith(ERC6492_SUFFIX.slice(2)) || sig.length <= ERC6492_SUFFIX.length) return null;
+  try {
+    const [factory, factoryCalldata, inner] = abi.decode(["address", "bytes", "bytes"], sig.slice(0, -64));
+    return { factory, factoryCalldata, signature: inner };
+  } catch {
+    return null;
+  }
+}
+
+/** Wrap a signature for an undeployed account (what a smart-account SDK would produce). */
+export function wrapErc6492(p: Erc6492Parts): string {
+  return abi.encode(["address", "bytes", "bytes"], [p.factory, p.factoryCalldata, p.signature]) + ERC6492_SUFFIX.slice(2);
+}
+
+/* ── Cache ─────────────────────────────────────────────────────────── */
+type Cached = { valid: boolean; expiresAt: number };
+const caches = new WeakMap<ethers.Provider, Map<string, Cached>>();
+
+function cacheFor(provider: ethers.Provider): Map<string, Cached> {
+  let c = caches.get(provider);
+  if (!c) caches.set(provider, (c = new Map()));
+  return c;
+}
+
+function remember(cache: Map<string, Cached>, key: string, valid: boolean) {
+  if (cache.size >= CACHE_MAX) cache.delete(cache.keys().next().value!); // oldest first
+  cache.set(key, { valid, expiresAt: Date.now() + (valid ? CACHE_TTL_MS : NEG_CACHE_TTL_MS) });
+}
+
+/* ── Verification ──────────────────────────────────────────────────── */
+const isRevert = (e: any) => e?.code === "CALL_EXCEPTION";
+
+async function isValidSignature(provider: ethers.Provider, address: string, hash: string, signature: string): Promise<boolean> {
+  try {
+    const data = ERC1271_IFACE.encodeFunctionData("isValidSignature", [hash, signature]);
+    const ret = await retryRpc(() => provider.call({ to: address, data }));
+    return ret.length >= 10 && ret.slice(0, 10).toLowerCase() === ERC1271_MAGIC;
+  } catch (e) {
+    if (isRevert(e)) return false;
+    throw e;
+  }
+}
+
+async function validateOffchain(provider: ethers.Provider, address: string, hash: string, wrapped: string): Promise<boolean> {
+  try {
+    const data = ERC6492_VALIDATOR_BYTECODE + abi.encode(["address", "bytes32", "bytes"], [address, hash, wrapped]).slice(2);
+    const ret = await retryRpc(() => provider.call({ data }));
+    return ret === "0x01";
+  } catch (e) {
+    if (isRevert(e)) return false;
+    throw e;
+  }
+}
+
+/**
+ * True if the contract at `address` (deployed, or counterfactual with an EIP-6492
+ * signature) accepts `signature` for `hash`. False for addresses without code and
+ * unwrapped signatures, i.e. EOAs — those are recovered by the caller.
+ */
+export async function verifyContractSignature(
+  provider: ethers.Provider,
+  address: string,
+  hash: string,
+  signature: string,
+): Promise<boolean> {
+  const cache = cacheFor(provider);
+  const key = `${address.toLowerCase()}:${hash.toLowerCase()}:${ethers.keccak256(signature)}`;
+  const hit = cache.get(key);
+  if (hit && hit.expiresAt > Date.now()) return hit.valid;
+
+  const wrapped = parseErc6492(signature);
+  const code = await retryRpc(() => provider.getCode(address));
+  let valid: boolean;
+  if (code !== "0x") {
+    // Already deployed: the wrapper is redundant, ask the wallet directly.
+    valid = await isValidSignature(provider, address, hash, wrapped ? wrapped.signature : signature);
+  } else if (wrapped) {
+    valid = await validateOffchain(provider, address, hash, signature);
+  } else {
+    valid = false;
+  }
+  remember(cache, key, valid);
+  return valid;
+}
+
+/** SIWE entry point: `message` is hashed as an EIP-191 personal message. */
+export async function verify1271(
+  provider: ethers.Provider,
+  address: string,
+  message: string,
+  signature: string,
+): Promise<boolean> {
+  if (!ethers.isAddress(address) || !ethers.isHexString(signature)) return false;
+  return verifyContractSignature(provider, address, ethers.hashMessage(message), signature);
+}
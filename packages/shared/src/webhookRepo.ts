@@ -0,0 +1,156 @@
+// packages/shared/src/webhookRepo.ts
+// Webhook endpoints, the delivery outbox and its attempt log (sql/018_webhooks.sql).
+// emitWebhook() takes the caller's Queryable so a delivery commits (or rolls back) with
+// the change it announces; the worker picks pending rows up with claimDeliveries().
+
+import { pool, query, type Queryable } from "./db";
+import { randHex } from "./utils";
+import { eventPatterns, webhookEnvelope, type WebhookEventType } from "./webhooks";
+import type { WebhookAttemptRow, WebhookDeliveryRow, WebhookEndpointRow } from "./types";
+
+export type WebhookEndpoint = Omit<WebhookEndpointRow, "secret">;
+
+const ENDPOINT_COLUMNS = "id, url, events, chain_id, description, active, created_by, created_at";
+
+/* ── Endpoints ─────────────────────────────────────────────────────── */
+export async function listWebhookEndpoints(): Promise<WebhookEndpoint[]> {
+  const { rows } = await query<WebhookEndpoint>(`SELECT ${ENDPOINT_COLUMNS} FROM webhook_endpoints ORDER BY id`);
+  return rows;
+}
+
+/** New endpoint with a fresh signing secret, returned this once. */
+export async function createWebhookEndpoint(e: {
+  url: string;
+  events: string[];
+  chainId: number | null;
+  description: string | null;
+  createdBy: string;
+}): Promise<{ endpoint: WebhookEndpoint; secret: string }> {
+  const secret = `whsec_${randHex(24)}`;
+  const { rows } = await query<WebhookEndpoint>(
+    `INSERT INTO webhook_endpoints (url, secret, events, chain_id, description, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6) RETURNING ${ENDPOINT_COLUMNS}`,
+    [e.url, secret, e.events, e.chainId, e.description, e.createdBy]
+  );
+  return { endpoint: rows[0], secret };
+}
+
+/** Deleting drops its delivery log too; deactivate instead to keep history. */
+export async function deleteWebhookEndpoint(id: number): Promise<boolean> {
+  const { rows } = await query("DELETE FROM webhook_endpoints WHERE id=$1 RETURNING id", [id]);
+  return rows.length > 0;
+}
+
+export async function setWebhookEndpointActive(id: number, active: boolean): Promise<boolean> {
+  const { rows } = await query("UPDATE webhook_endpoints SET active=$2 WHERE id=$1 RETURNING id", [id, active]);
+  return rows.length > 0;
+}
+
+/* ── Outbox ────────────────────────────────────────────────────────── */
+/**
+ * Record `type` for every active endpoint subscribed to it (and to `chainId`), or for
+ * `endpointId` alone whatever its filter (test sends). `key` names the event: emitting
+ * the same key twice (two worker processes, a retried job) delivers once. Returns how
+ * many deliveries were created.
+ */
+export async function emitWebhook(
+  ev: { key: string; type: WebhookEventType; chainId: number | null; data: Record<string, unknown>; endpointId?: number },
+  c: Queryable = pool,
+): Promise<number> {
+  const envelope = webhookEnvelope(ev.key, ev.type, ev.chainId, ev.data);
+  const { rows } = await c.query(
+    `INSERT INTO webhook_deliveries (endpoint_id, event_key, event_type, payload)
+     SELECT id, $1, $2, $3 FROM webhook_endpoints
+      WHERE active AND CASE WHEN $6::int IS NULL
+              THEN events && $4::text[] AND (chain_id IS NULL OR $5::int IS NULL OR chain_id=$5)
+              ELSE id=$6 END
+     ON CONFLICT (endpoint_id, event_key) DO NOTHING
+     RETURNING id`,
+    [ev.key, ev.type, JSON.stringify(envelope), eventPatterns(ev.type), ev.chainId, ev.endpointId ?? null]
+  );
+  return rows.length;
+}
+
+/**
+ * Mark up to `limit` pending deliveries queued and return their ids. Rows queued more
+ * than `staleSec` ago are handed out again in case their enqueue was lost; the queue's
+ * job id dedupe makes that harmless for jobs that still exist.
+ */
+export async function claimDeliveries(limit: number, staleSec: number): Promise<number[]> {
+  const { rows } = await query<{ id: number }>(
+    `UPDATE webhook_deliveries SET queued_at=NOW()
+      WHERE id IN (
+        SELECT id FROM webhook_deliveries
+         WHERE status='pending' AND (queued_at IS NULL OR queued_at < NOW() - make_interval(secs => $2))
+         ORDER BY id LIMIT $1 FOR UPDATE SKIP LOCKED)
+      RETURNING id`,
+    [limit, staleSec]
+  );
+  return rows.map(r => r.id);
+}
+
+export type DeliveryWork = WebhookDeliveryRow & Pick<WebhookEndpointRow, "url" | "secret" | "active">;
+
+export async function getDelivery(id: number): Promise<DeliveryWork | null> {
+  const { rows } = await query<DeliveryWork>(
+    `SELECT d.*, e.url, e.secret, e.active FROM webhook_deliveries d
+       JOIN webhook_endpoints e ON e.id = d.endpoint_id
+      WHERE d.id=$1`,
+    [id]
+  );
+  return rows[0] ?? null;
+}
+
+/** Log one attempt; `done` settles the delivery (delivered/failed), otherwise it stays pending. */
+export async function recordAttempt(
+  id: number,
+  a: { statusCode: number | null; error: string | null; durationMs: number; done?: "delivered" | "failed" },
+): Promise<void> {
+  await query(
+    `WITH d AS (
+       UPDATE webhook_deliveries
+          SET attempts=attempts+1, last_status_code=$2, last_error=$3,
+              status=COALESCE($5, status), finished_at=CASE WHEN $5::text IS NULL THEN NULL ELSE NOW() END
+        WHERE id=$1 AND status='pending'
+        RETURNING attempts)
+     INSERT INTO webhook_attempts (delivery_id, attempt, status_code, error, duration_ms)
+     SELECT $1, attempts, $2, $3, $4 FROM d`,
+    [id, a.statusCode, a.error, a.durationMs, a.done ?? null]
+  );
+}
+
+/** Settle a delivery without an attempt (endpoint disabled or deleted meanwhile). */
+export async function failDelivery(id: number, reason: string): Promise<void> {
+  await query(
+    "UPDATE webhook_deliveries SET status='failed', last_error=$2, finished_at=NOW() WHERE id=$1 AND status='pending'",
+    [id, reason]
+  );
+}
+
+/** An endpoint's newest deliveries with their attempt logs. */
+export async function listDeliveries(
+  endpointId: number,
+  limit = 50,
+): Promise<Array<WebhookDeliveryRow & { attemptLog: WebhookAttemptRow[] }>> {
+  const { rows } = await query<WebhookDeliveryRow & { attemptLog: WebhookAttemptRow[] }>(
+    `SELECT d.*, COALESCE(
+              (SELECT json_agg(a ORDER BY a.id) FROM webhook_attempts a WHERE a.delivery_id = d.id), '[]'
+            ) AS "attemptLog"
+       FROM webhook_deliveries d
+      WHERE d.endpoint_id=$1
+      ORDER BY d.id DESC LIMIT $2`,
+    [endpointId, limit]
+  );
+  return rows;
+}
+
+/** Drop settled deliveries (and their attempts) older than `olderThanSec`. */
+export async function pruneDeliveries(olderThanSec: number): Promise<number> {
+  const { rows } = await query(
+    `DELETE FROM webhook_deliveries
+      WHERE status <> 'pending' AND finished_at < NOW() - make_interval(secs => $1)
+      RETURNING 1`,
+    [olderThanSec]
+  );
+  return rows.length;
+}
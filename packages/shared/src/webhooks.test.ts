@@ -0,0 +1,58 @@
+import { eventPatterns, parseEventFilter, parseWebhookUrl, signWebhook, verifyWebhookSignature, webhookEnvelope } from "./webhooks";
+
+const SECRET = "whsec_test";
+const BODY = JSON.stringify({ id: "evt_1", type: "request.sent" });
+
+describe("webhook signatures", () => {
+  it("round-trips and checks the timestamp window", () => {
+    const header = signWebhook(SECRET, BODY, 1_700_000_000);
+    expect(verifyWebhookSignature(SECRET, header, BODY, { nowSec: 1_700_000_100 })).toEqual({ ok: true });
+    expect(verifyWebhookSignature(SECRET, header, BODY, { nowSec: 1_700_000_301 }))
+      .toEqual({ ok: false, reason: "timestamp outside tolerance" });
+  });
+
+  it("rejects a tampered body, wrong secret or malformed header", () => {
+    const header = signWebhook(SECRET, BODY, 1_700_000_000);
+    const opts = { nowSec: 1_700_000_000 };
+    expect(verifyWebhookSignature(SECRET, header, BODY + " ", opts).ok).toBe(false);
+    expect(verifyWebhookSignature("whsec_other", header, BODY, opts).ok).toBe(false);
+    expect(verifyWebhookSignature(SECRET, undefined, BODY, opts)).toEqual({ ok: false, reason: "missing signature" });
+    expect(verifyWebhookSignature(SECRET, "v1=abc", BODY, opts)).toEqual({ ok: false, reason: "malformed signature" });
+  });
+
+  it("accepts any matching v1 (secret rotation)", () => {
+    const good = signWebhook(SECRET, BODY, 1_700_000_000).split(",")[1];
+    expect(verifyWebhookSignature(SECRET, `t=1700000000,v1=00ff,${good}`, BODY, { nowSec: 1_700_000_000 }).ok).toBe(true);
+  });
+});
+
+describe("webhook filters and envelopes", () => {
+  it("validates event filters", () => {
+    expect(parseEventFilter(["request.sent", "breaker.*", "request.sent"])).toEqual(["request.sent", "breaker.*"]);
+    expect(parseEventFilter(["*"])).toEqual(["*"]);
+    expect(() => parseEventFilter([])).toThrow();
+    expect(() => parseEventFilter(["request.queued"])).toThrow(/unknown webhook event/);
+    expect(() => parseEventFilter(["nope.*"])).toThrow();
+  });
+
+  it("lists the patterns selecting a type", () => {
+    expect(eventPatterns("balance.low")).toEqual(["balance.low", "balance.*", "*"]);
+  });
+
+  it("requires https unless http is allowed", () => {
+    expect(parseWebhookUrl("https://example.com/hook")).toBe("https://example.com/hook");
+    expect(() => parseWebhookUrl("http://localhost:4000/")).toThrow("url must be https");
+    expect(parseWebhookUrl("http://localhost:4000/", true)).toBe("http://localhost:4000/");
+    expect(() => parseWebhookUrl("ftp://example.com", true)).toThrow();
+    expect(() => parseWebhookUrl("https://u:p@example.com")).toThrow(/credentials/);
+    expect(() => parseWebhookUrl("not a url")).toThrow();
+  });
+
+  it("derives a stable id from the event key", () => {
+    const a = webhookEnvelope("request-event:42", "request.sent", 1, {}, new Date(0));
+    const b = webhookEnvelope("request-event:42", "request.sent", 1, {}, new Date(1));
+    expect(a.id).toBe(b.id);
+    expect(a.id).toMatch(/^evt_[0-9a-f]{24}$/);
+    expect(webhookEnvelope("request-event:43", "request.sent", 1, {}).id).not.toBe(a.id);
+  });
+});
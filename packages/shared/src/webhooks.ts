@@ -0,0 +1,110 @@
+// packages/shared/src/webhooks.ts
+// Outbound webhook contract. Pure — endpoints and deliveries live in webhookRepo.ts,
+// the delivery queue in apps/worker/src/webhooks.ts.
+// - event types below; an endpoint subscribes to types, "<group>.*" or "*"
+// - body: { id, type, createdAt, chainId, data }; `id` is stable per event, so a
+//   receiver can drop redeliveries
+// - header X-Faucet-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256(secret, "<t>.<body>")>
+//   Receivers recompute it over the raw body and reject stale timestamps (replays).
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { sha256Hex } from "./utils";
+
+export const WEBHOOK_EVENTS = [
+  "request.sent",       // delivered at confirmation depth; once per request
+  "request.failed",     // terminal failure (reverted, rejected, cancelled, out of retries)
+  "balance.low",        // faucet balance nearing the chain's reserve
+  "breaker.tripped",    // balance below reserve: chain queue paused
+  "breaker.resumed",    // refilled: queue running again
+  "failure_rate.spike", // share of failed requests over the alert threshold
+  "webhook.test",       // sent on demand from the admin API
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number];
+
+export const SIGNATURE_HEADER = "X-Faucet-Signature";
+export const DEFAULT_TOLERANCE_SEC = 300;
+
+export type WebhookEnvelope<T = Record<string, unknown>> = {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;        // ISO
+  chainId: number | null;
+  data: T;
+};
+
+/** The filters an endpoint may list that select `type`. */
+export function eventPatterns(type: WebhookEventType): string[] {
+  return [type, `${type.split(".")[0]}.*`, "*"];
+}
+
+/** Validate an endpoint's event filter; returns it deduplicated. */
+export function parseEventFilter(raw: unknown): string[] {
+  if (!Array.isArray(raw) || raw.length === 0) throw new Error("events must be a non-empty array");
+  const groups = new Set(WEBHOOK_EVENTS.map(e => e.split(".")[0]));
+  for (const e of raw) {
+    const ok = typeof e === "string" &&
+      (e === "*" || (WEBHOOK_EVENTS as readonly string[]).includes(e) || (e.endsWith(".*") && groups.has(e.slice(0, -2))));
+    if (!ok) throw new Error(`unknown webhook event "${String(e)}"`);
+  }
+  return [...new Set(raw as string[])];
+}
+
+/** Only http(s); plain http is refused unless allowed (local receivers in development). */
+export function parseWebhookUrl(raw: unknown, allowHttp = false): string {
+  let u: URL;
+  try {
+    u = new URL(String(raw));
+  } catch {
+    throw new Error("url must be an absolute URL");
+  }
+  if (u.protocol !== "https:" && !(allowHttp && u.protocol === "http:")) {
+    throw new Error(allowHttp ? "url must be http(s)" : "url must be https");
+  }
+  if (u.username || u.password) throw new Error("url must not carry credentials");
+  return u.toString();
+}
+
+/** Envelope for one event; `key` identifies it across emitters (e.g. "request-event:42"). */
+export function webhookEnvelope<T extends Record<string, unknown>>(
+  key: string, type: WebhookEventType, chainId: number | null, data: T, now = new Date(),
+): WebhookEnvelope<T> {
+  return { id: `evt_${sha256Hex(key).slice(0, 24)}`, type, createdAt: now.toISOString(), chainId, data };
+}
+
+function hmac(secret: string, timestampSec: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestampSec}.${body}`).digest("hex");
+}
+
+export function signWebhook(secret: string, body: string, timestampSec = Math.floor(Date.now() / 1000)): string {
+  return `t=${timestampSec},v1=${hmac(secret, timestampSec, body)}`;
+}
+
+export type SignatureCheck = { ok: true } | { ok: false; reason: string };
+
+/** Receiver side: check a signature header against the raw body. */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string | undefined,
+  body: string,
+  opts: { toleranceSec?: number; nowSec?: number } = {},
+): SignatureCheck {
+  if (!header) return { ok: false, reason: "missing signature" };
+  const parts = new Map<string, string[]>();
+  for (const kv of header.split(",")) {
+    const [k, v] = kv.trim().split("=", 2);
+    if (k && v) parts.set(k, [...(parts.get(k) ?? []), v]);
+  }
+  const t = Number(parts.get("t")?.[0]);
+  if (!Number.isSafeInteger(t)) return { ok: false, reason: "malformed signature" };
+  const now = opts.nowSec ?? Math.floor(Date.now() / 1000);
+  if (Math.abs(now - t) > (opts.toleranceSec ?? DEFAULT_TOLERANCE_SEC)) return { ok: false, reason: "timestamp outside tolerance" };
+
+  const expected = Buffer.from(hmac(secret, t, body), "hex");
+  // The header may carry several v1 values; any one matching is enough.
+  const match = (parts.get("v1") ?? []).some((sig) => {
+    const got = Buffer.from(sig, "hex");
+    return got.length === expected.length && timingSafeEqual(got, expected);
+  });
+  return match ? { ok: true } : { ok: false, reason: "signature mismatch" };
+}
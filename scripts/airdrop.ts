@@ -0,0 +1,374 @@
+// scripts/airdrop.ts
+// Pay a CSV of recipients from a chain's faucet signer, resumably.
+//
+//   pnpm airdrop --in workshop.csv --name devcon-workshop [--chain sepolia] \
+//     [--disperse 0xD152f549545093347A162Dce210e7293f1452150] [--batch 100] \
+//     [--max-inflight 16] [--execute] [--retry-failed]
+//
+// Without --execute it prints a dry run (recipients, duplicates, totals per asset,
+// estimated gas, balance check) and touches nothing. With --execute it records the run
+// and every item in Postgres under --name, then sends. Each tx is written ahead
+// (status 'signed' with its raw bytes) before broadcast, so re-running the same command
+// after a crash resolves what was signed instead of paying twice.
+//
+// Nonces come from the worker's Redis allocator, so a running worker and an airdrop
+// from the same signer don't collide. Drip budgets, rate limits and eligibility don't
+// apply: this is an operator tool. --disperse sends batches through a Disperse contract
+// (approving it for tokens first) instead of one transfer per recipient.
+
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { ethers } from "ethers";
+import { loadChains, type ChainConfig } from "../packages/shared/src/chains";
+import { airdropBaseUnits, airdropTotals, chunk, DISPERSE_ABI, parseAirdropCsv } from "../packages/shared/src/airdrop";
+import { ERC20_TRANSFER_ABI } from "../packages/shared/src/assets";
+import { requireEnv } from "../packages/shared/src/env";
+import { getFeeSuggestion } from "../packages/shared/src/fees";
+import { isRetryableError, retryRpc } from "../packages/shared/src/retry";
+import { transferRequest } from "../packages/shared/src/transfers";
+import { sha256Hex } from "../packages/shared/src/utils";
+import type { NewAirdropItem } from "../packages/shared/src/airdropRepo";
+import type { NonceManager } from "../packages/shared/src/nonceManager";
+
+type Item = { ids: number[]; address: string; asset: string; amount: bigint };
+type Tx = { ids: number[]; asset: string; req: ethers.TransactionRequest };
+type Inflight = { txHash: string; nonce: number; raw: string };
+
+const ERC20_ABI = [
+  ...ERC20_TRANSFER_ABI,
+  "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+];
+const disperseIface = new ethers.Interface(DISPERSE_ABI);
+
+// Used when eth_estimateGas can't run (e.g. disperse approval not given yet).
+const FALLBACK_GAS = { native: 21_000n, token: 65_000n, approve: 60_000n };
+const POLL_MS = 5_000;
+const SETTLE_TIMEOUT_MS = 30 * 60_000;
+const NONCE_CONFLICT = /nonce too low|nonce has already been used|replacement transaction underpriced/i;
+const ALREADY_KNOWN = /already known|known transaction|already imported/i;
+
+const sleep = (ms: number) => new Promise<void>(r => setTimeout(r, ms));
+const errMsg = (e: any) => String(e?.shortMessage ?? e?.message ?? e).slice(0, 400);
+
+function pickChain(sel: string | undefined): ChainConfig {
+  const chains = loadChains();
+  if (!sel) return chains[0];
+  const chain = chains.find(c => c.key === sel || String(c.chainId) === sel);
+  if (!chain) throw new Error(`unknown --chain ${sel} (configured: ${chains.map(c => c.key).join(", ")})`);
+  return chain;
+}
+
+function positiveInt(v: string, flag: string): number {
+  const n = Number(v);
+  if (!Number.isInteger(n) || n < 1) throw new Error(`--${flag} must be a positive integer`);
+  return n;
+}
+
+/** One tx per recipient, or per batch of the same asset through Disperse. */
+function planTxs(items: Item[], disperse: string | null, batch: number): Tx[] {
+  if (!disperse) {
+    return items.map(it => ({ ids: it.ids, asset: it.asset, req: transferRequest(it.asset, it.address, it.amount) }));
+  }
+  const byAsset = new Map<string, Item[]>();
+  for (const it of items) byAsset.set(it.asset, [...(byAsset.get(it.asset) ?? []), it]);
+  const txs: Tx[] = [];
+  for (const [asset, list] of byAsset) {
+    for (const part of chunk(list, batch)) {
+      const recipients = part.map(p => p.address);
+      const values = part.map(p => p.amount);
+      const value = asset === "native" ? values.reduce((a, b) => a + b, 0n) : 0n;
+      const data = asset === "native"
+        ? disperseIface.encodeFunctionData("disperseEther", [recipients, values])
+        : disperseIface.encodeFunctionData("disperseToken", [asset, recipients, values]);
+      txs.push({ ids: part.flatMap(p => p.ids), asset, req: { to: disperse, value, data } });
+    }
+  }
+  return txs;
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      in:             { type: "string" },
+      name:           { type: "string" },
+      chain:          { type: "string" },
+      disperse:       { type: "string" },
+      batch:          { type: "string", default: "100" },
+      "max-inflight": { type: "string", default: "16" },
+      execute:        { type: "boolean", default: false },
+      "retry-failed": { type: "boolean", default: false },
+    },
+  });
+
+  if (!values.in || !values.name) {
+    throw new Error(
+      "usage: airdrop --in <file.csv> --name <name> [--chain key|id] [--disperse address] [--batch n] " +
+      "[--max-inflight n] [--execute] [--retry-failed]"
+    );
+  }
+  if (values.disperse && !ethers.isAddress(values.disperse)) throw new Error("--disperse is not an address");
+  const disperse = values.disperse ? values.disperse.toLowerCase() : null;
+  const batch = positiveInt(values.batch!, "batch");
+  const maxInflight = positiveInt(values["max-inflight"]!, "max-inflight");
+
+  const chain = pickChain(values.chain);
+  const provider = new ethers.JsonRpcProvider(chain.rpcUrl, chain.chainId, { staticNetwork: true });
+  const wallet = new ethers.Wallet(requireEnv(chain.privateKeyEnv), provider);
+  const sender = wallet.address.toLowerCase();
+
+  const csv = readFileSync(values.in, "utf8");
+  const { entries, duplicates } = parseAirdropCsv(csv, { exclude: [sender] });
+  if (entries.length === 0) throw new Error("CSV has no recipients");
+
+  // Token metadata once per asset; amounts must fit its decimals.
+  const tokens = new Map<string, { symbol: string; decimals: number; contract: ethers.Contract }>();
+  for (const asset of new Set(entries.map(e => e.asset))) {
+    if (asset === "native") continue;
+    const contract = new ethers.Contract(asset, ERC20_ABI, wallet);
+    const [symbol, decimals] = await Promise.all([
+      retryRpc(() => contract.symbol() as Promise<string>),
+      retryRpc(() => contract.decimals() as Promise<bigint>),
+    ]);
+    tokens.set(asset, { symbol, decimals: Number(decimals), contract });
+  }
+  const symbolOf = (asset: string) => (asset === "native" ? chain.nativeSymbol : tokens.get(asset)!.symbol);
+  const decimalsOf = (asset: string) => (asset === "native" ? 18 : tokens.get(asset)!.decimals);
+  const fmt = (asset: string, v: bigint) => `${ethers.formatUnits(v, decimalsOf(asset))} ${symbolOf(asset)}`;
+
+  const csvItems: NewAirdropItem[] = entries.map(e => ({
+    line: e.line,
+    address: e.address,
+    asset: e.asset,
+    amount: airdropBaseUnits(e, decimalsOf(e.asset)),
+  }));
+
+  /** Print what sending `items` costs; false if the signer can't cover it. */
+  async function summarize(items: Item[]): Promise<boolean> {
+    const txs = planTxs(items, disperse, batch);
+    const totals = airdropTotals(items);
+
+    // Estimate one tx per asset and scale: a per-tx call for thousands of rows is too slow.
+    let gas = 0n;
+    for (const asset of totals.keys()) {
+      const ofAsset = txs.filter(t => t.asset === asset);
+      const sample = ofAsset[0];
+      let perTx: bigint;
+      try {
+        perTx = await retryRpc(() => wallet.estimateGas(sample.req));
+      } catch {
+        const perRecipient = asset === "native" ? FALLBACK_GAS.native : FALLBACK_GAS.token;
+        perTx = perRecipient * BigInt(sample.ids.length);
+      }
+      gas += perTx * BigInt(ofAsset.length);
+      if (disperse && asset !== "native") gas += FALLBACK_GAS.approve;
+    }
+    const fees = await getFeeSuggestion(provider);
+    const gasCost = gas * fees.maxFeePerGas;
+
+    console.log(`chain:       ${chain.name} (${chain.chainId}), signer ${wallet.address}`);
+    console.log(`recipients:  ${items.length}${duplicates ? ` (${duplicates} duplicate lines dropped)` : ""}`);
+    console.log(`txs:         ${txs.length}${disperse ? ` via Disperse ${disperse}, batches of ≤${batch}` : ""}`);
+    console.log(`gas:         ~${gas} (~${fmt("native", gasCost)} at ${ethers.formatUnits(fees.maxFeePerGas, "gwei")} gwei)`);
+
+    let ok = true;
+    const nativeBalance = await retryRpc(() => provider.getBalance(sender));
+    const nativeNeed = (totals.get("native") ?? 0n) + gasCost;
+    for (const [asset, total] of totals) {
+      const balance = asset === "native"
+        ? nativeBalance
+        : await retryRpc(() => tokens.get(asset)!.contract.balanceOf(sender) as Promise<bigint>);
+      const covered = balance >= (asset === "native" ? nativeNeed : total);
+      ok &&= covered;
+      console.log(`total:       ${fmt(asset, total)} — faucet holds ${fmt(asset, balance)}${covered ? "" : "  ✗ NOT ENOUGH"}`);
+    }
+    if (!totals.has("native")) {
+      const covered = nativeBalance >= gasCost;
+      ok &&= covered;
+      console.log(`gas funds:   faucet holds ${fmt("native", nativeBalance)}${covered ? "" : "  ✗ NOT ENOUGH"}`);
+    }
+    return ok;
+  }
+
+  if (!values.execute) {
+    const ok = await summarize(csvItems.map(it => ({ ids: [it.line], ...it })));
+    console.log(ok ? "dry run — pass --execute to send" : "dry run — the faucet can't cover this airdrop");
+    if (!ok) process.exitCode = 1;
+    return;
+  }
+
+  // Imported lazily: db.ts and redis.ts require DATABASE_URL / REDIS_URL at load time.
+  const repo = await import("../packages/shared/src/airdropRepo");
+  const { createNonceManager } = await import("../packages/shared/src/nonceManager");
+  const { closePool } = await import("../packages/shared/src/db");
+  const { closeRedis } = await import("../packages/shared/src/redis");
+
+  try {
+    const { airdrop, resumed } = await repo.startAirdrop({
+      name: values.name,
+      chainId: chain.chainId,
+      sender,
+      mode: disperse ? "disperse" : "direct",
+      csvSha256: sha256Hex(csv),
+      items: csvItems,
+    });
+    console.log(`${resumed ? "resuming" : "started"} airdrop "${airdrop.name}" (#${airdrop.id})`);
+    if (resumed && airdrop.finished_at && !values["retry-failed"]) {
+      console.log(`already finished at ${airdrop.finished_at}`);
+      return;
+    }
+
+    await repo.withAirdropLock(airdrop.id, async () => {
+      const nonces = createNonceManager({ chainId: chain.chainId, sender, provider });
+      await nonces.sync();
+      const inflight = new Map<string, Inflight>();
+
+      // Prior runs' write-aheads first: these may already have paid.
+      for (const row of await repo.listAirdropItems(airdrop.id, "signed")) {
+        inflight.set(row.tx_hash!, { txHash: row.tx_hash!, nonce: Number(row.nonce), raw: row.raw_tx! });
+      }
+      if (inflight.size) console.log(`resolving ${inflight.size} tx(s) signed by an earlier run`);
+      await settle(inflight, nonces, 0);
+
+      if (values["retry-failed"]) console.log(`requeued ${await repo.retryFailedItems(airdrop.id)} failed item(s)`);
+
+      const pending: Item[] = (await repo.listAirdropItems(airdrop.id, "pending")).map(r => ({
+        ids: [r.id],
+        address: r.address,
+        asset: r.asset,
+        amount: BigInt(r.amount),
+      }));
+      if (pending.length) {
+        if (!(await summarize(pending))) throw new Error("the faucet can't cover the remaining items; top it up and re-run");
+        if (disperse) await approveDisperse(pending, nonces);
+        for (const tx of planTxs(pending, disperse, batch)) {
+          await send(tx, nonces, inflight);
+          if (inflight.size >= maxInflight) await settle(inflight, nonces, maxInflight - 1);
+        }
+      }
+      await settle(inflight, nonces, 0);
+
+      const p = await repo.airdropProgress(airdrop.id);
+      console.log(`sent=${p.sent} failed=${p.failed} pending=${p.pending} signed=${p.signed}`);
+      if (p.pending === 0 && p.signed === 0) await repo.finishAirdrop(airdrop.id);
+      if (p.failed) console.log("re-run with --retry-failed to try the failed items again");
+      if (p.pending || p.signed || p.failed) process.exitCode = 1;
+    });
+  } finally {
+    await closePool();
+    await closeRedis();
+  }
+
+  /** Sign, write ahead, broadcast. The tx stays in `inflight` until settle() resolves it. */
+  async function send(tx: Tx, nonces: NonceManager, inflight: Map<string, Inflight>): Promise<void> {
+    let gasLimit: bigint;
+    try {
+      gasLimit = await retryRpc(() => wallet.estimateGas(tx.req));
+    } catch (e) {
+      if (isRetryableError(e)) throw e;
+      const n = await repo.failPendingItems(tx.ids, `would revert: ${errMsg(e)}`);
+      console.warn(`✗ ${n} item(s) would revert: ${errMsg(e)}`);
+      return;
+    }
+    const fees = await getFeeSuggestion(provider);
+    const nonce = await nonces.reserve();
+    const raw = await wallet.signTransaction({
+      ...tx.req,
+      type: 2,
+      chainId: chain.chainId,
+      nonce,
+      gasLimit,
+      maxFeePerGas: fees.maxFeePerGas,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+    });
+    const txHash = ethers.keccak256(raw);
+    if (!(await repo.markItemsSigned(tx.ids, { nonce, txHash, raw }))) {
+      await nonces.release(nonce);
+      throw new Error(`items ${tx.ids.join(",")} changed while sending; is another run active?`);
+    }
+
+    try {
+      await retryRpc(() => provider.broadcastTransaction(raw));
+    } catch (e: any) {
+      if (!ALREADY_KNOWN.test(errMsg(e))) {
+        if (isRetryableError(e)) {
+          // Unknown outcome: keep the write-ahead, settle() rebroadcasts or resolves it.
+          console.warn(`⚠️ broadcast outcome unknown (nonce=${nonce} tx=${txHash}): ${errMsg(e)}`);
+        } else {
+          await repo.releaseSignedTx(txHash, `refused: ${errMsg(e)}`);
+          await nonces.release(nonce);
+          if (NONCE_CONFLICT.test(errMsg(e))) await nonces.sync();
+          throw e;
+        }
+      }
+    }
+    await nonces.markBroadcast(nonce);
+    inflight.set(txHash, { txHash, nonce, raw });
+    console.log(`→ nonce=${nonce} tx=${txHash} (${tx.ids.length} item(s))`);
+  }
+
+  /** Wait until at most `keep` txs are unresolved: confirmed, reverted or provably dropped. */
+  async function settle(inflight: Map<string, Inflight>, nonces: NonceManager, keep: number): Promise<void> {
+    const deadline = Date.now() + SETTLE_TIMEOUT_MS;
+    while (inflight.size > keep) {
+      const head = await retryRpc(() => provider.getBlockNumber());
+      const mined = await nonces.minedNonce();
+      for (const t of [...inflight.values()]) {
+        const rcpt = await retryRpc(() => provider.getTransactionReceipt(t.txHash));
+        if (rcpt) {
+          if (head - rcpt.blockNumber + 1 < chain.confirmations) continue;
+          await repo.resolveSignedTx(t.txHash, rcpt.status === 1);
+          inflight.delete(t.txHash);
+          console.log(`${rcpt.status === 1 ? "✓" : "✗ reverted"} tx=${t.txHash}`);
+        } else if (t.nonce < mined) {
+          // Nonce used but not by this tx (mined/replaced elsewhere): these items are unpaid.
+          await repo.releaseSignedTx(t.txHash, "dropped: nonce used by another transaction");
+          inflight.delete(t.txHash);
+          console.warn(`↺ tx=${t.txHash} dropped; items go back to pending (re-run to send them)`);
+        } else {
+          try {
+            await provider.broadcastTransaction(t.raw);
+          } catch (e) {
+            if (!ALREADY_KNOWN.test(errMsg(e)) && !NONCE_CONFLICT.test(errMsg(e))) {
+              console.warn(`⚠️ rebroadcast of ${t.txHash} failed: ${errMsg(e)}`);
+            }
+          }
+        }
+      }
+      if (inflight.size <= keep) break;
+      if (Date.now() > deadline) {
+        throw new Error(`${inflight.size} tx(s) still unconfirmed after ${SETTLE_TIMEOUT_MS / 60_000} min; re-run to resume`);
+      }
+      await sleep(POLL_MS);
+    }
+  }
+
+  /** Let the Disperse contract pull each token's remaining total. */
+  async function approveDisperse(items: Item[], nonces: NonceManager): Promise<void> {
+    for (const [asset, total] of airdropTotals(items)) {
+      if (asset === "native") continue;
+      const { contract } = tokens.get(asset)!;
+      const allowance = await retryRpc(() => contract.allowance(sender, disperse) as Promise<bigint>);
+      if (allowance >= total) continue;
+      const nonce = await nonces.reserve();
+      let tx: ethers.ContractTransactionResponse;
+      try {
+        tx = await contract.approve(disperse, total, { nonce });
+      } catch (e) {
+        await nonces.release(nonce);
+        throw e;
+      }
+      await nonces.markBroadcast(nonce);
+      console.log(`approving Disperse for ${fmt(asset, total)} (tx=${tx.hash})`);
+      const rcpt = await tx.wait(chain.confirmations);
+      if (rcpt?.status !== 1) throw new Error(`approve of ${symbolOf(asset)} reverted`);
+    }
+  }
+}
+
+main().catch((e) => {
+  console.error(e?.message || e);
+  process.exit(1);
+});
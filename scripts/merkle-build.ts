@@ -0,0 +1,68 @@
+// scripts/merkle-build.ts
+// Build a Merkle allowlist (root + per-address proofs) from CSV or JSON.
+//
+//   pnpm merkle:build --in attendees.csv --name ethglobal-2024 \
+//     [--out allowlists/ethglobal-2024.json] \
+//     [--activates 2024-11-01T00:00:00Z] [--expires 2024-11-04T00:00:00Z] [--publish]
+//
+// --publish inserts the root and proofs into Postgres (needs DATABASE_URL), where the
+// API and worker pick them up on the next lookup; no redeploy needed.
+
+import { readFileSync, writeFileSync, mkdirSync } from "node:fs";
+import { dirname, extname } from "node:path";
+import { parseArgs } from "node:util";
+import { buildAllowlistFile, parseAllowlistCsv, parseAllowlistJson } from "../packages/shared/src/merkle";
+
+function isoOrNull(v: string | undefined, flag: string): string | null {
+  if (!v) return null;
+  const t = Date.parse(v);
+  if (Number.isNaN(t)) throw new Error(`--${flag} is not a valid date: ${v}`);
+  return new Date(t).toISOString();
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      in:        { type: "string" },
+      name:      { type: "string" },
+      out:       { type: "string" },
+      activates: { type: "string" },
+      expires:   { type: "string" },
+      publish:   { type: "boolean", default: false },
+    },
+  });
+
+  if (!values.in || !values.name) {
+    throw new Error("usage: merkle-build --in <file.csv|file.json> --name <name> [--out file] [--activates iso] [--expires iso] [--publish]");
+  }
+
+  const text = readFileSync(values.in, "utf8");
+  const entries = extname(values.in).toLowerCase() === ".json" ? parseAllowlistJson(text) : parseAllowlistCsv(text);
+
+  const activatesAt = isoOrNull(values.activates, "activates");
+  const expiresAt = isoOrNull(values.expires, "expires");
+  if (activatesAt && expiresAt && activatesAt >= expiresAt) throw new Error("--expires must be after --activates");
+
+  const file = buildAllowlistFile(entries, { name: values.name, activatesAt, expiresAt });
+  const out = values.out ?? `allowlists/${values.name}.json`;
+  mkdirSync(dirname(out), { recursive: true });
+  writeFileSync(out, JSON.stringify(file, null, 2) + "\n");
+  console.log(`root=${file.root} entries=${entries.length} → ${out}`);
+
+  if (values.publish) {
+    // Imported lazily: db.ts requires DATABASE_URL at load time.
+    const { publishAllowlist } = await import("../packages/shared/src/merkleStore");
+    const { closePool } = await import("../packages/shared/src/db");
+    try {
+      const id = await publishAllowlist(file);
+      console.log(`published as merkle_roots.id=${id}`);
+    } finally {
+      await closePool();
+    }
+  }
+}
+
+main().catch((e) => {
+  console.error(e?.message || e);
+  process.exit(1);
+});
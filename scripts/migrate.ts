@@ -0,0 +1,64 @@
+// scripts/migrate.ts
+// Apply, roll back or inspect the SQL migrations in sql/ (needs DATABASE_URL).
+//
+//   pnpm db:migrate [--to 7]        apply pending migrations (up to version 7)
+//   pnpm db:rollback [--steps 2]    undo the newest applied migration(s)
+//   pnpm db:status                  list applied / pending / drifted migrations
+
+import { parseArgs } from "node:util";
+import { closePool } from "../packages/shared/src/db";
+import { migrateDown, migrateUp, schemaStatus } from "../packages/shared/src/migrate";
+import { describeDrift } from "../packages/shared/src/migrations";
+
+function intOrUndefined(v: string | undefined, flag: string): number | undefined {
+  if (v === undefined) return undefined;
+  const n = Number(v);
+  if (!Number.isInteger(n) || n < 0) throw new Error(`--${flag} must be a non-negative integer`);
+  return n;
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      to:    { type: "string" },
+      steps: { type: "string" },
+      dir:   { type: "string" },
+    },
+  });
+  const command = positionals[0] ?? "status";
+  const dir = values.dir;
+
+  switch (command) {
+    case "up": {
+      const done = await migrateUp({ dir, to: intOrUndefined(values.to, "to") });
+      console.log(done.length ? `applied ${done.length} migration(s)` : "schema is up to date");
+      break;
+    }
+    case "down": {
+      const done = await migrateDown({ dir, steps: intOrUndefined(values.steps, "steps") ?? 1 });
+      console.log(`rolled back ${done.length} migration(s)`);
+      break;
+    }
+    case "status": {
+      const s = await schemaStatus(dir);
+      console.log(`current=${s.current} latest=${s.latest}`);
+      for (const m of s.pending) console.log(`  pending  ${m.file}`);
+      const drift = describeDrift({ ...s, pending: [] });
+      if (drift) {
+        console.error(`  drift    ${drift}`);
+        process.exitCode = 1;
+      }
+      break;
+    }
+    default:
+      throw new Error("usage: migrate <up|down|status> [--to N] [--steps N] [--dir sql]");
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error(e?.message || e);
+    process.exitCode = 1;
+  })
+  .finally(() => closePool());
@@ -0,0 +1,54 @@
+// scripts/webhook-receiver.ts
+// Local webhook receiver for development: verifies signatures and prints each event.
+//
+//   WEBHOOK_SECRET=whsec_... pnpm webhook:receive [--port 4000] [--fail 500]
+//
+// Register http://localhost:4000/ as an endpoint (API with WEBHOOK_ALLOW_HTTP=true) and
+// use the secret it returns. --fail answers every request with that status instead of
+// 204, to watch the worker's retries.
+
+import { createServer } from "node:http";
+import { parseArgs } from "node:util";
+import { SIGNATURE_HEADER, verifyWebhookSignature } from "../packages/shared/src/webhooks";
+
+function main() {
+  const { values } = parseArgs({
+    options: {
+      port: { type: "string", default: "4000" },
+      fail: { type: "string" },
+    },
+  });
+  const secret = process.env.WEBHOOK_SECRET;
+  if (!secret) throw new Error("WEBHOOK_SECRET is required (the secret returned when the endpoint was registered)");
+  const failWith = values.fail ? Number(values.fail) : null;
+  const seen = new Set<string>();
+
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (c: Buffer) => chunks.push(c));
+    req.on("end", () => {
+      const body = Buffer.concat(chunks).toString("utf8");
+      const check = verifyWebhookSignature(secret, req.headers[SIGNATURE_HEADER.toLowerCase()] as string | undefined, body);
+      const at = new Date().toISOString();
+      if (!check.ok) {
+        console.log(`${at} rejected: ${check.reason}`);
+        res.writeHead(401).end();
+        return;
+      }
+      const event = JSON.parse(body);
+      const dup = seen.has(event.id) ? " (redelivery)" : "";
+      seen.add(event.id);
+      console.log(`${at} ${event.type} ${event.id}${dup} delivery=${req.headers["x-faucet-delivery"]}`);
+      console.log(JSON.stringify(event.data, null, 2));
+      res.writeHead(failWith ?? 204).end();
+    });
+  });
+  server.listen(Number(values.port), () => console.log(`listening on http://localhost:${values.port}/`));
+}
+
+try {
+  main();
+} catch (e: any) {
+  console.error(e.message);
+  process.exit(1);
+}
@@ -1,3 +1,4 @@
+-- migrate:up
 -- Users table (wallets requesting drips)
 CREATE TABLE IF NOT EXISTS users (
     id SERIAL PRIMARY KEY,
@@ -29,3 +30,8 @@ CREATE TABLE IF NOT EXISTS rate_limits (
 CREATE INDEX IF NOT EXISTS idx_requests_user ON requests(user_id);
 CREATE INDEX IF NOT EXISTS idx_requests_requested_at ON requests(requested_at);
 CREATE INDEX IF NOT EXISTS idx_rate_limits_user ON rate_limits(user_id);
+
+-- migrate:down
+DROP TABLE IF EXISTS rate_limits;
+DROP TABLE IF EXISTS requests;
+DROP TABLE IF EXISTS users;
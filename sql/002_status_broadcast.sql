@@ -1,7 +1,26 @@
 -- Add 'broadcast' status (queued, broadcast, sent, failed)
+-- migrate:up
+UPDATE requests SET status='queued' WHERE status='pending';
+
 ALTER TABLE requests
   DROP CONSTRAINT IF EXISTS requests_status_check;
 
 ALTER TABLE requests
   ADD CONSTRAINT requests_status_check
   CHECK (status IN ('queued','broadcast','sent','failed'));
+
+ALTER TABLE requests
+  ALTER COLUMN status SET DEFAULT 'queued';
+
+-- migrate:down
+ALTER TABLE requests
+  DROP CONSTRAINT IF EXISTS requests_status_check;
+
+UPDATE requests SET status='pending' WHERE status IN ('queued','broadcast');
+
+ALTER TABLE requests
+  ADD CONSTRAINT requests_status_check
+  CHECK (status IN ('pending','sent','failed'));
+
+ALTER TABLE requests
+  ALTER COLUMN status SET DEFAULT 'pending';
@@ -0,0 +1,73 @@
+-- Bring the schema in line with the row types in packages/shared/src/types.ts:
+-- requests keyed by address/ip (not user_id/ip_hash) with created_at and reason,
+-- plus the SIWE nonces, sessions and daily budgets tables the API uses.
+-- migrate:up
+ALTER TABLE requests RENAME COLUMN requested_at TO created_at;
+ALTER INDEX IF EXISTS idx_requests_requested_at RENAME TO idx_requests_created_at;
+
+ALTER TABLE requests
+  ADD COLUMN IF NOT EXISTS address TEXT,              -- lowercased hex
+  ADD COLUMN IF NOT EXISTS ip TEXT,                   -- plain IP (v4/v6)
+  ADD COLUMN IF NOT EXISTS reason TEXT,               -- why it failed
+  ALTER COLUMN user_id DROP NOT NULL,
+  ALTER COLUMN ip_hash DROP NOT NULL,
+  ALTER COLUMN amount DROP NOT NULL;
+
+-- Legacy rows: address from users, IP was only ever stored hashed
+UPDATE requests r SET address = u.address FROM users u WHERE r.address IS NULL AND u.id = r.user_id;
+UPDATE requests SET ip = '' WHERE ip IS NULL;
+
+ALTER TABLE requests
+  ALTER COLUMN address SET NOT NULL,
+  ALTER COLUMN ip SET NOT NULL,
+  ALTER COLUMN created_at SET NOT NULL,
+  DROP CONSTRAINT IF EXISTS requests_user_id_requested_at_key;
+
+CREATE INDEX IF NOT EXISTS idx_requests_address ON requests(address);
+
+-- SIWE nonces: single use, short-lived
+CREATE TABLE IF NOT EXISTS nonces (
+    id SERIAL PRIMARY KEY,
+    address TEXT NOT NULL,                 -- lowercased hex
+    nonce_hash TEXT NOT NULL UNIQUE,       -- sha256(nonce)
+    ip TEXT NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMP NOT NULL,
+    used BOOLEAN NOT NULL DEFAULT false
+);
+
+CREATE INDEX IF NOT EXISTS idx_nonces_expires_at ON nonces(expires_at);
+
+-- Bearer sessions issued after SIWE verification
+CREATE TABLE IF NOT EXISTS sessions (
+    id SERIAL PRIMARY KEY,
+    token_hash TEXT NOT NULL UNIQUE,       -- sha256(sessionToken)
+    address TEXT NOT NULL,                 -- lowercased hex
+    ip TEXT NOT NULL,
+    user_agent TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_address ON sessions(address);
+CREATE INDEX IF NOT EXISTS idx_sessions_expires_at ON sessions(expires_at);
+
+-- Drips per UTC day
+CREATE TABLE IF NOT EXISTS budgets (
+    d DATE PRIMARY KEY,
+    drips INT NOT NULL DEFAULT 0
+);
+
+-- migrate:down
+DROP TABLE IF EXISTS budgets;
+DROP TABLE IF EXISTS sessions;
+DROP TABLE IF EXISTS nonces;
+
+DROP INDEX IF EXISTS idx_requests_address;
+ALTER TABLE requests
+  DROP COLUMN IF EXISTS reason,
+  DROP COLUMN IF EXISTS ip,
+  DROP COLUMN IF EXISTS address;
+
+ALTER INDEX IF EXISTS idx_requests_created_at RENAME TO idx_requests_requested_at;
+ALTER TABLE requests RENAME COLUMN created_at TO requested_at;
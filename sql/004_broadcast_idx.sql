@@ -1,4 +1,8 @@
 -- Partial index: WHERE status='broadcast' ORDER BY created_at
+-- migrate:up
 CREATE INDEX IF NOT EXISTS idx_requests_broadcast_created_at
   ON requests (created_at)
   WHERE status = 'broadcast';
+
+-- migrate:down
+DROP INDEX IF EXISTS idx_requests_broadcast_created_at;
@@ -0,0 +1,12 @@
+-- Allowlist for the "table" eligibility mode
+-- migrate:up
+CREATE TABLE IF NOT EXISTS allowlist (
+    address TEXT PRIMARY KEY,              -- lowercased hex
+    note TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMP,                  -- NULL = never
+    revoked_at TIMESTAMP                   -- set instead of deleting, keeps history
+);
+
+-- migrate:down
+DROP TABLE IF EXISTS allowlist;
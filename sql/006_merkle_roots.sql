@@ -0,0 +1,27 @@
+-- Published Merkle allowlists; several may be active at once
+-- migrate:up
+CREATE TABLE IF NOT EXISTS merkle_roots (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL,
+    root TEXT NOT NULL UNIQUE,
+    file_version INT NOT NULL,
+    entry_count INT NOT NULL,
+    activates_at TIMESTAMP,                -- NULL = active on publish
+    expires_at TIMESTAMP,                  -- NULL = never
+    revoked_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS merkle_entries (
+    root_id INT NOT NULL REFERENCES merkle_roots(id) ON DELETE CASCADE,
+    address TEXT NOT NULL,                 -- lowercased hex
+    amount NUMERIC(78, 0) NOT NULL DEFAULT 0,
+    proof JSONB NOT NULL,                  -- ["0x..", ...]
+    PRIMARY KEY (root_id, address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_merkle_entries_address ON merkle_entries(address);
+
+-- migrate:down
+DROP TABLE IF EXISTS merkle_entries;
+DROP TABLE IF EXISTS merkle_roots;
@@ -0,0 +1,11 @@
+-- Multi-chain: every request belongs to one chain (existing rows were Sepolia)
+-- migrate:up
+ALTER TABLE requests
+  ADD COLUMN IF NOT EXISTS chain_id INT NOT NULL DEFAULT 11155111;
+
+CREATE INDEX IF NOT EXISTS idx_requests_chain_status_created_at
+  ON requests (chain_id, status, created_at);
+
+-- migrate:down
+DROP INDEX IF EXISTS idx_requests_chain_status_created_at;
+ALTER TABLE requests DROP COLUMN IF EXISTS chain_id;
@@ -0,0 +1,13 @@
+-- ERC-20 drips: one row per asset, rows of one user request share bundle_id
+-- migrate:up
+ALTER TABLE requests
+  ADD COLUMN IF NOT EXISTS asset TEXT NOT NULL DEFAULT 'native',  -- 'native' or token address
+  ADD COLUMN IF NOT EXISTS bundle_id INT;                          -- id of the bundle's first row
+
+CREATE INDEX IF NOT EXISTS idx_requests_bundle ON requests(bundle_id);
+
+-- migrate:down
+DROP INDEX IF EXISTS idx_requests_bundle;
+ALTER TABLE requests
+  DROP COLUMN IF EXISTS bundle_id,
+  DROP COLUMN IF EXISTS asset;
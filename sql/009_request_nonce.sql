@@ -0,0 +1,15 @@
+-- Pipelined sends: record the nonce (and signer) each request was assigned
+-- migrate:up
+ALTER TABLE requests
+  ADD COLUMN IF NOT EXISTS sender TEXT,     -- lowercased faucet address that signed
+  ADD COLUMN IF NOT EXISTS nonce BIGINT;
+
+CREATE INDEX IF NOT EXISTS idx_requests_chain_sender_nonce
+  ON requests (chain_id, sender, nonce)
+  WHERE nonce IS NOT NULL;
+
+-- migrate:down
+DROP INDEX IF EXISTS idx_requests_chain_sender_nonce;
+ALTER TABLE requests
+  DROP COLUMN IF EXISTS nonce,
+  DROP COLUMN IF EXISTS sender;
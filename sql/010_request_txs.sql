@@ -0,0 +1,25 @@
+-- Every tx hash ever signed for a request (original + fee-bumped replacements)
+-- migrate:up
+ALTER TABLE requests
+  ADD COLUMN IF NOT EXISTS broadcast_at TIMESTAMP,              -- last (re)broadcast
+  ADD COLUMN IF NOT EXISTS replacements INT NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS request_txs (
+    id SERIAL PRIMARY KEY,
+    request_id INT NOT NULL REFERENCES requests(id) ON DELETE CASCADE,
+    tx_hash TEXT NOT NULL UNIQUE,
+    nonce BIGINT NOT NULL,
+    gas_limit NUMERIC(78, 0) NOT NULL,
+    max_fee_per_gas NUMERIC(78, 0) NOT NULL,
+    max_priority_fee_per_gas NUMERIC(78, 0) NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('original','replacement')),
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_request_txs_request ON request_txs(request_id);
+
+-- migrate:down
+DROP TABLE IF EXISTS request_txs;
+ALTER TABLE requests
+  DROP COLUMN IF EXISTS replacements,
+  DROP COLUMN IF EXISTS broadcast_at;
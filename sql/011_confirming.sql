@@ -0,0 +1,33 @@
+-- Add 'confirming' status (mined, not yet at the chain's confirmation depth)
+-- and remember which block a receipt was seen in, so reorgs can be detected.
+-- migrate:up
+ALTER TABLE requests
+  DROP CONSTRAINT IF EXISTS requests_status_check;
+
+ALTER TABLE requests
+  ADD CONSTRAINT requests_status_check
+  CHECK (status IN ('queued','broadcast','confirming','sent','failed'));
+
+ALTER TABLE requests
+  ADD COLUMN IF NOT EXISTS block_number BIGINT,
+  ADD COLUMN IF NOT EXISTS block_hash TEXT,
+  ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMP;   -- reached confirmation depth
+
+-- Reorg pass: 'confirming' rows plus 'sent' rows still inside the finality window
+CREATE INDEX IF NOT EXISTS idx_requests_chain_block
+  ON requests (chain_id, block_number)
+  WHERE status IN ('confirming','sent');
+
+-- migrate:down
+DROP INDEX IF EXISTS idx_requests_chain_block;
+ALTER TABLE requests
+  DROP COLUMN IF EXISTS confirmed_at,
+  DROP COLUMN IF EXISTS block_hash,
+  DROP COLUMN IF EXISTS block_number;
+
+UPDATE requests SET status='broadcast' WHERE status='confirming';
+ALTER TABLE requests
+  DROP CONSTRAINT IF EXISTS requests_status_check;
+ALTER TABLE requests
+  ADD CONSTRAINT requests_status_check
+  CHECK (status IN ('queued','broadcast','sent','failed'));
@@ -0,0 +1,16 @@
+-- Status history: one row per applied transition (see packages/shared/src/requestRepo.ts)
+-- migrate:up
+CREATE TABLE IF NOT EXISTS request_events (
+    id BIGSERIAL PRIMARY KEY,
+    request_id INT NOT NULL REFERENCES requests(id) ON DELETE CASCADE,
+    from_status TEXT,                      -- NULL when the request was created
+    to_status TEXT NOT NULL,
+    reason TEXT,
+    tx_hash TEXT,                          -- tx the request pointed at after the change
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_request_events_request ON request_events(request_id, id);
+
+-- migrate:down
+DROP TABLE IF EXISTS request_events;
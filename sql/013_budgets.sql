@@ -0,0 +1,22 @@
+-- Per-chain spending budgets: one row per (chain, day|hour) window, counted at send time.
+-- Rows written before this migration counted accepted requests on all chains (chain_id 0).
+-- migrate:up
+ALTER TABLE budgets DROP CONSTRAINT IF EXISTS budgets_pkey;
+
+ALTER TABLE budgets
+  ALTER COLUMN d TYPE TIMESTAMP USING d::timestamp,       -- window start (UTC)
+  ADD COLUMN IF NOT EXISTS chain_id INT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS period TEXT NOT NULL DEFAULT 'day' CHECK (period IN ('day','hour')),
+  ADD COLUMN IF NOT EXISTS wei NUMERIC(78, 0) NOT NULL DEFAULT 0;   -- native coin sent
+
+ALTER TABLE budgets ADD PRIMARY KEY (chain_id, period, d);
+
+-- migrate:down
+DELETE FROM budgets WHERE period <> 'day' OR chain_id <> 0;
+ALTER TABLE budgets DROP CONSTRAINT IF EXISTS budgets_pkey;
+ALTER TABLE budgets
+  DROP COLUMN IF EXISTS wei,
+  DROP COLUMN IF EXISTS period,
+  DROP COLUMN IF EXISTS chain_id,
+  ALTER COLUMN d TYPE DATE USING d::date;
+ALTER TABLE budgets ADD PRIMARY KEY (d);
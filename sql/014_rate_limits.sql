@@ -0,0 +1,43 @@
+-- Sliding-window rate limits (see packages/shared/src/rateLimit.ts). Redis does the
+-- counting; rate_limit_hits is the durable copy it is rehydrated from after a restart.
+-- Keys are salted hashes, never raw IPs, addresses or tokens.
+-- The per-user rate_limits table from 001 was never written to and is dropped.
+-- migrate:up
+DROP TABLE IF EXISTS rate_limits;
+
+CREATE TABLE IF NOT EXISTS rate_limit_hits (
+  id BIGSERIAL PRIMARY KEY,
+  chain_id INT NOT NULL,
+  dimension TEXT NOT NULL CHECK (dimension IN ('address','ip','subnet','session')),
+  key_hash TEXT NOT NULL,
+  member TEXT NOT NULL,                    -- Redis ZSET member, so rehydration is idempotent
+  hit_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_key ON rate_limit_hits(chain_id, dimension, key_hash, hit_at);
+CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_at ON rate_limit_hits(hit_at);
+
+CREATE TABLE IF NOT EXISTS rate_limit_overrides (
+  id SERIAL PRIMARY KEY,
+  chain_id INT,                            -- NULL = every chain
+  dimension TEXT NOT NULL CHECK (dimension IN ('address','ip','subnet','session')),
+  key_hash TEXT NOT NULL,
+  label TEXT NOT NULL,                     -- what an admin typed (session tokens truncated)
+  action TEXT NOT NULL CHECK (action IN ('exempt','block')),
+  reason TEXT,
+  expires_at TIMESTAMPTZ,                  -- NULL = until removed
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE UNIQUE INDEX IF NOT EXISTS uq_rate_limit_overrides
+  ON rate_limit_overrides(dimension, key_hash, COALESCE(chain_id, 0));
+
+-- migrate:down
+DROP TABLE IF EXISTS rate_limit_overrides;
+DROP TABLE IF EXISTS rate_limit_hits;
+CREATE TABLE IF NOT EXISTS rate_limits (
+    id SERIAL PRIMARY KEY,
+    user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    window_start TIMESTAMP NOT NULL,
+    request_count INT NOT NULL DEFAULT 0
+);
+CREATE INDEX IF NOT EXISTS idx_rate_limits_user ON rate_limits(user_id);
@@ -0,0 +1,22 @@
+-- Session lifecycle: sliding expiry capped by an absolute lifetime, rotation and revocation.
+-- Rows are revoked rather than deleted so an address can see where it was signed in.
+-- migrate:up
+ALTER TABLE sessions
+  ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS max_expires_at TIMESTAMP,          -- sliding expiry never passes this
+  ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS revoke_reason TEXT;                -- logout | logout-all | rotated | evicted | admin
+
+UPDATE sessions SET max_expires_at = expires_at WHERE max_expires_at IS NULL;
+ALTER TABLE sessions ALTER COLUMN max_expires_at SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_address_live ON sessions(address, created_at) WHERE revoked_at IS NULL;
+
+-- migrate:down
+DROP INDEX IF EXISTS idx_sessions_address_live;
+DELETE FROM sessions WHERE revoked_at IS NOT NULL;
+ALTER TABLE sessions
+  DROP COLUMN IF EXISTS revoke_reason,
+  DROP COLUMN IF EXISTS revoked_at,
+  DROP COLUMN IF EXISTS max_expires_at,
+  DROP COLUMN IF EXISTS last_seen_at;
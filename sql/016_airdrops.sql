@@ -0,0 +1,36 @@
+-- Bulk airdrops from scripts/airdrop.ts. One row per run (resumed by name) and one per
+-- recipient/asset. Items are written ahead of broadcast ('signed' with nonce, hash and
+-- raw tx), so an interrupted run can tell sent from unsent and never pays twice.
+-- migrate:up
+CREATE TABLE IF NOT EXISTS airdrops (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  chain_id INT NOT NULL,
+  sender TEXT NOT NULL,                    -- lowercased signer address
+  mode TEXT NOT NULL CHECK (mode IN ('direct','disperse')),
+  csv_sha256 TEXT NOT NULL,                -- resuming with a different file is refused
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS airdrop_items (
+  id SERIAL PRIMARY KEY,
+  airdrop_id INT NOT NULL REFERENCES airdrops(id) ON DELETE CASCADE,
+  line INT NOT NULL,                       -- CSV line, for reports
+  address TEXT NOT NULL,                   -- lowercased hex
+  asset TEXT NOT NULL,                     -- "native" or token address
+  amount NUMERIC(78, 0) NOT NULL,          -- base units
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending','signed','sent','failed')),
+  nonce INT,                               -- disperse batches share nonce/hash/raw tx
+  tx_hash TEXT,
+  raw_tx TEXT,
+  error TEXT,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  UNIQUE (airdrop_id, address, asset)
+);
+CREATE INDEX IF NOT EXISTS idx_airdrop_items_status ON airdrop_items(airdrop_id, status);
+CREATE INDEX IF NOT EXISTS idx_airdrop_items_nonce ON airdrop_items(nonce) WHERE tx_hash IS NOT NULL;
+
+-- migrate:down
+DROP TABLE IF EXISTS airdrop_items;
+DROP TABLE IF EXISTS airdrops;
@@ -0,0 +1,9 @@
+-- Correlation id of the API request that created a row, so worker and reconciler log
+-- lines (and operators) can tie a tx back to the /drip call that caused it.
+-- migrate:up
+ALTER TABLE requests ADD COLUMN IF NOT EXISTS correlation_id TEXT;
+CREATE INDEX IF NOT EXISTS idx_requests_correlation_id ON requests(correlation_id) WHERE correlation_id IS NOT NULL;
+
+-- migrate:down
+DROP INDEX IF EXISTS idx_requests_correlation_id;
+ALTER TABLE requests DROP COLUMN IF EXISTS correlation_id;
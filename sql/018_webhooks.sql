@@ -0,0 +1,49 @@
+-- Outbound webhooks. Emitters write deliveries (one per matching endpoint) in their
+-- own transaction — an outbox, so a rolled-back change never notifies anyone. The
+-- worker queues pending deliveries on BullMQ and logs every attempt.
+-- migrate:up
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id SERIAL PRIMARY KEY,
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL,                    -- HMAC key; shown to the admin once, at creation
+  events TEXT[] NOT NULL,                  -- event types, "<group>.*" or "*"
+  chain_id INT,                            -- null = every chain
+  description TEXT,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id SERIAL PRIMARY KEY,
+  endpoint_id INT NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  event_key TEXT NOT NULL,                 -- same event from two emitters lands once
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,                  -- the envelope, signed as sent
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending','delivered','failed')),
+  attempts INT NOT NULL DEFAULT 0,
+  last_status_code INT,
+  last_error TEXT,
+  queued_at TIMESTAMP,                     -- handed to the delivery queue
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMP,
+  UNIQUE (endpoint_id, event_key)
+);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_pending ON webhook_deliveries(id) WHERE status='pending';
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint ON webhook_deliveries(endpoint_id, id);
+
+CREATE TABLE IF NOT EXISTS webhook_attempts (
+  id SERIAL PRIMARY KEY,
+  delivery_id INT NOT NULL REFERENCES webhook_deliveries(id) ON DELETE CASCADE,
+  attempt INT NOT NULL,                    -- 1-based
+  status_code INT,                         -- null when no response arrived
+  error TEXT,
+  duration_ms INT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_webhook_attempts_delivery ON webhook_attempts(delivery_id, id);
+
+-- migrate:down
+DROP TABLE IF EXISTS webhook_attempts;
+DROP TABLE IF EXISTS webhook_deliveries;
+DROP TABLE IF EXISTS webhook_endpoints;
@@ -0,0 +1,29 @@
+-- Sybil/abuse score computed at /drip, with the reasons behind it, and a 'review'
+-- status for requests held until an admin releases or rejects them.
+-- migrate:up
+ALTER TABLE requests
+  DROP CONSTRAINT IF EXISTS requests_status_check;
+
+ALTER TABLE requests
+  ADD CONSTRAINT requests_status_check
+  CHECK (status IN ('review','queued','broadcast','confirming','sent','failed'));
+
+ALTER TABLE requests
+  ADD COLUMN IF NOT EXISTS abuse_score INT,      -- 0..100; NULL for rows created before scoring
+  ADD COLUMN IF NOT EXISTS abuse_reasons JSONB;  -- array of strings
+
+-- Admin review queue
+CREATE INDEX IF NOT EXISTS idx_requests_review ON requests (id) WHERE status='review';
+
+-- migrate:down
+DROP INDEX IF EXISTS idx_requests_review;
+ALTER TABLE requests
+  DROP COLUMN IF EXISTS abuse_reasons,
+  DROP COLUMN IF EXISTS abuse_score;
+
+UPDATE requests SET status='failed', reason='review dropped by rollback' WHERE status='review';
+ALTER TABLE requests
+  DROP CONSTRAINT IF EXISTS requests_status_check;
+ALTER TABLE requests
+  ADD CONSTRAINT requests_status_check
+  CHECK (status IN ('queued','broadcast','confirming','sent','failed'));
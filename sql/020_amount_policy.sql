@@ -0,0 +1,7 @@
+-- How a request's amount was chosen (tier, top-up, scaling; see amountPolicy.ts).
+-- requests.amount stays the amount actually sent.
+-- migrate:up
+ALTER TABLE requests ADD COLUMN IF NOT EXISTS amount_policy JSONB;
+
+-- migrate:down
+ALTER TABLE requests DROP COLUMN IF EXISTS amount_policy;
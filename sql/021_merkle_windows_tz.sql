@@ -0,0 +1,15 @@
+-- Merkle root windows as absolute instants. Allowlist files carry ISO times with an
+-- offset, which TIMESTAMP silently dropped; existing values are taken as UTC.
+-- migrate:up
+ALTER TABLE merkle_roots
+  ALTER COLUMN activates_at TYPE TIMESTAMPTZ USING activates_at AT TIME ZONE 'UTC',
+  ALTER COLUMN expires_at TYPE TIMESTAMPTZ USING expires_at AT TIME ZONE 'UTC',
+  ALTER COLUMN revoked_at TYPE TIMESTAMPTZ USING revoked_at AT TIME ZONE 'UTC',
+  ALTER COLUMN created_at TYPE TIMESTAMPTZ USING created_at AT TIME ZONE 'UTC';
+
+-- migrate:down
+ALTER TABLE merkle_roots
+  ALTER COLUMN activates_at TYPE TIMESTAMP USING activates_at AT TIME ZONE 'UTC',
+  ALTER COLUMN expires_at TYPE TIMESTAMP USING expires_at AT TIME ZONE 'UTC',
+  ALTER COLUMN revoked_at TYPE TIMESTAMP USING revoked_at AT TIME ZONE 'UTC',
+  ALTER COLUMN created_at TYPE TIMESTAMP USING created_at AT TIME ZONE 'UTC';
@@ -0,0 +1,14 @@
+-- What markBroadcast charged to the chain's budget for a request, and when, so a tx
+-- that never went out (refused by the node, or dropped) can be given back to the
+-- windows it was charged to. NULL = nothing charged (or already refunded).
+-- migrate:up
+ALTER TABLE requests
+  ADD COLUMN IF NOT EXISTS budget_drips INT,
+  ADD COLUMN IF NOT EXISTS budget_wei NUMERIC(78, 0),
+  ADD COLUMN IF NOT EXISTS budget_at TIMESTAMPTZ;
+
+-- migrate:down
+ALTER TABLE requests
+  DROP COLUMN IF EXISTS budget_at,
+  DROP COLUMN IF EXISTS budget_wei,
+  DROP COLUMN IF EXISTS budget_drips;
@@ -0,0 +1,18 @@
+-- rate_limit_overrides.label held the raw IP or address an admin typed, contrary to
+-- 014's rule that raw IPs, addresses and tokens are never stored. Labels are now
+-- masked (see overrideLabel() in rateLimitPolicy.ts); mask the rows already written.
+-- migrate:up
+UPDATE rate_limit_overrides
+   SET label = left(label, 6) || '…' || right(label, 4)
+ WHERE dimension='address' AND label ~ '^0x[0-9a-f]{40}$';
+
+UPDATE rate_limit_overrides
+   SET label = CASE family(label::inet)
+                 WHEN 4 THEN regexp_replace(label, '\.\d+$', '.*')
+                 ELSE host(network(set_masklen(label::inet, 64))) || '*'
+               END
+ WHERE dimension='ip' AND label !~ '\*$';
+
+-- migrate:down
+-- The raw values are gone; masked labels stay masked.
+SELECT 1;
@@ -0,0 +1,13 @@
+-- Allowlist times as absolute instants, like merkle_roots (021). Expiries are given as ISO
+-- times with an offset, which TIMESTAMP silently dropped; existing values are taken as UTC.
+-- migrate:up
+ALTER TABLE allowlist
+  ALTER COLUMN created_at TYPE TIMESTAMPTZ USING created_at AT TIME ZONE 'UTC',
+  ALTER COLUMN expires_at TYPE TIMESTAMPTZ USING expires_at AT TIME ZONE 'UTC',
+  ALTER COLUMN revoked_at TYPE TIMESTAMPTZ USING revoked_at AT TIME ZONE 'UTC';
+
+-- migrate:down
+ALTER TABLE allowlist
+  ALTER COLUMN created_at TYPE TIMESTAMP USING created_at AT TIME ZONE 'UTC',
+  ALTER COLUMN expires_at TYPE TIMESTAMP USING expires_at AT TIME ZONE 'UTC',
+  ALTER COLUMN revoked_at TYPE TIMESTAMP USING revoked_at AT TIME ZONE 'UTC';
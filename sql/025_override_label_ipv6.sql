@@ -0,0 +1,11 @@
+-- IPv6 override labels written by the API were zero-padded ("2001:0db8:0001:0002::*")
+-- while 023 masked older rows through host() ("2001:db8:1:2::*"). overrideLabel() now
+-- prints host()'s form; rewrite the padded labels to match.
+-- migrate:up
+UPDATE rate_limit_overrides
+   SET label = host(rtrim(label, '*')::inet) || '*'
+ WHERE dimension='ip' AND label LIKE '%::*';
+
+-- migrate:down
+-- Both forms name the same /64; the compact one stays.
+SELECT 1;
@@ -0,0 +1,26 @@
+-- Session and SIWE nonce times as absolute instants, like merkle_roots (021) and the
+-- allowlist (024). Read back as TIMESTAMP, max_expires_at shifted by the host's UTC offset
+-- when a session was rotated; existing values are taken as UTC.
+-- migrate:up
+ALTER TABLE sessions
+  ALTER COLUMN created_at TYPE TIMESTAMPTZ USING created_at AT TIME ZONE 'UTC',
+  ALTER COLUMN expires_at TYPE TIMESTAMPTZ USING expires_at AT TIME ZONE 'UTC',
+  ALTER COLUMN last_seen_at TYPE TIMESTAMPTZ USING last_seen_at AT TIME ZONE 'UTC',
+  ALTER COLUMN max_expires_at TYPE TIMESTAMPTZ USING max_expires_at AT TIME ZONE 'UTC',
+  ALTER COLUMN revoked_at TYPE TIMESTAMPTZ USING revoked_at AT TIME ZONE 'UTC';
+
+ALTER TABLE nonces
+  ALTER COLUMN created_at TYPE TIMESTAMPTZ USING created_at AT TIME ZONE 'UTC',
+  ALTER COLUMN expires_at TYPE TIMESTAMPTZ USING expires_at AT TIME ZONE 'UTC';
+
+-- migrate:down
+ALTER TABLE nonces
+  ALTER COLUMN created_at TYPE TIMESTAMP USING created_at AT TIME ZONE 'UTC',
+  ALTER COLUMN expires_at TYPE TIMESTAMP USING expires_at AT TIME ZONE 'UTC';
+
+ALTER TABLE sessions
+  ALTER COLUMN created_at TYPE TIMESTAMP USING created_at AT TIME ZONE 'UTC',
+  ALTER COLUMN expires_at TYPE TIMESTAMP USING expires_at AT TIME ZONE 'UTC',
+  ALTER COLUMN last_seen_at TYPE TIMESTAMP USING last_seen_at AT TIME ZONE 'UTC',
+  ALTER COLUMN max_expires_at TYPE TIMESTAMP USING max_expires_at AT TIME ZONE 'UTC',
+  ALTER COLUMN revoked_at TYPE TIMESTAMP USING revoked_at AT TIME ZONE 'UTC';